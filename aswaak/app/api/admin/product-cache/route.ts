@@ -0,0 +1,67 @@
+import { NextResponse } from "next/server"
+import { isAdminRequest } from "@/lib/auth/admin-token"
+import { getLookupCache, type LookupCacheFilter } from "@/lib/product-sources"
+
+function getFilter(searchParams: URLSearchParams): LookupCacheFilter {
+  return {
+    barcode: searchParams.get("barcode") || undefined,
+    source: searchParams.get("source") || undefined,
+  }
+}
+
+// List cached lookups, optionally filtered by barcode and/or source
+export async function GET(request: Request) {
+  if (!isAdminRequest(request)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+
+  try {
+    const { searchParams } = new URL(request.url)
+    const entries = await getLookupCache().list(getFilter(searchParams))
+
+    return NextResponse.json({
+      total: entries.length,
+      found: entries.filter((entry) => entry.data).length,
+      notFound: entries.filter((entry) => !entry.data).length,
+      entries,
+    })
+  } catch (error) {
+    console.error("Error listing product cache:", error)
+    return NextResponse.json(
+      {
+        error: "Failed to list product cache",
+        message: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 },
+    )
+  }
+}
+
+// Purge cached lookups by barcode and/or source. Purging everything requires ?all=true.
+export async function DELETE(request: Request) {
+  if (!isAdminRequest(request)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+
+  const { searchParams } = new URL(request.url)
+  const filter = getFilter(searchParams)
+
+  if (!filter.barcode && !filter.source && searchParams.get("all") !== "true") {
+    return NextResponse.json({ error: "Specify a barcode or source, or all=true to purge everything" }, { status: 400 })
+  }
+
+  try {
+    const purged = await getLookupCache().purge(filter)
+    console.log(`Purged ${purged} product cache entries`, filter)
+    return NextResponse.json({ purged })
+  } catch (error) {
+    console.error("Error purging product cache:", error)
+    return NextResponse.json(
+      {
+        error: "Failed to purge product cache",
+        message: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 },
+    )
+  }
+}
@@ -1,21 +1,36 @@
 import { NextResponse } from "next/server"
-import { fetchProductInfoFromSource } from "../fetch-product/route"
+import {
+  fetchMergedProductInfo,
+  fetchProductInfoFromSource,
+  getEnabledProductSources,
+  getProductSource,
+  parseFieldPriority,
+} from "@/lib/product-sources"
+import { validateBarcode } from "@/lib/barcode"
 
 // Update the POST function to handle smaller batches more efficiently
 
 export async function POST(request: Request) {
   try {
-    const { barcodes, sources } = await request.json()
+    const { barcodes, sources, mode, fieldPriority } = await request.json()
     console.log(`Received batch process request for ${barcodes.length} barcodes with sources:`, sources)
 
     if (!barcodes || !Array.isArray(barcodes) || barcodes.length === 0) {
       return NextResponse.json({ error: "Valid barcodes array is required" }, { status: 400 })
     }
 
-    // Validate sources
-    const validSources = sources || ["aswak1", "aswak2", "openfoodfacts"]
+    // Validate sources against the registry, defaulting to every enabled source in priority order
+    const validSources: string[] = Array.isArray(sources)
+      ? sources.filter((source: string) => !!getProductSource(source))
+      : getEnabledProductSources().map((provider) => provider.id)
     console.log("Using sources:", validSources)
 
+    if (validSources.length === 0) {
+      return NextResponse.json({ error: "At least one known source is required" }, { status: 400 })
+    }
+
+    const priority = parseFieldPriority(fieldPriority)
+
     // Limit the number of barcodes to process per request to avoid timeouts
     const MAX_BARCODES = 10
     const barcodesToProcess = barcodes.slice(0, MAX_BARCODES)
@@ -29,9 +44,33 @@ export async function POST(request: Request) {
       const batch = barcodesToProcess.slice(i, i + CONCURRENCY_LIMIT)
       console.log(`Processing batch ${Math.floor(i / CONCURRENCY_LIMIT) + 1} with ${batch.length} barcodes`)
 
-      const batchPromises = batch.map(async (barcode) => {
+      const batchPromises = batch.map(async (rawBarcode: string) => {
+        const validation = validateBarcode(String(rawBarcode))
+        if (!validation.valid) {
+          console.log(`Skipping invalid barcode ${rawBarcode}: ${validation.error}`)
+          return { barcode: rawBarcode, success: false, error: `Invalid barcode: ${validation.error}` }
+        }
+
+        // In-store codes (prefix 20–29) are assigned by the shop and never listed in external catalogs
+        if (validation.isInStore) {
+          console.log(`Skipping in-store barcode ${rawBarcode}`)
+          return { barcode: rawBarcode, success: false, error: "In-store barcode", isInStore: true }
+        }
+
+        // Catalogs know UPC-E products by their UPC-A code
+        const barcode = validation.expanded || validation.input
+
         try {
           console.log(`Processing barcode: ${barcode}`)
+
+          // In merge mode, query every selected source and combine the fields
+          if (mode === "merge") {
+            const productInfo = await fetchMergedProductInfo(barcode, { sources: validSources, priority })
+            return productInfo
+              ? { barcode, success: true, data: productInfo }
+              : { barcode, success: false, error: "Product not found in any selected source" }
+          }
+
           // Try each source in order until we find product info
           for (const source of validSources) {
             console.log(`Trying source ${source} for barcode ${barcode}`)
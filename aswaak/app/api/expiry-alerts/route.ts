@@ -0,0 +1,43 @@
+import { NextResponse } from "next/server"
+import { isAdminRequest } from "@/lib/auth/admin-token"
+import { DEFAULT_MARKDOWN_PERCENT, generateExpiryAlerts } from "@/services/expiry-alert-service"
+
+// Run the expiry check. Meant to be called on a schedule (cron, or curl locally):
+//   curl -X POST -H "Authorization: Bearer $ADMIN_API_TOKEN" "http://localhost:3000/api/expiry-alerts?markdownPercent=30"
+async function runExpiryCheck(request: Request) {
+  if (!isAdminRequest(request)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+
+  const { searchParams } = new URL(request.url)
+  const markdownPercent = Number(
+    searchParams.get("markdownPercent") || process.env.EXPIRY_MARKDOWN_PERCENT || DEFAULT_MARKDOWN_PERCENT,
+  )
+
+  if (Number.isNaN(markdownPercent) || markdownPercent < 0 || markdownPercent > 100) {
+    return NextResponse.json({ error: "markdownPercent must be between 0 and 100" }, { status: 400 })
+  }
+
+  try {
+    const created = await generateExpiryAlerts(markdownPercent)
+    return NextResponse.json({ created, markdownPercent })
+  } catch (error) {
+    console.error("Error running expiry check:", error)
+    return NextResponse.json(
+      {
+        error: "Failed to run expiry check",
+        message: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 },
+    )
+  }
+}
+
+// Schedulers such as Vercel Cron send GET requests
+export async function GET(request: Request) {
+  return runExpiryCheck(request)
+}
+
+export async function POST(request: Request) {
+  return runExpiryCheck(request)
+}
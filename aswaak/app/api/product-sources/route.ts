@@ -0,0 +1,7 @@
+import { NextResponse } from "next/server"
+import { getProductSourceOptions } from "@/lib/product-sources"
+
+// Registered product sources, for the source pickers in the browser. The registry itself stays on the server.
+export async function GET() {
+  return NextResponse.json({ sources: getProductSourceOptions() })
+}
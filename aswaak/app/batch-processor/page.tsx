@@ -2,14 +2,20 @@
 
 import { useState } from "react"
 import { BatchBarcodeProcessor, type ProcessingResult } from "@/components/batch-barcode-processor"
+import { ShelfScanner } from "@/components/shelf-scanner"
+import { ImageBarcodeScanner } from "@/components/image-barcode-scanner"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent } from "@/components/ui/card"
 import { useToast } from "@/hooks/use-toast"
 import { AlertCircle, Loader2, ExternalLink, Save } from "lucide-react"
-import { supabase, isSupabaseInitialized } from "@/lib/supabase"
+import { isSupabaseInitialized } from "@/lib/supabase"
+import { getCurrentUserId } from "@/lib/auth"
+import { normalizeBarcode } from "@/lib/barcode"
+import { productRepository } from "@/services/product-repository"
 
 export default function BatchProcessorPage() {
   const [results, setResults] = useState<ProcessingResult[]>([])
+  const [scannedBarcodes, setScannedBarcodes] = useState<string[]>([])
   const [isSaving, setIsSaving] = useState(false)
   const { toast } = useToast()
 
@@ -49,55 +55,45 @@ export default function BatchProcessorPage() {
           try {
             console.log(`Saving product: ${result.barcode}`, result.product)
 
-            // Create a new product without an ID (the database will assign one)
-            const productToSave = {
-              barcode: result.product.barcode,
-              name: result.product.name,
-              price: result.product.price || "",
-              stock: 0, // Default stock
-              min_stock: 0, // Default min stock
-              image: result.product.image,
-              data_source: result.product.data_source,
-              created_at: new Date().toISOString(),
-              updated_at: new Date().toISOString(),
-              created_by: "batch_processor",
-              updated_by: "batch_processor",
-            }
-
             // First check if the product already exists
-            const { data: existingProduct } = await supabase
-              .from("products")
-              .select("id")
-              .eq("barcode", result.product.barcode)
-              .single()
-
-            let saveResult
+            const existingProduct = await productRepository.findByBarcode(result.barcode)
 
-            if (existingProduct) {
+            if (existingProduct?.id) {
               // Update existing product
               console.log(`Product ${result.barcode} already exists, updating...`)
-              saveResult = await supabase
-                .from("products")
-                .update({
+              await productRepository.update(
+                existingProduct.id,
+                {
                   name: result.product.name,
                   image: result.product.image,
                   data_source: result.product.data_source,
                   updated_at: new Date().toISOString(),
-                  updated_by: "batch_processor",
-                })
-                .eq("id", existingProduct.id)
+                  updated_by: getCurrentUserId() || "batch_processor",
+                },
+                "batch",
+              )
             } else {
-              // Insert new product
-              saveResult = await supabase.from("products").insert(productToSave)
+              // Create a new product without an ID (the database will assign one)
+              await productRepository.create(
+                {
+                  barcode: normalizeBarcode(result.barcode),
+                  name: result.product.name,
+                  price: result.product.price ? String(result.product.price) : "",
+                  stock: 0, // Default stock
+                  min_stock: 0, // Default min stock
+                  image: result.product.image,
+                  data_source: result.product.data_source,
+                  created_at: new Date().toISOString(),
+                  updated_at: new Date().toISOString(),
+                  created_by: getCurrentUserId() || "batch_processor",
+                  updated_by: getCurrentUserId() || "batch_processor",
+                },
+                "batch",
+              )
             }
 
-            if (saveResult.error) {
-              console.error(`Error saving product ${result.barcode}:`, saveResult.error)
-              errorCount++
-            } else {
-              console.log(`Successfully saved product: ${result.barcode}`)
-              savedCount++
-            }
+            console.log(`Successfully saved product: ${result.barcode}`)
+            savedCount++
           } catch (error) {
             console.error(`Error saving product ${result.barcode}:`, error)
             errorCount++
@@ -171,7 +167,9 @@ export default function BatchProcessorPage() {
 
       <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
         <div>
-          <BatchBarcodeProcessor onProcessComplete={handleProcessComplete} />
+          <ShelfScanner onSendToBatch={setScannedBarcodes} />
+          <ImageBarcodeScanner onSendToBatch={setScannedBarcodes} />
+          <BatchBarcodeProcessor onProcessComplete={handleProcessComplete} scannedBarcodes={scannedBarcodes} />
         </div>
 
         <div className="space-y-6">
@@ -0,0 +1,147 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { CalendarClock, Loader2, RefreshCw } from "lucide-react"
+import { useToast } from "@/hooks/use-toast"
+import { ExpiryAlerts } from "@/components/expiry-alerts"
+import { fetchExpiringLots } from "@/services/stock-lot-service"
+import type { ExpiringStockLot } from "@/types/stock-lot"
+
+type ExpiryFilter = "all" | "expired" | "expiring"
+
+const parseCost = (value: string | number | null | undefined) =>
+  Number.parseFloat(String(value ?? "").replace(",", ".")) || 0
+
+export default function ExpiryPage() {
+  const [lots, setLots] = useState<ExpiringStockLot[]>([])
+  const [filter, setFilter] = useState<ExpiryFilter>("all")
+  const [isLoading, setIsLoading] = useState(false)
+  const { toast } = useToast()
+
+  const loadLots = async () => {
+    try {
+      setIsLoading(true)
+      setLots(await fetchExpiringLots())
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to load expiring lots",
+        variant: "destructive",
+      })
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    loadLots()
+  }, [])
+
+  const expired = lots.filter((lot) => lot.days_left < 0)
+  const expiring = lots.filter((lot) => lot.days_left >= 0)
+  const visibleLots = filter === "expired" ? expired : filter === "expiring" ? expiring : lots
+
+  const getValue = (items: ExpiringStockLot[]) =>
+    items.reduce((sum, lot) => sum + lot.quantity * parseCost(lot.product?.purchase_price), 0)
+
+  return (
+    <div className="container py-6 max-w-4xl space-y-6">
+      <div className="flex items-end justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold">Expiry</h1>
+          <p className="text-muted-foreground">Lots in stock within their product&apos;s expiry notification window</p>
+        </div>
+        <Button variant="outline" onClick={loadLots} disabled={isLoading}>
+          <RefreshCw className={`h-4 w-4 mr-2 ${isLoading ? "animate-spin" : ""}`} />
+          Refresh
+        </Button>
+      </div>
+
+      <ExpiryAlerts onResolved={loadLots} />
+
+      <div className="grid gap-4 md:grid-cols-2">
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>Expired</CardDescription>
+            <CardTitle className="text-destructive">{expired.length} lots</CardTitle>
+          </CardHeader>
+          <CardContent className="text-sm text-muted-foreground">{getValue(expired).toFixed(2)} DH at cost</CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>Expiring soon</CardDescription>
+            <CardTitle>{expiring.length} lots</CardTitle>
+          </CardHeader>
+          <CardContent className="text-sm text-muted-foreground">{getValue(expiring).toFixed(2)} DH at cost</CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between gap-2 pb-2">
+          <CardTitle className="text-base">Lots</CardTitle>
+          <Tabs value={filter} onValueChange={(value) => setFilter(value as ExpiryFilter)}>
+            <TabsList>
+              <TabsTrigger value="all">All</TabsTrigger>
+              <TabsTrigger value="expired">Expired</TabsTrigger>
+              <TabsTrigger value="expiring">Expiring</TabsTrigger>
+            </TabsList>
+          </Tabs>
+        </CardHeader>
+        <CardContent>
+          {isLoading && lots.length === 0 ? (
+            <div className="flex justify-center py-6">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : visibleLots.length === 0 ? (
+            <div className="text-center py-6">
+              <CalendarClock className="h-10 w-10 mx-auto text-muted-foreground mb-2" />
+              <p className="text-muted-foreground">No lots to show</p>
+            </div>
+          ) : (
+            <div className="rounded-md border overflow-hidden">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Product</TableHead>
+                    <TableHead>Lot</TableHead>
+                    <TableHead>Expiry</TableHead>
+                    <TableHead className="text-right">Quantity</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {visibleLots.map((lot) => (
+                    <TableRow key={lot.id}>
+                      <TableCell>
+                        <div className="flex flex-col">
+                          <span className="truncate max-w-[220px]">{lot.product?.name || lot.product_id}</span>
+                          <span className="text-xs text-muted-foreground">{lot.product?.barcode}</span>
+                        </div>
+                      </TableCell>
+                      <TableCell>{lot.lot_number || "—"}</TableCell>
+                      <TableCell>
+                        <div className="flex items-center gap-2">
+                          <span>{new Date(lot.expiry_date).toLocaleDateString()}</span>
+                          {lot.days_left < 0 ? (
+                            <Badge variant="destructive">Expired</Badge>
+                          ) : (
+                            <Badge variant="secondary">{lot.days_left === 0 ? "Today" : `${lot.days_left}d`}</Badge>
+                          )}
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-right font-medium">{lot.quantity}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -28,51 +28,100 @@ import {
 } from "lucide-react"
 import { Badge } from "@/components/ui/badge"
 import { useToast } from "@/hooks/use-toast"
+import { useSearchParams } from "next/navigation"
 import { ProductForm } from "@/components/product-form"
 import { ProductDisplay } from "@/components/product-display"
 import { fetchCategories } from "@/services/category-service"
 import { saveProduct } from "@/services/product-service"
-import type { Product, Category } from "@/types/product"
+import {
+  clearScanEvents,
+  deleteScanEvent,
+  fetchScanEvents,
+  getDeviceId,
+  SCAN_RESULT_LABELS,
+  type ScanHistoryQuery,
+} from "@/services/scan-history-service"
+import type { LoadedProductValues, Product, Category } from "@/types/product"
+import type { ScanEvent, ScanEventResult } from "@/types/scan-event"
+
+type SortField = NonNullable<ScanHistoryQuery["sortField"]>
 
 export default function HistoryPage() {
-  const [history, setHistory] = useState<Product[]>([])
-  const [filteredHistory, setFilteredHistory] = useState<Product[]>([])
+  const searchParams = useSearchParams()
+  const [events, setEvents] = useState<ScanEvent[]>([])
+  const [totalEvents, setTotalEvents] = useState(0)
   const [currentPage, setCurrentPage] = useState(1)
-  const [searchQuery, setSearchQuery] = useState("")
+  const [searchQuery, setSearchQuery] = useState(searchParams.get("search") || "")
+  const [debouncedSearch, setDebouncedSearch] = useState(searchQuery)
+  const [resultFilter, setResultFilter] = useState<ScanEventResult | "all">("all")
+  const [deviceFilter, setDeviceFilter] = useState<"all" | "this">("all")
   const [itemsPerPage, setItemsPerPage] = useState(10)
-  const [sortField, setSortField] = useState<string>("created_at")
+  const [sortField, setSortField] = useState<SortField>("created_at")
   const [sortDirection, setSortDirection] = useState<"asc" | "desc">("desc")
   const [categories, setCategories] = useState<Category[]>([])
   const [selectedProduct, setSelectedProduct] = useState<Product | null>(null)
   const [showForm, setShowForm] = useState(false)
   const [isLoading, setIsLoading] = useState(false)
+  const [isLoadingHistory, setIsLoadingHistory] = useState(false)
   const [showProductDetails, setShowProductDetails] = useState(false)
   const { toast } = useToast()
   const [refreshTrigger, setRefreshTrigger] = useState(0)
 
-  // Load history from localStorage
+  // Wait until typing pauses before querying the server
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedSearch(searchQuery), 300)
+    return () => clearTimeout(timeout)
+  }, [searchQuery])
+
+  // Go back to the first page whenever the filters change
   useEffect(() => {
-    const loadHistory = () => {
-      const storedHistory = localStorage.getItem("scanHistory")
-      if (storedHistory) {
-        try {
-          const parsedHistory = JSON.parse(storedHistory)
-          setHistory(parsedHistory)
-          setFilteredHistory(parsedHistory)
-        } catch (error) {
-          console.error("Error parsing scan history:", error)
-          toast({
-            title: "Error",
-            description: "Failed to load scan history",
-            variant: "destructive",
-          })
-        }
+    setCurrentPage(1)
+  }, [debouncedSearch, resultFilter, deviceFilter, itemsPerPage, sortField, sortDirection])
+
+  // Load the current page of the scan history
+  useEffect(() => {
+    const loadHistory = async () => {
+      setIsLoadingHistory(true)
+      try {
+        const { events, total } = await fetchScanEvents({
+          page: currentPage,
+          pageSize: itemsPerPage,
+          search: debouncedSearch,
+          result: resultFilter,
+          deviceId: deviceFilter === "this" ? getDeviceId() : undefined,
+          sortField,
+          sortDirection,
+        })
+        setEvents(events)
+        setTotalEvents(total)
+      } catch (error) {
+        console.error("Error loading scan history:", error)
+        toast({
+          title: "Error",
+          description: "Failed to load scan history",
+          variant: "destructive",
+        })
+      } finally {
+        setIsLoadingHistory(false)
       }
     }
 
     loadHistory()
+  }, [
+    toast,
+    refreshTrigger,
+    currentPage,
+    itemsPerPage,
+    debouncedSearch,
+    resultFilter,
+    deviceFilter,
+    sortField,
+    sortDirection,
+  ])
+
+  useEffect(() => {
     loadCategories()
-  }, [toast, refreshTrigger])
+  }, [])
 
   // Load categories
   const loadCategories = async () => {
@@ -84,61 +133,10 @@ export default function HistoryPage() {
     }
   }
 
-  // Filter and sort history when search query or sort parameters change
-  useEffect(() => {
-    let filtered = [...history]
-
-    // Apply search filter
-    if (searchQuery.trim()) {
-      const query = searchQuery.toLowerCase()
-      filtered = filtered.filter(
-        (product) => product.name.toLowerCase().includes(query) || (product.barcode && product.barcode.includes(query)),
-      )
-    }
-
-    // Apply sorting
-    filtered.sort((a, b) => {
-      let valueA: any
-      let valueB: any
-
-      // Handle different field types
-      switch (sortField) {
-        case "name":
-          valueA = a.name.toLowerCase()
-          valueB = b.name.toLowerCase()
-          break
-        case "price":
-          valueA = Number.parseFloat(a.price)
-          valueB = Number.parseFloat(b.price)
-          break
-        case "stock":
-          valueA = a.stock
-          valueB = b.stock
-          break
-        case "created_at":
-        default:
-          valueA = a.created_at ? new Date(a.created_at).getTime() : 0
-          valueB = b.created_at ? new Date(b.created_at).getTime() : 0
-          break
-      }
-
-      // Apply sort direction
-      if (sortDirection === "asc") {
-        return valueA > valueB ? 1 : -1
-      } else {
-        return valueA < valueB ? 1 : -1
-      }
-    })
-
-    setFilteredHistory(filtered)
-    setCurrentPage(1)
-  }, [searchQuery, history, sortField, sortDirection])
-
   // Calculate pagination
-  const totalPages = Math.ceil(filteredHistory.length / itemsPerPage)
+  const totalPages = Math.ceil(totalEvents / itemsPerPage)
   const startIndex = (currentPage - 1) * itemsPerPage
-  const endIndex = startIndex + itemsPerPage
-  const currentItems = filteredHistory.slice(startIndex, endIndex)
+  const endIndex = startIndex + events.length
 
   // Handle page change
   const goToPage = (page: number) => {
@@ -147,7 +145,7 @@ export default function HistoryPage() {
   }
 
   // Handle sort change
-  const handleSort = (field: string) => {
+  const handleSort = (field: SortField) => {
     if (field === sortField) {
       // Toggle direction if same field
       setSortDirection(sortDirection === "asc" ? "desc" : "asc")
@@ -188,45 +186,32 @@ export default function HistoryPage() {
     setShowProductDetails(true)
   }
 
-  // Handle product delete
-  const handleDeleteProduct = (product: Product) => {
+  // Remove a single scan from the history
+  const handleDeleteEvent = async (event: ScanEvent) => {
     try {
-      // Remove from history array
-      const updatedHistory = history.filter((p) => p.barcode !== product.barcode || p.id !== product.id)
-
-      // Update state
-      setHistory(updatedHistory)
-
-      // Update localStorage
-      localStorage.setItem("scanHistory", JSON.stringify(updatedHistory))
+      await deleteScanEvent(event.id)
+      setRefreshTrigger((prev) => prev + 1)
 
       toast({
-        title: "Product removed",
-        description: "Product has been removed from history",
+        title: "Scan removed",
+        description: "The scan has been removed from history",
       })
     } catch (error) {
-      console.error("Error removing product from history:", error)
+      console.error("Error removing scan from history:", error)
       toast({
         title: "Error",
-        description: "Failed to remove product from history",
+        description: "Failed to remove scan from history",
         variant: "destructive",
       })
     }
   }
 
   // Handle form submission
-  const handleFormSubmit = async (product: Product) => {
+  const handleFormSubmit = async (product: Product, loaded?: LoadedProductValues) => {
     setIsLoading(true)
     try {
-      const savedProduct = await saveProduct(product)
-
-      // Update the product in history
-      const updatedHistory = history.map((p) =>
-        p.id === product.id || p.barcode === product.barcode ? savedProduct : p,
-      )
-
-      setHistory(updatedHistory)
-      localStorage.setItem("scanHistory", JSON.stringify(updatedHistory))
+      await saveProduct(product, "manual", loaded)
+      setRefreshTrigger((prev) => prev + 1)
 
       toast({
         title: "Product updated",
@@ -246,27 +231,23 @@ export default function HistoryPage() {
     }
   }
 
-  // Clear all history
-  const clearAllHistory = () => {
-    localStorage.removeItem("scanHistory")
-    setHistory([])
-    setFilteredHistory([])
-    toast({
-      title: "History cleared",
-      description: "All scan history has been cleared",
-    })
-  }
-
-  // Get category name
-  const getCategoryName = (product: Product): string => {
-    if (typeof product.category === "string") {
-      return product.category
-    } else if (product.category && typeof product.category === "object" && "name" in product.category) {
-      return product.category.name
-    } else if (product.categories && typeof product.categories === "object" && "name" in product.categories) {
-      return product.categories.name
+  // Clear the scans recorded on this device
+  const clearDeviceHistory = async () => {
+    try {
+      await clearScanEvents(getDeviceId())
+      setRefreshTrigger((prev) => prev + 1)
+      toast({
+        title: "History cleared",
+        description: "All scans from this device have been cleared",
+      })
+    } catch (error) {
+      console.error("Error clearing scan history:", error)
+      toast({
+        title: "Error",
+        description: "Failed to clear scan history",
+        variant: "destructive",
+      })
     }
-    return "Unknown"
   }
 
   const refreshHistory = () => {
@@ -290,9 +271,9 @@ export default function HistoryPage() {
             <RefreshCw className="h-4 w-4 mr-2" />
             Refresh
           </Button>
-          <Button variant="outline" onClick={clearAllHistory} disabled={history.length === 0}>
+          <Button variant="outline" onClick={clearDeviceHistory} disabled={totalEvents === 0}>
             <Trash2 className="h-4 w-4 mr-2" />
-            Clear All
+            Clear This Device
           </Button>
         </div>
       </div>
@@ -310,7 +291,32 @@ export default function HistoryPage() {
               />
             </div>
 
-            <div className="flex gap-2">
+            <div className="flex flex-wrap gap-2">
+              <Select
+                value={resultFilter}
+                onValueChange={(value) => setResultFilter(value as ScanEventResult | "all")}
+              >
+                <SelectTrigger className="w-[170px]">
+                  <SelectValue placeholder="Result" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All results</SelectItem>
+                  {(Object.keys(SCAN_RESULT_LABELS) as ScanEventResult[]).map((result) => (
+                    <SelectItem key={result} value={result}>
+                      {SCAN_RESULT_LABELS[result]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={deviceFilter} onValueChange={(value) => setDeviceFilter(value as "all" | "this")}>
+                <SelectTrigger className="w-[140px]">
+                  <SelectValue placeholder="Device" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All devices</SelectItem>
+                  <SelectItem value="this">This device</SelectItem>
+                </SelectContent>
+              </Select>
               <Select value={String(itemsPerPage)} onValueChange={(value) => setItemsPerPage(Number.parseInt(value))}>
                 <SelectTrigger className="w-[120px]">
                   <SelectValue placeholder="Rows per page" />
@@ -327,13 +333,17 @@ export default function HistoryPage() {
         </CardHeader>
 
         <CardContent>
-          {filteredHistory.length === 0 ? (
+          {events.length === 0 ? (
             <div className="text-center py-12">
               <Package className="h-12 w-12 mx-auto text-muted-foreground mb-3" />
-              <h3 className="text-lg font-medium">No products found</h3>
-              <p className="text-muted-foreground mt-1">
-                {searchQuery ? "No products match your search criteria" : "Your scan history is empty"}
-              </p>
+              <h3 className="text-lg font-medium">{isLoadingHistory ? "Loading history..." : "No scans found"}</h3>
+              {!isLoadingHistory && (
+                <p className="text-muted-foreground mt-1">
+                  {debouncedSearch || resultFilter !== "all" || deviceFilter !== "all"
+                    ? "No scans match your search criteria"
+                    : "Your scan history is empty"}
+                </p>
+              )}
             </div>
           ) : (
             <>
@@ -344,32 +354,20 @@ export default function HistoryPage() {
                       <TableHead className="w-[300px]">
                         <Button
                           variant="ghost"
-                          onClick={() => handleSort("name")}
+                          onClick={() => handleSort("product_name")}
                           className="flex items-center gap-1 font-medium"
                         >
                           Product
                           <ArrowUpDown className="h-3 w-3" />
                         </Button>
                       </TableHead>
+                      <TableHead>Result</TableHead>
+                      <TableHead>Price</TableHead>
                       <TableHead>
-                        <Button
-                          variant="ghost"
-                          onClick={() => handleSort("price")}
-                          className="flex items-center gap-1 font-medium"
-                        >
-                          Price
-                          <ArrowUpDown className="h-3 w-3" />
-                        </Button>
-                      </TableHead>
-                      <TableHead>
-                        <Button
-                          variant="ghost"
-                          onClick={() => handleSort("stock")}
-                          className="flex items-center gap-1 font-medium"
-                        >
+                        <span className="flex items-center gap-1">
                           Stock
                           <BarChart4 className="h-3 w-3" />
-                        </Button>
+                        </span>
                       </TableHead>
                       <TableHead className="hidden md:table-cell">
                         <Button
@@ -385,56 +383,74 @@ export default function HistoryPage() {
                     </TableRow>
                   </TableHeader>
                   <TableBody>
-                    {currentItems.map((product, index) => (
-                      <TableRow key={`${product.barcode}-${index}`}>
-                        <TableCell className="font-medium">
-                          <div className="flex flex-col">
-                            <span className="truncate max-w-[250px]">{product.name}</span>
-                            <span className="text-xs text-muted-foreground">{product.barcode || "No barcode"}</span>
-                          </div>
-                        </TableCell>
-                        <TableCell>{product.price} DH</TableCell>
-                        <TableCell>
-                          <div className="flex items-center gap-2">
-                            {product.stock}
-                            {product.isLowStock && (
-                              <Badge variant="destructive" className="text-xs">
-                                Low
-                              </Badge>
-                            )}
-                          </div>
-                        </TableCell>
-                        <TableCell className="hidden md:table-cell">{formatDate(product.created_at)}</TableCell>
-                        <TableCell className="text-right">
-                          <div className="flex justify-end gap-2">
-                            <Button
-                              variant="ghost"
-                              size="icon"
-                              onClick={() => handleViewProduct(product)}
-                              title="View details"
-                            >
-                              <Search className="h-4 w-4" />
-                            </Button>
-                            <Button
-                              variant="ghost"
-                              size="icon"
-                              onClick={() => handleEditProduct(product)}
-                              title="Edit product"
-                            >
-                              <Edit className="h-4 w-4" />
-                            </Button>
-                            <Button
-                              variant="ghost"
-                              size="icon"
-                              onClick={() => handleDeleteProduct(product)}
-                              title="Remove from history"
-                            >
-                              <Trash2 className="h-4 w-4" />
-                            </Button>
-                          </div>
-                        </TableCell>
-                      </TableRow>
-                    ))}
+                    {events.map((event) => {
+                      const product = event.product
+
+                      return (
+                        <TableRow key={event.id}>
+                          <TableCell className="font-medium">
+                            <div className="flex flex-col">
+                              <span className="truncate max-w-[250px]">
+                                {product?.name || event.product_name || "Unknown product"}
+                              </span>
+                              <span className="text-xs text-muted-foreground">
+                                {event.barcode}
+                                {event.device_id === getDeviceId() && " • This device"}
+                              </span>
+                            </div>
+                          </TableCell>
+                          <TableCell>
+                            <Badge variant={event.result === "not_found" ? "destructive" : "secondary"}>
+                              {SCAN_RESULT_LABELS[event.result]}
+                            </Badge>
+                          </TableCell>
+                          <TableCell>{product ? `${product.price} DH` : "-"}</TableCell>
+                          <TableCell>
+                            <div className="flex items-center gap-2">
+                              {product ? product.stock : "-"}
+                              {product && (product.stock || 0) <= (product.min_stock || 0) && (
+                                <Badge variant="destructive" className="text-xs">
+                                  Low
+                                </Badge>
+                              )}
+                            </div>
+                          </TableCell>
+                          <TableCell className="hidden md:table-cell">{formatDate(event.created_at)}</TableCell>
+                          <TableCell className="text-right">
+                            <div className="flex justify-end gap-2">
+                              {product && (
+                                <>
+                                  <Button
+                                    variant="ghost"
+                                    size="icon"
+                                    onClick={() => handleViewProduct(product)}
+                                    title="View details"
+                                  >
+                                    <Search className="h-4 w-4" />
+                                  </Button>
+                                  <Button
+                                    variant="ghost"
+                                    size="icon"
+                                    onClick={() => handleEditProduct(product)}
+                                    title="Edit product"
+                                  >
+                                    <Edit className="h-4 w-4" />
+                                  </Button>
+                                </>
+                              )}
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                onClick={() => handleDeleteEvent(event)}
+                                title="Remove from history"
+                              >
+                                <Trash2 className="h-4 w-4" />
+                              </Button>
+                            </div>
+                          </TableCell>
+                        </TableRow>
+                      )
+                    })}
                   </TableBody>
                 </Table>
               </div>
@@ -443,7 +459,7 @@ export default function HistoryPage() {
               {totalPages > 1 && (
                 <div className="flex justify-between items-center mt-4">
                   <div className="text-sm text-muted-foreground">
-                    Showing {startIndex + 1}-{Math.min(endIndex, filteredHistory.length)} of {filteredHistory.length}
+                    Showing {startIndex + 1}-{endIndex} of {totalEvents}
                   </div>
 
                   <div className="flex items-center gap-1">
@@ -494,6 +510,7 @@ export default function HistoryPage() {
               categories={categories}
               onCancel={() => setShowForm(false)}
               onSuccess={handleFormSubmit}
+              loaded={selectedProduct}
               isLoading={isLoading}
             />
           )}
@@ -516,6 +533,7 @@ export default function HistoryPage() {
                   setShowProductDetails(false)
                   setShowForm(true)
                 }}
+                onChange={setSelectedProduct}
               />
             </div>
           )}
@@ -7,12 +7,17 @@ import { Toaster } from "@/components/ui/toaster"
 import { AppSidebar } from "@/components/app-sidebar"
 //import { DebugPanel } from "@/components/debug-panel"
 import { SettingsProvider } from "@/contexts/settings-context"
+import { KeyboardWedgeProvider } from "@/contexts/keyboard-wedge-context"
+import { OfflineSync } from "@/components/offline-sync"
+import { AuthProvider } from "@/contexts/auth-context"
+import { RouteGuard } from "@/components/route-guard"
 
 const inter = Inter({ subsets: ["latin"] })
 
 export const metadata: Metadata = {
   title: "Barcode Scanner",
   description: "Scan and manage products with barcodes",
+  manifest: "/manifest.webmanifest",
 }
 
 export default function RootLayout({
@@ -24,14 +29,20 @@ export default function RootLayout({
     <html lang="en" suppressHydrationWarning>
       <body className={inter.className}>
         <ThemeProvider attribute="class" defaultTheme="system" enableSystem disableTransitionOnChange>
-          <SettingsProvider>
-            <div className="flex min-h-screen flex-col md:flex-row">
-              <AppSidebar />
-              <main className="flex-1 overflow-y-auto">{children}</main>
-            </div>
-            <Toaster />
-          
-          </SettingsProvider>
+          <AuthProvider>
+            <SettingsProvider>
+              <KeyboardWedgeProvider>
+                <div className="flex min-h-screen flex-col md:flex-row">
+                  <AppSidebar />
+                  <main className="flex-1 overflow-y-auto">
+                    <RouteGuard>{children}</RouteGuard>
+                  </main>
+                </div>
+                <OfflineSync />
+                <Toaster />
+              </KeyboardWedgeProvider>
+            </SettingsProvider>
+          </AuthProvider>
         </ThemeProvider>
       </body>
     </html>
@@ -9,10 +9,22 @@ import { BatchBarcodeProcessor } from "@/components/batch-barcode-processor"
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
 import { AlertCircle, Info, Loader2 } from "lucide-react"
 import { useToast } from "@/hooks/use-toast"
-import { fetchProductByBarcode, saveProduct } from "@/services/product-service"
+import { useDeductScannedMeasure } from "@/hooks/use-deduct-scanned-measure"
+import { fetchProductByScannedBarcode, saveProduct } from "@/services/product-service"
 import { fetchCategories } from "@/services/category-service"
+import { recordScanEvent } from "@/services/scan-history-service"
 import { useSettings } from "@/contexts/settings-context"
-import type { Product } from "@/types/product"
+import { useKeyboardWedge } from "@/contexts/keyboard-wedge-context"
+import {
+  DEFAULT_VARIABLE_MEASURE_RULES,
+  formatVariableMeasure,
+  getGs1ProductBarcode,
+  parseGs1,
+  type Gs1Data,
+  type VariableMeasureReading,
+} from "@/lib/barcode"
+import { enqueueOperation, isOfflineError } from "@/lib/offline"
+import type { LoadedProductValues, Product } from "@/types/product"
 import {
   Dialog,
   DialogContent,
@@ -37,7 +49,12 @@ export default function ManualPage() {
   // Add state for existing product dialog
   const [existingProduct, setExistingProduct] = useState<Product | null>(null)
   const [showExistingProductDialog, setShowExistingProductDialog] = useState(false)
+  // Weight or price read from an in-store label
+  const [scannedMeasure, setScannedMeasure] = useState<VariableMeasureReading | null>(null)
+  // Lot and expiry read from a GS1-128 or GS1 DataMatrix case label
+  const [scannedGs1, setScannedGs1] = useState<Gs1Data | null>(null)
   const { toast } = useToast()
+  const { deductScannedMeasure, isDeducting } = useDeductScannedMeasure()
   const { settings } = useSettings()
   const searchParams = useSearchParams()
 
@@ -60,7 +77,25 @@ export default function ManualPage() {
     }
   }, [searchParams])
 
-  const handleBarcodeDetected = async (barcode: string) => {
+  const handleBarcodeDetected = async (scannedCode: string) => {
+    // Case labels carry the GTIN together with lot and expiry; look the product up by its GTIN
+    const gs1 = parseGs1(scannedCode)
+    const barcode = (gs1 && getGs1ProductBarcode(gs1)) || scannedCode
+
+    // Without a connection the lookup cannot run; keep the scan and look it up once back online
+    if (isOfflineError()) {
+      try {
+        await enqueueOperation({ type: "scan", barcode })
+        toast({
+          title: "Scan saved offline",
+          description: `${barcode} will be looked up when the connection returns.`,
+        })
+      } catch (err) {
+        setError(`Error: ${err instanceof Error ? err.message : String(err)}`)
+      }
+      return
+    }
+
     try {
       setIsLoading(true)
       setError(null)
@@ -69,15 +104,33 @@ export default function ManualPage() {
       setCurrentProduct(null)
       setWebProductInfo(null)
       setShowForm(false)
+      setScannedMeasure(null)
+      setScannedGs1(gs1)
 
-      // First, check if the product exists in our database
+      // First, check if the product exists in our database. In-store labels resolve to their base product.
       try {
-        const dbProduct = await fetchProductByBarcode(barcode)
+        const { product: dbProduct, measure } = await fetchProductByScannedBarcode(
+          barcode,
+          settings?.scanning?.variableMeasureRules || DEFAULT_VARIABLE_MEASURE_RULES,
+        )
+        setScannedMeasure(measure)
 
         if (dbProduct) {
           // Product found in database - show the existing product dialog
           setExistingProduct(dbProduct)
           setShowExistingProductDialog(true)
+          recordScanEvent({ barcode, result: "found", product: dbProduct })
+          return
+        }
+
+        if (measure) {
+          // In-store labels are never listed online, so offer to register the base product instead
+          setCurrentBarcode(measure.baseBarcode)
+          setError(
+            `No product is registered for PLU ${measure.plu}. Register it with barcode ${measure.baseBarcode} to resolve these labels.`,
+          )
+          setShowForm(true)
+          recordScanEvent({ barcode, result: "not_found" })
           return
         }
       } catch (dbError) {
@@ -98,6 +151,7 @@ export default function ManualPage() {
 
         // Handle 404 response specifically
         if (response.status === 404 || data.notAvailable || data.error === "Product not found") {
+          recordScanEvent({ barcode, result: "not_found" })
           setProductNotAvailable(true)
           setError(`Product with barcode ${barcode} is not available in Aswak Assalam`)
           toast({
@@ -138,7 +192,7 @@ export default function ManualPage() {
           // ALWAYS use the default selling price from settings
           price: settings?.inventory?.defaultSellingPrice || "",
           image: data.image, // Preserve the image URL exactly as received
-          description: `Category: ${data.category || "Unknown"}, In Stock: ${data.isInStock ? "Yes" : "No"}`,
+          description: `Category: ${data.category || "Unknown"}, In Stock: ${data.isInStock === undefined ? "Unknown" : data.isInStock ? "Yes" : "No"}`,
           category: data.category,
           // Only use the matched category if it exists, otherwise use default
           category_id: category_id || settings?.inventory?.defaultCategoryId || "",
@@ -148,11 +202,13 @@ export default function ManualPage() {
         })
 
         console.log("Web product info with image:", data.image) // Add this debug log
+        recordScanEvent({ barcode, result: "web" })
 
         setCurrentProduct(null)
         setShowForm(true)
       } catch (err) {
         console.error("Error fetching product from web:", err)
+        recordScanEvent({ barcode, result: "not_found" })
 
         // Check if this is a 404 error
         if (err instanceof Error && err.message.includes("404")) {
@@ -183,6 +239,9 @@ export default function ManualPage() {
     }
   }
 
+  // Handheld scanners deliver codes here instead of opening the scanner page
+  useKeyboardWedge(handleBarcodeDetected)
+
   const handleFormCancel = () => {
     setCurrentProduct(null)
     setWebProductInfo(null)
@@ -190,10 +249,11 @@ export default function ManualPage() {
     setShowForm(false)
     setCurrentBarcode("")
     setProductNotAvailable(false)
+    setScannedGs1(null)
   }
 
   // Update the handleFormSuccess function to ensure the image URL is preserved
-  const handleFormSuccess = async (product: Product) => {
+  const handleFormSuccess = async (product: Product, loaded?: LoadedProductValues) => {
     try {
       setIsLoading(true)
 
@@ -205,7 +265,7 @@ export default function ManualPage() {
       // Log the product being saved
       console.log("Saving product with image:", product.image)
 
-      const savedProduct = await saveProduct(product)
+      const savedProduct = await saveProduct(product, "manual", loaded)
 
       toast({
         title: "Product Saved",
@@ -220,28 +280,28 @@ export default function ManualPage() {
       setError(null)
       setShowForm(false)
 
-      // Update history
-      const history = JSON.parse(localStorage.getItem("scanHistory") || "[]")
-      const historyEntry = {
-        ...savedProduct,
-        created_at: savedProduct.created_at || new Date().toISOString(),
-      }
-
-      const existingIndex = history.findIndex(
-        (item: Product) =>
-          (item.barcode && item.barcode === savedProduct.barcode) || (item.id && item.id === savedProduct.id),
-      )
-
-      let updatedHistory = [...history]
-      if (existingIndex >= 0) {
-        updatedHistory[existingIndex] = historyEntry
-      } else {
-        updatedHistory = [historyEntry, ...history]
+      // Record the save in the scan history
+      recordScanEvent({ barcode: savedProduct.barcode || currentBarcode, result: "saved", product: savedProduct })
+    } catch (error) {
+      if (isOfflineError(error)) {
+        // Keep the edit and replay it once back online
+        await enqueueOperation({
+          type: "save-product",
+          product,
+          baseUpdatedAt: product.updated_at || null,
+          baseProduct: product.id ? currentProduct : null,
+          loaded,
+          source: "manual",
+        })
+        toast({
+          title: "Saved Offline",
+          description: "The product will be synced when the connection returns.",
+        })
+        setWebProductInfo(null)
+        setShowForm(false)
+        return
       }
 
-      updatedHistory = updatedHistory.slice(0, 50)
-      localStorage.setItem("scanHistory", JSON.stringify(updatedHistory))
-    } catch (error) {
       toast({
         title: "Error Saving Product",
         description: `Failed to save product: ${error instanceof Error ? error.message : String(error)}`,
@@ -280,6 +340,20 @@ export default function ManualPage() {
     }
   }
 
+  // Deduct the weight (or the quantity a price label stands for) from the base product's stock
+  const handleDeductScannedMeasure = async () => {
+    if (!existingProduct || !scannedMeasure) return
+
+    const result = await deductScannedMeasure(existingProduct, scannedMeasure, currentBarcode)
+    if (result.status === "failed") return
+
+    setShowExistingProductDialog(false)
+    setScannedMeasure(null)
+    if (result.status === "applied") {
+      setCurrentProduct({ ...existingProduct, stock: result.stock })
+    }
+  }
+
   // Handle batch processing completion
   const handleBatchProcessComplete = (results: any[]) => {
     toast({
@@ -327,7 +401,7 @@ export default function ManualPage() {
                   price:
                     currentProduct?.price || webProductInfo?.price || settings?.inventory?.defaultSellingPrice || "",
                   barcode: currentProduct?.barcode || currentBarcode,
-                  stock: currentProduct?.stock || settings?.inventory?.defaultStock || 0,
+                  stock: currentProduct?.stock ?? settings?.inventory?.defaultStock ?? 0,
                   min_stock: currentProduct?.min_stock || settings?.inventory?.defaultMinStock || 0,
                   image: currentProduct?.image || webProductInfo?.image || "",
                   purchase_price:
@@ -342,16 +416,20 @@ export default function ManualPage() {
                     settings?.inventory?.defaultCategoryId ||
                     "",
                   expiry_notification_days: currentProduct?.expiry_notification_days || 30,
+                  // Values from a scanned case label win over what is stored
+                  expiry_date: scannedGs1?.expiryDate || scannedGs1?.bestBeforeDate || currentProduct?.expiry_date,
+                  lot_number: scannedGs1?.lot || currentProduct?.lot_number || null,
                 }}
                 categories={categories}
                 onCancel={handleFormCancel}
                 onSuccess={handleFormSuccess}
+                loaded={currentProduct}
                 isLoading={isLoading}
               />
             )}
 
             {currentProduct && !showForm && (
-              <ProductDisplay product={currentProduct} onEdit={() => setShowForm(true)} />
+              <ProductDisplay product={currentProduct} onEdit={() => setShowForm(true)} onChange={setCurrentProduct} />
             )}
           </TabsContent>
 
@@ -395,6 +473,11 @@ export default function ManualPage() {
                         : existingProduct.category.name}
                     </p>
                   )}
+                  {scannedMeasure && (
+                    <p>
+                      <strong>Scanned {scannedMeasure.rule.kind}:</strong> {formatVariableMeasure(scannedMeasure)}
+                    </p>
+                  )}
                 </div>
               </div>
             </div>
@@ -408,6 +491,11 @@ export default function ManualPage() {
               <Button variant="secondary" onClick={handleViewExistingProduct}>
                 View Details
               </Button>
+              {scannedMeasure && (
+                <Button variant="secondary" onClick={handleDeductScannedMeasure} disabled={isLoading || isDeducting}>
+                  Deduct from Stock
+                </Button>
+              )}
               <Button onClick={handleEditExistingProduct}>Edit Product</Button>
             </div>
           </DialogFooter>
@@ -0,0 +1,458 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Badge } from "@/components/ui/badge"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { Loader2, Plus, Trash2, Truck } from "lucide-react"
+import { useToast } from "@/hooks/use-toast"
+import { GoodsReceiving } from "@/components/goods-receiving"
+import { fetchProductByBarcode } from "@/services/product-service"
+import {
+  createSupplier,
+  deleteSupplier,
+  fetchProductSuppliers,
+  fetchSuppliers,
+  getSupplierUnitCost,
+  selectProductSupplier,
+} from "@/services/supplier-service"
+import {
+  createPurchaseOrder,
+  fetchPurchaseOrder,
+  fetchPurchaseOrders,
+  updatePurchaseOrderStatus,
+} from "@/services/purchase-order-service"
+import type { Product } from "@/types/product"
+import type { PurchaseOrder, Supplier } from "@/types/purchase-order"
+
+interface DraftLine {
+  product: Product
+  quantity: string
+  unitCost: string
+}
+
+export default function PurchaseOrdersPage() {
+  const [orders, setOrders] = useState<PurchaseOrder[]>([])
+  const [suppliers, setSuppliers] = useState<Supplier[]>([])
+  const [selectedOrder, setSelectedOrder] = useState<PurchaseOrder | null>(null)
+  const [supplierId, setSupplierId] = useState("")
+  const [reference, setReference] = useState("")
+  const [expectedDate, setExpectedDate] = useState("")
+  const [lines, setLines] = useState<DraftLine[]>([])
+  const [lineBarcode, setLineBarcode] = useState("")
+  const [supplierName, setSupplierName] = useState("")
+  const [supplierPhone, setSupplierPhone] = useState("")
+  const [supplierEmail, setSupplierEmail] = useState("")
+  const [isLoading, setIsLoading] = useState(false)
+  const [isSaving, setIsSaving] = useState(false)
+  const { toast } = useToast()
+
+  const showError = (error: unknown, fallback: string) => {
+    toast({
+      title: "Error",
+      description: error instanceof Error ? error.message : fallback,
+      variant: "destructive",
+    })
+  }
+
+  const loadData = async () => {
+    try {
+      setIsLoading(true)
+      const [orderList, supplierList] = await Promise.all([fetchPurchaseOrders(), fetchSuppliers()])
+      setOrders(orderList)
+      setSuppliers(supplierList)
+    } catch (error) {
+      showError(error, "Failed to load purchase orders")
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    loadData()
+  }, [])
+
+  const handleAddLine = async () => {
+    const barcode = lineBarcode.trim()
+    if (!barcode) return
+
+    try {
+      const product = await fetchProductByBarcode(barcode)
+      if (!product?.id) {
+        toast({
+          title: "Unknown Product",
+          description: `No product is registered with barcode ${barcode}.`,
+          variant: "destructive",
+        })
+        return
+      }
+      if (lines.some((line) => line.product.id === product.id)) {
+        toast({ title: "Already on the order", description: `${product.name} is already on this order.` })
+        return
+      }
+
+      // Order from the chosen supplier's catalog terms, or pick the preferred/cheapest supplier for an empty order
+      const entries = await fetchProductSuppliers(product.id)
+      const entry = supplierId
+        ? entries.find((candidate) => candidate.supplier_id === supplierId)
+        : selectProductSupplier(entries)
+      if (entry && !supplierId) setSupplierId(entry.supplier_id)
+
+      setLines((prev) => [
+        ...prev,
+        {
+          product,
+          quantity: String(entry?.pack_size || 1),
+          unitCost: String(entry ? getSupplierUnitCost(entry).toFixed(2) : product.purchase_price || "0"),
+        },
+      ])
+      setLineBarcode("")
+    } catch (error) {
+      showError(error, "Failed to look up product")
+    }
+  }
+
+  const updateLine = (index: number, changes: Partial<DraftLine>) => {
+    setLines((prev) => prev.map((line, i) => (i === index ? { ...line, ...changes } : line)))
+  }
+
+  const handleCreateOrder = async () => {
+    if (!supplierId || !reference.trim()) {
+      toast({
+        title: "Missing details",
+        description: "Choose a supplier and enter an order reference.",
+        variant: "destructive",
+      })
+      return
+    }
+
+    const orderLines = lines.map((line) => ({
+      productId: line.product.id!,
+      quantity: Number.parseFloat(line.quantity.replace(",", ".")) || 0,
+      unitCost: Number.parseFloat(line.unitCost.replace(",", ".")) || 0,
+    }))
+
+    if (orderLines.length === 0 || orderLines.some((line) => line.quantity <= 0)) {
+      toast({
+        title: "Invalid lines",
+        description: "Add at least one product and give every line a quantity.",
+        variant: "destructive",
+      })
+      return
+    }
+
+    try {
+      setIsSaving(true)
+      await createPurchaseOrder({ supplierId, reference, expectedDate: expectedDate || null, lines: orderLines })
+      setReference("")
+      setExpectedDate("")
+      setLines([])
+      toast({ title: "Order created", description: `Purchase order ${reference.trim()} was created.` })
+      loadData()
+    } catch (error) {
+      showError(error, "Failed to create purchase order")
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleOpenOrder = async (id: string) => {
+    try {
+      setIsLoading(true)
+      const order = await fetchPurchaseOrder(id)
+      if (order) setSelectedOrder(order)
+    } catch (error) {
+      showError(error, "Failed to load purchase order")
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const handleStatusChange = async (id: string, status: "ordered" | "cancelled") => {
+    try {
+      await updatePurchaseOrderStatus(id, status)
+      setOrders((prev) => prev.map((order) => (order.id === id ? { ...order, status } : order)))
+    } catch (error) {
+      showError(error, "Failed to update purchase order")
+    }
+  }
+
+  const handleCreateSupplier = async () => {
+    if (!supplierName.trim()) {
+      toast({ title: "Name required", description: "Enter the supplier's name.", variant: "destructive" })
+      return
+    }
+
+    try {
+      const supplier = await createSupplier({ name: supplierName, phone: supplierPhone, email: supplierEmail })
+      setSuppliers((prev) => [...prev, supplier].sort((a, b) => a.name.localeCompare(b.name)))
+      setSupplierName("")
+      setSupplierPhone("")
+      setSupplierEmail("")
+    } catch (error) {
+      showError(error, "Failed to create supplier")
+    }
+  }
+
+  const handleDeleteSupplier = async (id: string) => {
+    try {
+      await deleteSupplier(id)
+      setSuppliers((prev) => prev.filter((supplier) => supplier.id !== id))
+    } catch (error) {
+      // Suppliers with orders can't be deleted
+      showError(error, "Failed to delete supplier")
+    }
+  }
+
+  if (selectedOrder) {
+    return (
+      <div className="container py-6 max-w-4xl">
+        <GoodsReceiving
+          key={selectedOrder.id}
+          order={selectedOrder}
+          onReceived={(order) => handleOpenOrder(order.id)}
+          onClose={() => {
+            setSelectedOrder(null)
+            loadData()
+          }}
+        />
+      </div>
+    )
+  }
+
+  return (
+    <div className="container py-6 max-w-4xl space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold">Purchase Orders</h1>
+        <p className="text-muted-foreground">Order from suppliers and receive deliveries into stock</p>
+      </div>
+
+      <Tabs defaultValue="orders">
+        <TabsList className="grid w-full grid-cols-3">
+          <TabsTrigger value="orders">Orders</TabsTrigger>
+          <TabsTrigger value="new">New Order</TabsTrigger>
+          <TabsTrigger value="suppliers">Suppliers</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="orders">
+          <Card>
+            <CardHeader>
+              <CardTitle>Orders</CardTitle>
+              <CardDescription>Open an order to receive its delivery</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {isLoading && orders.length === 0 ? (
+                <div className="flex justify-center py-6">
+                  <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+                </div>
+              ) : orders.length === 0 ? (
+                <div className="text-center py-6">
+                  <Truck className="h-10 w-10 mx-auto text-muted-foreground mb-2" />
+                  <p className="text-muted-foreground">No purchase orders yet</p>
+                </div>
+              ) : (
+                orders.map((order) => (
+                  <div
+                    key={order.id}
+                    className="flex items-center justify-between gap-2 p-3 border rounded-md cursor-pointer hover:bg-accent"
+                    onClick={() => handleOpenOrder(order.id)}
+                  >
+                    <div className="min-w-0">
+                      <p className="font-medium truncate">{order.reference}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {order.supplier?.name || "Unknown supplier"}
+                        {" • "}
+                        {new Date(order.created_at).toLocaleDateString()}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <Badge variant={order.status === "received" || order.status === "cancelled" ? "secondary" : "default"}>
+                        {order.status.replace("_", " ")}
+                      </Badge>
+                      {order.status === "draft" && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={(e) => {
+                            e.stopPropagation()
+                            handleStatusChange(order.id, "ordered")
+                          }}
+                        >
+                          Mark Ordered
+                        </Button>
+                      )}
+                      {(order.status === "draft" || order.status === "ordered") && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={(e) => {
+                            e.stopPropagation()
+                            handleStatusChange(order.id, "cancelled")
+                          }}
+                        >
+                          Cancel
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                ))
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="new">
+          <Card>
+            <CardHeader>
+              <CardTitle>New Order</CardTitle>
+              <CardDescription>
+                Add products by barcode. Quantities and costs default to the supplier&apos;s pack size and price.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid gap-4 md:grid-cols-3">
+                <div className="space-y-2">
+                  <Label>Supplier</Label>
+                  <Select value={supplierId} onValueChange={setSupplierId}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Choose a supplier" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {suppliers.map((supplier) => (
+                        <SelectItem key={supplier.id} value={supplier.id}>
+                          {supplier.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="po-reference">Reference</Label>
+                  <Input
+                    id="po-reference"
+                    placeholder="e.g. PO-0001"
+                    value={reference}
+                    onChange={(e) => setReference(e.target.value)}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="po-expected">Expected delivery</Label>
+                  <Input
+                    id="po-expected"
+                    type="date"
+                    value={expectedDate}
+                    onChange={(e) => setExpectedDate(e.target.value)}
+                  />
+                </div>
+              </div>
+
+              <div className="flex gap-2">
+                <Input
+                  placeholder="Product barcode"
+                  value={lineBarcode}
+                  onChange={(e) => setLineBarcode(e.target.value)}
+                  onKeyDown={(e) => e.key === "Enter" && handleAddLine()}
+                />
+                <Button variant="outline" onClick={handleAddLine}>
+                  <Plus className="h-4 w-4 mr-1" />
+                  Add
+                </Button>
+              </div>
+
+              {lines.length > 0 && (
+                <div className="space-y-2">
+                  {lines.map((line, index) => (
+                    <div key={line.product.id} className="flex items-center gap-2 p-2 border rounded-md">
+                      <div className="flex-1 min-w-0">
+                        <p className="font-medium truncate">{line.product.name}</p>
+                        <p className="text-xs text-muted-foreground">{line.product.barcode}</p>
+                      </div>
+                      <Input
+                        type="number"
+                        min="0"
+                        step="any"
+                        className="w-20"
+                        aria-label="Quantity"
+                        value={line.quantity}
+                        onChange={(e) => updateLine(index, { quantity: e.target.value })}
+                      />
+                      <Input
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        className="w-24"
+                        aria-label="Unit cost"
+                        value={line.unitCost}
+                        onChange={(e) => updateLine(index, { unitCost: e.target.value })}
+                      />
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => setLines((prev) => prev.filter((_, i) => i !== index))}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                        <span className="sr-only">Remove line</span>
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              <div className="flex justify-end">
+                <Button onClick={handleCreateOrder} disabled={isSaving}>
+                  {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  Create Order
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="suppliers">
+          <Card>
+            <CardHeader>
+              <CardTitle>Suppliers</CardTitle>
+              <CardDescription>Suppliers that still have orders can't be deleted</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid gap-2 md:grid-cols-4">
+                <Input placeholder="Name" value={supplierName} onChange={(e) => setSupplierName(e.target.value)} />
+                <Input placeholder="Phone" value={supplierPhone} onChange={(e) => setSupplierPhone(e.target.value)} />
+                <Input placeholder="Email" value={supplierEmail} onChange={(e) => setSupplierEmail(e.target.value)} />
+                <Button onClick={handleCreateSupplier}>
+                  <Plus className="h-4 w-4 mr-1" />
+                  Add Supplier
+                </Button>
+              </div>
+
+              {suppliers.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No suppliers yet</p>
+              ) : (
+                <div className="space-y-2">
+                  {suppliers.map((supplier) => (
+                    <div key={supplier.id} className="flex items-center justify-between p-2 border rounded-md">
+                      <div className="min-w-0">
+                        <p className="font-medium truncate">{supplier.name}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {[supplier.phone, supplier.email].filter(Boolean).join(" • ")}
+                        </p>
+                      </div>
+                      <Button variant="ghost" size="icon" onClick={() => handleDeleteSupplier(supplier.id)}>
+                        <Trash2 className="h-4 w-4" />
+                        <span className="sr-only">Delete supplier</span>
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+      </Tabs>
+    </div>
+  )
+}
@@ -0,0 +1,287 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Download, FilePlus, Loader2, RefreshCw, ShoppingCart, Trash2 } from "lucide-react"
+import { useToast } from "@/hooks/use-toast"
+import { useSettings } from "@/contexts/settings-context"
+import { generateReorderList } from "@/services/reorder-service"
+import { createPurchaseOrder } from "@/services/purchase-order-service"
+import type { ReorderGroup } from "@/types/reorder"
+
+export default function ReorderPage() {
+  const { settings } = useSettings()
+  const { toast } = useToast()
+  const [groups, setGroups] = useState<ReorderGroup[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const [creatingFor, setCreatingFor] = useState<string | null>(null)
+
+  const loadSuggestions = async () => {
+    try {
+      setIsLoading(true)
+      setGroups(
+        await generateReorderList({
+          lookbackDays: settings.inventory.reorderLookbackDays || 30,
+          coverDays: settings.inventory.reorderCoverDays ?? 14,
+        }),
+      )
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to generate reorder suggestions",
+        variant: "destructive",
+      })
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    loadSuggestions()
+  }, [settings.inventory.reorderLookbackDays, settings.inventory.reorderCoverDays])
+
+  const updateQuantity = (groupIndex: number, productId: string | undefined, value: string) => {
+    const quantity = Number.parseFloat(value.replace(",", ".")) || 0
+    setGroups((prev) =>
+      prev.map((group, i) =>
+        i === groupIndex
+          ? {
+              ...group,
+              suggestions: group.suggestions.map((suggestion) =>
+                suggestion.product.id === productId ? { ...suggestion, quantity } : suggestion,
+              ),
+            }
+          : group,
+      ),
+    )
+  }
+
+  const removeSuggestion = (groupIndex: number, productId: string | undefined) => {
+    setGroups((prev) =>
+      prev
+        .map((group, i) =>
+          i === groupIndex
+            ? { ...group, suggestions: group.suggestions.filter((suggestion) => suggestion.product.id !== productId) }
+            : group,
+        )
+        .filter((group) => group.suggestions.length > 0),
+    )
+  }
+
+  const handleCreateOrder = async (groupIndex: number) => {
+    const group = groups[groupIndex]
+    if (!group.supplier) return
+
+    const lines = group.suggestions
+      .filter((suggestion) => suggestion.product.id && suggestion.quantity > 0)
+      .map((suggestion) => ({
+        productId: suggestion.product.id!,
+        quantity: suggestion.quantity,
+        unitCost: Number(suggestion.unitCost.toFixed(2)),
+      }))
+    if (lines.length === 0) return
+
+    const reference = `RO-${new Date().toISOString().slice(0, 10)}-${group.supplier.name.replace(/\W+/g, "").slice(0, 8).toUpperCase()}`
+
+    try {
+      setCreatingFor(group.supplier.id)
+      await createPurchaseOrder({ supplierId: group.supplier.id, reference, status: "draft", lines })
+      toast({
+        title: "Draft order created",
+        description: `${reference} for ${group.supplier.name} is ready for review in Purchase Orders.`,
+      })
+      setGroups((prev) => prev.filter((_, i) => i !== groupIndex))
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to create purchase order",
+        variant: "destructive",
+      })
+    } finally {
+      setCreatingFor(null)
+    }
+  }
+
+  const exportReorderList = () => {
+    const headers = [
+      "supplier",
+      "supplier_sku",
+      "barcode",
+      "name",
+      "stock",
+      "min_stock",
+      "daily_consumption",
+      "lead_time_days",
+      "pack_size",
+      "quantity",
+      "unit_cost",
+      "total",
+    ]
+    const csvContent = [
+      headers.join(","),
+      ...groups.flatMap((group) =>
+        group.suggestions.map((suggestion) =>
+          [
+            `"${(group.supplier?.name || "").replace(/"/g, '""')}"`,
+            suggestion.supplier?.supplier_sku || "",
+            suggestion.product.barcode || "",
+            `"${(suggestion.product.name || "").replace(/"/g, '""')}"`,
+            suggestion.stock,
+            suggestion.minStock,
+            suggestion.dailyConsumption.toFixed(2),
+            suggestion.leadTimeDays,
+            suggestion.packSize,
+            suggestion.quantity,
+            suggestion.unitCost.toFixed(2),
+            (suggestion.quantity * suggestion.unitCost).toFixed(2),
+          ].join(","),
+        ),
+      ),
+    ].join("\n")
+
+    const blob = new Blob([csvContent], { type: "text/csv;charset=utf-8;" })
+    const url = URL.createObjectURL(blob)
+    const link = document.createElement("a")
+    link.setAttribute("href", url)
+    link.setAttribute("download", `reorder_${new Date().toISOString().slice(0, 10)}.csv`)
+    link.style.visibility = "hidden"
+    document.body.appendChild(link)
+    link.click()
+    document.body.removeChild(link)
+  }
+
+  return (
+    <div className="container py-6 max-w-4xl space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-end justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold">Reorder</h1>
+          <p className="text-muted-foreground">
+            Products at or below their reorder point, from {settings.inventory.reorderLookbackDays} days of sales
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={loadSuggestions} disabled={isLoading}>
+            <RefreshCw className={`h-4 w-4 mr-2 ${isLoading ? "animate-spin" : ""}`} />
+            Refresh
+          </Button>
+          <Button variant="outline" onClick={exportReorderList} disabled={groups.length === 0}>
+            <Download className="h-4 w-4 mr-2" />
+            Export CSV
+          </Button>
+        </div>
+      </div>
+
+      {isLoading && groups.length === 0 ? (
+        <div className="flex justify-center py-12">
+          <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+        </div>
+      ) : groups.length === 0 ? (
+        <Card>
+          <CardContent className="text-center py-12">
+            <ShoppingCart className="h-10 w-10 mx-auto text-muted-foreground mb-2" />
+            <p className="text-muted-foreground">Nothing needs reordering</p>
+          </CardContent>
+        </Card>
+      ) : (
+        groups.map((group, groupIndex) => {
+          const total = group.suggestions.reduce((sum, suggestion) => sum + suggestion.quantity * suggestion.unitCost, 0)
+          return (
+            <Card key={group.supplier?.id || "none"}>
+              <CardHeader className="flex flex-row items-start justify-between gap-2">
+                <div>
+                  <CardTitle>{group.supplier?.name || "No supplier"}</CardTitle>
+                  <CardDescription>
+                    {group.suggestions.length} product{group.suggestions.length === 1 ? "" : "s"} • {total.toFixed(2)} DH
+                    {!group.supplier && " • Link a supplier to these products to order them"}
+                  </CardDescription>
+                </div>
+                {group.supplier && (
+                  <Button
+                    size="sm"
+                    onClick={() => handleCreateOrder(groupIndex)}
+                    disabled={creatingFor !== null}
+                  >
+                    {creatingFor === group.supplier.id ? (
+                      <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                    ) : (
+                      <FilePlus className="h-4 w-4 mr-2" />
+                    )}
+                    Create Order
+                  </Button>
+                )}
+              </CardHeader>
+              <CardContent>
+                <div className="rounded-md border overflow-hidden">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Product</TableHead>
+                        <TableHead className="text-right">Stock</TableHead>
+                        <TableHead className="text-right">Per day</TableHead>
+                        <TableHead className="text-right">Order</TableHead>
+                        <TableHead className="text-right">Cost</TableHead>
+                        <TableHead />
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {group.suggestions.map((suggestion) => (
+                        <TableRow key={suggestion.product.id}>
+                          <TableCell>
+                            <div className="flex flex-col">
+                              <span className="truncate max-w-[200px]">{suggestion.product.name}</span>
+                              <span className="text-xs text-muted-foreground">
+                                {[
+                                  suggestion.supplier?.supplier_sku || suggestion.product.barcode,
+                                  suggestion.packSize > 1 && `packs of ${suggestion.packSize}`,
+                                  suggestion.leadTimeDays > 0 && `${suggestion.leadTimeDays}d lead time`,
+                                ]
+                                  .filter(Boolean)
+                                  .join(" • ")}
+                              </span>
+                            </div>
+                          </TableCell>
+                          <TableCell className="text-right">
+                            {suggestion.stock}
+                            <span className="text-xs text-muted-foreground"> / {suggestion.minStock}</span>
+                          </TableCell>
+                          <TableCell className="text-right">{suggestion.dailyConsumption.toFixed(1)}</TableCell>
+                          <TableCell className="text-right">
+                            <Input
+                              type="number"
+                              min="0"
+                              step={suggestion.packSize}
+                              className="w-20 ml-auto text-right"
+                              value={suggestion.quantity}
+                              onChange={(e) => updateQuantity(groupIndex, suggestion.product.id, e.target.value)}
+                            />
+                          </TableCell>
+                          <TableCell className="text-right">
+                            {(suggestion.quantity * suggestion.unitCost).toFixed(2)}
+                          </TableCell>
+                          <TableCell>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className="h-7 w-7"
+                              onClick={() => removeSuggestion(groupIndex, suggestion.product.id)}
+                            >
+                              <Trash2 className="h-4 w-4" />
+                              <span className="sr-only">Remove from list</span>
+                            </Button>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              </CardContent>
+            </Card>
+          )
+        })
+      )}
+    </div>
+  )
+}
@@ -6,8 +6,9 @@ import { ProductDisplay } from "@/components/product-display"
 import { ProductForm } from "@/components/product-form"
 import { saveProduct } from "@/services/product-service"
 import { fetchCategories } from "@/services/category-service"
+import { recordScanEvent } from "@/services/scan-history-service"
 import { useToast } from "@/hooks/use-toast"
-import type { Product } from "@/types/product"
+import type { LoadedProductValues, Product } from "@/types/product"
 import { useEffect } from "react"
 
 export default function SearchPage() {
@@ -35,10 +36,10 @@ export default function SearchPage() {
     setShowForm(false)
   }
 
-  const handleFormSuccess = async (product: Product) => {
+  const handleFormSuccess = async (product: Product, loaded?: LoadedProductValues) => {
     try {
       setIsLoading(true)
-      const savedProduct = await saveProduct(product)
+      const savedProduct = await saveProduct(product, "manual", loaded)
 
       toast({
         title: "Product Saved",
@@ -48,27 +49,10 @@ export default function SearchPage() {
       setCurrentProduct(savedProduct)
       setShowForm(false)
 
-      // Update history
-      const history = JSON.parse(localStorage.getItem("scanHistory") || "[]")
-      const historyEntry = {
-        ...savedProduct,
-        created_at: savedProduct.created_at || new Date().toISOString(),
+      // Record the save in the scan history
+      if (savedProduct.barcode) {
+        recordScanEvent({ barcode: savedProduct.barcode, result: "saved", product: savedProduct })
       }
-
-      const existingIndex = history.findIndex(
-        (item: Product) =>
-          (item.barcode && item.barcode === savedProduct.barcode) || (item.id && item.id === savedProduct.id),
-      )
-
-      let updatedHistory = [...history]
-      if (existingIndex >= 0) {
-        updatedHistory[existingIndex] = historyEntry
-      } else {
-        updatedHistory = [historyEntry, ...history]
-      }
-
-      updatedHistory = updatedHistory.slice(0, 50)
-      localStorage.setItem("scanHistory", JSON.stringify(updatedHistory))
     } catch (error) {
       toast({
         title: "Error Saving Product",
@@ -87,7 +71,9 @@ export default function SearchPage() {
 
         <ProductSearch onProductSelect={handleProductSelect} isLoading={isLoading} />
 
-        {currentProduct && !showForm && <ProductDisplay product={currentProduct} onEdit={() => setShowForm(true)} />}
+        {currentProduct && !showForm && (
+          <ProductDisplay product={currentProduct} onEdit={() => setShowForm(true)} onChange={setCurrentProduct} />
+        )}
 
         {showForm && currentProduct && (
           <ProductForm
@@ -95,6 +81,7 @@ export default function SearchPage() {
             categories={categories}
             onCancel={() => setShowForm(false)}
             onSuccess={handleFormSuccess}
+            loaded={currentProduct}
             isLoading={isLoading}
           />
         )}
@@ -12,7 +12,8 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Slider } from "@/components/ui/slider"
 import { useToast } from "@/hooks/use-toast"
 import { CategoryManagement } from "@/components/category-management"
-import { Save, RotateCcw, AlertTriangle, Loader2 } from "lucide-react"
+import { UserManagement } from "@/components/user-management"
+import { Save, RotateCcw, AlertTriangle, Loader2, Plus, Trash2 } from "lucide-react"
 import {
   AlertDialog,
   AlertDialogAction,
@@ -25,6 +26,20 @@ import {
 } from "@/components/ui/alert-dialog"
 import { fetchCategories } from "@/services/category-service"
 import type { Category } from "@/types/product"
+import type { CostingMethod } from "@/types/purchase-order"
+import {
+  DEFAULT_VARIABLE_MEASURE_RULES,
+  getVariableMeasureRuleError,
+  type VariableMeasureKind,
+  type VariableMeasureRule,
+} from "@/lib/barcode"
+import {
+  DEFAULT_KEYBOARD_WEDGE,
+  DEFAULT_SCAN_CONSENSUS,
+  SCANNER_ENGINES,
+  type KeyboardWedgeSuffix,
+  type ScannerPreference,
+} from "@/lib/scanner"
 
 // Define the settings interface
 interface AppSettings {
@@ -44,12 +59,25 @@ interface AppSettings {
     defaultPurchasePrice: string
     defaultMargin: number
     defaultCategoryId: string
+    costingMethod: CostingMethod
+    reorderLookbackDays: number
+    reorderCoverDays: number
+    expiryMarkdownPercent: number
   }
   scanning: {
     autoSave: boolean
-    preferredScanner: "camera" | "manual" | "demo"
+    preferredScanner: ScannerPreference // Camera decoding engine, "auto" picks the best available
     autoDetect: boolean
+    confirmationReads: number // Matching reads needed before a camera scan is accepted
+    confirmationWindowMs: number // Time window in which the matching reads must occur
+    maxEdgeError: number // Reads with a higher start/end pattern error are rejected (0-1)
+    wedgeEnabled: boolean // Listen for USB/Bluetooth scanners that type like a keyboard
+    wedgePrefix: string // Characters the scanner sends before each code
+    wedgeSuffix: KeyboardWedgeSuffix // Key the scanner sends after each code
+    wedgeMaxKeyDelay: number // Max milliseconds between keys of one scan
+    wedgeMinLength: number // Shorter bursts are treated as typing
     beepOnScan: boolean
+    variableMeasureRules: VariableMeasureRule[]
   }
   advanced: {
     debugMode: boolean
@@ -76,12 +104,25 @@ const defaultSettings: AppSettings = {
     defaultPurchasePrice: "10",
     defaultMargin: 20,
     defaultCategoryId: "",
+    costingMethod: "average",
+    reorderLookbackDays: 30,
+    reorderCoverDays: 14,
+    expiryMarkdownPercent: 30,
   },
   scanning: {
     autoSave: false,
-    preferredScanner: "camera",
+    preferredScanner: "auto",
     autoDetect: true,
+    confirmationReads: DEFAULT_SCAN_CONSENSUS.requiredReads,
+    confirmationWindowMs: DEFAULT_SCAN_CONSENSUS.window,
+    maxEdgeError: DEFAULT_SCAN_CONSENSUS.maxEdgeError,
+    wedgeEnabled: true,
+    wedgePrefix: DEFAULT_KEYBOARD_WEDGE.prefix,
+    wedgeSuffix: DEFAULT_KEYBOARD_WEDGE.suffix,
+    wedgeMaxKeyDelay: DEFAULT_KEYBOARD_WEDGE.maxKeyDelay,
+    wedgeMinLength: DEFAULT_KEYBOARD_WEDGE.minLength,
     beepOnScan: true,
+    variableMeasureRules: DEFAULT_VARIABLE_MEASURE_RULES,
   },
   advanced: {
     debugMode: false,
@@ -104,7 +145,13 @@ export default function SettingsPage() {
     if (savedSettings) {
       try {
         const parsedSettings = JSON.parse(savedSettings)
-        setSettings(parsedSettings)
+        // Fill in settings added since these were saved
+        setSettings({
+          display: { ...defaultSettings.display, ...parsedSettings.display },
+          inventory: { ...defaultSettings.inventory, ...parsedSettings.inventory },
+          scanning: { ...defaultSettings.scanning, ...parsedSettings.scanning },
+          advanced: { ...defaultSettings.advanced, ...parsedSettings.advanced },
+        })
       } catch (error) {
         console.error("Error parsing saved settings:", error)
         // If there's an error, use default settings
@@ -150,6 +197,36 @@ export default function SettingsPage() {
     setHasChanges(true)
   }
 
+  const variableMeasureRules = settings.scanning.variableMeasureRules
+
+  const updateVariableMeasureRule = (index: number, changes: Partial<VariableMeasureRule>) => {
+    updateSetting(
+      "scanning",
+      "variableMeasureRules",
+      variableMeasureRules.map((rule, i) => (i === index ? { ...rule, ...changes } : rule)),
+    )
+  }
+
+  const addVariableMeasureRule = () => {
+    updateSetting("scanning", "variableMeasureRules", [
+      ...variableMeasureRules,
+      {
+        id: `rule-${Date.now()}`,
+        label: "New label layout",
+        prefix: "23",
+        itemCodeDigits: 5,
+        valueDigits: 5,
+        decimals: 3,
+        kind: "weight",
+        valueCheckDigit: false,
+      },
+    ])
+  }
+
+  const removeVariableMeasureRule = (index: number) => {
+    updateSetting("scanning", "variableMeasureRules", variableMeasureRules.filter((_, i) => i !== index))
+  }
+
   // Save settings to localStorage
   const saveSettings = () => {
     localStorage.setItem("appSettings", JSON.stringify(settings))
@@ -192,11 +269,12 @@ export default function SettingsPage() {
       </div>
 
       <Tabs defaultValue="display">
-        <TabsList className="grid grid-cols-4 mb-6">
+        <TabsList className="grid grid-cols-5 mb-6">
           <TabsTrigger value="display">Display</TabsTrigger>
           <TabsTrigger value="inventory">Inventory</TabsTrigger>
           <TabsTrigger value="scanning">Scanning</TabsTrigger>
           <TabsTrigger value="advanced">Advanced</TabsTrigger>
+          <TabsTrigger value="users">Users</TabsTrigger>
         </TabsList>
 
         {/* Display Settings */}
@@ -366,6 +444,74 @@ export default function SettingsPage() {
 
                 <Separator />
 
+                <div className="space-y-2">
+                  <Label htmlFor="reorder-lookback">Reorder Sales Window (days)</Label>
+                  <div className="flex items-center gap-4">
+                    <Input
+                      id="reorder-lookback"
+                      type="number"
+                      min={1}
+                      value={settings.inventory.reorderLookbackDays}
+                      onChange={(e) =>
+                        updateSetting("inventory", "reorderLookbackDays", Number.parseInt(e.target.value) || 1)
+                      }
+                      className="w-24"
+                    />
+                  </div>
+                  <p className="text-sm text-muted-foreground">
+                    Sales and waste over this many days set each product&apos;s average daily consumption
+                  </p>
+                </div>
+
+                <Separator />
+
+                <div className="space-y-2">
+                  <Label htmlFor="reorder-cover">Reorder Cover (days)</Label>
+                  <div className="flex items-center gap-4">
+                    <Input
+                      id="reorder-cover"
+                      type="number"
+                      min={0}
+                      value={settings.inventory.reorderCoverDays}
+                      onChange={(e) =>
+                        updateSetting("inventory", "reorderCoverDays", Number.parseInt(e.target.value) || 0)
+                      }
+                      className="w-24"
+                    />
+                  </div>
+                  <p className="text-sm text-muted-foreground">
+                    Suggested orders cover this many days of consumption after the supplier&apos;s lead time
+                  </p>
+                </div>
+
+                <Separator />
+
+                <div className="space-y-2">
+                  <Label htmlFor="expiry-markdown">Expiry Markdown (%)</Label>
+                  <div className="flex items-center gap-4">
+                    <Input
+                      id="expiry-markdown"
+                      type="number"
+                      min={0}
+                      max={100}
+                      value={settings.inventory.expiryMarkdownPercent}
+                      onChange={(e) =>
+                        updateSetting(
+                          "inventory",
+                          "expiryMarkdownPercent",
+                          Math.min(100, Math.max(0, Number.parseInt(e.target.value) || 0)),
+                        )
+                      }
+                      className="w-24"
+                    />
+                  </div>
+                  <p className="text-sm text-muted-foreground">
+                    Discount suggested for stock that enters its expiry notification window
+                  </p>
+                </div>
+
+                <Separator />
+
                 <div className="space-y-2">
                   <Label htmlFor="default-category">Default Category</Label>
                   <Select
@@ -404,6 +550,27 @@ export default function SettingsPage() {
 
                 <Separator />
 
+                <div className="space-y-2">
+                  <Label htmlFor="costing-method">Costing Method</Label>
+                  <Select
+                    value={settings.inventory.costingMethod}
+                    onValueChange={(value: string) => updateSetting("inventory", "costingMethod", value as CostingMethod)}
+                  >
+                    <SelectTrigger id="costing-method">
+                      <SelectValue placeholder="Select costing method" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="average">Weighted Average Cost</SelectItem>
+                      <SelectItem value="last">Last Purchase Cost</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <p className="text-sm text-muted-foreground">
+                    How received deliveries update the purchase price of a product
+                  </p>
+                </div>
+
+                <Separator />
+
                 <div className="space-y-2">
                   <Label htmlFor="price-format">Price Format</Label>
                   <Select
@@ -531,19 +698,25 @@ export default function SettingsPage() {
                   <Select
                     value={settings.scanning.preferredScanner}
                     onValueChange={(value: string) =>
-                      updateSetting("scanning", "preferredScanner", value as "camera" | "manual" | "demo")
+                      updateSetting("scanning", "preferredScanner", value as ScannerPreference)
                     }
                   >
                     <SelectTrigger id="preferred-scanner">
-                      <SelectValue placeholder="Select scanner type" />
+                      <SelectValue placeholder="Select scanner engine" />
                     </SelectTrigger>
                     <SelectContent>
-                      <SelectItem value="camera">Camera Scanner</SelectItem>
-                      <SelectItem value="manual">Manual Entry</SelectItem>
-                      <SelectItem value="demo">Demo Scanner</SelectItem>
+                      <SelectItem value="auto">Automatic (best available)</SelectItem>
+                      {SCANNER_ENGINES.map((engine) => (
+                        <SelectItem key={engine.id} value={engine.id}>
+                          {engine.label}
+                        </SelectItem>
+                      ))}
                     </SelectContent>
                   </Select>
-                  <p className="text-sm text-muted-foreground">Choose your preferred scanning method</p>
+                  <p className="text-sm text-muted-foreground">
+                    Barcode decoding engine used by the camera scanner. Falls back to another engine when the selected
+                    one is not supported on this device.
+                  </p>
                 </div>
 
                 <Separator />
@@ -562,6 +735,62 @@ export default function SettingsPage() {
 
                 <Separator />
 
+                <div className="space-y-2">
+                  <Label>Scan Confirmation</Label>
+                  <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="confirmation-reads" className="text-sm font-normal">
+                        Matching Reads
+                      </Label>
+                      <Input
+                        id="confirmation-reads"
+                        type="number"
+                        min={1}
+                        max={10}
+                        value={settings.scanning.confirmationReads}
+                        onChange={(e) =>
+                          updateSetting("scanning", "confirmationReads", Math.max(1, Number.parseInt(e.target.value) || 1))
+                        }
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="confirmation-window" className="text-sm font-normal">
+                        Within (ms)
+                      </Label>
+                      <Input
+                        id="confirmation-window"
+                        type="number"
+                        min={100}
+                        step={100}
+                        value={settings.scanning.confirmationWindowMs}
+                        onChange={(e) =>
+                          updateSetting("scanning", "confirmationWindowMs", Number.parseInt(e.target.value) || 0)
+                        }
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="max-edge-error" className="text-sm font-normal">
+                        Max Edge Error
+                      </Label>
+                      <Input
+                        id="max-edge-error"
+                        type="number"
+                        min={0}
+                        max={1}
+                        step={0.05}
+                        value={settings.scanning.maxEdgeError}
+                        onChange={(e) => updateSetting("scanning", "maxEdgeError", Number(e.target.value) || 0)}
+                      />
+                    </div>
+                  </div>
+                  <p className="text-sm text-muted-foreground">
+                    A camera scan is only accepted after this many identical reads. Reads with an invalid check digit or
+                    a start/end pattern error above the maximum (QuaggaJS only) are ignored.
+                  </p>
+                </div>
+
+                <Separator />
+
                 <div className="flex items-center justify-between">
                   <Label htmlFor="beep-on-scan" className="flex flex-col">
                     <span>Beep on Scan</span>
@@ -573,6 +802,212 @@ export default function SettingsPage() {
                     onCheckedChange={(checked: boolean) => updateSetting("scanning", "beepOnScan", checked)}
                   />
                 </div>
+
+                <Separator />
+
+                <div className="space-y-4">
+                  <div className="flex items-center justify-between">
+                    <Label htmlFor="wedge-enabled" className="flex flex-col">
+                      <span>Handheld Scanners</span>
+                      <span className="text-sm text-muted-foreground">
+                        Accept codes from USB/Bluetooth scanners that type like a keyboard, on any page
+                      </span>
+                    </Label>
+                    <Switch
+                      id="wedge-enabled"
+                      checked={settings.scanning.wedgeEnabled}
+                      onCheckedChange={(checked: boolean) => updateSetting("scanning", "wedgeEnabled", checked)}
+                    />
+                  </div>
+
+                  {settings.scanning.wedgeEnabled && (
+                    <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
+                      <div className="space-y-2">
+                        <Label htmlFor="wedge-prefix" className="text-sm font-normal">
+                          Prefix
+                        </Label>
+                        <Input
+                          id="wedge-prefix"
+                          value={settings.scanning.wedgePrefix}
+                          placeholder="None"
+                          onChange={(e) => updateSetting("scanning", "wedgePrefix", e.target.value)}
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="wedge-suffix" className="text-sm font-normal">
+                          Suffix
+                        </Label>
+                        <Select
+                          value={settings.scanning.wedgeSuffix}
+                          onValueChange={(value: string) =>
+                            updateSetting("scanning", "wedgeSuffix", value as KeyboardWedgeSuffix)
+                          }
+                        >
+                          <SelectTrigger id="wedge-suffix">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="Enter">Enter</SelectItem>
+                            <SelectItem value="Tab">Tab</SelectItem>
+                            <SelectItem value="none">None</SelectItem>
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="wedge-key-delay" className="text-sm font-normal">
+                          Max Key Delay (ms)
+                        </Label>
+                        <Input
+                          id="wedge-key-delay"
+                          type="number"
+                          min={5}
+                          value={settings.scanning.wedgeMaxKeyDelay}
+                          onChange={(e) =>
+                            updateSetting("scanning", "wedgeMaxKeyDelay", Number.parseInt(e.target.value) || 0)
+                          }
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="wedge-min-length" className="text-sm font-normal">
+                          Min Length
+                        </Label>
+                        <Input
+                          id="wedge-min-length"
+                          type="number"
+                          min={1}
+                          value={settings.scanning.wedgeMinLength}
+                          onChange={(e) =>
+                            updateSetting("scanning", "wedgeMinLength", Number.parseInt(e.target.value) || 1)
+                          }
+                        />
+                      </div>
+                    </div>
+                  )}
+                  <p className="text-sm text-muted-foreground">
+                    Keys typed faster than the delay and ended by the suffix are read as a scan. Typing into a text field
+                    is never intercepted.
+                  </p>
+                </div>
+
+                <Separator />
+
+                <div className="space-y-4">
+                  <div className="flex items-center justify-between">
+                    <Label className="flex flex-col">
+                      <span>In-Store Label Rules</span>
+                      <span className="text-sm text-muted-foreground">
+                        Layouts of weight and price labels with prefixes 20–29: prefix, item code (PLU), value
+                      </span>
+                    </Label>
+                    <Button variant="outline" size="sm" onClick={addVariableMeasureRule}>
+                      <Plus className="h-4 w-4 mr-2" />
+                      Add Rule
+                    </Button>
+                  </div>
+
+                  {variableMeasureRules.map((rule, index) => {
+                    const ruleError = getVariableMeasureRuleError(rule)
+
+                    return (
+                      <div key={rule.id} className="border rounded-md p-4 space-y-4">
+                        <div className="flex items-center gap-2">
+                          <Input
+                            value={rule.label}
+                            onChange={(e) => updateVariableMeasureRule(index, { label: e.target.value })}
+                            aria-label="Rule name"
+                          />
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => removeVariableMeasureRule(index)}
+                            aria-label="Remove rule"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+
+                        <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+                          <div className="space-y-2">
+                            <Label htmlFor={`rule-prefix-${rule.id}`}>Prefix</Label>
+                            <Input
+                              id={`rule-prefix-${rule.id}`}
+                              value={rule.prefix}
+                              onChange={(e) => updateVariableMeasureRule(index, { prefix: e.target.value.trim() })}
+                            />
+                          </div>
+                          <div className="space-y-2">
+                            <Label htmlFor={`rule-item-${rule.id}`}>Item Code Digits</Label>
+                            <Input
+                              id={`rule-item-${rule.id}`}
+                              type="number"
+                              min={1}
+                              value={rule.itemCodeDigits}
+                              onChange={(e) =>
+                                updateVariableMeasureRule(index, { itemCodeDigits: Number(e.target.value) || 0 })
+                              }
+                            />
+                          </div>
+                          <div className="space-y-2">
+                            <Label htmlFor={`rule-value-${rule.id}`}>Value Digits</Label>
+                            <Input
+                              id={`rule-value-${rule.id}`}
+                              type="number"
+                              min={1}
+                              value={rule.valueDigits}
+                              onChange={(e) =>
+                                updateVariableMeasureRule(index, { valueDigits: Number(e.target.value) || 0 })
+                              }
+                            />
+                          </div>
+                          <div className="space-y-2">
+                            <Label htmlFor={`rule-decimals-${rule.id}`}>Decimals</Label>
+                            <Input
+                              id={`rule-decimals-${rule.id}`}
+                              type="number"
+                              min={0}
+                              value={rule.decimals}
+                              onChange={(e) =>
+                                updateVariableMeasureRule(index, { decimals: Number(e.target.value) || 0 })
+                              }
+                            />
+                          </div>
+                          <div className="space-y-2">
+                            <Label htmlFor={`rule-kind-${rule.id}`}>Value</Label>
+                            <Select
+                              value={rule.kind}
+                              onValueChange={(value: string) =>
+                                updateVariableMeasureRule(index, { kind: value as VariableMeasureKind })
+                              }
+                            >
+                              <SelectTrigger id={`rule-kind-${rule.id}`}>
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value="weight">Weight (kg)</SelectItem>
+                                <SelectItem value="price">Price</SelectItem>
+                              </SelectContent>
+                            </Select>
+                          </div>
+                        </div>
+
+                        <div className="flex items-center justify-between">
+                          <Label htmlFor={`rule-check-${rule.id}`} className="text-sm">
+                            Value check digit before the value
+                          </Label>
+                          <Switch
+                            id={`rule-check-${rule.id}`}
+                            checked={rule.valueCheckDigit}
+                            onCheckedChange={(checked: boolean) =>
+                              updateVariableMeasureRule(index, { valueCheckDigit: checked })
+                            }
+                          />
+                        </div>
+
+                        {ruleError && <p className="text-sm font-medium text-destructive">{ruleError}</p>}
+                      </div>
+                    )
+                  })}
+                </div>
               </div>
             </CardContent>
           </Card>
@@ -647,6 +1082,21 @@ export default function SettingsPage() {
             </CardContent>
           </Card>
         </TabsContent>
+
+        {/* User Settings */}
+        <TabsContent value="users">
+          <Card>
+            <CardHeader>
+              <CardTitle>Users</CardTitle>
+              <CardDescription>
+                Cashiers scan and sell, stock clerks also run batch jobs, managers can change settings and categories
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <UserManagement />
+            </CardContent>
+          </Card>
+        </TabsContent>
       </Tabs>
 
       {/* Reset Confirmation Dialog */}
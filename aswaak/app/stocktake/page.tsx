@@ -0,0 +1,204 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Badge } from "@/components/ui/badge"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { ClipboardCheck, Loader2, Plus } from "lucide-react"
+import { useToast } from "@/hooks/use-toast"
+import { StocktakeSession } from "@/components/stocktake-session"
+import { fetchCategories } from "@/services/category-service"
+import { createStocktakeSession, fetchStocktakeSessions } from "@/services/stocktake-service"
+import type { Category } from "@/types/product"
+import type { StocktakeSession as Session } from "@/types/stocktake"
+
+const ALL_CATEGORIES = "all"
+
+export default function StocktakePage() {
+  const [sessions, setSessions] = useState<Session[]>([])
+  const [categories, setCategories] = useState<Category[]>([])
+  const [selectedSession, setSelectedSession] = useState<Session | null>(null)
+  const [name, setName] = useState("")
+  const [categoryId, setCategoryId] = useState(ALL_CATEGORIES)
+  const [shelf, setShelf] = useState("")
+  const [isLoading, setIsLoading] = useState(false)
+  const [isCreating, setIsCreating] = useState(false)
+  const { toast } = useToast()
+
+  const loadSessions = async () => {
+    try {
+      setIsLoading(true)
+      setSessions(await fetchStocktakeSessions())
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to load stocktake sessions",
+        variant: "destructive",
+      })
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    loadSessions()
+
+    const loadCategories = async () => {
+      try {
+        setCategories(await fetchCategories())
+      } catch (error) {
+        console.error("Failed to load categories:", error)
+      }
+    }
+    loadCategories()
+  }, [])
+
+  const handleCreate = async () => {
+    if (!name.trim()) {
+      toast({ title: "Name required", description: "Give the stocktake a name.", variant: "destructive" })
+      return
+    }
+
+    try {
+      setIsCreating(true)
+      const session = await createStocktakeSession({
+        name,
+        categoryId: categoryId === ALL_CATEGORIES ? null : categoryId,
+        shelf,
+      })
+      setName("")
+      setShelf("")
+      setCategoryId(ALL_CATEGORIES)
+      setSessions((prev) => [session, ...prev])
+      setSelectedSession(session)
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to create stocktake session",
+        variant: "destructive",
+      })
+    } finally {
+      setIsCreating(false)
+    }
+  }
+
+  const handleSessionChange = (session: Session) => {
+    setSelectedSession(session)
+    setSessions((prev) => prev.map((existing) => (existing.id === session.id ? session : existing)))
+  }
+
+  const getCategoryName = (id: string | null) => categories.find((category) => category.id === id)?.name
+
+  if (selectedSession) {
+    return (
+      <div className="container py-6 max-w-4xl">
+        <StocktakeSession
+          key={selectedSession.id}
+          session={selectedSession}
+          categories={categories}
+          onSessionChange={handleSessionChange}
+          onClose={() => {
+            setSelectedSession(null)
+            loadSessions()
+          }}
+        />
+      </div>
+    )
+  }
+
+  const activeSessions = sessions.filter((session) => session.status === "open" || session.status === "paused")
+  const closedSessions = sessions.filter((session) => session.status === "approved" || session.status === "cancelled")
+
+  return (
+    <div className="container py-6 max-w-4xl space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold">Stocktake</h1>
+        <p className="text-muted-foreground">Count the stock of a category or shelf and correct the differences</p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>New Count</CardTitle>
+          <CardDescription>Scope the count to a category, a shelf, or both</CardDescription>
+        </CardHeader>
+        <CardContent className="grid gap-4 md:grid-cols-3">
+          <div className="space-y-2">
+            <Label htmlFor="stocktake-name">Name</Label>
+            <Input
+              id="stocktake-name"
+              placeholder="e.g. Dairy - weekly count"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Category</Label>
+            <Select value={categoryId} onValueChange={setCategoryId}>
+              <SelectTrigger>
+                <SelectValue placeholder="All categories" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_CATEGORIES}>All categories</SelectItem>
+                {categories.map((category) => (
+                  <SelectItem key={category.id} value={category.id}>
+                    {category.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="stocktake-shelf">Shelf (optional)</Label>
+            <Input id="stocktake-shelf" placeholder="e.g. Aisle 3" value={shelf} onChange={(e) => setShelf(e.target.value)} />
+          </div>
+          <div className="md:col-span-3 flex justify-end">
+            <Button onClick={handleCreate} disabled={isCreating}>
+              {isCreating ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Plus className="h-4 w-4 mr-2" />}
+              Start Count
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Sessions</CardTitle>
+          <CardDescription>Open and paused counts can be resumed from any device</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          {isLoading && sessions.length === 0 ? (
+            <div className="flex justify-center py-6">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : sessions.length === 0 ? (
+            <div className="text-center py-6">
+              <ClipboardCheck className="h-10 w-10 mx-auto text-muted-foreground mb-2" />
+              <p className="text-muted-foreground">No stocktakes yet</p>
+            </div>
+          ) : (
+            [...activeSessions, ...closedSessions].map((session) => (
+              <div
+                key={session.id}
+                className="flex items-center justify-between p-3 border rounded-md cursor-pointer hover:bg-accent"
+                onClick={() => setSelectedSession(session)}
+              >
+                <div className="min-w-0">
+                  <p className="font-medium truncate">{session.name}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {[getCategoryName(session.category_id), session.shelf].filter(Boolean).join(" • ") || "All products"}
+                    {" • "}
+                    {new Date(session.updated_at).toLocaleString()}
+                  </p>
+                </div>
+                <Badge variant={session.status === "open" ? "default" : "secondary"}>{session.status}</Badge>
+              </div>
+            ))
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
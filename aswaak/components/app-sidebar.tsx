@@ -8,9 +8,26 @@ import Link from "next/link"
 import { Button } from "@/components/ui/button"
 import { ScrollArea } from "@/components/ui/scroll-area"
 import { Sheet, SheetContent, SheetTrigger } from "@/components/ui/sheet"
-import { Home, Settings, Menu, Barcode, Search, ClipboardList, Clock, Tag, X } from "lucide-react"
+import {
+  Home,
+  Settings,
+  Menu,
+  Barcode,
+  Search,
+  ClipboardList,
+  ClipboardCheck,
+  Clock,
+  CalendarClock,
+  ShoppingCart,
+  Tag,
+  Truck,
+  LogOut,
+  X,
+} from "lucide-react"
 import { cn } from "@/lib/utils"
 import { useIsMobile } from "@/hooks/use-mobile"
+import { useAuth } from "@/contexts/auth-context"
+import { canAccessRoute, ROLE_LABELS } from "@/lib/auth"
 
 interface SidebarProps extends React.HTMLAttributes<HTMLDivElement> {}
 
@@ -18,6 +35,7 @@ export function AppSidebar({ className }: SidebarProps) {
   const pathname = usePathname()
   const router = useRouter()
   const isMobile = useIsMobile()
+  const { user, signOut } = useAuth()
   const [open, setOpen] = useState(false)
 
   // Close the sidebar when navigating on mobile
@@ -52,6 +70,26 @@ export function AppSidebar({ className }: SidebarProps) {
       href: "/history",
       icon: Clock,
     },
+    {
+      title: "Stocktake",
+      href: "/stocktake",
+      icon: ClipboardCheck,
+    },
+    {
+      title: "Purchase Orders",
+      href: "/purchase-orders",
+      icon: Truck,
+    },
+    {
+      title: "Reorder",
+      href: "/reorder",
+      icon: ShoppingCart,
+    },
+    {
+      title: "Expiry",
+      href: "/expiry",
+      icon: CalendarClock,
+    },
     {
       title: "Categories",
       href: "/categories", // Changed from "/settings?tab=categories" to "/categories"
@@ -93,19 +131,33 @@ export function AppSidebar({ className }: SidebarProps) {
       </div>
       <ScrollArea className="flex-1 px-2">
         <nav className="flex flex-col gap-1 py-2">
-          {navItems.map((item, index) => (
-            <Link key={index} href={item.href} onClick={() => isMobile && setOpen(false)}>
-              <Button
-                variant={isActive(item.href) ? "secondary" : "ghost"}
-                className={cn("w-full justify-start gap-2", isActive(item.href) ? "font-medium" : "font-normal")}
-              >
-                <item.icon className="h-4 w-4" />
-                <span>{item.title}</span>
-              </Button>
-            </Link>
-          ))}
+          {navItems
+            .filter((item) => canAccessRoute(user?.role, item.href))
+            .map((item, index) => (
+              <Link key={index} href={item.href} onClick={() => isMobile && setOpen(false)}>
+                <Button
+                  variant={isActive(item.href) ? "secondary" : "ghost"}
+                  className={cn("w-full justify-start gap-2", isActive(item.href) ? "font-medium" : "font-normal")}
+                >
+                  <item.icon className="h-4 w-4" />
+                  <span>{item.title}</span>
+                </Button>
+              </Link>
+            ))}
         </nav>
       </ScrollArea>
+      {user && (
+        <div className="border-t px-3 py-3 flex items-center justify-between gap-2">
+          <div className="min-w-0">
+            <p className="text-sm font-medium truncate">{user.name}</p>
+            <p className="text-xs text-muted-foreground">{ROLE_LABELS[user.role]}</p>
+          </div>
+          <Button variant="ghost" size="icon" onClick={() => signOut()} title="Sign out">
+            <LogOut className="h-4 w-4" />
+            <span className="sr-only">Sign out</span>
+          </Button>
+        </div>
+      )}
     </div>
   )
 
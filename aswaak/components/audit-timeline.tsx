@@ -0,0 +1,207 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { ChevronLeft, ChevronRight, Loader2, Undo2 } from "lucide-react"
+import { useToast } from "@/hooks/use-toast"
+import { useAuth } from "@/contexts/auth-context"
+import { getAuthBackend } from "@/lib/auth"
+import { CHANGE_SOURCE_LABELS, fetchAuditLog, revertAuditChange } from "@/services/audit-service"
+import type { AuditEntityType, AuditLogEntry } from "@/types/audit-log"
+
+interface AuditTimelineProps {
+  entityType: AuditEntityType
+  entityId: string
+  // Change to reload, e.g. after the entity was saved
+  refreshKey?: number
+  // Called after a change was reverted
+  onReverted?: () => void
+}
+
+const PAGE_SIZE = 5
+
+const ACTION_LABELS: Record<AuditLogEntry["action"], string> = {
+  insert: "Created",
+  update: "Updated",
+  delete: "Deleted",
+}
+
+const formatField = (field: string) => {
+  const label = field.replace(/_/g, " ")
+  return label.charAt(0).toUpperCase() + label.slice(1)
+}
+
+const formatValue = (value: unknown) => {
+  if (value === null || value === undefined || value === "") return "—"
+  const text = typeof value === "object" ? JSON.stringify(value) : String(value)
+  return text.length > 60 ? `${text.slice(0, 57)}...` : text
+}
+
+export function AuditTimeline({ entityType, entityId, refreshKey = 0, onReverted }: AuditTimelineProps) {
+  const { user } = useAuth()
+  const [entries, setEntries] = useState<AuditLogEntry[]>([])
+  const [total, setTotal] = useState(0)
+  const [page, setPage] = useState(1)
+  const [userNames, setUserNames] = useState<Record<string, string>>({})
+  const [isLoading, setIsLoading] = useState(false)
+  const [revertingId, setRevertingId] = useState<string | null>(null)
+  const [reloadKey, setReloadKey] = useState(0)
+  const { toast } = useToast()
+
+  useEffect(() => {
+    setPage(1)
+  }, [entityType, entityId])
+
+  useEffect(() => {
+    const loadEntries = async () => {
+      setIsLoading(true)
+      try {
+        const result = await fetchAuditLog(entityType, entityId, page, PAGE_SIZE)
+        setEntries(result.entries)
+        setTotal(result.total)
+      } catch (error) {
+        console.error("Error loading audit log:", error)
+      } finally {
+        setIsLoading(false)
+      }
+    }
+
+    loadEntries()
+  }, [entityType, entityId, page, refreshKey, reloadKey])
+
+  useEffect(() => {
+    // Only managers can list everyone; other users see their own name
+    getAuthBackend()
+      .listUsers()
+      .then((users) => setUserNames(Object.fromEntries(users.map((listed) => [listed.id, listed.name]))))
+      .catch(() => setUserNames({}))
+  }, [])
+
+  const getActorName = (actorId: string | null) => {
+    if (!actorId) return "Unknown user"
+    if (actorId === user?.id) return "You"
+    return userNames[actorId] || actorId
+  }
+
+  const revertedIds = new Set(entries.map((entry) => entry.revert_of).filter(Boolean))
+
+  const handleRevert = async (entry: AuditLogEntry) => {
+    setRevertingId(entry.id)
+    try {
+      const restored = await revertAuditChange(entry.id)
+      const skipped = Object.keys(entry.changes).length - restored
+      setPage(1)
+      setReloadKey((prev) => prev + 1)
+      toast({
+        title: "Change reverted",
+        description:
+          skipped > 0
+            ? `${restored} field${restored === 1 ? "" : "s"} restored, ${skipped} edited again since were kept.`
+            : `${restored} field${restored === 1 ? "" : "s"} restored.`,
+      })
+      onReverted?.()
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to revert the change",
+        variant: "destructive",
+      })
+    } finally {
+      setRevertingId(null)
+    }
+  }
+
+  const totalPages = Math.ceil(total / PAGE_SIZE)
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <p className="text-sm font-medium">Change history</p>
+        {isLoading && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
+      </div>
+
+      {entries.length === 0 ? (
+        <p className="text-sm text-muted-foreground">{isLoading ? "Loading..." : "No changes recorded yet"}</p>
+      ) : (
+        <div className="space-y-1">
+          {entries.map((entry) => (
+            <div key={entry.id} className="text-sm border rounded-md px-2 py-1 space-y-1">
+              <div className="flex items-center justify-between gap-2">
+                <div className="flex items-center gap-2 min-w-0">
+                  <Badge variant="outline" className="text-xs">
+                    {ACTION_LABELS[entry.action]}
+                  </Badge>
+                  <span className="text-xs text-muted-foreground truncate">
+                    {CHANGE_SOURCE_LABELS[entry.source] || entry.source} • {getActorName(entry.actor_id)}
+                  </span>
+                  {revertedIds.has(entry.id) && (
+                    <Badge variant="secondary" className="text-xs">
+                      Reverted
+                    </Badge>
+                  )}
+                </div>
+                {entry.action === "update" && !revertedIds.has(entry.id) && (
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    className="h-7 px-2"
+                    onClick={() => handleRevert(entry)}
+                    disabled={revertingId !== null}
+                  >
+                    {revertingId === entry.id ? (
+                      <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+                    ) : (
+                      <Undo2 className="h-3 w-3 mr-1" />
+                    )}
+                    Revert
+                  </Button>
+                )}
+              </div>
+              {entry.action === "update" && (
+                <div className="space-y-0.5">
+                  {Object.entries(entry.changes).map(([field, change]) => (
+                    <p key={field} className="text-xs break-all">
+                      <span className="text-muted-foreground">{formatField(field)}:</span>{" "}
+                      <span className="line-through text-muted-foreground">{formatValue(change.old)}</span>{" "}
+                      → {formatValue(change.new)}
+                    </p>
+                  ))}
+                </div>
+              )}
+              <p className="text-xs text-muted-foreground">{new Date(entry.created_at).toLocaleString()}</p>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {totalPages > 1 && (
+        <div className="flex items-center justify-end gap-1">
+          <Button
+            variant="outline"
+            size="icon"
+            className="h-7 w-7"
+            onClick={() => setPage(page - 1)}
+            disabled={page === 1}
+          >
+            <ChevronLeft className="h-4 w-4" />
+            <span className="sr-only">Previous page</span>
+          </Button>
+          <span className="text-xs mx-2">
+            Page {page} of {totalPages}
+          </span>
+          <Button
+            variant="outline"
+            size="icon"
+            className="h-7 w-7"
+            onClick={() => setPage(page + 1)}
+            disabled={page === totalPages}
+          >
+            <ChevronRight className="h-4 w-4" />
+            <span className="sr-only">Next page</span>
+          </Button>
+        </div>
+      )}
+    </div>
+  )
+}
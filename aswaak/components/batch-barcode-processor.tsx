@@ -9,12 +9,18 @@ import { Loader2, XCircle, Trash2, Save, AlertTriangle } from "lucide-react"
 import { Checkbox } from "@/components/ui/checkbox"
 import { Label } from "@/components/ui/label"
 import { Alert, AlertDescription } from "@/components/ui/alert"
-import type { Product } from "@/types/product"
+import type { Product, ProductFieldSources } from "@/types/product"
 import { useToast } from "@/hooks/use-toast"
-import { supabase, isSupabaseInitialized } from "@/lib/supabase"
+import { isSupabaseInitialized } from "@/lib/supabase"
+import { getCurrentUserId } from "@/lib/auth"
+import { normalizeBarcode, validateBarcode } from "@/lib/barcode"
+import { productRepository } from "@/services/product-repository"
+import type { ProductSourceOption } from "@/lib/product-sources/types"
 
 interface BatchProcessorProps {
   onProcessComplete?: (results: ProcessingResult[]) => void
+  // Barcodes collected elsewhere (e.g. a shelf scan) to add to the input
+  scannedBarcodes?: string[]
 }
 
 export interface ProcessingResult {
@@ -25,14 +31,7 @@ export interface ProcessingResult {
   selected?: boolean
 }
 
-interface SourceOption {
-  id: string
-  label: string
-  url: string
-  enabled: boolean
-}
-
-export function BatchBarcodeProcessor({ onProcessComplete }: BatchProcessorProps) {
+export function BatchBarcodeProcessor({ onProcessComplete, scannedBarcodes }: BatchProcessorProps) {
   const [barcodeText, setBarcodeText] = useState("")
   const [isProcessing, setIsProcessing] = useState(false)
   const [isSaving, setIsSaving] = useState(false)
@@ -44,6 +43,20 @@ export function BatchBarcodeProcessor({ onProcessComplete }: BatchProcessorProps
   const [usingClientSideFallback, setUsingClientSideFallback] = useState(false)
   const { toast } = useToast()
 
+  // Append scanned barcodes that are not in the input yet
+  useEffect(() => {
+    if (!scannedBarcodes || scannedBarcodes.length === 0) return
+
+    setBarcodeText((prev) => {
+      const existing = prev
+        .split(/[\n,]/)
+        .map((code) => code.trim())
+        .filter((code) => code.length > 0)
+      const added = scannedBarcodes.filter((code) => !existing.includes(code))
+      return [...existing, ...added].join("\n")
+    })
+  }, [scannedBarcodes])
+
   // Update progress when processedCount changes
   useEffect(() => {
     if (totalBarcodes > 0) {
@@ -52,27 +65,49 @@ export function BatchBarcodeProcessor({ onProcessComplete }: BatchProcessorProps
     }
   }, [processedCount, totalBarcodes])
 
-  // Source options
-  const [sources, setSources] = useState<SourceOption[]>([
-    { id: "aswak1", label: "Aswak Assalam (EAN1)", url: "https://aswakassalam.com/ean1/{barcode}", enabled: true },
-    { id: "aswak2", label: "Aswak Assalam (EAN2)", url: "https://aswakassalam.com/ean2/{barcode}", enabled: true },
-    {
-      id: "openfoodfacts",
-      label: "Open Food Facts API",
-      url: "https://world.openfoodfacts.org/api/v2/product/{barcode}.json",
-      enabled: true,
-    },
-  ])
+  // Source options come from the server's product source registry so the UI and the server agree
+  const [sources, setSources] = useState<ProductSourceOption[]>([])
+  // When enabled, every selected source is queried and the fields are combined
+  const [mergeResults, setMergeResults] = useState(false)
+
+  useEffect(() => {
+    const loadSources = async () => {
+      try {
+        const response = await fetch("/api/product-sources")
+        if (!response.ok) throw new Error(`API returned status ${response.status}`)
+        const data = await response.json()
+        setSources(data.sources || [])
+      } catch (error) {
+        console.error("Error loading product sources:", error)
+      }
+    }
+
+    loadSources()
+  }, [])
 
   const toggleSource = (sourceId: string) => {
     setSources(sources.map((source) => (source.id === sourceId ? { ...source, enabled: !source.enabled } : source)))
   }
 
-  const parseBarcodes = (text: string): string[] => {
-    return text
+  // Split the input into unique valid barcodes. Invalid codes are returned as failed results.
+  const parseBarcodes = (text: string): { valid: string[]; invalid: ProcessingResult[] } => {
+    const valid: string[] = []
+    const invalid: ProcessingResult[] = []
+
+    text
       .split(/[\n,]/)
       .map((code) => code.trim())
       .filter((code) => code.length > 0)
+      .forEach((code) => {
+        const validation = validateBarcode(code)
+        if (!validation.valid) {
+          invalid.push({ barcode: code, success: false, error: `Invalid barcode: ${validation.error}` })
+        } else if (!valid.includes(validation.input)) {
+          valid.push(validation.input)
+        }
+      })
+
+    return { valid, invalid }
   }
 
   // Client-side fallback for processing barcodes
@@ -175,9 +210,13 @@ export function BatchBarcodeProcessor({ onProcessComplete }: BatchProcessorProps
 
   // Process the barcodes
   const processBarcodes = async () => {
-    const barcodes = parseBarcodes(barcodeText)
+    const { valid: barcodes, invalid: invalidResults } = parseBarcodes(barcodeText)
 
-    if (barcodes.length === 0) return
+    if (barcodes.length === 0) {
+      // Nothing to look up, but still show why the input was rejected
+      setResults(invalidResults)
+      return
+    }
 
     setIsProcessing(true)
     setResults([])
@@ -221,6 +260,7 @@ export function BatchBarcodeProcessor({ onProcessComplete }: BatchProcessorProps
             body: JSON.stringify({
               barcodes: testBatch,
               sources: enabledSources,
+              mode: mergeResults ? "merge" : "first",
             }),
             signal: AbortSignal.timeout(15000), // 15 second timeout for test
           })
@@ -263,6 +303,7 @@ export function BatchBarcodeProcessor({ onProcessComplete }: BatchProcessorProps
                 body: JSON.stringify({
                   barcodes: batchBarcodes,
                   sources: enabledSources,
+                  mode: mergeResults ? "merge" : "first",
                 }),
                 signal: AbortSignal.timeout(20000), // 20 second timeout
               })
@@ -292,6 +333,7 @@ export function BatchBarcodeProcessor({ onProcessComplete }: BatchProcessorProps
                     stock: 0, // Default stock
                     min_stock: 0, // Default min stock
                     data_source: result.data.source,
+                    data_source_fields: result.data.fieldSources || null,
                   }
 
                   return {
@@ -329,6 +371,7 @@ export function BatchBarcodeProcessor({ onProcessComplete }: BatchProcessorProps
           }
         }
 
+        allResults.push(...invalidResults)
         console.log("All batches processed, total results:", allResults.length)
         setResults(allResults)
         setProcessedCount(barcodes.length)
@@ -400,44 +443,27 @@ export function BatchBarcodeProcessor({ onProcessComplete }: BatchProcessorProps
             console.log(`Processing product: ${result.barcode}`, result.product)
 
             // First check if the product already exists
-            const { data: existingProduct, error: lookupError } = await supabase
-              .from("products")
-              .select("id, name, image")
-              .eq("barcode", result.barcode)
-              .single()
-
-            if (lookupError && lookupError.code !== "PGRST116") {
-              // PGRST116 is "not found" error, which is expected for new products
-              console.error(`Error looking up product ${result.barcode}:`, lookupError)
-              errorCount++
-              continue
-            }
+            const existingProduct = await productRepository.findByBarcode(result.barcode)
 
-            let saveResult
-
-            if (existingProduct) {
+            if (existingProduct?.id) {
               // Update ONLY name and image for existing product
               console.log(`Product ${result.barcode} already exists, updating name and image only...`)
 
               // Only update if the new data is different
               if (existingProduct.name !== result.product.name || existingProduct.image !== result.product.image) {
-                saveResult = await supabase
-                  .from("products")
-                  .update({
+                await productRepository.update(
+                  existingProduct.id,
+                  {
                     name: result.product.name,
                     image: result.product.image,
-                    // Removed updated_at as it doesn't exist in your schema
-                  })
-                  .eq("id", existingProduct.id)
-
-                if (saveResult.error) {
-                  console.error(`Error updating product ${result.barcode}:`, saveResult.error)
-                  errorCount++
-                } else {
-                  console.log(`Successfully updated product: ${result.barcode}`)
-                  updatedProductsCount++
-                  savedCount++
-                }
+                    updated_by: getCurrentUserId() || "batch_processor",
+                    updated_at: new Date().toISOString(),
+                  },
+                  "batch",
+                )
+                console.log(`Successfully updated product: ${result.barcode}`)
+                updatedProductsCount++
+                savedCount++
               } else {
                 console.log(`Product ${result.barcode} already has the same name and image, skipping update`)
                 savedCount++ // Count as saved even though no changes were made
@@ -445,23 +471,21 @@ export function BatchBarcodeProcessor({ onProcessComplete }: BatchProcessorProps
             } else {
               // Insert new product with minimal required fields
               console.log(`Product ${result.barcode} does not exist, creating new record with minimal fields`)
-              saveResult = await supabase.from("products").insert({
-                barcode: result.barcode,
-                name: result.product.name,
-                image: result.product.image,
-                stock: 0, // Default stock
-                min_stock: 5, // Default min stock based on your schema
-                // created_at will be set automatically by your default value now()
-              })
-
-              if (saveResult.error) {
-                console.error(`Error creating product ${result.barcode}:`, saveResult.error)
-                errorCount++
-              } else {
-                console.log(`Successfully created new product: ${result.barcode}`)
-                newProductsCount++
-                savedCount++
-              }
+              await productRepository.create(
+                {
+                  barcode: normalizeBarcode(result.barcode),
+                  name: result.product.name,
+                  image: result.product.image,
+                  stock: 0, // Default stock
+                  min_stock: 5, // Default min stock based on your schema
+                  created_by: getCurrentUserId() || "batch_processor",
+                  updated_by: getCurrentUserId() || "batch_processor",
+                },
+                "batch",
+              )
+              console.log(`Successfully created new product: ${result.barcode}`)
+              newProductsCount++
+              savedCount++
             }
           } catch (error) {
             console.error(`Error saving product ${result.barcode}:`, error)
@@ -505,6 +529,13 @@ export function BatchBarcodeProcessor({ onProcessComplete }: BatchProcessorProps
     return results.filter((r) => r.success && r.product && r.selected)
   }
 
+  // Describe which source supplied each field of a merged result
+  const formatFieldSources = (fieldSources: ProductFieldSources) => {
+    return Object.entries(fieldSources)
+      .map(([field, sourceId]) => `${field}: ${sources.find((s) => s.id === sourceId)?.label || sourceId}`)
+      .join(" · ")
+  }
+
   return (
     <Card className="w-full">
       <CardHeader>
@@ -544,6 +575,18 @@ export function BatchBarcodeProcessor({ onProcessComplete }: BatchProcessorProps
           </div>
         </div>
 
+        <div className="flex items-center space-x-2">
+          <Checkbox
+            id="merge-results"
+            checked={mergeResults}
+            onCheckedChange={(checked) => setMergeResults(checked === true)}
+            disabled={isProcessing}
+          />
+          <Label htmlFor="merge-results" className="text-sm">
+            Merge results from all selected sources
+          </Label>
+        </div>
+
         {usingClientSideFallback && (
           <Alert variant="default" className="bg-amber-50 border-amber-200">
             <AlertTriangle className="h-4 w-4 text-amber-600" />
@@ -606,6 +649,11 @@ export function BatchBarcodeProcessor({ onProcessComplete }: BatchProcessorProps
                         {result.product?.data_source && (
                           <p className="text-xs text-gray-400">Source: {result.product.data_source}</p>
                         )}
+                        {result.product?.data_source_fields && (
+                          <p className="text-xs text-gray-400">
+                            {formatFieldSources(result.product.data_source_fields)}
+                          </p>
+                        )}
                       </div>
                       <Button variant="ghost" size="icon" onClick={() => removeResult(index)} className="flex-shrink-0">
                         <Trash2 className="h-4 w-4" />
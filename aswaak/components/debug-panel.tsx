@@ -5,12 +5,19 @@ import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { testSupabaseConnection } from "@/lib/supabase"
 import { fetchCategories } from "@/services/category-service"
+import { getScanStats, subscribeToScanStats, type ScanConsensusStats } from "@/lib/scanner"
+
+const formatPercent = (value: number | null) => (value === null ? "n/a" : `${Math.round(value * 100)}%`)
 
 export function DebugPanel() {
   const [isOpen, setIsOpen] = useState(false)
   const [connectionStatus, setConnectionStatus] = useState<{ success: boolean; message: string } | null>(null)
   const [categories, setCategories] = useState<any[]>([])
   const [envVars, setEnvVars] = useState<{ [key: string]: string }>({})
+  const [scanStats, setScanStats] = useState<ScanConsensusStats>(getScanStats())
+
+  // Follow the confirmation votes of the camera scanner
+  useEffect(() => subscribeToScanStats(setScanStats), [])
 
   useEffect(() => {
     // Get environment variables
@@ -82,6 +89,48 @@ export function DebugPanel() {
             )}
           </div>
 
+          <div>
+            <h3 className="font-semibold mb-1">Scan Confidence:</h3>
+            <div className="bg-muted p-2 rounded space-y-1">
+              <div className="flex justify-between">
+                <span>Reads / confirmed:</span>
+                <span>
+                  {scanStats.reads} / {scanStats.confirmed}
+                </span>
+              </div>
+              <div className="flex justify-between">
+                <span>Rejected (check digit / edge error):</span>
+                <span>
+                  {scanStats.rejectedMisreads} / {scanStats.rejectedEdgeErrors}
+                </span>
+              </div>
+              {scanStats.candidates.map((candidate) => (
+                <div key={candidate.code} className="flex justify-between text-muted-foreground">
+                  <span>
+                    {candidate.code} ({candidate.format})
+                  </span>
+                  <span>
+                    {candidate.votes} votes, {formatPercent(candidate.averageConfidence)}
+                  </span>
+                </div>
+              ))}
+              {scanStats.lastConfirmed && (
+                <div className="pt-1 border-t">
+                  <div>
+                    Last: {scanStats.lastConfirmed.code} ({scanStats.lastConfirmed.format}, {scanStats.lastConfirmed.engine})
+                  </div>
+                  <div className="text-muted-foreground">
+                    {scanStats.lastConfirmed.votes} votes in {scanStats.lastConfirmed.elapsed}ms, confidence{" "}
+                    {formatPercent(scanStats.lastConfirmed.averageConfidence)}, edge error{" "}
+                    {scanStats.lastConfirmed.averageEdgeError === null
+                      ? "n/a"
+                      : scanStats.lastConfirmed.averageEdgeError.toFixed(2)}
+                  </div>
+                </div>
+              )}
+            </div>
+          </div>
+
           <div>
             <h3 className="font-semibold mb-1">Categories:</h3>
             <div className="flex gap-2 mb-2">
@@ -0,0 +1,191 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Badge } from "@/components/ui/badge"
+import { BellRing, Loader2, Tag, Trash2, X } from "lucide-react"
+import { useToast } from "@/hooks/use-toast"
+import { useSettings } from "@/contexts/settings-context"
+import {
+  DEFAULT_MARKDOWN_PERCENT,
+  fetchExpiryAlerts,
+  generateExpiryAlerts,
+  resolveExpiryAlert,
+} from "@/services/expiry-alert-service"
+import type { ExpiryAlert, ExpiryAlertAction } from "@/types/expiry-alert"
+
+interface ExpiryAlertsProps {
+  // Called after an alert changed stock or prices
+  onResolved?: () => void
+}
+
+export function ExpiryAlerts({ onResolved }: ExpiryAlertsProps) {
+  const { settings } = useSettings()
+  const { toast } = useToast()
+  const [alerts, setAlerts] = useState<ExpiryAlert[]>([])
+  const [prices, setPrices] = useState<Record<string, string>>({})
+  const [isChecking, setIsChecking] = useState(false)
+  const [resolvingId, setResolvingId] = useState<string | null>(null)
+
+  const loadAlerts = async () => {
+    const openAlerts = await fetchExpiryAlerts()
+    setAlerts(openAlerts)
+    setPrices(
+      openAlerts.reduce<Record<string, string>>((result, alert) => {
+        if (alert.suggested_price !== null) result[alert.id] = alert.suggested_price.toFixed(2)
+        return result
+      }, {}),
+    )
+  }
+
+  // The scheduled job raises alerts too; running the check here catches up when it hasn't run today
+  const runCheck = async (notify: boolean) => {
+    try {
+      setIsChecking(true)
+      const created = await generateExpiryAlerts(settings.inventory.expiryMarkdownPercent ?? DEFAULT_MARKDOWN_PERCENT)
+      await loadAlerts()
+      if (notify) {
+        toast({
+          title: "Expiry check complete",
+          description: created === 0 ? "No new alerts." : `${created} new alert${created === 1 ? "" : "s"}.`,
+        })
+      }
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to check expiry dates",
+        variant: "destructive",
+      })
+    } finally {
+      setIsChecking(false)
+    }
+  }
+
+  useEffect(() => {
+    runCheck(false)
+  }, [])
+
+  const handleResolve = async (alert: ExpiryAlert, action: ExpiryAlertAction) => {
+    let price: number | null = null
+    if (action === "markdown") {
+      price = Number.parseFloat((prices[alert.id] || "").replace(",", "."))
+      if (Number.isNaN(price) || price < 0) {
+        toast({ title: "Invalid price", description: "Enter the markdown price.", variant: "destructive" })
+        return
+      }
+    }
+
+    try {
+      setResolvingId(alert.id)
+      await resolveExpiryAlert(alert.id, action, price)
+      setAlerts((prev) => prev.filter((existing) => existing.id !== alert.id))
+      if (action !== "dismiss") {
+        toast({
+          title: action === "markdown" ? "Price marked down" : "Stock written off",
+          description:
+            action === "markdown"
+              ? `${alert.product?.name} now sells for ${price!.toFixed(2)} DH.`
+              : `${alert.product?.name} was removed from stock as expired.`,
+        })
+        onResolved?.()
+      }
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to resolve the alert",
+        variant: "destructive",
+      })
+    } finally {
+      setResolvingId(null)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between gap-2 pb-2">
+        <div>
+          <CardTitle className="text-base">Alerts</CardTitle>
+          <CardDescription>Mark down stock before it expires, write it off after</CardDescription>
+        </div>
+        <Button variant="outline" size="sm" onClick={() => runCheck(true)} disabled={isChecking}>
+          {isChecking ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <BellRing className="h-4 w-4 mr-1" />}
+          Run Check
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {alerts.length === 0 ? (
+          <p className="text-sm text-muted-foreground">{isChecking ? "Checking..." : "No open alerts"}</p>
+        ) : (
+          <div className="space-y-2">
+            {alerts.map((alert) => (
+              <div
+                key={alert.id}
+                className="flex flex-col sm:flex-row sm:items-center justify-between gap-2 p-2 border rounded-md"
+              >
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium truncate">{alert.product?.name || alert.product_id}</span>
+                    <Badge variant={alert.suggestion === "write_off" ? "destructive" : "secondary"}>
+                      {alert.suggestion === "write_off" ? "Expired" : "Expiring"}
+                    </Badge>
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    {[
+                      alert.lot?.lot_number && `Lot ${alert.lot.lot_number}`,
+                      `Expires ${new Date(alert.expiry_date).toLocaleDateString()}`,
+                      `${alert.lot ? alert.lot.quantity : alert.quantity} in stock`,
+                      alert.suggestion === "markdown" && `Now ${alert.product?.price} DH`,
+                    ]
+                      .filter(Boolean)
+                      .join(" • ")}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2">
+                  {alert.suggestion === "markdown" ? (
+                    <>
+                      <Input
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        className="w-24 h-8"
+                        aria-label="Markdown price"
+                        value={prices[alert.id] || ""}
+                        onChange={(e) => setPrices((prev) => ({ ...prev, [alert.id]: e.target.value }))}
+                      />
+                      <Button size="sm" onClick={() => handleResolve(alert, "markdown")} disabled={resolvingId !== null}>
+                        <Tag className="h-4 w-4 mr-1" />
+                        Mark Down
+                      </Button>
+                    </>
+                  ) : (
+                    <Button
+                      size="sm"
+                      variant="destructive"
+                      onClick={() => handleResolve(alert, "write_off")}
+                      disabled={resolvingId !== null}
+                    >
+                      <Trash2 className="h-4 w-4 mr-1" />
+                      Write Off
+                    </Button>
+                  )}
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    className="h-8 w-8"
+                    onClick={() => handleResolve(alert, "dismiss")}
+                    disabled={resolvingId !== null}
+                  >
+                    {resolvingId === alert.id ? <Loader2 className="h-4 w-4 animate-spin" /> : <X className="h-4 w-4" />}
+                    <span className="sr-only">Dismiss</span>
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
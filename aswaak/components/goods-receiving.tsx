@@ -0,0 +1,364 @@
+"use client"
+
+import { useState } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Badge } from "@/components/ui/badge"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { ArrowLeft, Loader2, PackageCheck } from "lucide-react"
+import { BarcodeScanner } from "@/components/barcode-scanner"
+import { useToast } from "@/hooks/use-toast"
+import { useSettings } from "@/contexts/settings-context"
+import { useKeyboardWedge } from "@/contexts/keyboard-wedge-context"
+import {
+  DEFAULT_VARIABLE_MEASURE_RULES,
+  getGs1ProductBarcode,
+  getVariableMeasureQuantity,
+  parseGs1,
+} from "@/lib/barcode"
+import { fetchProductByScannedBarcode } from "@/services/product-service"
+import { receivePurchaseOrder } from "@/services/purchase-order-service"
+import type { Product } from "@/types/product"
+import type { CostingMethod, PurchaseOrder } from "@/types/purchase-order"
+
+interface ReceivingRow {
+  product: Product
+  ordered: number
+  previouslyReceived: number
+  receiving: string
+  unitCost: string
+  lotNumber: string
+  expiryDate: string
+  // Delivered but not on the order
+  unplanned: boolean
+}
+
+type DeliveryFlag = "ok" | "under" | "over" | "not_ordered"
+
+const FLAG_LABELS: Record<DeliveryFlag, string> = {
+  ok: "OK",
+  under: "Under",
+  over: "Over",
+  not_ordered: "Not ordered",
+}
+
+interface GoodsReceivingProps {
+  order: PurchaseOrder
+  onReceived: (order: PurchaseOrder) => void
+  onClose: () => void
+}
+
+const parseNumber = (value: string | number | null | undefined) =>
+  Number.parseFloat(String(value ?? "").replace(",", ".")) || 0
+
+export function GoodsReceiving({ order, onReceived, onClose }: GoodsReceivingProps) {
+  const { settings } = useSettings()
+  const { toast } = useToast()
+  const [rows, setRows] = useState<ReceivingRow[]>(() =>
+    (order.lines || [])
+      .filter((line) => line.product)
+      .map((line) => ({
+        product: line.product!,
+        ordered: line.quantity,
+        previouslyReceived: line.received_quantity,
+        receiving: "0",
+        unitCost: String(line.unit_cost),
+        lotNumber: "",
+        expiryDate: "",
+        unplanned: line.quantity === 0,
+      })),
+  )
+  const [costing, setCosting] = useState<CostingMethod>(settings.inventory.costingMethod || "average")
+  const [isLoading, setIsLoading] = useState(false)
+
+  const canReceive = order.status === "ordered" || order.status === "partially_received"
+
+  const updateRow = (productId: string | undefined, changes: Partial<ReceivingRow>) => {
+    setRows((prev) => prev.map((row) => (row.product.id === productId ? { ...row, ...changes } : row)))
+  }
+
+  // Same lookup as the scanner: GS1 case labels resolve to their GTIN (and fill in the lot and expiry they carry),
+  // in-store labels to their base product
+  const handleBarcodeDetected = async (scannedCode: string) => {
+    if (!canReceive) return
+
+    const gs1 = parseGs1(scannedCode)
+    const barcode = (gs1 && getGs1ProductBarcode(gs1)) || scannedCode
+
+    try {
+      setIsLoading(true)
+      const { product, measure } = await fetchProductByScannedBarcode(
+        barcode,
+        settings.scanning.variableMeasureRules || DEFAULT_VARIABLE_MEASURE_RULES,
+      )
+
+      if (!product?.id) {
+        toast({
+          title: "Unknown Product",
+          description: `No product is registered with barcode ${barcode}. Add it before receiving it.`,
+          variant: "destructive",
+        })
+        return
+      }
+
+      const quantity = measure ? getVariableMeasureQuantity(measure, product.price) : 1
+      if (quantity === null) {
+        toast({
+          title: "Unit price missing",
+          description: "Set the product's price per kg to receive price labels.",
+          variant: "destructive",
+        })
+        return
+      }
+
+      setRows((prev) => {
+        const existing = prev.find((row) => row.product.id === product.id)
+        if (existing) {
+          return prev.map((row) =>
+            row === existing
+              ? {
+                  ...row,
+                  receiving: String(parseNumber(row.receiving) + quantity),
+                  lotNumber: gs1?.lot || row.lotNumber,
+                  expiryDate: gs1?.expiryDate || gs1?.bestBeforeDate || row.expiryDate,
+                }
+              : row,
+          )
+        }
+
+        toast({
+          title: "Not on this order",
+          description: `${product.name} was added as an unordered delivery.`,
+        })
+        return [
+          ...prev,
+          {
+            product,
+            ordered: 0,
+            previouslyReceived: 0,
+            receiving: String(quantity),
+            unitCost: String(parseNumber(product.purchase_price)),
+            lotNumber: gs1?.lot || "",
+            expiryDate: gs1?.expiryDate || gs1?.bestBeforeDate || "",
+            unplanned: true,
+          },
+        ]
+      })
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive",
+      })
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  // Handheld scanners check off lines directly
+  useKeyboardWedge(handleBarcodeDetected)
+
+  const getFlag = (row: ReceivingRow): DeliveryFlag => {
+    if (row.unplanned) return "not_ordered"
+    const total = row.previouslyReceived + parseNumber(row.receiving)
+    if (total < row.ordered) return "under"
+    if (total > row.ordered) return "over"
+    return "ok"
+  }
+
+  const handlePostReceipt = async () => {
+    const items = rows
+      .filter((row) => parseNumber(row.receiving) > 0)
+      .map((row) => ({
+        productId: row.product.id!,
+        quantity: parseNumber(row.receiving),
+        unitCost: row.unplanned ? parseNumber(row.unitCost) : undefined,
+        lotNumber: row.lotNumber.trim() || undefined,
+        expiryDate: row.expiryDate || undefined,
+      }))
+
+    if (items.length === 0) {
+      toast({ title: "Nothing to receive", description: "Scan or enter the delivered quantities first." })
+      return
+    }
+
+    try {
+      setIsLoading(true)
+      const updated = await receivePurchaseOrder(order.id, items, costing)
+      toast({
+        title: "Delivery received",
+        description: `Stock updated for ${items.length} product${items.length === 1 ? "" : "s"}.`,
+      })
+      onReceived({ ...order, ...updated })
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive",
+      })
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const discrepancies = rows.filter((row) => getFlag(row) !== "ok").length
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between gap-2">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              {order.reference}
+              <Badge variant={canReceive ? "default" : "secondary"}>{order.status.replace("_", " ")}</Badge>
+            </CardTitle>
+            <CardDescription>
+              {order.supplier?.name || "Unknown supplier"}
+              {order.expected_date && ` • Expected ${new Date(order.expected_date).toLocaleDateString()}`}
+            </CardDescription>
+          </div>
+          <Button variant="outline" size="sm" onClick={onClose}>
+            <ArrowLeft className="h-4 w-4 mr-1" />
+            Orders
+          </Button>
+        </CardHeader>
+      </Card>
+
+      {canReceive ? (
+        <BarcodeScanner onBarcodeDetected={handleBarcodeDetected} isLoading={isLoading} />
+      ) : (
+        <p className="text-sm text-muted-foreground text-center py-4">This order is {order.status.replace("_", " ")}.</p>
+      )}
+
+      <Card>
+        <CardHeader className="pb-2">
+          <CardTitle className="text-base">Delivery</CardTitle>
+          <CardDescription>
+            {discrepancies === 0
+              ? "Every line matches the order"
+              : `${discrepancies} line${discrepancies === 1 ? "" : "s"} differ from the order`}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {rows.length === 0 ? (
+            <p className="text-sm text-muted-foreground">This order has no lines. Scan products to receive them.</p>
+          ) : (
+            <div className="rounded-md border overflow-hidden">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Product</TableHead>
+                    <TableHead className="text-right">Ordered</TableHead>
+                    <TableHead className="text-right">Received</TableHead>
+                    <TableHead className="text-right">Receiving now</TableHead>
+                    <TableHead className="text-right">Unit cost</TableHead>
+                    <TableHead>Lot / Expiry</TableHead>
+                    <TableHead>Status</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {rows.map((row) => {
+                    const flag = getFlag(row)
+                    return (
+                      <TableRow key={row.product.id}>
+                        <TableCell>
+                          <div className="flex flex-col">
+                            <span className="truncate max-w-[200px]">{row.product.name}</span>
+                            <span className="text-xs text-muted-foreground">{row.product.barcode}</span>
+                          </div>
+                        </TableCell>
+                        <TableCell className="text-right">{row.ordered}</TableCell>
+                        <TableCell className="text-right">{row.previouslyReceived}</TableCell>
+                        <TableCell className="text-right">
+                          <Input
+                            type="number"
+                            min="0"
+                            step="any"
+                            className="w-20 ml-auto text-right"
+                            value={row.receiving}
+                            onChange={(e) => updateRow(row.product.id, { receiving: e.target.value })}
+                            disabled={!canReceive}
+                          />
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {row.unplanned ? (
+                            <Input
+                              type="number"
+                              min="0"
+                              step="0.01"
+                              className="w-24 ml-auto text-right"
+                              value={row.unitCost}
+                              onChange={(e) => updateRow(row.product.id, { unitCost: e.target.value })}
+                              disabled={!canReceive}
+                            />
+                          ) : (
+                            parseNumber(row.unitCost).toFixed(2)
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          <div className="flex flex-col gap-1">
+                            <Input
+                              placeholder="Lot"
+                              aria-label="Lot number"
+                              className="w-28 h-8"
+                              value={row.lotNumber}
+                              onChange={(e) => updateRow(row.product.id, { lotNumber: e.target.value })}
+                              disabled={!canReceive}
+                            />
+                            <Input
+                              type="date"
+                              aria-label="Expiry date"
+                              className="w-36 h-8"
+                              value={row.expiryDate}
+                              onChange={(e) => updateRow(row.product.id, { expiryDate: e.target.value })}
+                              disabled={!canReceive}
+                            />
+                          </div>
+                        </TableCell>
+                        <TableCell>
+                          <Badge
+                            variant={flag === "ok" ? "outline" : flag === "under" ? "secondary" : "destructive"}
+                          >
+                            {FLAG_LABELS[flag]}
+                          </Badge>
+                        </TableCell>
+                      </TableRow>
+                    )
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+
+          {canReceive && (
+            <div className="flex flex-col sm:flex-row sm:items-end justify-between gap-4">
+              <div className="space-y-1">
+                <Label>Costing</Label>
+                <Select value={costing} onValueChange={(value) => setCosting(value as CostingMethod)}>
+                  <SelectTrigger className="w-[200px]">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="average">Weighted average</SelectItem>
+                    <SelectItem value="last">Last cost</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <Button onClick={handlePostReceipt} disabled={isLoading}>
+                {isLoading ? (
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                ) : (
+                  <PackageCheck className="h-4 w-4 mr-2" />
+                )}
+                Post Receipt
+              </Button>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,211 @@
+"use client"
+
+import { useState, useRef, useEffect } from "react"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card"
+import { Progress } from "@/components/ui/progress"
+import { ImageIcon, Loader2, Send, Trash2, Upload } from "lucide-react"
+import { useToast } from "@/hooks/use-toast"
+import {
+  SCANNER_ENGINES,
+  createSupportedScannerEngines,
+  decodeImage,
+  loadImageToCanvas,
+  type ImageScanResult,
+} from "@/lib/scanner"
+
+interface ScannedImage {
+  id: string
+  fileName: string
+  previewUrl: string
+  results: ImageScanResult[]
+  error?: string
+}
+
+interface ImageBarcodeScannerProps {
+  onSendToBatch: (barcodes: string[]) => void
+}
+
+const getEngineLabel = (id: string) => SCANNER_ENGINES.find((engine) => engine.id === id)?.label || id
+
+/**
+ * Decode barcodes from photos and image files, e.g. supplier invoices or product pictures
+ */
+export function ImageBarcodeScanner({ onSendToBatch }: ImageBarcodeScannerProps) {
+  const [images, setImages] = useState<ScannedImage[]>([])
+  const [isProcessing, setIsProcessing] = useState(false)
+  const [processedCount, setProcessedCount] = useState(0)
+  const [totalCount, setTotalCount] = useState(0)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const imagesRef = useRef<ScannedImage[]>([])
+  const { toast } = useToast()
+
+  // Track the current images so the unmount cleanup can see them
+  useEffect(() => {
+    imagesRef.current = images
+  }, [images])
+
+  // Release the preview URLs when the component unmounts
+  useEffect(() => {
+    return () => {
+      imagesRef.current.forEach((image) => URL.revokeObjectURL(image.previewUrl))
+    }
+  }, [])
+
+  const handleFiles = async (fileList: FileList | null) => {
+    const files = Array.from(fileList || []).filter((file) => file.type.startsWith("image/"))
+    if (files.length === 0) return
+
+    setIsProcessing(true)
+    setProcessedCount(0)
+    setTotalCount(files.length)
+
+    try {
+      const engines = await createSupportedScannerEngines()
+      if (engines.length === 0) {
+        throw new Error("No barcode scanner engine is available on this device")
+      }
+
+      for (let i = 0; i < files.length; i++) {
+        const file = files[i]
+        const scanned: ScannedImage = {
+          id: `${Date.now()}-${i}`,
+          fileName: file.name,
+          previewUrl: URL.createObjectURL(file),
+          results: [],
+        }
+
+        try {
+          const canvas = await loadImageToCanvas(file)
+          scanned.results = await decodeImage(canvas, engines)
+          console.log(`Found ${scanned.results.length} barcode(s) in ${file.name}`)
+        } catch (error) {
+          console.error(`Error decoding ${file.name}:`, error)
+          scanned.error = error instanceof Error ? error.message : "Could not decode this image"
+        }
+
+        setImages((prev) => [...prev, scanned])
+        setProcessedCount(i + 1)
+      }
+
+      engines.forEach((engine) => engine.dispose())
+    } catch (error) {
+      toast({
+        title: "Image scan failed",
+        description: error instanceof Error ? error.message : "Unknown error occurred",
+        variant: "destructive",
+      })
+    } finally {
+      setIsProcessing(false)
+      if (fileInputRef.current) fileInputRef.current.value = ""
+    }
+  }
+
+  const removeImage = (id: string) => {
+    setImages((prev) => {
+      const image = prev.find((item) => item.id === id)
+      if (image) URL.revokeObjectURL(image.previewUrl)
+      return prev.filter((item) => item.id !== id)
+    })
+  }
+
+  const clearImages = () => {
+    images.forEach((image) => URL.revokeObjectURL(image.previewUrl))
+    setImages([])
+  }
+
+  // Unique codes across all images, in the order they were found
+  const barcodes = images
+    .reduce<string[]>((codes, image) => codes.concat(image.results.map((result) => result.code)), [])
+    .filter((code, index, codes) => codes.indexOf(code) === index)
+
+  const sendToBatch = () => {
+    onSendToBatch(barcodes)
+    toast({
+      title: "Sent to batch processor",
+      description: `${barcodes.length} barcode${barcodes.length === 1 ? "" : "s"} added to the batch processor`,
+    })
+  }
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <CardTitle>Scan Images</CardTitle>
+        <CardDescription>Find barcodes in photos or image files, such as invoices and product pictures</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="image/*"
+          multiple
+          className="hidden"
+          onChange={(e) => handleFiles(e.target.files)}
+        />
+        <Button
+          className="w-full"
+          variant="outline"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={isProcessing}
+        >
+          {isProcessing ? (
+            <>
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              Decoding {processedCount}/{totalCount}...
+            </>
+          ) : (
+            <>
+              <Upload className="h-4 w-4 mr-2" />
+              Choose Images
+            </>
+          )}
+        </Button>
+
+        {isProcessing && <Progress value={Math.round((processedCount / totalCount) * 100)} />}
+
+        {images.map((image) => (
+          <div key={image.id} className="flex gap-3 rounded-md border p-2">
+            <img src={image.previewUrl} alt={image.fileName} className="h-16 w-16 rounded object-cover" />
+            <div className="min-w-0 flex-1 space-y-1">
+              <div className="flex items-center justify-between gap-2">
+                <span className="truncate text-sm font-medium">{image.fileName}</span>
+                <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => removeImage(image.id)}>
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+              {image.error ? (
+                <p className="text-xs text-destructive">{image.error}</p>
+              ) : image.results.length === 0 ? (
+                <p className="text-xs text-muted-foreground flex items-center">
+                  <ImageIcon className="h-3 w-3 mr-1" />
+                  No barcodes found
+                </p>
+              ) : (
+                image.results.map((result) => (
+                  <div key={result.code} className="flex flex-wrap items-center gap-1 text-xs">
+                    <span className="font-mono">{result.code}</span>
+                    <Badge variant="secondary">{result.format}</Badge>
+                    <span className="text-muted-foreground">{result.engines.map(getEngineLabel).join(", ")}</span>
+                  </div>
+                ))
+              )}
+            </div>
+          </div>
+        ))}
+      </CardContent>
+      {images.length > 0 && (
+        <CardFooter className="flex justify-between gap-2">
+          <Button variant="outline" onClick={clearImages} disabled={isProcessing}>
+            <Trash2 className="h-4 w-4 mr-2" />
+            Clear
+          </Button>
+          <Button onClick={sendToBatch} disabled={isProcessing || barcodes.length === 0}>
+            <Send className="h-4 w-4 mr-2" />
+            Send {barcodes.length} to Batch Processor
+          </Button>
+        </CardFooter>
+      )}
+    </Card>
+  )
+}
@@ -2,6 +2,7 @@
 
 import { useState, useEffect, useMemo } from "react"
 import { fetchProductInfoFromWeb, saveProduct } from "@/services/product-service"
+import { productRepository } from "@/services/product-repository"
 import type { Product } from "@/types/product"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
@@ -154,27 +155,7 @@ export function IncompleteProductsManager() {
         return
       }
 
-      const { data, error } = await supabase
-        .from("products")
-        .select("*, categories:category_id(*)")
-        .order("created_at", { ascending: false })
-
-      if (error) {
-        throw error
-      }
-
-      // Transform the data to match our Product interface
-      const transformedProducts = data.map((item: any) => ({
-        ...item,
-        category: item.categories,
-        isLowStock:
-          typeof item.stock === "number" && typeof item.min_stock === "number" ? item.stock <= item.min_stock : false,
-        isExpiringSoon: item.expiry_date
-          ? checkIfExpiringSoon(item.expiry_date, item.expiry_notification_days || 30)
-          : false,
-      })) as Product[]
-
-      setProducts(transformedProducts)
+      setProducts(await productRepository.list())
     } catch (error) {
       console.error("Error fetching products:", error)
       toast({
@@ -388,7 +369,7 @@ export function IncompleteProductsManager() {
     setSaving(true)
     try {
       console.log("Saving product:", selectedProduct)
-      const savedProduct = await saveProduct(selectedProduct)
+      const savedProduct = await saveProduct(selectedProduct, "incomplete_products")
       console.log("Product saved successfully:", savedProduct)
 
       // Update the products list with the saved product
@@ -571,7 +552,7 @@ export function IncompleteProductsManager() {
         console.log("Product to save:", updatedProduct)
 
         // Save the updated product
-        const savedProduct = await saveProduct(updatedProduct)
+        const savedProduct = await saveProduct(updatedProduct, "incomplete_products")
         console.log("Saved product:", savedProduct)
 
         // Update our local copy of the products array
@@ -616,18 +597,6 @@ export function IncompleteProductsManager() {
     })
   }
 
-  // Helper function to check if a product is expiring soon
-  function checkIfExpiringSoon(expiryDateStr: string, notificationDays: number): boolean {
-    if (!expiryDateStr) return false
-
-    const expiryDate = new Date(expiryDateStr)
-    const today = new Date()
-    const diffTime = expiryDate.getTime() - today.getTime()
-    const diffDays = Math.ceil(diffTime / (1000 * 60 * 60 * 24))
-
-    return diffDays <= notificationDays && diffDays >= 0
-  }
-
   // Add a debug function to help troubleshoot UI updates
   function debugProductState() {
     console.log("Current products state:", products)
@@ -7,6 +7,7 @@ import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Loader2, Barcode } from "lucide-react"
+import { parseGs1, validateBarcode } from "@/lib/barcode"
 
 interface ManualEntryProps {
   onSubmit: (barcode: string) => void
@@ -15,12 +16,29 @@ interface ManualEntryProps {
 
 export function ManualEntry({ onSubmit, isLoading }: ManualEntryProps) {
   const [barcode, setBarcode] = useState("")
+  const [validationError, setValidationError] = useState<string | null>(null)
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault()
-    if (barcode.trim()) {
+    if (!barcode.trim()) return
+
+    // GS1 element strings such as "(01)...(17)...(10)..." are passed through whole
+    const gs1 = parseGs1(barcode)
+    if (gs1?.gtin) {
+      setValidationError(null)
       onSubmit(barcode.trim())
+      return
+    }
+
+    // Reject typos before searching
+    const validation = validateBarcode(barcode)
+    if (!validation.valid) {
+      setValidationError(validation.error || "Invalid barcode")
+      return
     }
+
+    setValidationError(null)
+    onSubmit(validation.input)
   }
 
   return (
@@ -35,9 +53,13 @@ export function ManualEntry({ onSubmit, isLoading }: ManualEntryProps) {
               type="text"
               placeholder="Enter barcode"
               value={barcode}
-              onChange={(e) => setBarcode(e.target.value)}
+              onChange={(e) => {
+                setBarcode(e.target.value)
+                setValidationError(null)
+              }}
               disabled={isLoading}
             />
+            {validationError && <p className="text-sm font-medium text-destructive">{validationError}</p>}
           </div>
           <Button type="submit" className="w-full" disabled={isLoading || !barcode.trim()}>
             {isLoading ? (
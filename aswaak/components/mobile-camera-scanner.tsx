@@ -6,6 +6,18 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "
 import { Camera, X, RefreshCw, AlertTriangle, Info, Play } from "lucide-react"
 import { useToast } from "@/hooks/use-toast"
 import { useSettings } from "@/contexts/settings-context" // Add this import
+import { calculateCheckDigit } from "@/lib/barcode"
+import {
+  SCANNER_ENGINES,
+  captureVideoFrame,
+  createScanConsensus,
+  createScanFilter,
+  createScannerEngine,
+  detectScannerCapabilities,
+  startScanLoop,
+  type ScanResult,
+  type ScannerEngine,
+} from "@/lib/scanner"
 
 interface MobileCameraScannerProps {
   onBarcodeDetected: (barcode: string) => void
@@ -23,8 +35,12 @@ export function MobileCameraScanner({ onBarcodeDetected, isLoading = false }: Mo
   const [showDebugInfo, setShowDebugInfo] = useState(false)
   const [needsUserInteraction, setNeedsUserInteraction] = useState(false)
   const [isScanning, setIsScanning] = useState(false)
-  const [lastDetectedCode, setLastDetectedCode] = useState<string | null>(null)
-  const scanIntervalRef = useRef<NodeJS.Timeout | null>(null)
+  const [lastResult, setLastResult] = useState<ScanResult | null>(null)
+  const [engineLabel, setEngineLabel] = useState<string | null>(null)
+  const engineRef = useRef<ScannerEngine | null>(null)
+  const stopScanLoopRef = useRef<(() => void) | null>(null)
+  const scanFilterRef = useRef(createScanFilter())
+  const consensusRef = useRef(createScanConsensus())
   const { settings } = useSettings() // Add this to access settings
 
   // Add debug info with timestamp
@@ -41,9 +57,6 @@ export function MobileCameraScanner({ onBarcodeDetected, isLoading = false }: Mo
     console.log(`[Camera Debug] ${message}`)
   }
 
-  // Check if BarcodeDetector is available
-  const isBarcodeDetectorSupported = typeof window !== "undefined" && "BarcodeDetector" in window
-
   // Start camera when dialog opens
   useEffect(() => {
     if (!isOpen) return
@@ -134,159 +147,105 @@ export function MobileCameraScanner({ onBarcodeDetected, isLoading = false }: Mo
         stream.getTracks().forEach((track) => track.stop())
       }
 
-      setIsScanning(false)
+      stopScanLoop()
     }
   }, [isOpen, facingMode])
 
-  // Function to start barcode scanning - now just sets up the canvas
+  // Release the engine when the dialog closes so a changed preference takes effect next time
+  useEffect(() => {
+    if (isOpen) return
+
+    if (engineRef.current) {
+      engineRef.current.dispose()
+      engineRef.current = null
+      setEngineLabel(null)
+    }
+    scanFilterRef.current.reset()
+    consensusRef.current.reset()
+  }, [isOpen])
+
+  // Create the scanner engine and, when auto-detect is on, start decoding frames
   const startBarcodeScanning = async () => {
     if (!videoRef.current || !canvasRef.current) {
       addDebugInfo("Cannot start scanning: video or canvas ref not available")
       return
     }
 
-    setIsScanning(false) // Set to false since we're not auto-scanning
-    addDebugInfo("Manual capture mode enabled (auto-scanning disabled)")
-
-    // Check if native BarcodeDetector is available
-    if (isBarcodeDetectorSupported) {
-      try {
-        const formats = await (window as any).BarcodeDetector.getSupportedFormats()
-        addDebugInfo(`Supported formats: ${formats.join(", ")}`)
-      } catch (error) {
-        addDebugInfo(`BarcodeDetector initialization error: ${(error as Error).message}`)
-      }
-    }
-  }
-
-  // Fallback to ZXing library for barcode scanning
-  const startZXingScanning = async () => {
-    addDebugInfo("Initializing ZXing barcode scanning")
+    stopScanLoop()
 
     try {
-      // Dynamically import ZXing
-      const ZXing = await import("@zxing/library")
-      const codeReader = new ZXing.BrowserMultiFormatReader()
-
-      addDebugInfo("ZXing initialized")
-
-      // Set up scanning interval
-      if (scanIntervalRef.current) {
-        clearInterval(scanIntervalRef.current)
-      }
-
-      scanIntervalRef.current = setInterval(() => {
-        if (!videoRef.current || !canvasRef.current || videoRef.current.paused || videoRef.current.ended) {
-          return
+      if (!engineRef.current) {
+        const capabilities = await detectScannerCapabilities()
+        addDebugInfo(
+          `Engines: ${SCANNER_ENGINES.map((engine) => `${engine.id}=${capabilities.engines[engine.id] ? "yes" : "no"}`).join(", ")}`,
+        )
+        if (capabilities.nativeFormats.length > 0) {
+          addDebugInfo(`Native formats: ${capabilities.nativeFormats.join(", ")}`)
         }
 
-        try {
-          // Draw the current video frame to the canvas
-          const canvas = canvasRef.current
-          const context = canvas.getContext("2d")
-
-          if (!context) return
-
-          // Set canvas dimensions to match video
-          canvas.width = videoRef.current.videoWidth
-          canvas.height = videoRef.current.videoHeight
-
-          // Draw video frame to canvas
-          context.drawImage(videoRef.current, 0, 0, canvas.width, canvas.height)
-
-          // Get image data for processing
-          const imageData = context.getImageData(0, 0, canvas.width, canvas.height)
-
-          // Process with ZXing
-          const hints = new Map()
-          hints.set(ZXing.DecodeHintType.POSSIBLE_FORMATS, [
-            ZXing.BarcodeFormat.EAN_13,
-            ZXing.BarcodeFormat.EAN_8,
-            ZXing.BarcodeFormat.CODE_39,
-            ZXing.BarcodeFormat.CODE_128,
-            ZXing.BarcodeFormat.UPC_A,
-            ZXing.BarcodeFormat.UPC_E,
-            ZXing.BarcodeFormat.QR_CODE,
-            ZXing.BarcodeFormat.DATA_MATRIX,
-          ])
-
-          const luminanceSource = new ZXing.HTMLCanvasElementLuminanceSource(canvas)
-          const binaryBitmap = new ZXing.BinaryBitmap(new ZXing.HybridBinarizer(luminanceSource))
-
-          try {
-            const result = new ZXing.MultiFormatReader().decode(binaryBitmap, hints)
-
-            if (result && result.getText()) {
-              const barcode = result.getText()
-              addDebugInfo(`ZXing detected barcode: ${barcode}`)
-
-              // Only process if it's a new code
-              if (barcode !== lastDetectedCode) {
-                setLastDetectedCode(barcode)
-                handleSuccessfulScan(barcode)
-              }
-            }
-          } catch (error) {
-            // ZXing throws errors when no barcode is found, so we ignore those
-            if (!(error instanceof ZXing.NotFoundException)) {
-              addDebugInfo(`ZXing error: ${(error as Error).message}`)
-            }
-          }
-        } catch (error) {
-          addDebugInfo(`Canvas processing error: ${(error as Error).message}`)
-        }
-      }, 500) // Check every 500ms
+        engineRef.current = await createScannerEngine(settings.scanning.preferredScanner)
+        setEngineLabel(engineRef.current.label)
+        addDebugInfo(`Using ${engineRef.current.label} (formats: ${engineRef.current.formats.join(", ")})`)
+      }
     } catch (error) {
-      addDebugInfo(`ZXing initialization error: ${(error as Error).message}`)
-      // Fall back to simple image processing
-      startSimpleImageProcessing()
+      addDebugInfo(`Scanner engine error: ${(error as Error).message}`)
+      setErrorMessage("Barcode scanning is not supported on this device")
+      return
     }
-  }
 
-  // Fallback to simple image processing for barcode detection
-  const startSimpleImageProcessing = () => {
-    addDebugInfo("Using simple image processing for barcode detection")
+    // Votes are counted with the thresholds configured in settings
+    consensusRef.current = createScanConsensus({
+      requiredReads: settings.scanning.confirmationReads,
+      window: settings.scanning.confirmationWindowMs,
+      maxEdgeError: settings.scanning.maxEdgeError,
+    })
 
-    // Set up scanning interval
-    if (scanIntervalRef.current) {
-      clearInterval(scanIntervalRef.current)
+    if (!settings.scanning.autoDetect) {
+      addDebugInfo("Manual capture mode enabled (auto-detect disabled in settings)")
+      return
     }
 
-    scanIntervalRef.current = setInterval(() => {
-      if (!videoRef.current || !canvasRef.current || videoRef.current.paused || videoRef.current.ended) {
-        return
-      }
-
-      try {
-        // Draw the current video frame to the canvas
-        const canvas = canvasRef.current
-        const context = canvas.getContext("2d")
-
-        if (!context) return
-
-        // Set canvas dimensions to match video
-        canvas.width = videoRef.current.videoWidth
-        canvas.height = videoRef.current.videoHeight
+    setIsScanning(true)
+    stopScanLoopRef.current = startScanLoop(engineRef.current, videoRef.current, canvasRef.current, {
+      onResults: (results) => {
+        for (const result of results) {
+          if (handleScanResult(result)) break
+        }
+      },
+      onError: (error) => addDebugInfo(`Decode error: ${error.message}`),
+    })
+  }
 
-        // Draw video frame to canvas
-        context.drawImage(videoRef.current, 0, 0, canvas.width, canvas.height)
+  const stopScanLoop = () => {
+    if (stopScanLoopRef.current) {
+      stopScanLoopRef.current()
+      stopScanLoopRef.current = null
+    }
+    setIsScanning(false)
+  }
 
-        // For simple processing, we just look for high contrast areas
-        // This is a very basic approach and won't actually detect barcodes
-        // In a real app, you'd use a proper barcode scanning library
-      } catch (error) {
-        addDebugInfo(`Image processing error: ${(error as Error).message}`)
-      }
-    }, 500)
+  // Vote on a decoded result and use it once confirmed, returns true when the scan was accepted.
+  // A manual capture is a deliberate single read, so it only needs one vote.
+  const handleScanResult = (result: ScanResult, requiredReads?: number): boolean => {
+    const confidence = result.confidence === null ? "n/a" : `${Math.round(result.confidence * 100)}%`
+    const vote = consensusRef.current.submit(result, requiredReads)
+    addDebugInfo(
+      `${result.engine} read ${result.format} ${result.code} (confidence ${confidence}): ${
+        vote.reason || vote.status
+      } ${vote.votes}/${vote.required}`,
+    )
+
+    if (vote.status !== "confirmed" || !scanFilterRef.current.accept(result)) return false
+
+    setLastResult(result)
+    handleSuccessfulScan(result.code)
+    return true
   }
 
   // Handle successful barcode scan
   const handleSuccessfulScan = (barcode: string) => {
     // Stop scanning
-    if (scanIntervalRef.current) {
-      clearInterval(scanIntervalRef.current)
-      scanIntervalRef.current = null
-    }
+    stopScanLoop()
 
     // Play success sound if enabled in settings
     if (settings.scanning.beepOnScan) {
@@ -314,12 +273,7 @@ export function MobileCameraScanner({ onBarcodeDetected, isLoading = false }: Mo
   // Switch camera
   const switchCamera = () => {
     // Stop scanning before switching
-    if (scanIntervalRef.current) {
-      clearInterval(scanIntervalRef.current)
-      scanIntervalRef.current = null
-    }
-
-    setIsScanning(false)
+    stopScanLoop()
     setFacingMode((prev) => (prev === "environment" ? "user" : "environment"))
     addDebugInfo(`Switching camera to ${facingMode === "environment" ? "user" : "environment"}`)
   }
@@ -339,108 +293,25 @@ export function MobileCameraScanner({ onBarcodeDetected, isLoading = false }: Mo
   }
 
   // Manual capture button handler
-  const handleManualCapture = () => {
-    if (!videoRef.current || !canvasRef.current) {
-      addDebugInfo("Cannot capture: video or canvas ref not available")
+  const handleManualCapture = async () => {
+    if (!videoRef.current || !canvasRef.current || !engineRef.current) {
+      addDebugInfo("Cannot capture: video, canvas or scanner engine not available")
       return
     }
 
     addDebugInfo("Manual capture initiated")
 
     try {
-      // Draw the current video frame to the canvas
-      const canvas = canvasRef.current
-      const context = canvas.getContext("2d")
-
-      if (!context) return
-
-      // Set canvas dimensions to match video
-      canvas.width = videoRef.current.videoWidth
-      canvas.height = videoRef.current.videoHeight
-
-      // Draw video frame to canvas
-      context.drawImage(videoRef.current, 0, 0, canvas.width, canvas.height)
-
-      // Try to detect barcode with BarcodeDetector if available
-      if (isBarcodeDetectorSupported) {
-        const barcodeDetector = new (window as any).BarcodeDetector({
-          formats: ["ean_13", "ean_8", "code_39", "code_128", "qr_code", "data_matrix", "upc_a", "upc_e"],
-        })
-
-        barcodeDetector
-          .detect(canvas)
-          .then((barcodes: any[]) => {
-            if (barcodes.length > 0) {
-              // Get the first detected barcode
-              const barcode = barcodes[0]
-              addDebugInfo(`Manual capture detected: ${barcode.rawValue}`)
-              handleSuccessfulScan(barcode.rawValue)
-            } else {
-              addDebugInfo("No barcode found in manual capture")
-              toast({
-                title: "No barcode detected",
-                description: "Try adjusting the position or lighting",
-                variant: "destructive",
-              })
-            }
-          })
-          .catch((error: Error) => {
-            addDebugInfo(`Manual detection error: ${error.message}`)
-            // Fallback to ZXing if available
-            detectWithZXing(canvas)
-          })
-      } else {
-        // If BarcodeDetector is not available, try ZXing
-        detectWithZXing(canvas)
+      if (!captureVideoFrame(videoRef.current, canvasRef.current)) {
+        addDebugInfo("No video frame available to capture")
+        return
       }
-    } catch (error) {
-      addDebugInfo(`Manual capture error: ${(error as Error).message}`)
-      toast({
-        title: "Capture failed",
-        description: "Please try again",
-        variant: "destructive",
-      })
-    }
-  }
 
-  // Helper function to detect with ZXing
-  const detectWithZXing = async (canvas: HTMLCanvasElement) => {
-    try {
-      // Dynamically import ZXing
-      const ZXing = await import("@zxing/library")
-
-      const luminanceSource = new ZXing.HTMLCanvasElementLuminanceSource(canvas)
-      const binaryBitmap = new ZXing.BinaryBitmap(new ZXing.HybridBinarizer(luminanceSource))
-
-      const hints = new Map()
-      hints.set(ZXing.DecodeHintType.POSSIBLE_FORMATS, [
-        ZXing.BarcodeFormat.EAN_13,
-        ZXing.BarcodeFormat.EAN_8,
-        ZXing.BarcodeFormat.CODE_39,
-        ZXing.BarcodeFormat.CODE_128,
-        ZXing.BarcodeFormat.UPC_A,
-        ZXing.BarcodeFormat.UPC_E,
-        ZXing.BarcodeFormat.QR_CODE,
-        ZXing.BarcodeFormat.DATA_MATRIX,
-      ])
+      const results = await engineRef.current.decode(canvasRef.current)
+      const accepted = results.some((result) => handleScanResult(result, 1))
 
-      try {
-        const result = new ZXing.MultiFormatReader().decode(binaryBitmap, hints)
-
-        if (result && result.getText()) {
-          const barcode = result.getText()
-          addDebugInfo(`ZXing detected barcode: ${barcode}`)
-          handleSuccessfulScan(barcode)
-        } else {
-          addDebugInfo("ZXing could not detect a barcode")
-          toast({
-            title: "No barcode detected",
-            description: "Try adjusting the position or lighting",
-            variant: "destructive",
-          })
-        }
-      } catch (error) {
-        addDebugInfo(`ZXing decode error: ${(error as Error).message}`)
+      if (!accepted) {
+        addDebugInfo("No barcode found in manual capture")
         toast({
           title: "No barcode detected",
           description: "Try adjusting the position or lighting",
@@ -448,11 +319,10 @@ export function MobileCameraScanner({ onBarcodeDetected, isLoading = false }: Mo
         })
       }
     } catch (error) {
-      addDebugInfo(`ZXing import error: ${(error as Error).message}`)
-      // If all else fails, show a message
+      addDebugInfo(`Manual capture error: ${(error as Error).message}`)
       toast({
-        title: "Barcode detection failed",
-        description: "Your device may not support barcode scanning",
+        title: "Capture failed",
+        description: "Please try again",
         variant: "destructive",
       })
     }
@@ -460,9 +330,10 @@ export function MobileCameraScanner({ onBarcodeDetected, isLoading = false }: Mo
 
   // Simulate a barcode scan (fallback for testing)
   const simulateScan = () => {
-    const randomBarcode = Math.floor(Math.random() * 1000000000000)
+    const digits = Math.floor(Math.random() * 1000000000000)
       .toString()
       .padStart(12, "0")
+    const randomBarcode = `${digits}${calculateCheckDigit(digits)}`
     addDebugInfo(`Simulating barcode scan: ${randomBarcode}`)
     handleSuccessfulScan(randomBarcode)
   }
@@ -494,11 +365,7 @@ export function MobileCameraScanner({ onBarcodeDetected, isLoading = false }: Mo
           setIsOpen(open)
           if (!open) {
             // Clean up when dialog closes
-            if (scanIntervalRef.current) {
-              clearInterval(scanIntervalRef.current)
-              scanIntervalRef.current = null
-            }
-            setIsScanning(false)
+            stopScanLoop()
           }
         }}
       >
@@ -580,7 +447,7 @@ export function MobileCameraScanner({ onBarcodeDetected, isLoading = false }: Mo
                   </div>
                 </div>
 
-                {/* Replace the scanning indicator with a manual mode indicator */}
+                {/* Scanning mode indicator */}
                 <div
                   style={{
                     position: "absolute",
@@ -597,7 +464,7 @@ export function MobileCameraScanner({ onBarcodeDetected, isLoading = false }: Mo
                   }}
                 >
                   <Camera className="h-3 w-3 mr-1" />
-                  Manual Mode
+                  {isScanning ? "Scanning" : "Manual Mode"}
                 </div>
 
                 {/* Play button for browsers that require user interaction */}
@@ -621,7 +488,9 @@ export function MobileCameraScanner({ onBarcodeDetected, isLoading = false }: Mo
               </div>
 
               <p className="text-sm text-center text-muted-foreground">
-                Position the barcode within the frame and tap "Capture" when ready
+                {isScanning
+                  ? "Position the barcode within the frame, it is detected automatically"
+                  : 'Position the barcode within the frame and tap "Capture" when ready'}
               </p>
 
               <DialogFooter className="flex flex-col sm:flex-row gap-2 justify-between">
@@ -659,14 +528,21 @@ export function MobileCameraScanner({ onBarcodeDetected, isLoading = false }: Mo
                   <div className="text-xs space-y-1 font-mono max-h-40 overflow-y-auto">
                     <div>• Browser: {navigator.userAgent}</div>
                     <div>• Facing mode: {facingMode}</div>
-                    <div>• BarcodeDetector API: {isBarcodeDetectorSupported ? "Supported" : "Not supported"}</div>
+                    <div>• Scanner engine: {engineLabel || "Not started"}</div>
                     <div>• Video element: {videoRef.current ? "Available" : "Not available"}</div>
                     <div>• Video playing: {videoRef.current?.paused === false ? "Yes" : "No"}</div>
                     <div>
                       • Video dimensions: {videoRef.current?.videoWidth || 0}x{videoRef.current?.videoHeight || 0}
                     </div>
-                    <div>• Mode: Manual capture only</div>
-                    <div>• Last detected code: {lastDetectedCode || "None"}</div>
+                    <div>• Mode: {isScanning ? "Continuous scanning" : "Manual capture only"}</div>
+                    <div>
+                      • Last detected code:{" "}
+                      {lastResult
+                        ? `${lastResult.code} (${lastResult.format}${
+                            lastResult.confidence === null ? "" : `, ${Math.round(lastResult.confidence * 100)}%`
+                          })`
+                        : "None"}
+                    </div>
                     <div>• Beep on scan: {settings.scanning.beepOnScan ? "Enabled" : "Disabled"}</div>
                     <div>• Auto-detect: {settings.scanning.autoDetect ? "Enabled" : "Disabled"}</div>
                     {debugInfo.map((info, i) => (
@@ -0,0 +1,175 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
+import { CloudOff, Loader2, RefreshCw } from "lucide-react"
+import { useToast } from "@/hooks/use-toast"
+import { resolveConflict, subscribeToQueue, syncOfflineQueue, type QueuedOperation } from "@/lib/offline"
+
+const SYNC_INTERVAL = 60 * 1000 // 1 minute in milliseconds
+
+const describeOperation = (operation: QueuedOperation) => {
+  switch (operation.type) {
+    case "scan":
+      return `Scan ${operation.barcode}`
+    case "save-product":
+      return `${operation.product.id ? "Update" : "Create"} ${operation.product.name || operation.product.barcode}`
+    case "update-stock":
+      return `Stock ${operation.delta > 0 ? "+" : ""}${operation.delta} for ${operation.productName}`
+  }
+}
+
+/**
+ * Pending offline operations: a badge with the count, automatic sync when the connection
+ * returns, and conflict resolution. Also registers the service worker that caches the app shell.
+ */
+export function OfflineSync() {
+  const [operations, setOperations] = useState<QueuedOperation[]>([])
+  const [isOnline, setIsOnline] = useState(true)
+  const [isSyncing, setIsSyncing] = useState(false)
+  const { toast } = useToast()
+
+  const sync = async () => {
+    if (!navigator.onLine) return
+
+    setIsSyncing(true)
+    try {
+      const summary = await syncOfflineQueue()
+      if (summary.synced > 0 || summary.conflicts > 0) {
+        toast({
+          title: "Offline changes synced",
+          description: `${summary.synced} synced, ${summary.conflicts} conflict${summary.conflicts === 1 ? "" : "s"}`,
+          variant: summary.conflicts > 0 ? "destructive" : "default",
+        })
+      }
+    } finally {
+      setIsSyncing(false)
+    }
+  }
+
+  useEffect(() => {
+    const unsubscribe = subscribeToQueue(setOperations)
+
+    const handleOnline = () => {
+      setIsOnline(true)
+      sync()
+    }
+    const handleOffline = () => setIsOnline(false)
+
+    setIsOnline(navigator.onLine)
+    window.addEventListener("online", handleOnline)
+    window.addEventListener("offline", handleOffline)
+
+    // Sync what was left over from a previous session, then retry periodically
+    sync()
+    const interval = setInterval(sync, SYNC_INTERVAL)
+
+    // The service worker only runs in production builds, where the app shell is stable
+    if ("serviceWorker" in navigator && process.env.NODE_ENV === "production") {
+      navigator.serviceWorker.register("/sw.js").catch((error) => {
+        console.error("Service worker registration failed:", error)
+      })
+    }
+
+    return () => {
+      unsubscribe()
+      window.removeEventListener("online", handleOnline)
+      window.removeEventListener("offline", handleOffline)
+      clearInterval(interval)
+    }
+  }, [])
+
+  const handleResolve = async (operation: QueuedOperation, resolution: "apply" | "discard") => {
+    try {
+      await resolveConflict(operation, resolution)
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to resolve the conflict",
+        variant: "destructive",
+      })
+    }
+  }
+
+  if (operations.length === 0 && isOnline) return null
+
+  return (
+    <div className="fixed bottom-4 left-4 z-50">
+      <Popover>
+        <PopoverTrigger asChild>
+          <Button variant="outline" size="sm" className="bg-background shadow-md">
+            {isSyncing ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : !isOnline && <CloudOff className="h-4 w-4 mr-2" />}
+            {isOnline ? "Offline queue" : "Offline"}
+            {operations.length > 0 && (
+              <Badge variant="destructive" className="ml-2">
+                {operations.length}
+              </Badge>
+            )}
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent align="start" className="w-80">
+          <div className="flex items-center justify-between mb-2">
+            <h3 className="font-semibold text-sm">Pending operations</h3>
+            <Button variant="ghost" size="sm" onClick={sync} disabled={!isOnline || isSyncing}>
+              <RefreshCw className="h-4 w-4 mr-1" />
+              Sync now
+            </Button>
+          </div>
+
+          {!isOnline && (
+            <p className="text-xs text-muted-foreground mb-2">
+              You are offline. Scans and changes are saved on this device and synced when the connection returns.
+            </p>
+          )}
+
+          {operations.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Nothing waiting to sync</p>
+          ) : (
+            <div className="max-h-72 overflow-y-auto space-y-2">
+              {operations.map((operation) => (
+                <div key={operation.id} className="rounded-md border p-2 text-xs space-y-1">
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="font-medium truncate">{describeOperation(operation)}</span>
+                    <Badge variant={operation.status === "conflict" || operation.status === "failed" ? "destructive" : "secondary"}>
+                      {operation.status}
+                    </Badge>
+                  </div>
+                  <div className="text-muted-foreground">{new Date(operation.createdAt).toLocaleString()}</div>
+                  {operation.lastError && <div className="text-destructive">{operation.lastError}</div>}
+
+                  {operation.status === "conflict" && (
+                    <>
+                      <div className="text-muted-foreground">
+                        {operation.serverProduct
+                          ? `Changed on the server at ${new Date(operation.serverProduct.updated_at || "").toLocaleString()}`
+                          : "The product no longer exists on the server"}
+                      </div>
+                      <div className="flex gap-2">
+                        {(operation.type === "save-product" || operation.serverProduct) && (
+                          <Button size="sm" className="h-7 text-xs" onClick={() => handleResolve(operation, "apply")}>
+                            Apply mine
+                          </Button>
+                        )}
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          className="h-7 text-xs"
+                          onClick={() => handleResolve(operation, "discard")}
+                        >
+                          Discard
+                        </Button>
+                      </div>
+                    </>
+                  )}
+
+                </div>
+              ))}
+            </div>
+          )}
+        </PopoverContent>
+      </Popover>
+    </div>
+  )
+}
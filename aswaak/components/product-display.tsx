@@ -1,20 +1,37 @@
 "use client"
 
+import { useState } from "react"
 import { Card, CardContent, CardFooter, CardHeader, CardTitle } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
-import { Edit } from "lucide-react"
+import { Edit, PackagePlus } from "lucide-react"
 import type { Product } from "@/types/product"
 import { Badge } from "@/components/ui/badge"
 import { Separator } from "@/components/ui/separator"
 import { useSettings } from "@/contexts/settings-context"
+import { StockControl } from "@/components/stock-control"
+import { StockMovementHistory } from "@/components/stock-movement-history"
+import { ProductSuppliers } from "@/components/product-suppliers"
+import { StockLots } from "@/components/stock-lots"
+import { AuditTimeline } from "@/components/audit-timeline"
+import { fetchProductById } from "@/services/product-service"
 
 interface ProductDisplayProps {
   product: Product
   onEdit: () => void
+  // Called with the reloaded product after a change was reverted
+  onChange?: (product: Product) => void
 }
 
-export function ProductDisplay({ product, onEdit }: ProductDisplayProps) {
+export function ProductDisplay({ product, onEdit, onChange }: ProductDisplayProps) {
   const { settings } = useSettings()
+  const [showStockControl, setShowStockControl] = useState(false)
+  const [stockRefreshKey, setStockRefreshKey] = useState(0)
+
+  const handleReverted = async () => {
+    if (!product.id) return
+    const updated = await fetchProductById(product.id)
+    if (updated) onChange?.(updated)
+  }
 
   // Log the product to see what we're working with
   console.log("Product in ProductDisplay:", JSON.stringify(product, null, 2))
@@ -117,11 +134,18 @@ export function ProductDisplay({ product, onEdit }: ProductDisplayProps) {
       <CardHeader className="pb-2">
         <div className="flex justify-between items-start">
           <div>
-            {categoryName && (
-              <Badge variant="outline" className="mb-2">
-                {categoryName}
-              </Badge>
-            )}
+            <div className="flex gap-2">
+              {categoryName && (
+                <Badge variant="outline" className="mb-2">
+                  {categoryName}
+                </Badge>
+              )}
+              {product.isExpiringSoon && (
+                <Badge variant="destructive" className="mb-2">
+                  Expiring soon
+                </Badge>
+              )}
+            </div>
             <CardTitle className="text-xl">{displayName}</CardTitle>
           </div>
           <div className="text-2xl font-bold text-primary">{product.price} DH</div>
@@ -148,6 +172,32 @@ export function ProductDisplay({ product, onEdit }: ProductDisplayProps) {
         </div>
 
         <Separator />
+
+        {showStockControl && product.id && (
+          <StockControl
+            product={product}
+            onClose={() => setShowStockControl(false)}
+            onStockChange={() => setStockRefreshKey((prev) => prev + 1)}
+          />
+        )}
+
+        {product.id && <StockLots product={product} refreshKey={stockRefreshKey} />}
+
+        {product.id && <StockMovementHistory productId={product.id} refreshKey={stockRefreshKey} />}
+
+        {product.id && (
+          <>
+            <Separator />
+            <ProductSuppliers productId={product.id} />
+          </>
+        )}
+
+        {product.id && (
+          <>
+            <Separator />
+            <AuditTimeline entityType="product" entityId={product.id} onReverted={handleReverted} />
+          </>
+        )}
       </CardContent>
 
       <CardFooter className="flex gap-2">
@@ -155,6 +205,12 @@ export function ProductDisplay({ product, onEdit }: ProductDisplayProps) {
           <Edit className="mr-2 h-4 w-4" />
           Edit Product
         </Button>
+        {product.id && (
+          <Button variant="outline" onClick={() => setShowStockControl(!showStockControl)}>
+            <PackagePlus className="mr-2 h-4 w-4" />
+            Adjust Stock
+          </Button>
+        )}
       </CardFooter>
     </Card>
   )
@@ -11,7 +11,7 @@ import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, For
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { useToast } from "@/hooks/use-toast"
 import { fetchCategories, createDefaultCategoryIfNeeded } from "@/services/category-service"
-import type { Product, Category } from "@/types/product"
+import type { LoadedProductValues, Product, Category } from "@/types/product"
 import { useSettings } from "@/contexts/settings-context"
 
 // Add this function after the imports but before the component definition
@@ -66,6 +66,7 @@ const productFormSchema = z.object({
   min_stock: z.coerce.number().default(0),
   category_id: z.string().optional(),
   expiry_date: z.string().optional().nullable(),
+  lot_number: z.string().optional().nullable(),
   expiry_notification_days: z.coerce.number().optional().nullable(),
 })
 
@@ -75,8 +76,11 @@ interface ProductFormProps {
   initialValues?: Partial<Product>
   initialData?: Partial<Product> // Add this for backward compatibility
   categories?: Category[]
-  onSave?: (product: Product) => void
-  onSuccess?: (product: Product) => void // Add this for backward compatibility
+  // The stored product's stock and expiry date, handed back with the saved values so callers only post what
+  // the user changed. Not the form defaults: those may already hold a scanned expiry date.
+  loaded?: LoadedProductValues | null
+  onSave?: (product: Product, loaded?: LoadedProductValues) => void
+  onSuccess?: (product: Product, loaded?: LoadedProductValues) => void // Add this for backward compatibility
   onCancel: () => void
   isLoading: boolean
 }
@@ -87,6 +91,7 @@ export function ProductForm({
   categories: propCategories,
   onSave,
   onSuccess, // Support both callback names
+  loaded,
   onCancel,
   isLoading,
 }: ProductFormProps) {
@@ -97,7 +102,7 @@ export function ProductForm({
   const initialFormValues = initialValues || initialData || {}
 
   // Use the callback function that's provided
-  const handleSave = onSave || onSuccess || ((p: Product) => {})
+  const handleSave = onSave || onSuccess || ((p: Product, loaded?: LoadedProductValues) => {})
 
   const [categories, setCategories] = useState<Category[]>(propCategories || [])
   const { toast } = useToast()
@@ -189,6 +194,7 @@ export function ProductForm({
       // Ensure category is set from settings if not provided
       category_id: initialFormValues.category_id || settings.inventory.defaultCategoryId || "",
       expiry_date: initialFormValues.expiry_date || null,
+      lot_number: initialFormValues.lot_number || null,
       expiry_notification_days: initialFormValues.expiry_notification_days || null,
       id: initialFormValues.id || null,
     },
@@ -244,7 +250,7 @@ export function ProductForm({
       purchase_price: values.purchase_price ? Number.parseFloat(values.purchase_price) : undefined,
     }
 
-    handleSave(processedValues as Product)
+    handleSave(processedValues as Product, loaded ? { stock: loaded.stock, expiry_date: loaded.expiry_date } : undefined)
   }
 
   return (
@@ -324,7 +330,7 @@ export function ProductForm({
             <FormItem>
               <FormLabel>Stock</FormLabel>
               <FormControl>
-                <Input type="number" placeholder="Stock" {...field} />
+                <Input type="number" step="any" placeholder="Stock" {...field} />
               </FormControl>
               <FormMessage />
             </FormItem>
@@ -343,6 +349,33 @@ export function ProductForm({
             </FormItem>
           )}
         />
+        <FormField
+          control={form.control}
+          name="expiry_date"
+          render={({ field }: { field: ControllerRenderProps<ProductFormValues, "expiry_date"> }) => (
+            <FormItem>
+              <FormLabel>Expiry Date</FormLabel>
+              <FormControl>
+                <Input type="date" {...field} value={field.value || ""} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="lot_number"
+          render={({ field }: { field: ControllerRenderProps<ProductFormValues, "lot_number"> }) => (
+            <FormItem>
+              <FormLabel>Lot Number</FormLabel>
+              <FormControl>
+                <Input placeholder="Lot / batch number" {...field} value={field.value || ""} />
+              </FormControl>
+              <FormDescription>Filled in automatically when scanning a GS1 case label</FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
         <FormField
           control={form.control}
           name="category_id"
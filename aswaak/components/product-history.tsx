@@ -21,7 +21,15 @@ import { Input } from "@/components/ui/input"
 import { Badge } from "@/components/ui/badge"
 import { useToast } from "@/hooks/use-toast"
 import type { Product } from "@/types/product"
+import type { ScanEvent } from "@/types/scan-event"
 import { useSettings } from "@/contexts/settings-context"
+import {
+  clearScanEvents,
+  deleteScanEvent,
+  fetchScanEvents,
+  getDeviceId,
+  SCAN_RESULT_LABELS,
+} from "@/services/scan-history-service"
 
 interface ProductHistoryProps {
   onSelectProduct: (product: Product) => void
@@ -30,13 +38,14 @@ interface ProductHistoryProps {
 
 export function ProductHistory({ onSelectProduct, onEditProduct }: ProductHistoryProps) {
   const { settings } = useSettings()
-  const [history, setHistory] = useState<Product[]>([])
-  const [filteredHistory, setFilteredHistory] = useState<Product[]>([])
+  const [events, setEvents] = useState<ScanEvent[]>([])
+  const [totalEvents, setTotalEvents] = useState(0)
   const [currentPage, setCurrentPage] = useState(1)
   const [searchQuery, setSearchQuery] = useState("")
+  const [debouncedSearch, setDebouncedSearch] = useState("")
   const [itemsPerPage, setItemsPerPage] = useState(settings.display.historyItemsPerPage)
   const [deleteConfirmOpen, setDeleteConfirmOpen] = useState(false)
-  const [productToDelete, setProductToDelete] = useState<Product | null>(null)
+  const [eventToDelete, setEventToDelete] = useState<ScanEvent | null>(null)
   const [isLoading, setIsLoading] = useState(false)
   const { toast } = useToast()
   const [refreshTrigger, setRefreshTrigger] = useState(0)
@@ -46,87 +55,70 @@ export function ProductHistory({ onSelectProduct, onEditProduct }: ProductHistor
     setItemsPerPage(settings.display.historyItemsPerPage)
   }, [settings.display.historyItemsPerPage])
 
-  // Load history from localStorage
+  // Wait until typing pauses before querying the server
+  useEffect(() => {
+    const timeout = setTimeout(() => {
+      setDebouncedSearch(searchQuery)
+      setCurrentPage(1)
+    }, 300)
+    return () => clearTimeout(timeout)
+  }, [searchQuery])
+
+  // Load the current page of this device's scan history
   useEffect(() => {
-    const loadHistory = () => {
-      const storedHistory = localStorage.getItem("scanHistory")
-      if (storedHistory) {
-        try {
-          const parsedHistory = JSON.parse(storedHistory) as Product[]
-
-          // Apply history retention settings
-          const filteredByDate =
-            settings.advanced.keepHistoryDays > 0
-              ? filterHistoryByDate(parsedHistory, settings.advanced.keepHistoryDays)
-              : parsedHistory
-
-          // Apply max items limit
-          const limitedHistory =
-            settings.advanced.maxHistoryItems > 0
-              ? filteredByDate.slice(0, settings.advanced.maxHistoryItems)
-              : filteredByDate
-
-          setHistory(limitedHistory)
-          setFilteredHistory(limitedHistory)
-
-          // If we filtered anything, update localStorage
-          if (limitedHistory.length !== parsedHistory.length) {
-            localStorage.setItem("scanHistory", JSON.stringify(limitedHistory))
-          }
-        } catch (error) {
-          console.error("Error parsing scan history:", error)
-          toast({
-            title: "Error",
-            description: "Failed to load scan history",
-            variant: "destructive",
-          })
+    const loadHistory = async () => {
+      try {
+        // Apply history retention settings
+        let since: string | undefined
+        if (settings.advanced.keepHistoryDays > 0) {
+          const cutoffDate = new Date()
+          cutoffDate.setDate(cutoffDate.getDate() - settings.advanced.keepHistoryDays)
+          since = cutoffDate.toISOString()
         }
+
+        const { events, total } = await fetchScanEvents({
+          page: currentPage,
+          pageSize: itemsPerPage,
+          search: debouncedSearch,
+          deviceId: getDeviceId(),
+          since,
+        })
+
+        setEvents(events)
+        // Apply max items limit
+        setTotalEvents(
+          settings.advanced.maxHistoryItems > 0 ? Math.min(total, settings.advanced.maxHistoryItems) : total,
+        )
+      } catch (error) {
+        console.error("Error loading scan history:", error)
+        toast({
+          title: "Error",
+          description: "Failed to load scan history",
+          variant: "destructive",
+        })
       }
     }
 
     loadHistory()
-  }, [toast, refreshTrigger, settings.advanced.keepHistoryDays, settings.advanced.maxHistoryItems])
-
-  // Helper function to filter history by date
-  const filterHistoryByDate = (history: Product[], days: number): Product[] => {
-    if (days <= 0) return history
-
-    const cutoffDate = new Date()
-    cutoffDate.setDate(cutoffDate.getDate() - days)
-
-    return history.filter((product) => {
-      if (!product.created_at) return true
-      const productDate = new Date(product.created_at)
-      return productDate >= cutoffDate
-    })
-  }
-
-  // Filter history when search query changes
-  useEffect(() => {
-    if (!searchQuery.trim()) {
-      setFilteredHistory(history)
-      setCurrentPage(1)
-      return
-    }
-
-    const query = searchQuery.toLowerCase()
-    const filtered = history.filter(
-      (product) => product.name.toLowerCase().includes(query) || (product.barcode && product.barcode.includes(query)),
-    )
-
-    setFilteredHistory(filtered)
-    setCurrentPage(1)
-  }, [searchQuery, history])
+  }, [
+    toast,
+    refreshTrigger,
+    currentPage,
+    itemsPerPage,
+    debouncedSearch,
+    settings.advanced.keepHistoryDays,
+    settings.advanced.maxHistoryItems,
+  ])
 
   // Calculate pagination
-  const totalPages = Math.ceil(filteredHistory.length / itemsPerPage)
+  const totalPages = Math.ceil(totalEvents / itemsPerPage)
   const startIndex = (currentPage - 1) * itemsPerPage
-  const endIndex = startIndex + itemsPerPage
-  const currentItems = filteredHistory.slice(startIndex, endIndex)
+  const endIndex = Math.min(startIndex + events.length, totalEvents)
+  const currentItems = events.slice(0, endIndex - startIndex)
 
   // Handle product selection
-  const handleProductClick = (product: Product) => {
-    onSelectProduct(product)
+  const handleEventClick = (event: ScanEvent) => {
+    if (event.product) onSelectProduct(event.product)
   }
 
   // Handle product edit
@@ -139,45 +131,38 @@ export function ProductHistory({ onSelectProduct, onEditProduct }: ProductHistor
     }
   }
 
-  // Handle product delete confirmation
-  const handleDeleteClick = (product: Product, e: React.MouseEvent) => {
+  // Handle delete confirmation
+  const handleDeleteClick = (event: ScanEvent, e: React.MouseEvent) => {
     e.stopPropagation()
-    setProductToDelete(product)
+    setEventToDelete(event)
     setDeleteConfirmOpen(true)
   }
 
-  // Handle actual product deletion
-  const handleDeleteConfirm = () => {
-    if (!productToDelete) return
+  // Handle actual deletion
+  const handleDeleteConfirm = async () => {
+    if (!eventToDelete) return
 
     setIsLoading(true)
 
     try {
-      // Remove from history array
-      const updatedHistory = history.filter((p) => p.barcode !== productToDelete.barcode || p.id !== productToDelete.id)
-
-      // Update state
-      setHistory(updatedHistory)
-      setFilteredHistory(updatedHistory)
-
-      // Update localStorage
-      localStorage.setItem("scanHistory", JSON.stringify(updatedHistory))
+      await deleteScanEvent(eventToDelete.id)
+      setRefreshTrigger((prev) => prev + 1)
 
       toast({
-        title: "Product removed",
-        description: "Product has been removed from history",
+        title: "Scan removed",
+        description: "The scan has been removed from history",
       })
     } catch (error) {
-      console.error("Error removing product from history:", error)
+      console.error("Error removing scan from history:", error)
       toast({
         title: "Error",
-        description: "Failed to remove product from history",
+        description: "Failed to remove scan from history",
         variant: "destructive",
       })
     } finally {
       setIsLoading(false)
       setDeleteConfirmOpen(false)
-      setProductToDelete(null)
+      setEventToDelete(null)
     }
   }
 
@@ -187,15 +172,24 @@ export function ProductHistory({ onSelectProduct, onEditProduct }: ProductHistor
     setCurrentPage(page)
   }
 
-  // Clear all history
-  const clearAllHistory = () => {
-    localStorage.removeItem("scanHistory")
-    setHistory([])
-    setFilteredHistory([])
-    toast({
-      title: "History cleared",
-      description: "All scan history has been cleared",
-    })
+  // Clear the scans recorded on this device
+  const clearAllHistory = async () => {
+    try {
+      await clearScanEvents(getDeviceId())
+      setCurrentPage(1)
+      setRefreshTrigger((prev) => prev + 1)
+      toast({
+        title: "History cleared",
+        description: "All scan history has been cleared",
+      })
+    } catch (error) {
+      console.error("Error clearing scan history:", error)
+      toast({
+        title: "Error",
+        description: "Failed to clear scan history",
+        variant: "destructive",
+      })
+    }
   }
 
   const refreshHistory = () => {
@@ -231,7 +225,7 @@ export function ProductHistory({ onSelectProduct, onEditProduct }: ProductHistor
           <Button variant="outline" size="sm" onClick={refreshHistory} title="Refresh history">
             <RefreshCw className="h-4 w-4" />
           </Button>
-          <Button variant="outline" size="sm" onClick={clearAllHistory} disabled={history.length === 0}>
+          <Button variant="outline" size="sm" onClick={clearAllHistory} disabled={totalEvents === 0}>
             Clear All
           </Button>
         </div>
@@ -251,7 +245,7 @@ export function ProductHistory({ onSelectProduct, onEditProduct }: ProductHistor
           </div>
         </div>
 
-        {filteredHistory.length === 0 ? (
+        {currentItems.length === 0 ? (
           <div className="text-center py-8">
             <div className="flex justify-center mb-2">
               {searchQuery ? (
@@ -261,67 +255,77 @@ export function ProductHistory({ onSelectProduct, onEditProduct }: ProductHistor
               )}
             </div>
             <p className="text-muted-foreground">
-              {searchQuery ? "No products match your search" : "No scan history available"}
+              {searchQuery ? "No scans match your search" : "No scan history available"}
             </p>
           </div>
         ) : (
           <div className="space-y-3">
-            {currentItems.map((product, index) => (
-              <div
-                key={`${product.barcode}-${index}`}
-                className={`p-3 border rounded-md cursor-pointer hover:bg-accent transition-colors ${
-                  isCompactView ? "py-2" : ""
-                }`}
-                onClick={() => handleProductClick(product)}
-              >
-                <div className="flex justify-between items-start gap-2">
-                  <div className="flex-1 min-w-0">
-                    <div className="flex items-center gap-2">
-                      <h3 className={`font-medium truncate ${isCompactView ? "text-sm" : ""}`}>{product.name}</h3>
-                      {product.isLowStock && (
-                        <Badge variant="destructive" className="text-xs">
-                          Low Stock
-                        </Badge>
+            {currentItems.map((event) => {
+              const product = event.product
+
+              return (
+                <div
+                  key={event.id}
+                  className={`p-3 border rounded-md transition-colors ${product ? "cursor-pointer hover:bg-accent" : ""} ${
+                    isCompactView ? "py-2" : ""
+                  }`}
+                  onClick={() => handleEventClick(event)}
+                >
+                  <div className="flex justify-between items-start gap-2">
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center gap-2">
+                        <h3 className={`font-medium truncate ${isCompactView ? "text-sm" : ""}`}>
+                          {product?.name || event.product_name || "Unknown product"}
+                        </h3>
+                        {product && (product.stock || 0) <= (product.min_stock || 0) && (
+                          <Badge variant="destructive" className="text-xs">
+                            Low Stock
+                          </Badge>
+                        )}
+                      </div>
+                      {!isCompactView && (
+                        <div className="flex flex-col sm:flex-row sm:items-center gap-1 sm:gap-3 text-sm text-muted-foreground mt-1">
+                          <span>Barcode: {event.barcode}</span>
+                          <span className="hidden sm:inline">•</span>
+                          <span>{formatDate(event.created_at)}</span>
+                          <span className="hidden sm:inline">•</span>
+                          <span>{SCAN_RESULT_LABELS[event.result]}</span>
+                        </div>
                       )}
                     </div>
-                    {!isCompactView && (
-                      <div className="flex flex-col sm:flex-row sm:items-center gap-1 sm:gap-3 text-sm text-muted-foreground mt-1">
-                        <span>Barcode: {product.barcode || "N/A"}</span>
-                        {product.created_at && <span className="hidden sm:inline">•</span>}
-                        {product.created_at && <span>{formatDate(product.created_at)}</span>}
-                      </div>
-                    )}
-                  </div>
 
-                  <div className="flex flex-col items-end">
-                    <span className={`font-bold ${isCompactView ? "text-sm" : ""}`}>{product.price} DH</span>
-                    {!isCompactView && <span className="text-sm">Stock: {product.stock}</span>}
-
-                    <DropdownMenu>
-                      <DropdownMenuTrigger asChild>
-                        <Button variant="ghost" size="icon" className={`${isCompactView ? "h-6 w-6" : "h-8 w-8"} mt-1`}>
-                          <MoreHorizontal className="h-4 w-4" />
-                          <span className="sr-only">Actions</span>
-                        </Button>
-                      </DropdownMenuTrigger>
-                      <DropdownMenuContent align="end">
-                        <DropdownMenuItem onClick={(e) => handleEditProduct(product, e as React.MouseEvent)}>
-                          <Edit className="h-4 w-4 mr-2" />
-                          Edit
-                        </DropdownMenuItem>
-                        <DropdownMenuItem
-                          onClick={(e) => handleDeleteClick(product, e as React.MouseEvent)}
-                          className="text-destructive focus:text-destructive"
-                        >
-                          <Trash2 className="h-4 w-4 mr-2" />
-                          Remove from History
-                        </DropdownMenuItem>
-                      </DropdownMenuContent>
-                    </DropdownMenu>
+                    <div className="flex flex-col items-end">
+                      {product && <span className={`font-bold ${isCompactView ? "text-sm" : ""}`}>{product.price} DH</span>}
+                      {product && !isCompactView && <span className="text-sm">Stock: {product.stock}</span>}
+
+                      <DropdownMenu>
+                        <DropdownMenuTrigger asChild>
+                          <Button variant="ghost" size="icon" className={`${isCompactView ? "h-6 w-6" : "h-8 w-8"} mt-1`}>
+                            <MoreHorizontal className="h-4 w-4" />
+                            <span className="sr-only">Actions</span>
+                          </Button>
+                        </DropdownMenuTrigger>
+                        <DropdownMenuContent align="end">
+                          {product && (
+                            <DropdownMenuItem onClick={(e) => handleEditProduct(product, e as React.MouseEvent)}>
+                              <Edit className="h-4 w-4 mr-2" />
+                              Edit
+                            </DropdownMenuItem>
+                          )}
+                          <DropdownMenuItem
+                            onClick={(e) => handleDeleteClick(event, e as React.MouseEvent)}
+                            className="text-destructive focus:text-destructive"
+                          >
+                            <Trash2 className="h-4 w-4 mr-2" />
+                            Remove from History
+                          </DropdownMenuItem>
+                        </DropdownMenuContent>
+                      </DropdownMenu>
+                    </div>
                   </div>
                 </div>
-              </div>
-            ))}
+              )
+            })}
           </div>
         )}
       </CardContent>
@@ -330,7 +334,7 @@ export function ProductHistory({ onSelectProduct, onEditProduct }: ProductHistor
       {totalPages > 1 && (
         <CardFooter className="flex justify-between items-center px-4 py-2 border-t">
           <div className="text-sm text-muted-foreground">
-            Showing {startIndex + 1}-{Math.min(endIndex, filteredHistory.length)} of {filteredHistory.length}
+            Showing {startIndex + 1}-{endIndex} of {totalEvents}
           </div>
 
           <div className="flex items-center gap-1">
@@ -369,7 +373,7 @@ export function ProductHistory({ onSelectProduct, onEditProduct }: ProductHistor
           <AlertDialogHeader>
             <AlertDialogTitle>Remove from History</AlertDialogTitle>
             <AlertDialogDescription>
-              Are you sure you want to remove this product from your scan history? This action cannot be undone.
+              Are you sure you want to remove this scan from your scan history? This action cannot be undone.
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
@@ -8,22 +8,13 @@ import { Card, CardContent } from "@/components/ui/card"
 import { Search, Loader2 } from "lucide-react"
 import { useToast } from "@/hooks/use-toast"
 import type { Product } from "@/types/product"
-import { supabase } from "@/lib/supabase"
-import type { Database } from "@/types/supabase"
+import { productRepository } from "@/services/product-repository"
 
 interface ProductSearchProps {
   onProductSelect: (product: Product) => void
   isLoading?: boolean
 }
 
-// Define a type for the database row
-type ProductRow = Database["public"]["Tables"]["products"]["Row"] & {
-  categories: {
-    id: string
-    name: string
-  } | null
-}
-
 export function ProductSearch({ onProductSelect, isLoading = false }: ProductSearchProps) {
   const [searchQuery, setSearchQuery] = useState("")
   const [searchResults, setSearchResults] = useState<Product[]>([])
@@ -59,71 +50,8 @@ export function ProductSearch({ onProductSelect, isLoading = false }: ProductSea
     setSearchResults([])
 
     try {
-      // Search by name (case insensitive, partial match)
-      const { data: nameResults, error: nameError } = await supabase
-        .from("products")
-        .select(`
-          *,
-          categories:category_id (
-            id,
-            name
-          )
-        `)
-        .ilike("name", `%${searchQuery}%`)
-        .order("name")
-        .limit(10)
-
-      // Search by barcode (exact match)
-      const { data: barcodeResults, error: barcodeError } = await supabase
-        .from("products")
-        .select(`
-          *,
-          categories:category_id (
-            id,
-            name
-          )
-        `)
-        .eq("barcode", searchQuery)
-        .limit(1)
-
-      if (nameError || barcodeError) {
-        throw new Error(nameError?.message || barcodeError?.message)
-      }
-
-      // Combine results, prioritizing barcode matches
-      let combinedResults: Product[] = []
-
-      if (barcodeResults && barcodeResults.length > 0) {
-        // Process barcode results
-        combinedResults = barcodeResults.map((item: ProductRow) => ({
-          ...item,
-          category: item.categories as unknown as { id: string; name: string },
-          isLowStock: item.stock <= item.min_stock,
-        }))
-      }
-
-      if (nameResults && nameResults.length > 0) {
-        // Process name results and add them if they're not already in the results
-        const nameItems = nameResults.map((item: ProductRow) => {
-          console.log("Processing search result item:", item)
-
-          // Create a properly structured product object
-          const product: Product = {
-            ...item,
-            category: item.categories, // Assign the categories object directly
-            isLowStock: item.stock <= item.min_stock,
-          }
-
-          return product
-        })
-
-        // Filter out duplicates (in case a product matched both queries)
-        nameItems.forEach((item: Product) => {
-          if (!combinedResults.some((r) => r.id === item.id)) {
-            combinedResults.push(item)
-          }
-        })
-      }
+      // Barcode matches first, then partial name matches
+      const combinedResults = await productRepository.search(searchQuery)
 
       setSearchResults(combinedResults)
 
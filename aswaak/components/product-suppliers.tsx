@@ -0,0 +1,256 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Badge } from "@/components/ui/badge"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Loader2, Plus, Star, Trash2 } from "lucide-react"
+import { useToast } from "@/hooks/use-toast"
+import {
+  deleteProductSupplier,
+  fetchProductSuppliers,
+  fetchSuppliers,
+  getSupplierUnitCost,
+  saveProductSupplier,
+  selectProductSupplier,
+  setPreferredSupplier,
+} from "@/services/supplier-service"
+import type { ProductSupplier, Supplier } from "@/types/purchase-order"
+
+interface ProductSuppliersProps {
+  productId: string
+}
+
+export function ProductSuppliers({ productId }: ProductSuppliersProps) {
+  const [entries, setEntries] = useState<ProductSupplier[]>([])
+  const [suppliers, setSuppliers] = useState<Supplier[]>([])
+  const [supplierId, setSupplierId] = useState("")
+  const [sku, setSku] = useState("")
+  const [packSize, setPackSize] = useState("1")
+  const [cost, setCost] = useState("")
+  const [leadTime, setLeadTime] = useState("")
+  const [showForm, setShowForm] = useState(false)
+  const [isLoading, setIsLoading] = useState(false)
+  const { toast } = useToast()
+
+  const showError = (error: unknown, fallback: string) => {
+    toast({
+      title: "Error",
+      description: error instanceof Error ? error.message : fallback,
+      variant: "destructive",
+    })
+  }
+
+  const loadEntries = async () => {
+    setIsLoading(true)
+    try {
+      setEntries(await fetchProductSuppliers(productId))
+    } catch (error) {
+      console.error("Error loading product suppliers:", error)
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    loadEntries()
+  }, [productId])
+
+  useEffect(() => {
+    if (!showForm || suppliers.length > 0) return
+
+    fetchSuppliers()
+      .then(setSuppliers)
+      .catch((error) => console.error("Error loading suppliers:", error))
+  }, [showForm])
+
+  const selectEntry = (entry: ProductSupplier) => {
+    setSupplierId(entry.supplier_id)
+    setSku(entry.supplier_sku || "")
+    setPackSize(String(entry.pack_size))
+    setCost(String(entry.cost))
+    setLeadTime(String(entry.lead_time_days))
+    setShowForm(true)
+  }
+
+  const handleSave = async () => {
+    if (!supplierId) {
+      toast({ title: "Supplier required", description: "Choose a supplier.", variant: "destructive" })
+      return
+    }
+
+    try {
+      setIsLoading(true)
+      await saveProductSupplier({
+        product_id: productId,
+        supplier_id: supplierId,
+        supplier_sku: sku,
+        pack_size: Number.parseFloat(packSize.replace(",", ".")) || 1,
+        cost: Number.parseFloat(cost.replace(",", ".")) || 0,
+        lead_time_days: Number.parseInt(leadTime) || 0,
+      })
+      setSupplierId("")
+      setSku("")
+      setPackSize("1")
+      setCost("")
+      setLeadTime("")
+      setShowForm(false)
+      loadEntries()
+    } catch (error) {
+      showError(error, "Failed to save supplier")
+      setIsLoading(false)
+    }
+  }
+
+  const handleTogglePreferred = async (entry: ProductSupplier) => {
+    try {
+      await setPreferredSupplier(productId, entry.is_preferred ? null : entry.supplier_id)
+      loadEntries()
+    } catch (error) {
+      showError(error, "Failed to set preferred supplier")
+    }
+  }
+
+  const handleDelete = async (entry: ProductSupplier) => {
+    try {
+      await deleteProductSupplier(entry.id)
+      setEntries((prev) => prev.filter((existing) => existing.id !== entry.id))
+    } catch (error) {
+      showError(error, "Failed to remove supplier")
+    }
+  }
+
+  const selected = selectProductSupplier(entries)
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <p className="text-sm font-medium">Suppliers</p>
+        <div className="flex items-center gap-2">
+          {isLoading && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
+          <Button variant="ghost" size="sm" onClick={() => setShowForm(!showForm)}>
+            <Plus className="h-4 w-4 mr-1" />
+            Add
+          </Button>
+        </div>
+      </div>
+
+      {showForm && (
+        <div className="grid grid-cols-2 gap-2 p-2 border rounded-md">
+          <Select value={supplierId} onValueChange={setSupplierId}>
+            <SelectTrigger className="col-span-2">
+              <SelectValue placeholder="Choose a supplier" />
+            </SelectTrigger>
+            <SelectContent>
+              {suppliers.map((supplier) => (
+                <SelectItem key={supplier.id} value={supplier.id}>
+                  {supplier.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input placeholder="Supplier SKU" value={sku} onChange={(e) => setSku(e.target.value)} />
+          <Input
+            type="number"
+            min="1"
+            step="any"
+            placeholder="Pack size"
+            aria-label="Pack size"
+            value={packSize}
+            onChange={(e) => setPackSize(e.target.value)}
+          />
+          <Input
+            type="number"
+            min="0"
+            step="0.01"
+            placeholder="Cost per pack"
+            aria-label="Cost per pack"
+            value={cost}
+            onChange={(e) => setCost(e.target.value)}
+          />
+          <Input
+            type="number"
+            min="0"
+            placeholder="Lead time (days)"
+            aria-label="Lead time in days"
+            value={leadTime}
+            onChange={(e) => setLeadTime(e.target.value)}
+          />
+          <div className="col-span-2 flex justify-end gap-2">
+            <Button variant="outline" size="sm" onClick={() => setShowForm(false)}>
+              Cancel
+            </Button>
+            <Button size="sm" onClick={handleSave} disabled={isLoading}>
+              Save
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {entries.length === 0 ? (
+        <p className="text-sm text-muted-foreground">{isLoading ? "Loading..." : "No suppliers linked yet"}</p>
+      ) : (
+        <div className="space-y-1">
+          {entries.map((entry) => (
+            <div
+              key={entry.id}
+              className="flex items-center justify-between gap-2 text-sm border rounded-md px-2 py-1 cursor-pointer hover:bg-accent"
+              onClick={() => selectEntry(entry)}
+            >
+              <div className="min-w-0">
+                <div className="flex items-center gap-2">
+                  <span className="font-medium truncate">{entry.supplier?.name || entry.supplier_id}</span>
+                  {entry.id === selected?.id && (
+                    <Badge variant="outline" className="text-xs">
+                      {entry.is_preferred ? "Preferred" : "Cheapest"}
+                    </Badge>
+                  )}
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  {[
+                    entry.supplier_sku && `SKU ${entry.supplier_sku}`,
+                    `${entry.pack_size} per pack`,
+                    `${entry.lead_time_days} day${entry.lead_time_days === 1 ? "" : "s"} lead time`,
+                  ]
+                    .filter(Boolean)
+                    .join(" • ")}
+                </p>
+              </div>
+              <div className="flex items-center gap-1">
+                <div className="text-right">
+                  <p className="font-medium">{getSupplierUnitCost(entry).toFixed(2)} DH</p>
+                  <p className="text-xs text-muted-foreground">{entry.cost.toFixed(2)} / pack</p>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7"
+                  onClick={(e) => {
+                    e.stopPropagation()
+                    handleTogglePreferred(entry)
+                  }}
+                >
+                  <Star className={`h-4 w-4 ${entry.is_preferred ? "fill-current text-yellow-500" : ""}`} />
+                  <span className="sr-only">{entry.is_preferred ? "Clear preferred supplier" : "Make preferred"}</span>
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7"
+                  onClick={(e) => {
+                    e.stopPropagation()
+                    handleDelete(entry)
+                  }}
+                >
+                  <Trash2 className="h-4 w-4" />
+                  <span className="sr-only">Remove supplier</span>
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -6,28 +6,20 @@ import { Button } from "@/components/ui/button"
 import { Badge } from "@/components/ui/badge"
 import { useRouter } from "next/navigation"
 import { Clock, Package, ArrowRight, AlertTriangle } from "lucide-react"
-import type { Product } from "@/types/product"
+import { fetchRecentScanEvents, SCAN_RESULT_LABELS } from "@/services/scan-history-service"
+import type { ScanEvent } from "@/types/scan-event"
 
 export function RecentActivity() {
-  const [recentProducts, setRecentProducts] = useState<Product[]>([])
+  const [recentScans, setRecentScans] = useState<ScanEvent[]>([])
   const router = useRouter()
 
   useEffect(() => {
-    // Load recent products from localStorage
-    const loadRecentProducts = () => {
-      try {
-        const storedHistory = localStorage.getItem("scanHistory")
-        if (storedHistory) {
-          const parsedHistory = JSON.parse(storedHistory) as Product[]
-          // Take only the 5 most recent products
-          setRecentProducts(parsedHistory.slice(0, 5))
-        }
-      } catch (error) {
-        console.error("Error loading recent products:", error)
-      }
+    // Load the 5 most recent scans from the scan history
+    const loadRecentScans = async () => {
+      setRecentScans(await fetchRecentScanEvents(5))
     }
 
-    loadRecentProducts()
+    loadRecentScans()
   }, [])
 
   // Format date for display
@@ -54,7 +46,7 @@ export function RecentActivity() {
         <CardDescription>Your recently scanned products</CardDescription>
       </CardHeader>
       <CardContent>
-        {recentProducts.length === 0 ? (
+        {recentScans.length === 0 ? (
           <div className="flex flex-col items-center justify-center py-6 text-center">
             <AlertTriangle className="h-8 w-8 text-muted-foreground mb-2" />
             <p className="text-muted-foreground">No recent activity found</p>
@@ -62,33 +54,30 @@ export function RecentActivity() {
           </div>
         ) : (
           <div className="space-y-3">
-            {recentProducts.map((product, index) => (
-              <div
-                key={`${product.id || product.barcode}-${index}`}
-                className="flex items-center justify-between p-2 border rounded-md"
-              >
+            {recentScans.map((scan) => (
+              <div key={scan.id} className="flex items-center justify-between p-2 border rounded-md">
                 <div className="min-w-0 flex-1">
-                  <p className="font-medium truncate">{product.name}</p>
+                  <p className="font-medium truncate">{scan.product?.name || scan.product_name || "Unknown product"}</p>
                   <div className="flex items-center gap-2 text-xs text-muted-foreground">
-                    <span>{product.barcode || "No barcode"}</span>
-                    {product.created_at && (
-                      <>
-                        <span>•</span>
-                        <span className="flex items-center">
-                          <Clock className="h-3 w-3 mr-1" />
-                          {formatDate(product.created_at)}
-                        </span>
-                      </>
-                    )}
+                    <span>{scan.barcode}</span>
+                    <span>•</span>
+                    <span className="flex items-center">
+                      <Clock className="h-3 w-3 mr-1" />
+                      {formatDate(scan.created_at)}
+                    </span>
                   </div>
                 </div>
                 <div className="flex items-center gap-2">
-                  <Badge variant="outline">{product.price} DH</Badge>
+                  {scan.product ? (
+                    <Badge variant="outline">{scan.product.price} DH</Badge>
+                  ) : (
+                    <Badge variant="secondary">{SCAN_RESULT_LABELS[scan.result]}</Badge>
+                  )}
                   <Button
                     variant="ghost"
                     size="icon"
                     className="h-8 w-8"
-                    onClick={() => router.push(`/history?product=${product.id || product.barcode}`)}
+                    onClick={() => router.push(`/history?search=${encodeURIComponent(scan.barcode)}`)}
                   >
                     <ArrowRight className="h-4 w-4" />
                   </Button>
@@ -98,7 +87,7 @@ export function RecentActivity() {
           </div>
         )}
 
-        {recentProducts.length > 0 && (
+        {recentScans.length > 0 && (
           <Button variant="outline" className="w-full mt-4" onClick={() => router.push("/history")}>
             <Package className="h-4 w-4 mr-2" />
             View All History
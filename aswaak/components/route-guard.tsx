@@ -0,0 +1,61 @@
+"use client"
+
+import type React from "react"
+
+import Link from "next/link"
+import { usePathname } from "next/navigation"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Loader2, ShieldAlert } from "lucide-react"
+import { LoginForm } from "@/components/login-form"
+import { useAuth } from "@/contexts/auth-context"
+import { canAccessRoute, ROLE_LABELS, ROUTE_ROLES } from "@/lib/auth"
+
+/**
+ * Shows the sign-in form until a user is signed in, and blocks routes the user's role may not open.
+ * This only controls what the app shows; it doesn't restrict direct access to the database.
+ */
+export function RouteGuard({ children }: { children: React.ReactNode }) {
+  const { user, isLoading } = useAuth()
+  const pathname = usePathname()
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-12">
+        <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+      </div>
+    )
+  }
+
+  if (!user) {
+    return <LoginForm />
+  }
+
+  if (!canAccessRoute(user.role, pathname)) {
+    const route = Object.keys(ROUTE_ROLES).find((prefix) => pathname.startsWith(prefix))
+    const allowed = route ? ROUTE_ROLES[route].map((role) => ROLE_LABELS[role]).join(", ") : ""
+
+    return (
+      <div className="container flex justify-center py-12">
+        <Card className="w-full max-w-md">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <ShieldAlert className="h-5 w-5 text-destructive" />
+              Access denied
+            </CardTitle>
+            <CardDescription>
+              This page is limited to: {allowed}. You are signed in as a {ROLE_LABELS[user.role].toLowerCase()}.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Link href="/">
+              <Button variant="outline">Back to Home</Button>
+            </Link>
+          </CardContent>
+        </Card>
+      </div>
+    )
+  }
+
+  return <>{children}</>
+}
@@ -4,10 +4,11 @@ import { useState, useEffect } from "react"
 import { BarcodeScanner } from "@/components/barcode-scanner"
 import { ProductDisplay } from "@/components/product-display"
 import { ProductForm } from "@/components/product-form"
-import type { Product, Category } from "@/types/product"
+import type { LoadedProductValues, Product, Category } from "@/types/product"
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
 import { AlertCircle, Info } from "lucide-react"
 import { useToast } from "@/hooks/use-toast"
+import { useDeductScannedMeasure } from "@/hooks/use-deduct-scanned-measure"
 import { Button } from "@/components/ui/button"
 import {
   Dialog,
@@ -18,10 +19,21 @@ import {
   DialogDescription,
 } from "@/components/ui/dialog"
 import { Input } from "@/components/ui/input"
-import { useRouter } from "next/navigation"
-import { fetchProductByBarcode, saveProduct } from "@/services/product-service"
+import { useRouter, useSearchParams } from "next/navigation"
+import { fetchProductByBarcode, fetchProductByScannedBarcode, saveProduct } from "@/services/product-service"
 import { fetchCategories, checkCategoriesExist, createDefaultCategoryIfNeeded } from "@/services/category-service"
+import { recordScanEvent } from "@/services/scan-history-service"
 import { useSettings } from "@/contexts/settings-context"
+import { useKeyboardWedge } from "@/contexts/keyboard-wedge-context"
+import {
+  DEFAULT_VARIABLE_MEASURE_RULES,
+  formatVariableMeasure,
+  getGs1ProductBarcode,
+  parseGs1,
+  type Gs1Data,
+  type VariableMeasureReading,
+} from "@/lib/barcode"
+import { enqueueOperation, isOfflineError } from "@/lib/offline"
 // Comment out the import for now since we're having issues with it
 // import { subscribeToProducts, subscribeToCategories } from "@/lib/realtime-service"
 
@@ -39,7 +51,9 @@ export function ScannerView({ initialTab = "scan" }: ScannerViewProps) {
   const [currentBarcode, setCurrentBarcode] = useState<string>("")
   const [productNotAvailable, setProductNotAvailable] = useState(false)
   const { toast } = useToast()
+  const { deductScannedMeasure, isDeducting } = useDeductScannedMeasure()
   const router = useRouter()
+  const searchParams = useSearchParams()
   const [isDialogOpen, setIsDialogOpen] = useState(false)
   const { settings } = useSettings()
 
@@ -52,6 +66,11 @@ export function ScannerView({ initialTab = "scan" }: ScannerViewProps) {
   const [showDuplicateDialog, setShowDuplicateDialog] = useState(false)
   const [pendingProductData, setPendingProductData] = useState<Product | null>(null)
 
+  // Weight or price read from an in-store label
+  const [scannedMeasure, setScannedMeasure] = useState<VariableMeasureReading | null>(null)
+  // Lot and expiry read from a GS1-128 or GS1 DataMatrix case label
+  const [scannedGs1, setScannedGs1] = useState<Gs1Data | null>(null)
+
   // Add debugging state
   const [debugInfo, setDebugInfo] = useState<string>("")
 
@@ -118,7 +137,17 @@ export function ScannerView({ initialTab = "scan" }: ScannerViewProps) {
   }
 
   // Update the handleBarcodeDetected function to check for existing products
-  const handleBarcodeDetected = async (barcode: string) => {
+  const handleBarcodeDetected = async (scannedCode: string) => {
+    // Case labels carry the GTIN together with lot and expiry; look the product up by its GTIN
+    const gs1 = parseGs1(scannedCode)
+    const barcode = (gs1 && getGs1ProductBarcode(gs1)) || scannedCode
+
+    // Without a connection the lookup cannot run; keep the scan and look it up once back online
+    if (isOfflineError()) {
+      await queueOfflineScan(barcode)
+      return
+    }
+
     try {
       // Reset all states at the beginning of a new search
       setIsLoading(true)
@@ -133,21 +162,42 @@ export function ScannerView({ initialTab = "scan" }: ScannerViewProps) {
       setPendingProductData(null)
       setExistingProduct(null)
       setShowExistingProductDialog(false)
+      setScannedMeasure(null)
+      setScannedGs1(gs1)
 
       // Add debug info
       setDebugInfo(`Scanning barcode: ${barcode}`)
+      if (gs1) {
+        setDebugInfo((prev) => `${prev}\nGS1 label: lot ${gs1.lot || "-"}, expiry ${gs1.expiryDate || "-"}`)
+      }
 
-      // First, check if the product exists in our database
-      const dbProduct = await fetchProductByBarcode(barcode)
+      // First, check if the product exists in our database. In-store labels resolve to their base product.
+      const { product: dbProduct, measure } = await fetchProductByScannedBarcode(
+        barcode,
+        settings.scanning.variableMeasureRules || DEFAULT_VARIABLE_MEASURE_RULES,
+      )
+      setScannedMeasure(measure)
 
       // Update debug info
       setDebugInfo((prev) => `${prev}\nDatabase product found: ${dbProduct ? "Yes" : "No"}`)
+      if (measure) {
+        setDebugInfo((prev) => `${prev}\nIn-store label: PLU ${measure.plu}, ${formatVariableMeasure(measure)}`)
+      }
 
-      if (dbProduct) {
+      if (!dbProduct && measure) {
+        // In-store labels are never listed online, so offer to register the base product instead
+        setCurrentBarcode(measure.baseBarcode)
+        setError(
+          `No product is registered for PLU ${measure.plu}. Register it with barcode ${measure.baseBarcode} to resolve these labels.`,
+        )
+        setShowForm(true)
+        recordScanEvent({ barcode, result: "not_found" })
+      } else if (dbProduct) {
         // Product found in database - show the existing product dialog
         setDebugInfo((prev) => `${prev}\nSetting existing product and showing dialog`)
         setExistingProduct(dbProduct)
         setShowExistingProductDialog(true)
+        recordScanEvent({ barcode, result: "found", product: dbProduct })
 
         // Add a toast to confirm the dialog should be showing
         toast({
@@ -177,6 +227,7 @@ export function ScannerView({ initialTab = "scan" }: ScannerViewProps) {
           // Handle 404 response specifically
           if (response.status === 404 || data.notAvailable) {
             console.log("Product not available - 404 detected")
+            recordScanEvent({ barcode, result: "not_found" })
             setProductNotAvailable(true)
             setError(`Product with barcode ${barcode} is not available in Aswak Assalam`)
             toast({
@@ -213,7 +264,7 @@ export function ScannerView({ initialTab = "scan" }: ScannerViewProps) {
             // ALWAYS use the default selling price from settings
             price: settings.inventory.defaultSellingPrice,
             image: data.image,
-            description: `Category: ${data.category || "Unknown"}, In Stock: ${data.isInStock ? "Yes" : "No"}`,
+            description: `Category: ${data.category || "Unknown"}, In Stock: ${data.isInStock === undefined ? "Unknown" : data.isInStock ? "Yes" : "No"}`,
             category: data.category,
             // Only use the matched category if it exists, otherwise use default
             category_id: category_id || settings.inventory.defaultCategoryId,
@@ -221,10 +272,12 @@ export function ScannerView({ initialTab = "scan" }: ScannerViewProps) {
             // Always use the default purchase price from settings
             purchase_price: settings.inventory.defaultPurchasePrice,
           })
+          recordScanEvent({ barcode, result: "web" })
 
           setCurrentProduct(null)
         } catch (err) {
           console.error("Error fetching product from web:", err)
+          recordScanEvent({ barcode, result: "not_found" })
 
           // Check if this is a 404 error
           if (err instanceof Error && err.message.includes("404")) {
@@ -258,6 +311,31 @@ export function ScannerView({ initialTab = "scan" }: ScannerViewProps) {
     }
   }
 
+  const queueOfflineScan = async (barcode: string) => {
+    try {
+      await enqueueOperation({ type: "scan", barcode })
+      toast({
+        title: "Scan saved offline",
+        description: `${barcode} will be looked up when the connection returns.`,
+      })
+    } catch (err) {
+      setError(`Error: ${err instanceof Error ? err.message : String(err)}`)
+    }
+  }
+
+  // Handheld scanners deliver codes here while the scanner is open
+  useKeyboardWedge(handleBarcodeDetected)
+
+  // Codes scanned with a handheld scanner on another page arrive as ?barcode=
+  useEffect(() => {
+    const barcodeParam = searchParams.get("barcode")
+    if (!barcodeParam) return
+
+    handleBarcodeDetected(barcodeParam)
+    // Drop the code from the URL so a reload does not scan it again
+    router.replace("/?tab=scan")
+  }, [searchParams])
+
   // Add this function to reset all states
   const resetStates = () => {
     setCurrentProduct(null)
@@ -272,13 +350,15 @@ export function ScannerView({ initialTab = "scan" }: ScannerViewProps) {
     setPendingProductData(null)
     setExistingProduct(null)
     setShowExistingProductDialog(false)
+    setScannedMeasure(null)
+    setScannedGs1(null)
   }
 
   const handleFormCancel = () => {
     resetStates()
   }
 
-  const handleFormSuccess = async (product: Product) => {
+  const handleFormSuccess = async (product: Product, loaded?: LoadedProductValues) => {
     try {
       setIsLoading(true)
 
@@ -297,7 +377,7 @@ export function ScannerView({ initialTab = "scan" }: ScannerViewProps) {
       }
 
       // If no duplicate or user confirmed replacement, proceed with saving
-      await saveProductAndUpdateUI(product)
+      await saveProductAndUpdateUI(product, loaded)
     } catch (error) {
       toast({
         title: "Error Saving Product",
@@ -309,12 +389,11 @@ export function ScannerView({ initialTab = "scan" }: ScannerViewProps) {
   }
 
   // New function to handle the actual saving
-  const saveProductAndUpdateUI = async (product: Product) => {
+  const saveProductAndUpdateUI = async (product: Product, loaded?: LoadedProductValues) => {
     try {
       setIsLoading(true)
 
-      // Save the product to the database - saveProduct only expects one argument
-      const savedProduct = await saveProduct(product)
+      const savedProduct = await saveProduct(product, "scanner", loaded)
 
       // Show success toast
       toast({
@@ -328,37 +407,27 @@ export function ScannerView({ initialTab = "scan" }: ScannerViewProps) {
       // Then set the current product
       setCurrentProduct(savedProduct)
 
-      // Add to local history - IMPROVED HISTORY HANDLING
-      const history = JSON.parse(localStorage.getItem("scanHistory") || "[]")
-
-      // Check if this product already exists in history by barcode or ID
-      const existingIndex = history.findIndex(
-        (item: Product) =>
-          (item.barcode && item.barcode === savedProduct.barcode) || (item.id && item.id === savedProduct.id),
-      )
-
-      // Create a history entry with timestamp
-      const historyEntry = {
-        ...savedProduct,
-        created_at: savedProduct.created_at || new Date().toISOString(), // Ensure we have a timestamp
-      }
-
-      let updatedHistory = [...history]
-
-      if (existingIndex >= 0) {
-        // Replace the existing entry
-        updatedHistory[existingIndex] = historyEntry
-      } else {
-        // Add as a new entry at the beginning
-        updatedHistory = [historyEntry, ...history]
+      // Record the save in the scan history
+      recordScanEvent({ barcode: savedProduct.barcode || currentBarcode, result: "saved", product: savedProduct })
+    } catch (error) {
+      if (isOfflineError(error)) {
+        // Keep the edit and replay it once back online
+        await enqueueOperation({
+          type: "save-product",
+          product,
+          baseUpdatedAt: product.updated_at || null,
+          baseProduct: product.id ? currentProduct : null,
+          loaded,
+          source: "scanner",
+        })
+        toast({
+          title: "Saved Offline",
+          description: "The product will be synced when the connection returns.",
+        })
+        resetStates()
+        return
       }
 
-      // Keep only the last 50 items to prevent localStorage from getting too large
-      updatedHistory = updatedHistory.slice(0, 50)
-
-      // Save to localStorage
-      localStorage.setItem("scanHistory", JSON.stringify(updatedHistory))
-    } catch (error) {
       toast({
         title: "Error Saving Product",
         description: `Failed to save product: ${error instanceof Error ? error.message : String(error)}`,
@@ -393,6 +462,20 @@ export function ScannerView({ initialTab = "scan" }: ScannerViewProps) {
     }
   }
 
+  // Deduct the weight (or the quantity a price label stands for) from the base product's stock
+  const handleDeductScannedMeasure = async () => {
+    if (!existingProduct || !scannedMeasure) return
+
+    const result = await deductScannedMeasure(existingProduct, scannedMeasure, currentBarcode)
+    if (result.status === "failed") return
+
+    setShowExistingProductDialog(false)
+    setScannedMeasure(null)
+    if (result.status === "applied") {
+      setCurrentProduct({ ...existingProduct, stock: result.stock })
+    }
+  }
+
   // Handle confirmation of duplicate product replacement
   const handleConfirmDuplicate = () => {
     if (pendingProductData) {
@@ -529,7 +612,7 @@ export function ScannerView({ initialTab = "scan" }: ScannerViewProps) {
               name: webProductInfo?.name || currentProduct?.name || "",
               price: webProductInfo?.price || currentProduct?.price || settings.inventory.defaultSellingPrice || "",
               barcode: currentBarcode || currentProduct?.barcode || "",
-              stock: currentProduct?.stock || settings?.inventory?.defaultStock || 0,
+              stock: currentProduct?.stock ?? settings?.inventory?.defaultStock ?? 0,
               min_stock: currentProduct?.min_stock || settings?.inventory?.defaultMinStock || 0,
               image: webProductInfo?.image || currentProduct?.image || "",
               purchase_price:
@@ -544,15 +627,21 @@ export function ScannerView({ initialTab = "scan" }: ScannerViewProps) {
                 settings.inventory.defaultCategoryId ||
                 "",
               expiry_notification_days: currentProduct?.expiry_notification_days || 30,
+              // Values from a scanned case label win over what is stored
+              expiry_date: scannedGs1?.expiryDate || scannedGs1?.bestBeforeDate || currentProduct?.expiry_date,
+              lot_number: scannedGs1?.lot || currentProduct?.lot_number || null,
             }}
             categories={categories}
             onCancel={handleFormCancel}
             onSuccess={handleFormSuccess}
+            loaded={currentProduct}
             isLoading={isLoading}
           />
         )}
 
-        {currentProduct && !showForm && <ProductDisplay product={currentProduct} onEdit={() => setShowForm(true)} />}
+        {currentProduct && !showForm && (
+          <ProductDisplay product={currentProduct} onEdit={() => setShowForm(true)} onChange={setCurrentProduct} />
+        )}
       </div>
 
       {/* Existing Product Dialog */}
@@ -589,6 +678,26 @@ export function ScannerView({ initialTab = "scan" }: ScannerViewProps) {
                         : existingProduct.category.name}
                     </p>
                   )}
+                  {scannedMeasure && (
+                    <p>
+                      <strong>Scanned {scannedMeasure.rule.kind}:</strong> {formatVariableMeasure(scannedMeasure)}
+                    </p>
+                  )}
+                  {scannedGs1?.lot && (
+                    <p>
+                      <strong>Lot:</strong> {scannedGs1.lot}
+                    </p>
+                  )}
+                  {scannedGs1?.expiryDate && (
+                    <p>
+                      <strong>Expiry:</strong> {scannedGs1.expiryDate}
+                    </p>
+                  )}
+                  {!scannedGs1?.expiryDate && scannedGs1?.bestBeforeDate && (
+                    <p>
+                      <strong>Best before:</strong> {scannedGs1.bestBeforeDate}
+                    </p>
+                  )}
                 </div>
               </div>
             </div>
@@ -602,6 +711,11 @@ export function ScannerView({ initialTab = "scan" }: ScannerViewProps) {
               <Button variant="secondary" onClick={handleViewExistingProduct}>
                 View Details
               </Button>
+              {scannedMeasure && (
+                <Button variant="secondary" onClick={handleDeductScannedMeasure} disabled={isLoading || isDeducting}>
+                  Deduct from Stock
+                </Button>
+              )}
               <Button onClick={handleEditExistingProduct}>Edit Product</Button>
             </div>
           </DialogFooter>
@@ -0,0 +1,338 @@
+"use client"
+
+import { useState, useRef, useEffect } from "react"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card"
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { AlertTriangle, Loader2, ScanLine, Send, Trash2, X } from "lucide-react"
+import { useToast } from "@/hooks/use-toast"
+import { useSettings } from "@/contexts/settings-context"
+import { fetchProductByBarcode } from "@/services/product-service"
+import {
+  createScanConsensus,
+  createScannerEngine,
+  startScanLoop,
+  type ScanFormat,
+  type ScanResult,
+  type ScannerEngine,
+} from "@/lib/scanner"
+import type { Product } from "@/types/product"
+
+type ShelfItemStatus = "checking" | "known" | "unknown" | "low-stock"
+
+export interface ShelfScanItem {
+  barcode: string
+  format: ScanFormat
+  status: ShelfItemStatus
+  product?: Product | null
+  scannedAt: string
+}
+
+interface ShelfScannerProps {
+  onSendToBatch: (barcodes: string[]) => void
+}
+
+const STATUS_STYLES: Record<ShelfItemStatus | "pending", { color: string; label: string }> = {
+  pending: { color: "#ffffff", label: "Reading..." },
+  checking: { color: "#60a5fa", label: "Checking" },
+  known: { color: "#22c55e", label: "Known" },
+  unknown: { color: "#f59e0b", label: "Unknown" },
+  "low-stock": { color: "#ef4444", label: "Low stock" },
+}
+
+const isLowStock = (product: Product) =>
+  typeof product.stock === "number" && typeof product.min_stock === "number" && product.stock <= product.min_stock
+
+/**
+ * Continuous shelf audit: keeps the camera open, reads every barcode in view and collects
+ * them in a session list that can be handed to the batch processor.
+ */
+export function ShelfScanner({ onSendToBatch }: ShelfScannerProps) {
+  const [isOpen, setIsOpen] = useState(false)
+  const [items, setItems] = useState<ShelfScanItem[]>([])
+  const [frameResults, setFrameResults] = useState<ScanResult[]>([])
+  const [videoSize, setVideoSize] = useState({ width: 0, height: 0 })
+  const [engineLabel, setEngineLabel] = useState<string | null>(null)
+  const [errorMessage, setErrorMessage] = useState<string | null>(null)
+  const videoRef = useRef<HTMLVideoElement>(null)
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+  const sessionRef = useRef<Set<string>>(new Set())
+  const { toast } = useToast()
+  const { settings } = useSettings()
+
+  // Keep the session barcodes in a ref so the scan loop sees additions immediately
+  useEffect(() => {
+    sessionRef.current = new Set(items.map((item) => item.barcode))
+  }, [items])
+
+  // Run the camera and scan loop while the dialog is open
+  useEffect(() => {
+    if (!isOpen) return
+
+    let stream: MediaStream | null = null
+    let engine: ScannerEngine | null = null
+    let stopLoop: (() => void) | null = null
+    let cancelled = false
+
+    const consensus = createScanConsensus({
+      requiredReads: settings.scanning.confirmationReads,
+      window: settings.scanning.confirmationWindowMs,
+      maxEdgeError: settings.scanning.maxEdgeError,
+    })
+
+    // Stop whatever has been started so far. Starting awaits the camera, the engine and playback, and the
+    // dialog may close in between, so each step checks `cancelled` and releases what it got.
+    const release = () => {
+      if (stopLoop) stopLoop()
+      if (engine) engine.dispose()
+      if (stream) stream.getTracks().forEach((track) => track.stop())
+      stopLoop = null
+      engine = null
+      stream = null
+    }
+
+    const start = async () => {
+      try {
+        setErrorMessage(null)
+        stream = await navigator.mediaDevices.getUserMedia({
+          video: { facingMode: "environment", width: { ideal: 1920 }, height: { ideal: 1080 } },
+          audio: false,
+        })
+        if (cancelled) return release()
+
+        engine = await createScannerEngine(settings.scanning.preferredScanner)
+
+        const video = videoRef.current
+        const canvas = canvasRef.current
+        if (cancelled || !video || !canvas) return release()
+
+        setEngineLabel(engine.label)
+        video.srcObject = stream
+        await video.play()
+        if (cancelled) return release()
+
+        setVideoSize({ width: video.videoWidth, height: video.videoHeight })
+
+        stopLoop = startScanLoop(engine, video, canvas, {
+          onResults: (results) => {
+            setFrameResults(results)
+            for (const result of results) {
+              if (consensus.submit(result).status === "confirmed" && !sessionRef.current.has(result.code)) {
+                addToSession(result)
+              }
+            }
+          },
+          onError: (error) => console.error("Shelf scan decode error:", error),
+        })
+      } catch (error) {
+        release()
+        // Playback is aborted when the dialog closes while it starts
+        if (cancelled) return
+        console.error("Error starting shelf scanner:", error)
+        setErrorMessage(`Could not start the scanner: ${(error as Error).message}`)
+      }
+    }
+
+    start()
+
+    return () => {
+      cancelled = true
+      release()
+      setFrameResults([])
+    }
+  }, [isOpen])
+
+  const addToSession = (result: ScanResult) => {
+    sessionRef.current.add(result.code)
+    setItems((prev) => [
+      { barcode: result.code, format: result.format, status: "checking", scannedAt: new Date().toISOString() },
+      ...prev,
+    ])
+
+    if (settings.scanning.beepOnScan) {
+      try {
+        const audio = new Audio("/sounds/beep.mp3")
+        audio.play().catch((e) => console.log("Audio play failed:", e))
+      } catch (e) {
+        console.log("Audio play failed:", e)
+      }
+    }
+
+    lookupStatus(result.code)
+  }
+
+  const lookupStatus = async (barcode: string) => {
+    const product = await fetchProductByBarcode(barcode)
+    const status: ShelfItemStatus = !product ? "unknown" : isLowStock(product) ? "low-stock" : "known"
+
+    setItems((prev) => prev.map((item) => (item.barcode === barcode ? { ...item, status, product } : item)))
+  }
+
+  const getStatus = (barcode: string): ShelfItemStatus | "pending" =>
+    items.find((item) => item.barcode === barcode)?.status || "pending"
+
+  const removeItem = (barcode: string) => {
+    setItems((prev) => prev.filter((item) => item.barcode !== barcode))
+  }
+
+  const sendToBatch = () => {
+    onSendToBatch(items.map((item) => item.barcode))
+    setIsOpen(false)
+    toast({
+      title: "Sent to batch processor",
+      description: `${items.length} barcode${items.length === 1 ? "" : "s"} added to the batch processor`,
+    })
+  }
+
+  const counts = {
+    known: items.filter((item) => item.status === "known").length,
+    unknown: items.filter((item) => item.status === "unknown").length,
+    lowStock: items.filter((item) => item.status === "low-stock").length,
+  }
+
+  const sessionList = (
+    <div className="max-h-64 overflow-y-auto divide-y rounded-md border">
+      {items.map((item) => (
+        <div key={item.barcode} className="flex items-center justify-between gap-2 p-2 text-sm">
+          <div className="min-w-0">
+            <div className="font-mono">{item.barcode}</div>
+            <div className="text-xs text-muted-foreground truncate">
+              {item.product?.name || (item.status === "checking" ? "Looking up..." : "Not in inventory")}
+            </div>
+          </div>
+          <div className="flex items-center gap-2">
+            <Badge
+              variant="outline"
+              style={{ borderColor: STATUS_STYLES[item.status].color, color: STATUS_STYLES[item.status].color }}
+            >
+              {item.status === "checking" && <Loader2 className="h-3 w-3 mr-1 animate-spin" />}
+              {STATUS_STYLES[item.status].label}
+            </Badge>
+            <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => removeItem(item.barcode)}>
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+      ))}
+    </div>
+  )
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <CardTitle>Shelf Scan</CardTitle>
+        <CardDescription>
+          Keep the camera on a shelf to read every barcode in view, then send the list to the batch processor
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <Button className="w-full" variant="outline" onClick={() => setIsOpen(true)}>
+          <ScanLine className="h-4 w-4 mr-2" />
+          {items.length > 0 ? "Continue Shelf Scan" : "Start Shelf Scan"}
+        </Button>
+
+        {items.length > 0 && (
+          <>
+            <div className="flex gap-2 text-xs">
+              <Badge variant="secondary">{items.length} scanned</Badge>
+              <Badge variant="secondary">{counts.known} known</Badge>
+              <Badge variant="secondary">{counts.unknown} unknown</Badge>
+              <Badge variant="secondary">{counts.lowStock} low stock</Badge>
+            </div>
+            {sessionList}
+          </>
+        )}
+      </CardContent>
+      {items.length > 0 && (
+        <CardFooter className="flex justify-between gap-2">
+          <Button variant="outline" onClick={() => setItems([])}>
+            <Trash2 className="h-4 w-4 mr-2" />
+            Clear
+          </Button>
+          <Button onClick={sendToBatch}>
+            <Send className="h-4 w-4 mr-2" />
+            Send to Batch Processor
+          </Button>
+        </CardFooter>
+      )}
+
+      <Dialog open={isOpen} onOpenChange={setIsOpen}>
+        <DialogContent className="sm:max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Shelf Scan</DialogTitle>
+          </DialogHeader>
+
+          {errorMessage ? (
+            <div className="p-6 flex flex-col items-center justify-center gap-4">
+              <AlertTriangle className="h-12 w-12 text-amber-500" />
+              <p className="text-center text-muted-foreground">{errorMessage}</p>
+            </div>
+          ) : (
+            <div className="relative aspect-video bg-black rounded-md overflow-hidden">
+              <video ref={videoRef} className="absolute inset-0 w-full h-full object-contain" playsInline muted />
+              <canvas ref={canvasRef} className="hidden" />
+
+              {/* Boxes are in video pixels; "meet" matches the object-contain video layout */}
+              {videoSize.width > 0 && (
+                <svg
+                  className="absolute inset-0 w-full h-full pointer-events-none"
+                  viewBox={`0 0 ${videoSize.width} ${videoSize.height}`}
+                  preserveAspectRatio="xMidYMid meet"
+                >
+                  {frameResults.map((result) => {
+                    if (!result.box) return null
+                    const style = STATUS_STYLES[getStatus(result.code)]
+
+                    return (
+                      <g key={`${result.code}-${result.box.x}-${result.box.y}`}>
+                        <rect
+                          x={result.box.x}
+                          y={result.box.y}
+                          width={result.box.width}
+                          height={result.box.height}
+                          fill="none"
+                          stroke={style.color}
+                          strokeWidth={4}
+                          rx={6}
+                        />
+                        <text
+                          x={result.box.x}
+                          y={Math.max(result.box.y - 10, 24)}
+                          fill={style.color}
+                          fontSize={24}
+                          fontWeight="bold"
+                        >
+                          {result.code} · {style.label}
+                        </text>
+                      </g>
+                    )
+                  })}
+                </svg>
+              )}
+
+              {engineLabel && (
+                <div className="absolute top-2 right-2 rounded bg-black/50 px-2 py-1 text-xs text-white">
+                  {engineLabel} · {items.length} scanned
+                </div>
+              )}
+            </div>
+          )}
+
+          {items.length > 0 && sessionList}
+
+          <DialogFooter className="flex flex-col sm:flex-row gap-2 justify-between">
+            <Button variant="outline" onClick={() => setIsOpen(false)}>
+              <X className="h-4 w-4 mr-2" />
+              Done
+            </Button>
+            <Button onClick={sendToBatch} disabled={items.length === 0}>
+              <Send className="h-4 w-4 mr-2" />
+              Send {items.length} to Batch Processor
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  )
+}
@@ -4,38 +4,62 @@ import { useState } from "react"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import type { Product } from "@/types/product"
-import { updateProductStock } from "@/services/product-service"
+import type { StockMovement, StockMovementReason } from "@/types/stock-movement"
+import { applyStockMovement, STOCK_MOVEMENT_REASON_LABELS } from "@/services/stock-service"
 import { useToast } from "@/hooks/use-toast"
 import { Loader2, Plus, Minus } from "lucide-react"
 
 interface StockControlProps {
   product: Product
   onClose: () => void
+  onStockChange?: (movement: StockMovement) => void
 }
 
-export function StockControl({ product, onClose }: StockControlProps) {
+// Reasons offered for each direction; stock counts are posted by stocktakes
+const ADD_REASONS: StockMovementReason[] = ["purchase", "adjustment"]
+const REMOVE_REASONS: StockMovementReason[] = ["sale", "waste", "expired", "adjustment"]
+
+export function StockControl({ product, onClose, onStockChange }: StockControlProps) {
   const [quantity, setQuantity] = useState(1)
+  const [addReason, setAddReason] = useState<StockMovementReason>("purchase")
+  const [removeReason, setRemoveReason] = useState<StockMovementReason>("sale")
+  const [reference, setReference] = useState("")
+  const [lotNumber, setLotNumber] = useState("")
+  const [expiryDate, setExpiryDate] = useState("")
   const [isLoading, setIsLoading] = useState(false)
   const { toast } = useToast()
 
+  const currentStock = product.stock || 0
+
   const handleStockChange = async (action: "add" | "remove") => {
     if (!product.id) return
 
     try {
       setIsLoading(true)
 
-      const newStock = action === "add" ? product.stock + quantity : Math.max(0, product.stock - quantity)
+      // Never remove more than what is in stock
+      const delta = action === "add" ? quantity : -Math.min(quantity, currentStock)
 
-      await updateProductStock(product.id, newStock)
+      const movement = await applyStockMovement({
+        productId: product.id,
+        delta,
+        reason: action === "add" ? addReason : removeReason,
+        reference: reference.trim() || null,
+        // Only added stock starts a lot; removed stock comes out of the lots that expire first
+        lotNumber: action === "add" ? lotNumber.trim() || null : null,
+        expiryDate: action === "add" ? expiryDate || null : null,
+      })
 
-      // Update the product in the UI
-      product.stock = newStock
-      product.isLowStock = newStock <= product.min_stock
+      // Update the product in the UI with the stock computed by the server
+      product.stock = movement.stock_after
+      product.isLowStock = movement.stock_after <= (product.min_stock || 0)
+      onStockChange?.(movement)
 
       toast({
         title: "Stock Updated",
-        description: `Stock ${action === "add" ? "increased" : "decreased"} by ${quantity}`,
+        description: `Stock ${action === "add" ? "increased" : "decreased"} by ${Math.abs(delta)}`,
       })
 
       // Close the stock control panel
@@ -51,6 +75,25 @@ export function StockControl({ product, onClose }: StockControlProps) {
     }
   }
 
+  const reasonSelect = (
+    value: StockMovementReason,
+    onChange: (reason: StockMovementReason) => void,
+    reasons: StockMovementReason[],
+  ) => (
+    <Select value={value} onValueChange={(reason) => onChange(reason as StockMovementReason)}>
+      <SelectTrigger>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {reasons.map((reason) => (
+          <SelectItem key={reason} value={reason}>
+            {STOCK_MOVEMENT_REASON_LABELS[reason]}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  )
+
   return (
     <div className="border rounded-lg p-4 space-y-4">
       <div className="space-y-2">
@@ -73,6 +116,32 @@ export function StockControl({ product, onClose }: StockControlProps) {
         </div>
       </div>
 
+      <div className="space-y-2">
+        <Label htmlFor="reference">Reference (optional)</Label>
+        <Input
+          id="reference"
+          placeholder="Invoice or receipt number"
+          value={reference}
+          onChange={(e) => setReference(e.target.value)}
+        />
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <div className="space-y-2">
+          <Label htmlFor="lot-number">Lot (when adding)</Label>
+          <Input id="lot-number" placeholder="Lot number" value={lotNumber} onChange={(e) => setLotNumber(e.target.value)} />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="lot-expiry">Expiry (when adding)</Label>
+          <Input id="lot-expiry" type="date" value={expiryDate} onChange={(e) => setExpiryDate(e.target.value)} />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        {reasonSelect(addReason, setAddReason, ADD_REASONS)}
+        {reasonSelect(removeReason, setRemoveReason, REMOVE_REASONS)}
+      </div>
+
       <div className="flex gap-2">
         <Button className="flex-1" variant="outline" onClick={() => handleStockChange("add")} disabled={isLoading}>
           {isLoading ? (
@@ -88,7 +157,7 @@ export function StockControl({ product, onClose }: StockControlProps) {
           className="flex-1"
           variant="outline"
           onClick={() => handleStockChange("remove")}
-          disabled={isLoading || product.stock <= 0}
+          disabled={isLoading || currentStock <= 0}
         >
           {isLoading ? (
             <Loader2 className="h-4 w-4 animate-spin" />
@@ -0,0 +1,91 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { Badge } from "@/components/ui/badge"
+import { Loader2 } from "lucide-react"
+import { fetchStockLots, getDaysUntilExpiry } from "@/services/stock-lot-service"
+import type { Product } from "@/types/product"
+import type { StockLot } from "@/types/stock-lot"
+
+interface StockLotsProps {
+  product: Product
+  // Change to reload, e.g. after a stock adjustment
+  refreshKey?: number
+}
+
+export function StockLots({ product, refreshKey = 0 }: StockLotsProps) {
+  const [lots, setLots] = useState<StockLot[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+
+  useEffect(() => {
+    if (!product.id) return
+
+    const loadLots = async () => {
+      setIsLoading(true)
+      try {
+        setLots(await fetchStockLots(product.id!, product.expiry_notification_days || undefined))
+      } catch (error) {
+        console.error("Error loading stock lots:", error)
+      } finally {
+        setIsLoading(false)
+      }
+    }
+
+    loadLots()
+  }, [product.id, product.expiry_notification_days, refreshKey])
+
+  // Stock that predates lot tracking or was reconciled outside the ledger
+  const untracked = (product.stock || 0) - lots.reduce((sum, lot) => sum + lot.quantity, 0)
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <p className="text-sm font-medium">Lots</p>
+        {isLoading && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
+      </div>
+
+      {lots.length === 0 ? (
+        <p className="text-sm text-muted-foreground">{isLoading ? "Loading..." : "No lots in stock"}</p>
+      ) : (
+        <div className="space-y-1">
+          {lots.map((lot) => {
+            const daysLeft = lot.expiry_date ? getDaysUntilExpiry(lot.expiry_date) : null
+            return (
+              <div key={lot.id} className="flex items-center justify-between gap-2 text-sm border rounded-md px-2 py-1">
+                <div className="min-w-0">
+                  <p className="font-medium truncate">{lot.lot_number || "No lot number"}</p>
+                  <p className="text-xs text-muted-foreground">
+                    Received {new Date(lot.received_at).toLocaleDateString()}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2">
+                  {lot.expiry_date && (
+                    <span className="text-xs text-muted-foreground">
+                      {new Date(lot.expiry_date).toLocaleDateString()}
+                    </span>
+                  )}
+                  {daysLeft !== null && daysLeft < 0 ? (
+                    <Badge variant="destructive" className="text-xs">
+                      Expired
+                    </Badge>
+                  ) : (
+                    lot.isExpiringSoon && (
+                      <Badge variant="secondary" className="text-xs">
+                        {daysLeft === 0 ? "Today" : `${daysLeft}d`}
+                      </Badge>
+                    )
+                  )}
+                  <span className="font-bold w-10 text-right">{lot.quantity}</span>
+                </div>
+              </div>
+            )
+          })}
+        </div>
+      )}
+
+      {untracked > 0 && lots.length > 0 && (
+        <p className="text-xs text-muted-foreground">{untracked} in stock without a lot</p>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,163 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { AlertTriangle, ChevronLeft, ChevronRight, Loader2 } from "lucide-react"
+import { useToast } from "@/hooks/use-toast"
+import {
+  fetchStockLedgerBalance,
+  fetchStockMovements,
+  reconcileStockLedger,
+  STOCK_MOVEMENT_REASON_LABELS,
+} from "@/services/stock-service"
+import type { StockLedgerBalance, StockMovement } from "@/types/stock-movement"
+
+interface StockMovementHistoryProps {
+  productId: string
+  // Change to reload, e.g. after a stock adjustment
+  refreshKey?: number
+}
+
+const PAGE_SIZE = 5
+
+export function StockMovementHistory({ productId, refreshKey = 0 }: StockMovementHistoryProps) {
+  const [movements, setMovements] = useState<StockMovement[]>([])
+  const [total, setTotal] = useState(0)
+  const [page, setPage] = useState(1)
+  const [balance, setBalance] = useState<StockLedgerBalance | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+  const [isReconciling, setIsReconciling] = useState(false)
+  const [reloadKey, setReloadKey] = useState(0)
+  const { toast } = useToast()
+
+  useEffect(() => {
+    setPage(1)
+  }, [productId])
+
+  useEffect(() => {
+    const loadMovements = async () => {
+      setIsLoading(true)
+      try {
+        const [result, ledgerBalance] = await Promise.all([
+          fetchStockMovements(productId, page, PAGE_SIZE),
+          fetchStockLedgerBalance(productId),
+        ])
+        setMovements(result.movements)
+        setTotal(result.total)
+        setBalance(ledgerBalance)
+      } catch (error) {
+        console.error("Error loading stock movements:", error)
+      } finally {
+        setIsLoading(false)
+      }
+    }
+
+    loadMovements()
+  }, [productId, page, refreshKey, reloadKey])
+
+  const handleReconcile = async () => {
+    setIsReconciling(true)
+    try {
+      await reconcileStockLedger(productId)
+      setPage(1)
+      setReloadKey((prev) => prev + 1)
+      toast({
+        title: "Ledger reconciled",
+        description: "The unrecorded stock difference was posted as an adjustment.",
+      })
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to reconcile the stock ledger",
+        variant: "destructive",
+      })
+    } finally {
+      setIsReconciling(false)
+    }
+  }
+
+  const totalPages = Math.ceil(total / PAGE_SIZE)
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <p className="text-sm font-medium">Stock movements</p>
+        {isLoading && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
+      </div>
+
+      {balance && balance.difference !== 0 && (
+        <Alert>
+          <AlertTriangle className="h-4 w-4" />
+          <AlertDescription className="flex items-center justify-between gap-2">
+            <span className="text-xs">
+              Stock is {balance.stock} but the movements add up to {balance.ledger_stock}.
+            </span>
+            <Button size="sm" variant="outline" onClick={handleReconcile} disabled={isReconciling}>
+              {isReconciling && <Loader2 className="h-3 w-3 mr-1 animate-spin" />}
+              Reconcile
+            </Button>
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {movements.length === 0 ? (
+        <p className="text-sm text-muted-foreground">{isLoading ? "Loading..." : "No stock movements recorded yet"}</p>
+      ) : (
+        <div className="space-y-1">
+          {movements.map((movement) => (
+            <div key={movement.id} className="flex items-center justify-between gap-2 text-sm border rounded-md px-2 py-1">
+              <div className="min-w-0">
+                <div className="flex items-center gap-2">
+                  <Badge variant="outline" className="text-xs">
+                    {STOCK_MOVEMENT_REASON_LABELS[movement.reason]}
+                  </Badge>
+                  {movement.reference && (
+                    <span className="text-xs text-muted-foreground truncate">{movement.reference}</span>
+                  )}
+                </div>
+                <p className="text-xs text-muted-foreground">{new Date(movement.created_at).toLocaleString()}</p>
+              </div>
+              <div className="text-right">
+                <p className={`font-medium ${movement.delta < 0 ? "text-destructive" : "text-green-600"}`}>
+                  {movement.delta > 0 ? "+" : ""}
+                  {movement.delta}
+                </p>
+                <p className="text-xs text-muted-foreground">Stock: {movement.stock_after}</p>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {totalPages > 1 && (
+        <div className="flex items-center justify-end gap-1">
+          <Button
+            variant="outline"
+            size="icon"
+            className="h-7 w-7"
+            onClick={() => setPage(page - 1)}
+            disabled={page === 1}
+          >
+            <ChevronLeft className="h-4 w-4" />
+            <span className="sr-only">Previous page</span>
+          </Button>
+          <span className="text-xs mx-2">
+            Page {page} of {totalPages}
+          </span>
+          <Button
+            variant="outline"
+            size="icon"
+            className="h-7 w-7"
+            onClick={() => setPage(page + 1)}
+            disabled={page === totalPages}
+          >
+            <ChevronRight className="h-4 w-4" />
+            <span className="sr-only">Next page</span>
+          </Button>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,487 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Badge } from "@/components/ui/badge"
+import { Switch } from "@/components/ui/switch"
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog"
+import { ArrowLeft, CheckCircle, Download, Loader2, Pause, Play, RefreshCw } from "lucide-react"
+import { BarcodeScanner } from "@/components/barcode-scanner"
+import { useToast } from "@/hooks/use-toast"
+import { useSettings } from "@/contexts/settings-context"
+import { useKeyboardWedge } from "@/contexts/keyboard-wedge-context"
+import {
+  DEFAULT_VARIABLE_MEASURE_RULES,
+  getGs1ProductBarcode,
+  getVariableMeasureQuantity,
+  parseGs1,
+} from "@/lib/barcode"
+import { fetchProductByScannedBarcode } from "@/services/product-service"
+import {
+  addStocktakeCount,
+  approveStocktake,
+  fetchStocktakeCounts,
+  fetchStocktakeVariances,
+  updateStocktakeStatus,
+} from "@/services/stocktake-service"
+import type { Category } from "@/types/product"
+import type { StocktakeCount, StocktakeSession as Session, StocktakeVariance } from "@/types/stocktake"
+
+const REFRESH_INTERVAL = 15 * 1000 // Pick up counts from other devices every 15 seconds
+
+interface StocktakeSessionProps {
+  session: Session
+  categories: Category[]
+  onSessionChange: (session: Session) => void
+  onClose: () => void
+}
+
+export function StocktakeSession({ session, categories, onSessionChange, onClose }: StocktakeSessionProps) {
+  const { settings } = useSettings()
+  const { toast } = useToast()
+  const [counts, setCounts] = useState<StocktakeCount[]>([])
+  const [selectedCount, setSelectedCount] = useState<StocktakeCount | null>(null)
+  const [countInput, setCountInput] = useState("")
+  const [variances, setVariances] = useState<StocktakeVariance[]>([])
+  const [activeTab, setActiveTab] = useState("count")
+  const [isLoading, setIsLoading] = useState(false)
+  const [showApproveDialog, setShowApproveDialog] = useState(false)
+  const [zeroUncounted, setZeroUncounted] = useState(false)
+
+  const isOpen = session.status === "open"
+  const isClosed = session.status === "approved" || session.status === "cancelled"
+  const categoryName = categories.find((category) => category.id === session.category_id)?.name
+
+  const loadCounts = async () => {
+    try {
+      setCounts(await fetchStocktakeCounts(session.id))
+    } catch (error) {
+      console.error("Error loading stocktake counts:", error)
+    }
+  }
+
+  const loadVariances = async () => {
+    try {
+      setIsLoading(true)
+      setVariances(await fetchStocktakeVariances(session))
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to load variances",
+        variant: "destructive",
+      })
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    loadCounts()
+    if (!isOpen) return
+
+    const interval = setInterval(loadCounts, REFRESH_INTERVAL)
+    return () => clearInterval(interval)
+  }, [session.id, isOpen])
+
+  useEffect(() => {
+    if (activeTab === "review") loadVariances()
+  }, [activeTab, session.id])
+
+  const selectCount = (count: StocktakeCount) => {
+    setSelectedCount(count)
+    setCountInput(String(count.counted))
+  }
+
+  // Same lookup as the scanner: GS1 case labels resolve to their GTIN, in-store labels to their base product
+  const handleBarcodeDetected = async (scannedCode: string) => {
+    if (!isOpen) {
+      toast({
+        title: "Session not open",
+        description: "Resume the session to keep counting.",
+        variant: "destructive",
+      })
+      return
+    }
+
+    const gs1 = parseGs1(scannedCode)
+    const barcode = (gs1 && getGs1ProductBarcode(gs1)) || scannedCode
+
+    try {
+      setIsLoading(true)
+      const { product, measure } = await fetchProductByScannedBarcode(
+        barcode,
+        settings.scanning.variableMeasureRules || DEFAULT_VARIABLE_MEASURE_RULES,
+      )
+
+      if (!product?.id) {
+        toast({
+          title: "Unknown Product",
+          description: `No product is registered with barcode ${barcode}.`,
+          variant: "destructive",
+        })
+        return
+      }
+
+      // Weight and price labels count the quantity they carry
+      const quantity = measure ? getVariableMeasureQuantity(measure, product.price) : 1
+      if (quantity === null) {
+        toast({
+          title: "Unit price missing",
+          description: "Set the product's price per kg to count price labels.",
+          variant: "destructive",
+        })
+        return
+      }
+
+      if (session.category_id && product.category_id !== session.category_id) {
+        toast({
+          title: "Outside this count",
+          description: `${product.name} is not in ${categoryName || "this session's category"}. It was counted anyway.`,
+        })
+      }
+
+      const count = await addStocktakeCount(session.id, product.id, quantity)
+      selectCount({ ...count, product })
+      loadCounts()
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive",
+      })
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  // Handheld scanners count directly into the session
+  useKeyboardWedge(handleBarcodeDetected)
+
+  const handleSetCount = async () => {
+    if (!selectedCount) return
+
+    const counted = Number.parseFloat(countInput.replace(",", "."))
+    if (Number.isNaN(counted) || counted < 0) {
+      toast({ title: "Invalid count", description: "Enter a quantity of zero or more.", variant: "destructive" })
+      return
+    }
+
+    try {
+      setIsLoading(true)
+      const count = await addStocktakeCount(session.id, selectedCount.product_id, counted, true)
+      selectCount({ ...count, product: selectedCount.product })
+      loadCounts()
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive",
+      })
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const handleStatusChange = async (status: "open" | "paused" | "cancelled") => {
+    try {
+      onSessionChange(await updateStocktakeStatus(session.id, status))
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive",
+      })
+    }
+  }
+
+  const handleApprove = async () => {
+    try {
+      setIsLoading(true)
+      const adjustments = await approveStocktake(session.id, zeroUncounted)
+      toast({
+        title: "Stocktake approved",
+        description: `${adjustments} product${adjustments === 1 ? "" : "s"} adjusted to the counted stock.`,
+      })
+      onSessionChange({ ...session, status: "approved", approved_at: new Date().toISOString() })
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive",
+      })
+    } finally {
+      setIsLoading(false)
+      setShowApproveDialog(false)
+    }
+  }
+
+  const exportVarianceReport = () => {
+    const headers = ["barcode", "name", "stock", "counted", "variance", "variance_value"]
+    const csvContent = [
+      headers.join(","),
+      ...variances.map((row) => {
+        const cost = Number.parseFloat(String(row.product.purchase_price || "0").replace(",", ".")) || 0
+        return [
+          row.product.barcode || "",
+          `"${(row.product.name || "").replace(/"/g, '""')}"`,
+          row.stock,
+          row.counted === null ? "" : row.counted,
+          row.variance,
+          (row.variance * cost).toFixed(2),
+        ].join(",")
+      }),
+    ].join("\n")
+
+    const blob = new Blob([csvContent], { type: "text/csv;charset=utf-8;" })
+    const url = URL.createObjectURL(blob)
+    const link = document.createElement("a")
+    link.setAttribute("href", url)
+    link.setAttribute("download", `stocktake_${session.name.replace(/\W+/g, "_")}_${new Date().toISOString().slice(0, 10)}.csv`)
+    link.style.visibility = "hidden"
+    document.body.appendChild(link)
+    link.click()
+    document.body.removeChild(link)
+  }
+
+  const varianceRows = variances.filter((row) => row.variance !== 0)
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between gap-2">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              {session.name}
+              <Badge variant={isOpen ? "default" : "secondary"}>{session.status}</Badge>
+            </CardTitle>
+            <CardDescription>
+              {[categoryName && `Category: ${categoryName}`, session.shelf && `Shelf: ${session.shelf}`]
+                .filter(Boolean)
+                .join(" • ") || "All products"}
+              {" • "}
+              {counts.length} product{counts.length === 1 ? "" : "s"} counted
+            </CardDescription>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            <Button variant="outline" size="sm" onClick={onClose}>
+              <ArrowLeft className="h-4 w-4 mr-1" />
+              Sessions
+            </Button>
+            {isOpen && (
+              <Button variant="outline" size="sm" onClick={() => handleStatusChange("paused")}>
+                <Pause className="h-4 w-4 mr-1" />
+                Pause
+              </Button>
+            )}
+            {session.status === "paused" && (
+              <Button variant="outline" size="sm" onClick={() => handleStatusChange("open")}>
+                <Play className="h-4 w-4 mr-1" />
+                Resume
+              </Button>
+            )}
+          </div>
+        </CardHeader>
+      </Card>
+
+      <Tabs value={activeTab} onValueChange={setActiveTab}>
+        <TabsList className="grid w-full grid-cols-2">
+          <TabsTrigger value="count">Count</TabsTrigger>
+          <TabsTrigger value="review">Review Variances</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="count" className="space-y-4">
+          {isOpen ? (
+            <BarcodeScanner onBarcodeDetected={handleBarcodeDetected} isLoading={isLoading} />
+          ) : (
+            <p className="text-sm text-muted-foreground text-center py-4">
+              {isClosed ? `This session is ${session.status}.` : "This session is paused. Resume it to keep counting."}
+            </p>
+          )}
+
+          {selectedCount?.product && (
+            <Card>
+              <CardContent className="p-4 space-y-3">
+                <div>
+                  <p className="font-medium">{selectedCount.product.name}</p>
+                  <p className="text-sm text-muted-foreground">
+                    {selectedCount.product.barcode} • Stock: {selectedCount.product.stock || 0}
+                  </p>
+                </div>
+                <div className="flex items-end gap-2">
+                  <div className="flex-1 space-y-1">
+                    <Label htmlFor="counted">Counted quantity</Label>
+                    <Input
+                      id="counted"
+                      type="number"
+                      min="0"
+                      step="any"
+                      value={countInput}
+                      onChange={(e) => setCountInput(e.target.value)}
+                      disabled={!isOpen}
+                    />
+                  </div>
+                  <Button onClick={handleSetCount} disabled={!isOpen || isLoading}>
+                    Set Count
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between pb-2">
+              <CardTitle className="text-base">Counted products</CardTitle>
+              <Button variant="ghost" size="sm" onClick={loadCounts} title="Refresh counts">
+                <RefreshCw className="h-4 w-4" />
+              </Button>
+            </CardHeader>
+            <CardContent>
+              {counts.length === 0 ? (
+                <p className="text-sm text-muted-foreground">Scan products to start counting</p>
+              ) : (
+                <div className="space-y-2">
+                  {counts.map((count) => (
+                    <div
+                      key={count.id}
+                      className="flex items-center justify-between p-2 border rounded-md cursor-pointer hover:bg-accent"
+                      onClick={() => selectCount(count)}
+                    >
+                      <div className="min-w-0">
+                        <p className="font-medium truncate">{count.product?.name || count.product_id}</p>
+                        <p className="text-xs text-muted-foreground">{count.product?.barcode}</p>
+                      </div>
+                      <span className="font-bold">{count.counted}</span>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="review" className="space-y-4">
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between gap-2 pb-2">
+              <div>
+                <CardTitle className="text-base">Variances</CardTitle>
+                <CardDescription>
+                  {varianceRows.length} of {variances.length} product{variances.length === 1 ? "" : "s"} differ from
+                  the current stock
+                </CardDescription>
+              </div>
+              <div className="flex gap-2">
+                <Button variant="outline" size="sm" onClick={loadVariances} disabled={isLoading}>
+                  <RefreshCw className="h-4 w-4" />
+                </Button>
+                <Button variant="outline" size="sm" onClick={exportVarianceReport} disabled={variances.length === 0}>
+                  <Download className="h-4 w-4 mr-1" />
+                  Export CSV
+                </Button>
+              </div>
+            </CardHeader>
+            <CardContent>
+              {isLoading && variances.length === 0 ? (
+                <div className="flex justify-center py-6">
+                  <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+                </div>
+              ) : variances.length === 0 ? (
+                <p className="text-sm text-muted-foreground">Nothing counted yet</p>
+              ) : (
+                <div className="rounded-md border overflow-hidden">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Product</TableHead>
+                        <TableHead className="text-right">Stock</TableHead>
+                        <TableHead className="text-right">Counted</TableHead>
+                        <TableHead className="text-right">Variance</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {variances.map((row) => (
+                        <TableRow key={row.product.id}>
+                          <TableCell>
+                            <div className="flex flex-col">
+                              <span className="truncate max-w-[220px]">{row.product.name}</span>
+                              <span className="text-xs text-muted-foreground">{row.product.barcode}</span>
+                            </div>
+                          </TableCell>
+                          <TableCell className="text-right">{row.stock}</TableCell>
+                          <TableCell className="text-right">
+                            {row.counted === null ? <Badge variant="outline">Not counted</Badge> : row.counted}
+                          </TableCell>
+                          <TableCell
+                            className={`text-right font-medium ${
+                              row.variance < 0 ? "text-destructive" : row.variance > 0 ? "text-green-600" : ""
+                            }`}
+                          >
+                            {row.variance > 0 ? "+" : ""}
+                            {row.variance}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+
+              {!isClosed && (
+                <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 mt-4">
+                  {session.category_id ? (
+                    <div className="flex items-center gap-2">
+                      <Switch id="zero-uncounted" checked={zeroUncounted} onCheckedChange={setZeroUncounted} />
+                      <Label htmlFor="zero-uncounted">Set uncounted products to zero</Label>
+                    </div>
+                  ) : (
+                    <span />
+                  )}
+                  <div className="flex gap-2">
+                    <Button variant="outline" onClick={() => handleStatusChange("cancelled")}>
+                      Cancel Session
+                    </Button>
+                    <Button onClick={() => setShowApproveDialog(true)} disabled={isLoading || counts.length === 0}>
+                      <CheckCircle className="h-4 w-4 mr-2" />
+                      Approve
+                    </Button>
+                  </div>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+      </Tabs>
+
+      <AlertDialog open={showApproveDialog} onOpenChange={setShowApproveDialog}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Approve Stocktake</AlertDialogTitle>
+            <AlertDialogDescription>
+              The stock of every counted product{zeroUncounted ? " and every uncounted product in the category" : ""}{" "}
+              will be set to its count, and the session will be closed. This cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isLoading}>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleApprove} disabled={isLoading}>
+              Approve
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  )
+}
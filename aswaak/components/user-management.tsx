@@ -0,0 +1,90 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { Badge } from "@/components/ui/badge"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Loader2 } from "lucide-react"
+import { useToast } from "@/hooks/use-toast"
+import { useAuth } from "@/contexts/auth-context"
+import { getAuthBackend, ROLE_LABELS, USER_ROLES, type AuthUser, type UserRole } from "@/lib/auth"
+
+export function UserManagement() {
+  const { user: currentUser } = useAuth()
+  const [users, setUsers] = useState<AuthUser[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const { toast } = useToast()
+
+  useEffect(() => {
+    const loadUsers = async () => {
+      try {
+        setIsLoading(true)
+        setUsers(await getAuthBackend().listUsers())
+      } catch (error) {
+        toast({
+          title: "Error",
+          description: error instanceof Error ? error.message : "Failed to load users",
+          variant: "destructive",
+        })
+      } finally {
+        setIsLoading(false)
+      }
+    }
+
+    loadUsers()
+  }, [])
+
+  const handleRoleChange = async (user: AuthUser, role: UserRole) => {
+    try {
+      await getAuthBackend().setUserRole(user.id, role)
+      setUsers((prev) => prev.map((existing) => (existing.id === user.id ? { ...existing, role } : existing)))
+      toast({ title: "Role updated", description: `${user.name} is now a ${ROLE_LABELS[role].toLowerCase()}.` })
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to update role",
+        variant: "destructive",
+      })
+    }
+  }
+
+  if (isLoading && users.length === 0) {
+    return (
+      <div className="flex justify-center py-6">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-2">
+      {users.map((user) => (
+        <div key={user.id} className="flex items-center justify-between gap-2 p-2 border rounded-md">
+          <div className="min-w-0">
+            <div className="flex items-center gap-2">
+              <p className="font-medium truncate">{user.name}</p>
+              {user.id === currentUser?.id && <Badge variant="outline">You</Badge>}
+            </div>
+            <p className="text-xs text-muted-foreground truncate">{user.email}</p>
+          </div>
+          <Select
+            value={user.role}
+            onValueChange={(value) => handleRoleChange(user, value as UserRole)}
+            // Managers can't demote themselves and lock everyone out of the settings
+            disabled={user.id === currentUser?.id}
+          >
+            <SelectTrigger className="w-[150px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {USER_ROLES.map((role) => (
+                <SelectItem key={role} value={role}>
+                  {ROLE_LABELS[role]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,68 @@
+"use client"
+
+import { createContext, useContext, useEffect, useState, type ReactNode } from "react"
+import { getAuthBackend, setCurrentUser, type AuthUser, type UserRole } from "@/lib/auth"
+
+interface AuthContextType {
+  user: AuthUser | null
+  isLoading: boolean
+  signIn: (email: string, password: string) => Promise<void>
+  signOut: () => Promise<void>
+  hasRole: (...roles: UserRole[]) => boolean
+}
+
+export const AuthContext = createContext<AuthContextType | undefined>(undefined)
+
+/**
+ * Tracks the signed-in user and mirrors it to getCurrentUser() for services that record who made a change
+ */
+export function AuthProvider({ children }: { children: ReactNode }) {
+  const [user, setUser] = useState<AuthUser | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+
+  useEffect(() => {
+    const backend = getAuthBackend()
+
+    const handleUser = (nextUser: AuthUser | null) => {
+      setCurrentUser(nextUser)
+      setUser(nextUser)
+      setIsLoading(false)
+    }
+
+    backend
+      .getUser()
+      .then(handleUser)
+      .catch((error) => {
+        console.error("Error loading the signed-in user:", error)
+        handleUser(null)
+      })
+
+    return backend.onAuthStateChange(handleUser)
+  }, [])
+
+  const signIn = async (email: string, password: string) => {
+    const signedIn = await getAuthBackend().signIn(email, password)
+    setCurrentUser(signedIn)
+    setUser(signedIn)
+  }
+
+  const signOut = async () => {
+    await getAuthBackend().signOut()
+    setCurrentUser(null)
+    setUser(null)
+  }
+
+  const hasRole = (...roles: UserRole[]) => !!user && roles.includes(user.role)
+
+  return (
+    <AuthContext.Provider value={{ user, isLoading, signIn, signOut, hasRole }}>{children}</AuthContext.Provider>
+  )
+}
+
+export function useAuth() {
+  const context = useContext(AuthContext)
+  if (context === undefined) {
+    throw new Error("useAuth must be used within an AuthProvider")
+  }
+  return context
+}
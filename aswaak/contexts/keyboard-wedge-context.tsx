@@ -0,0 +1,75 @@
+"use client"
+
+import { createContext, useContext, useEffect, useRef, type ReactNode } from "react"
+import { useRouter } from "next/navigation"
+import { useSettings } from "@/contexts/settings-context"
+import { createKeyboardWedgeDetector } from "@/lib/scanner"
+
+type WedgeHandler = (code: string) => void
+
+interface KeyboardWedgeContextType {
+  // Register the handler for scanned codes, returns a function that removes it
+  registerHandler: (handler: WedgeHandler) => () => void
+}
+
+export const KeyboardWedgeContext = createContext<KeyboardWedgeContextType | undefined>(undefined)
+
+/**
+ * Listens for keyboard-wedge scanners on every page. Codes go to the most recently registered
+ * handler; when no page handles them, the scanner page is opened with the code.
+ */
+export function KeyboardWedgeProvider({ children }: { children: ReactNode }) {
+  const { settings } = useSettings()
+  const router = useRouter()
+  const handlersRef = useRef<WedgeHandler[]>([])
+
+  const { wedgeEnabled, wedgePrefix, wedgeSuffix, wedgeMaxKeyDelay, wedgeMinLength } = settings.scanning
+
+  useEffect(() => {
+    if (!wedgeEnabled) return
+
+    const detector = createKeyboardWedgeDetector(
+      { prefix: wedgePrefix, suffix: wedgeSuffix, maxKeyDelay: wedgeMaxKeyDelay, minLength: wedgeMinLength },
+      (code) => {
+        const handler = handlersRef.current[handlersRef.current.length - 1]
+        if (handler) {
+          handler(code)
+        } else {
+          router.push(`/?tab=scan&barcode=${encodeURIComponent(code)}`)
+        }
+      },
+    )
+
+    window.addEventListener("keydown", detector.handleKeyDown)
+    return () => {
+      window.removeEventListener("keydown", detector.handleKeyDown)
+      detector.reset()
+    }
+  }, [wedgeEnabled, wedgePrefix, wedgeSuffix, wedgeMaxKeyDelay, wedgeMinLength, router])
+
+  const registerHandler = (handler: WedgeHandler) => {
+    handlersRef.current = [...handlersRef.current, handler]
+    return () => {
+      handlersRef.current = handlersRef.current.filter((registered) => registered !== handler)
+    }
+  }
+
+  return <KeyboardWedgeContext.Provider value={{ registerHandler }}>{children}</KeyboardWedgeContext.Provider>
+}
+
+/**
+ * Receive codes from keyboard-wedge scanners while the calling component is mounted
+ */
+export function useKeyboardWedge(handler: WedgeHandler) {
+  const context = useContext(KeyboardWedgeContext)
+  if (context === undefined) {
+    throw new Error("useKeyboardWedge must be used within a KeyboardWedgeProvider")
+  }
+
+  // Always call the latest handler without re-registering on every render
+  const handlerRef = useRef(handler)
+  handlerRef.current = handler
+
+  const { registerHandler } = context
+  useEffect(() => registerHandler((code) => handlerRef.current(code)), [])
+}
@@ -1,6 +1,14 @@
 "use client"
 
 import { createContext, useContext, useState, useEffect, type ReactNode } from "react"
+import { DEFAULT_VARIABLE_MEASURE_RULES, type VariableMeasureRule } from "@/lib/barcode"
+import {
+  DEFAULT_KEYBOARD_WEDGE,
+  DEFAULT_SCAN_CONSENSUS,
+  type KeyboardWedgeSuffix,
+  type ScannerPreference,
+} from "@/lib/scanner"
+import type { CostingMethod } from "@/types/purchase-order"
 
 // Define the settings interface
 export interface AppSettings {
@@ -20,12 +28,25 @@ export interface AppSettings {
     priceFormat: "fixed" | "percentage" // Add price format option
     defaultMargin: number // Add default margin percentage
     defaultCategoryId: string // Add default category ID
+    costingMethod: CostingMethod // How received deliveries update the purchase price
+    reorderLookbackDays: number // Days of sales and waste used to estimate daily consumption
+    reorderCoverDays: number // Days of consumption a reorder should cover beyond the lead time
+    expiryMarkdownPercent: number // Discount suggested for stock entering its expiry window
   }
   scanning: {
     autoSave: boolean
-    preferredScanner: "camera" | "manual" | "demo"
+    preferredScanner: ScannerPreference // Camera decoding engine, "auto" picks the best available
     autoDetect: boolean
+    confirmationReads: number // Matching reads needed before a camera scan is accepted
+    confirmationWindowMs: number // Time window in which the matching reads must occur
+    maxEdgeError: number // Reads with a higher start/end pattern error are rejected (0-1)
+    wedgeEnabled: boolean // Listen for USB/Bluetooth scanners that type like a keyboard
+    wedgePrefix: string // Characters the scanner sends before each code
+    wedgeSuffix: KeyboardWedgeSuffix // Key the scanner sends after each code
+    wedgeMaxKeyDelay: number // Max milliseconds between keys of one scan
+    wedgeMinLength: number // Shorter bursts are treated as typing
     beepOnScan: boolean
+    variableMeasureRules: VariableMeasureRule[] // In-store weight/price label layouts
   }
   advanced: {
     debugMode: boolean
@@ -52,12 +73,25 @@ export const defaultSettings: AppSettings = {
     priceFormat: "fixed", // Default to fixed prices
     defaultMargin: 30, // Default 30% margin
     defaultCategoryId: "", // Default category ID (empty string means no default)
+    costingMethod: "average",
+    reorderLookbackDays: 30,
+    reorderCoverDays: 14,
+    expiryMarkdownPercent: 30,
   },
   scanning: {
     autoSave: false,
-    preferredScanner: "camera",
+    preferredScanner: "auto",
     autoDetect: true,
+    confirmationReads: DEFAULT_SCAN_CONSENSUS.requiredReads,
+    confirmationWindowMs: DEFAULT_SCAN_CONSENSUS.window,
+    maxEdgeError: DEFAULT_SCAN_CONSENSUS.maxEdgeError,
+    wedgeEnabled: true,
+    wedgePrefix: DEFAULT_KEYBOARD_WEDGE.prefix,
+    wedgeSuffix: DEFAULT_KEYBOARD_WEDGE.suffix,
+    wedgeMaxKeyDelay: DEFAULT_KEYBOARD_WEDGE.maxKeyDelay,
+    wedgeMinLength: DEFAULT_KEYBOARD_WEDGE.minLength,
     beepOnScan: true,
+    variableMeasureRules: DEFAULT_VARIABLE_MEASURE_RULES,
   },
   advanced: {
     debugMode: false,
@@ -88,8 +122,14 @@ export function SettingsProvider({ children }: { children: ReactNode }) {
     const savedSettings = localStorage.getItem("appSettings")
     if (savedSettings) {
       try {
-        const parsedSettings = JSON.parse(savedSettings) as AppSettings
-        setSettings(parsedSettings)
+        const parsedSettings = JSON.parse(savedSettings) as Partial<AppSettings>
+        // Fill in settings added since these were saved
+        setSettings({
+          display: { ...defaultSettings.display, ...parsedSettings.display },
+          inventory: { ...defaultSettings.inventory, ...parsedSettings.inventory },
+          scanning: { ...defaultSettings.scanning, ...parsedSettings.scanning },
+          advanced: { ...defaultSettings.advanced, ...parsedSettings.advanced },
+        })
       } catch (error) {
         console.error("Error parsing saved settings:", error)
         // If there's an error, use default settings
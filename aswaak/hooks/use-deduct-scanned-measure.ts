@@ -0,0 +1,83 @@
+"use client"
+
+import { useState } from "react"
+import { useToast } from "@/hooks/use-toast"
+import { applyStockMovement } from "@/services/stock-service"
+import { getVariableMeasureQuantity, type VariableMeasureReading } from "@/lib/barcode"
+import { enqueueOperation, isOfflineError } from "@/lib/offline"
+import type { Product } from "@/types/product"
+
+export type DeductScannedMeasureResult =
+  | { status: "applied"; stock: number }
+  | { status: "queued" }
+  | { status: "failed" }
+
+/**
+ * Deduct the weight (or the quantity a price label stands for) read from an in-store label from the base
+ * product's stock as a sale, queueing it while offline
+ */
+export function useDeductScannedMeasure() {
+  const [isDeducting, setIsDeducting] = useState(false)
+  const { toast } = useToast()
+
+  const deductScannedMeasure = async (
+    product: Product,
+    measure: VariableMeasureReading,
+    reference: string,
+  ): Promise<DeductScannedMeasureResult> => {
+    const quantity = getVariableMeasureQuantity(measure, product.price)
+    if (quantity === null) {
+      toast({
+        title: "Unit price missing",
+        description: "Set the product's price per kg to convert price labels into a quantity.",
+        variant: "destructive",
+      })
+      return { status: "failed" }
+    }
+
+    try {
+      setIsDeducting(true)
+      if (!product.id) throw new Error("Product ID is missing")
+
+      const movement = await applyStockMovement({
+        productId: product.id,
+        delta: -quantity,
+        reason: "sale",
+        reference,
+      })
+
+      toast({
+        title: "Stock Updated",
+        description: `Deducted ${quantity} from ${product.name}. New stock: ${movement.stock_after}`,
+      })
+      return { status: "applied", stock: movement.stock_after }
+    } catch (error) {
+      if (isOfflineError(error) && product.id) {
+        await enqueueOperation({
+          type: "update-stock",
+          productId: product.id,
+          productName: product.name,
+          delta: -quantity,
+          reason: "sale",
+          reference,
+        })
+        toast({
+          title: "Saved Offline",
+          description: `Deducting ${quantity} from ${product.name} once the connection returns.`,
+        })
+        return { status: "queued" }
+      }
+
+      toast({
+        title: "Error",
+        description: `Failed to update stock: ${error instanceof Error ? error.message : String(error)}`,
+        variant: "destructive",
+      })
+      return { status: "failed" }
+    } finally {
+      setIsDeducting(false)
+    }
+  }
+
+  return { deductScannedMeasure, isDeducting }
+}
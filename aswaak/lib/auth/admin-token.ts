@@ -0,0 +1,7 @@
+// Admin and scheduled-job API routes require ADMIN_API_TOKEN as a bearer token.
+// Without a configured token every request is refused.
+export function isAdminRequest(request: Request): boolean {
+  const token = process.env.ADMIN_API_TOKEN
+  if (!token) return false
+  return request.headers.get("authorization") === `Bearer ${token}`
+}
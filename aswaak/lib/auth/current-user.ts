@@ -0,0 +1,16 @@
+import type { AuthUser } from "./types"
+
+// The signed-in user, kept here so services can attribute changes without access to React context
+let currentUser: AuthUser | null = null
+
+export function setCurrentUser(user: AuthUser | null): void {
+  currentUser = user
+}
+
+export function getCurrentUser(): AuthUser | null {
+  return currentUser
+}
+
+export function getCurrentUserId(): string | null {
+  return currentUser?.id || null
+}
@@ -0,0 +1,15 @@
+import { localAuthBackend } from "./local-backend"
+import { supabaseAuthBackend } from "./supabase-backend"
+import type { AuthBackend } from "./types"
+
+export type { AuthBackend, AuthUser, UserRole } from "./types"
+export { ROLE_LABELS, ROUTE_ROLES, USER_ROLES, canAccessRoute } from "./roles"
+export { getCurrentUser, getCurrentUserId, setCurrentUser } from "./current-user"
+
+/**
+ * The configured auth backend: NEXT_PUBLIC_AUTH_PROVIDER=local selects the development stand-in,
+ * anything else Supabase Auth.
+ */
+export function getAuthBackend(): AuthBackend {
+  return process.env.NEXT_PUBLIC_AUTH_PROVIDER === "local" ? localAuthBackend : supabaseAuthBackend
+}
@@ -0,0 +1,78 @@
+import type { AuthBackend, AuthUser, UserRole } from "./types"
+
+// Development stand-in for Supabase Auth: a fixed set of users, one per role, kept in localStorage.
+// Any non-empty password is accepted, so it must never be used in production. It has no Supabase session,
+// so a database with the role policies treats it as signed out.
+const USERS_KEY = "localAuthUsers"
+const SESSION_KEY = "localAuthSession"
+
+const DEFAULT_USERS: AuthUser[] = [
+  { id: "00000000-0000-4000-8000-000000000001", email: "manager@local", name: "Manager", role: "manager" },
+  { id: "00000000-0000-4000-8000-000000000002", email: "clerk@local", name: "Stock Clerk", role: "stock_clerk" },
+  { id: "00000000-0000-4000-8000-000000000003", email: "cashier@local", name: "Cashier", role: "cashier" },
+]
+
+const listeners = new Set<(user: AuthUser | null) => void>()
+
+function readUsers(): AuthUser[] {
+  try {
+    const stored = localStorage.getItem(USERS_KEY)
+    return stored ? JSON.parse(stored) : DEFAULT_USERS
+  } catch {
+    return DEFAULT_USERS
+  }
+}
+
+function getSessionUser(): AuthUser | null {
+  const userId = localStorage.getItem(SESSION_KEY)
+  return readUsers().find((user) => user.id === userId) || null
+}
+
+function notify() {
+  const user = getSessionUser()
+  listeners.forEach((listener) => listener(user))
+}
+
+export const localAuthBackend: AuthBackend = {
+  id: "local",
+
+  async getUser() {
+    return getSessionUser()
+  },
+
+  async signIn(email, password) {
+    const user = readUsers().find((candidate) => candidate.email === email.trim().toLowerCase())
+
+    if (!user || !password) {
+      throw new Error("Invalid email or password")
+    }
+
+    localStorage.setItem(SESSION_KEY, user.id)
+    notify()
+    return user
+  },
+
+  async signOut() {
+    localStorage.removeItem(SESSION_KEY)
+    notify()
+  },
+
+  onAuthStateChange(callback) {
+    listeners.add(callback)
+    return () => {
+      listeners.delete(callback)
+    }
+  },
+
+  async listUsers() {
+    return readUsers()
+  },
+
+  async setUserRole(userId: string, role: UserRole) {
+    localStorage.setItem(
+      USERS_KEY,
+      JSON.stringify(readUsers().map((user) => (user.id === userId ? { ...user, role } : user))),
+    )
+    notify()
+  },
+}
@@ -0,0 +1,23 @@
+import type { UserRole } from "./types"
+
+export const USER_ROLES: UserRole[] = ["cashier", "stock_clerk", "manager"]
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+  cashier: "Cashier",
+  stock_clerk: "Stock clerk",
+  manager: "Manager",
+}
+
+// Routes limited to some roles; every other route is open to any signed-in user
+export const ROUTE_ROLES: Record<string, UserRole[]> = {
+  "/settings": ["manager"],
+  "/categories": ["manager"],
+  "/batch-processor": ["manager", "stock_clerk"],
+}
+
+export function canAccessRoute(role: UserRole | undefined, pathname: string): boolean {
+  const path = pathname.split("?")[0]
+  const route = Object.keys(ROUTE_ROLES).find((prefix) => path === prefix || path.startsWith(`${prefix}/`))
+  if (!route) return true
+  return !!role && ROUTE_ROLES[route].includes(role)
+}
@@ -0,0 +1,88 @@
+import type { AuthChangeEvent, Session, User } from "@supabase/supabase-js"
+import { supabase } from "@/lib/supabase"
+import type { Database } from "@/types/supabase"
+import type { AuthBackend, AuthUser, UserRole } from "./types"
+
+// Role and display name live in user_profiles, created for every new auth user
+async function toAuthUser(user: User): Promise<AuthUser> {
+  const { data, error } = await supabase
+    .from("user_profiles")
+    .select("display_name, role")
+    .eq("id", user.id)
+    .maybeSingle()
+
+  if (error) {
+    console.error("Error fetching user profile:", error)
+  }
+
+  return {
+    id: user.id,
+    email: user.email || "",
+    name: data?.display_name || user.email || "",
+    // Users without a profile get the least privileged role
+    role: (data?.role as UserRole) || "cashier",
+  }
+}
+
+export const supabaseAuthBackend: AuthBackend = {
+  id: "supabase",
+
+  async getUser() {
+    const { data } = await supabase.auth.getSession()
+    return data.session ? toAuthUser(data.session.user) : null
+  },
+
+  async signIn(email, password) {
+    const { data, error } = await supabase.auth.signInWithPassword({ email, password })
+
+    if (error || !data.user) {
+      throw new Error(error?.message || "Sign in failed")
+    }
+
+    return toAuthUser(data.user)
+  },
+
+  async signOut() {
+    const { error } = await supabase.auth.signOut()
+
+    if (error) {
+      throw new Error(`Failed to sign out: ${error.message}`)
+    }
+  },
+
+  onAuthStateChange(callback) {
+    const { data } = supabase.auth.onAuthStateChange((_event: AuthChangeEvent, session: Session | null) => {
+      if (session) {
+        toAuthUser(session.user).then(callback)
+      } else {
+        callback(null)
+      }
+    })
+    return () => data.subscription.unsubscribe()
+  },
+
+  async listUsers() {
+    const { data, error } = await supabase.from("user_profiles").select("*").order("email")
+
+    if (error) {
+      console.error("Error fetching users:", error)
+      throw new Error(`Failed to fetch users: ${error.message}`)
+    }
+
+    return ((data || []) as Database["public"]["Tables"]["user_profiles"]["Row"][]).map((profile) => ({
+      id: profile.id,
+      email: profile.email || "",
+      name: profile.display_name || profile.email || "",
+      role: profile.role as UserRole,
+    }))
+  },
+
+  async setUserRole(userId, role) {
+    const { error } = await supabase.from("user_profiles").update({ role }).eq("id", userId)
+
+    if (error) {
+      console.error("Error updating user role:", error)
+      throw new Error(`Failed to update user role: ${error.message}`)
+    }
+  },
+}
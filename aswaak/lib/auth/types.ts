@@ -0,0 +1,22 @@
+export type UserRole = "cashier" | "stock_clerk" | "manager"
+
+export interface AuthUser {
+  id: string
+  email: string
+  name: string
+  role: UserRole
+}
+
+/**
+ * Where users and their roles come from. Supabase Auth in production, a local stand-in for development.
+ */
+export interface AuthBackend {
+  id: string
+  getUser(): Promise<AuthUser | null>
+  signIn(email: string, password: string): Promise<AuthUser>
+  signOut(): Promise<void>
+  // Calls back with the signed-in user (or null) whenever it changes; returns an unsubscribe function
+  onAuthStateChange(callback: (user: AuthUser | null) => void): () => void
+  listUsers(): Promise<AuthUser[]>
+  setUserRole(userId: string, role: UserRole): Promise<void>
+}
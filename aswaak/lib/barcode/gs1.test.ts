@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest"
+import { parseGs1, parseGs1Date } from "./gs1"
+
+describe("parseGs1Date", () => {
+  it("converts YYMMDD to an ISO date", () => {
+    expect(parseGs1Date("261019")).toBe("2026-10-19")
+  })
+
+  it("reads day 00 as the last day of the month", () => {
+    expect(parseGs1Date("261200")).toBe("2026-12-31")
+    expect(parseGs1Date("260400")).toBe("2026-04-30")
+    expect(parseGs1Date("270200")).toBe("2027-02-28")
+    expect(parseGs1Date("280200")).toBe("2028-02-29")
+  })
+
+  it("rejects impossible months", () => {
+    expect(parseGs1Date("260015")).toBeUndefined()
+    expect(parseGs1Date("261315")).toBeUndefined()
+  })
+
+  it("rejects days past the end of the month instead of rolling over", () => {
+    expect(parseGs1Date("260431")).toBeUndefined()
+    expect(parseGs1Date("270229")).toBeUndefined()
+    expect(parseGs1Date("261032")).toBeUndefined()
+    expect(parseGs1Date("280229")).toBe("2028-02-29")
+  })
+
+  it("rejects values that are not six digits", () => {
+    expect(parseGs1Date("26101")).toBeUndefined()
+    expect(parseGs1Date("26-10-19")).toBeUndefined()
+  })
+})
+
+describe("parseGs1", () => {
+  it("reads the best before (15) and expiry (17) dates", () => {
+    const data = parseGs1("(01)06111245590026(15)261100(17)261215(10)L42")
+
+    expect(data).toMatchObject({
+      gtin: "06111245590026",
+      lot: "L42",
+      bestBeforeDate: "2026-11-30",
+      expiryDate: "2026-12-15",
+    })
+  })
+
+  it("leaves an impossible expiry date out", () => {
+    const data = parseGs1("0106111245590026172602301042\u001d")
+
+    expect(data?.lot).toBe("42")
+    expect(data?.expiryDate).toBeUndefined()
+  })
+})
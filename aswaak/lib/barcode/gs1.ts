@@ -0,0 +1,174 @@
+// ASCII group separator, which scanners emit for FNC1 between variable-length elements
+const GROUP_SEPARATOR = "\u001d"
+
+// Symbology identifiers some scanners prefix to GS1-128, GS1 DataMatrix and GS1 QR codes
+const SYMBOLOGY_IDENTIFIER = /^\][CdQe][0-9]/
+
+// AIs whose data length is fixed, keyed by the first two digits of the AI (GS1 General Specifications, 7.8.5).
+// Every other AI is variable length and ends at a group separator or the end of the data.
+const FIXED_LENGTH_AIS: Record<string, { aiLength: number; dataLength: number }> = {
+  "00": { aiLength: 2, dataLength: 18 },
+  "01": { aiLength: 2, dataLength: 14 },
+  "02": { aiLength: 2, dataLength: 14 },
+  "03": { aiLength: 2, dataLength: 14 },
+  "04": { aiLength: 2, dataLength: 16 },
+  "11": { aiLength: 2, dataLength: 6 },
+  "12": { aiLength: 2, dataLength: 6 },
+  "13": { aiLength: 2, dataLength: 6 },
+  "14": { aiLength: 2, dataLength: 6 },
+  "15": { aiLength: 2, dataLength: 6 },
+  "16": { aiLength: 2, dataLength: 6 },
+  "17": { aiLength: 2, dataLength: 6 },
+  "18": { aiLength: 2, dataLength: 6 },
+  "19": { aiLength: 2, dataLength: 6 },
+  "20": { aiLength: 2, dataLength: 2 },
+  "31": { aiLength: 4, dataLength: 6 },
+  "32": { aiLength: 4, dataLength: 6 },
+  "33": { aiLength: 4, dataLength: 6 },
+  "34": { aiLength: 4, dataLength: 6 },
+  "35": { aiLength: 4, dataLength: 6 },
+  "36": { aiLength: 4, dataLength: 6 },
+  "41": { aiLength: 3, dataLength: 13 },
+}
+
+// Length of variable-length AIs, by their first two digits. Defaults to 2.
+const VARIABLE_AI_LENGTHS: Record<string, number> = {
+  "23": 3,
+  "24": 3,
+  "25": 3,
+  "39": 4,
+  "40": 3,
+  "42": 3,
+  "70": 4,
+  "71": 3,
+  "72": 4,
+  "80": 4,
+  "81": 4,
+}
+
+export interface Gs1Data {
+  // Raw element values keyed by AI
+  elements: Record<string, string>
+  // (01) GTIN, as printed (14 digits)
+  gtin?: string
+  // (10) batch or lot number
+  lot?: string
+  // (15) best before date as YYYY-MM-DD
+  bestBeforeDate?: string
+  // (17) expiry date as YYYY-MM-DD
+  expiryDate?: string
+  // (21) serial number
+  serial?: string
+}
+
+/**
+ * Convert a GS1 YYMMDD date to YYYY-MM-DD. Day 00 means the last day of the month.
+ * Impossible dates such as month 13 or 31 April return undefined.
+ */
+export function parseGs1Date(value: string): string | undefined {
+  if (!/^\d{6}$/.test(value)) return undefined
+
+  const year = 2000 + Number(value.slice(0, 2))
+  const month = Number(value.slice(2, 4))
+  const day = Number(value.slice(4, 6))
+  if (month < 1 || month > 12) return undefined
+
+  // Day 0 of the next month is the last day of this one
+  const daysInMonth = new Date(Date.UTC(year, month, 0)).getUTCDate()
+  if (day > daysInMonth) return undefined
+
+  return `${year}-${String(month).padStart(2, "0")}-${String(day || daysInMonth).padStart(2, "0")}`
+}
+
+// Split "(01)...(17)..." human-readable text into elements
+function parseBracketedElements(value: string): Record<string, string> | null {
+  const elements: Record<string, string> = {}
+  const pattern = /\((\d{2,4})\)([^(]*)/g
+  let match: RegExpExecArray | null
+  let consumed = 0
+
+  while ((match = pattern.exec(value)) !== null) {
+    elements[match[1]] = match[2].trim()
+    consumed += match[0].length
+  }
+
+  // Only accept the text if it consists entirely of bracketed elements
+  return consumed === value.length && Object.keys(elements).length > 0 ? elements : null
+}
+
+// Split a raw element string, where FNC1 is transmitted as a group separator
+function parseRawElements(value: string): Record<string, string> | null {
+  const elements: Record<string, string> = {}
+  let position = 0
+
+  while (position < value.length) {
+    if (value[position] === GROUP_SEPARATOR) {
+      position++
+      continue
+    }
+
+    const prefix = value.slice(position, position + 2)
+    if (!/^\d{2}$/.test(prefix)) return null
+
+    const fixed = FIXED_LENGTH_AIS[prefix]
+    const aiLength = fixed ? fixed.aiLength : VARIABLE_AI_LENGTHS[prefix] || 2
+    const ai = value.slice(position, position + aiLength)
+    const dataStart = position + aiLength
+
+    let dataEnd: number
+    if (fixed) {
+      dataEnd = dataStart + fixed.dataLength
+      if (dataEnd > value.length) return null
+    } else {
+      const separator = value.indexOf(GROUP_SEPARATOR, dataStart)
+      dataEnd = separator === -1 ? value.length : separator
+    }
+
+    elements[ai] = value.slice(dataStart, dataEnd)
+    position = dataEnd
+  }
+
+  return Object.keys(elements).length > 0 ? elements : null
+}
+
+/**
+ * Parse a GS1-128, GS1 DataMatrix or GS1 QR payload, either raw (with group separators) or in
+ * "(01)...(17)..." form. Returns null for plain barcodes such as EAN-13.
+ */
+export function parseGs1(value: string): Gs1Data | null {
+  if (!value) return null
+
+  let data = value.trim().replace(SYMBOLOGY_IDENTIFIER, "")
+  // Some scanners send FNC1 as a leading group separator
+  if (data.startsWith(GROUP_SEPARATOR)) data = data.slice(1)
+
+  const isBracketed = data.startsWith("(")
+  // Plain numeric codes of barcode length are not element strings
+  if (!isBracketed && !data.includes(GROUP_SEPARATOR) && /^\d{8,14}$/.test(data)) return null
+  // Raw element strings always start with an AI; require the (01) GTIN so arbitrary text is not misread
+  if (!isBracketed && !data.startsWith("01")) return null
+
+  const elements = isBracketed ? parseBracketedElements(data) : parseRawElements(data)
+  if (!elements) return null
+
+  const gtin = elements["01"]
+  if (gtin && !/^\d{14}$/.test(gtin)) return null
+
+  return {
+    elements,
+    gtin,
+    lot: elements["10"],
+    bestBeforeDate: elements["15"] ? parseGs1Date(elements["15"]) : undefined,
+    expiryDate: elements["17"] ? parseGs1Date(elements["17"]) : undefined,
+    serial: elements["21"],
+  }
+}
+
+/**
+ * The product barcode a GS1 element string refers to: the (01) GTIN, shortened to EAN-13
+ * when its indicator digit is 0 so it matches the code printed on the retail unit.
+ */
+export function getGs1ProductBarcode(data: Gs1Data): string | undefined {
+  if (!data.gtin) return undefined
+  return data.gtin.startsWith("0") ? data.gtin.slice(1) : data.gtin
+}
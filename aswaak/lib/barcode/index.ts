@@ -0,0 +1,23 @@
+export {
+  calculateCheckDigit,
+  expandUpcE,
+  getBarcodeVariants,
+  hasValidCheckDigit,
+  isMisread,
+  isRetailSymbology,
+  isValidBarcode,
+  normalizeBarcode,
+  toGtin14,
+  validateBarcode,
+} from "./validation"
+export type { BarcodeFormat, BarcodeValidationResult } from "./validation"
+export {
+  DEFAULT_VARIABLE_MEASURE_RULES,
+  decodeVariableMeasureBarcode,
+  formatVariableMeasure,
+  getVariableMeasureQuantity,
+  getVariableMeasureRuleError,
+} from "./variable-measure"
+export type { VariableMeasureKind, VariableMeasureReading, VariableMeasureRule } from "./variable-measure"
+export { getGs1ProductBarcode, parseGs1, parseGs1Date } from "./gs1"
+export type { Gs1Data } from "./gs1"
@@ -0,0 +1,81 @@
+import { describe, expect, it } from "vitest"
+import {
+  calculateCheckDigit,
+  expandUpcE,
+  getBarcodeVariants,
+  hasValidCheckDigit,
+  isMisread,
+  normalizeBarcode,
+  validateBarcode,
+} from "./validation"
+
+describe("calculateCheckDigit", () => {
+  it("computes the GS1 mod-10 check digit", () => {
+    expect(calculateCheckDigit("400638133393")).toBe(1)
+    expect(calculateCheckDigit("03600029145")).toBe(2)
+    expect(calculateCheckDigit("9638507")).toBe(4)
+  })
+
+  it("checks the last digit", () => {
+    expect(hasValidCheckDigit("4006381333931")).toBe(true)
+    expect(hasValidCheckDigit("4006381333932")).toBe(false)
+    expect(hasValidCheckDigit("123")).toBe(false)
+  })
+})
+
+describe("validateBarcode", () => {
+  it("detects the format and pads to GTIN-14", () => {
+    expect(validateBarcode("4006381333931")).toMatchObject({ valid: true, format: "EAN-13", gtin14: "04006381333931" })
+    expect(validateBarcode("96385074")).toMatchObject({ valid: true, format: "EAN-8", gtin14: "00000096385074" })
+    expect(validateBarcode("10036000291459")).toMatchObject({ valid: true, format: "GTIN-14", gtin14: "10036000291459" })
+  })
+
+  it("stores a UPC-A code and its EAN-13 form as the same GTIN-14", () => {
+    const upcA = validateBarcode("036000291452")
+    const ean13 = validateBarcode("0036000291452")
+
+    expect(upcA).toMatchObject({ valid: true, format: "UPC-A" })
+    expect(ean13).toMatchObject({ valid: true, format: "EAN-13" })
+    expect(upcA.gtin14).toBe("00036000291452")
+    expect(ean13.gtin14).toBe(upcA.gtin14)
+  })
+
+  it("expands UPC-E to UPC-A when the scanner reports UPC-E", () => {
+    expect(expandUpcE("04252614")).toBe("042100005264")
+    expect(validateBarcode("04252614", "upc_e")).toMatchObject({
+      valid: true,
+      format: "UPC-E",
+      expanded: "042100005264",
+      gtin14: "00042100005264",
+    })
+  })
+
+  it("rejects bad check digits, lengths and characters", () => {
+    expect(validateBarcode("4006381333932")).toMatchObject({ valid: false, error: "Invalid check digit" })
+    expect(validateBarcode("12345")).toMatchObject({ valid: false, error: "Unsupported barcode length: 5 digits" })
+    expect(validateBarcode("40063813339A1")).toMatchObject({ valid: false })
+    expect(validateBarcode(" ")).toMatchObject({ valid: false, error: "Barcode is empty" })
+  })
+
+  it("flags in-store prefixes 20–29", () => {
+    expect(validateBarcode("2012345000001").isInStore).toBe(true)
+    expect(validateBarcode("4006381333931").isInStore).toBe(false)
+  })
+})
+
+describe("barcode helpers", () => {
+  it("drops retail reads that fail the check digit and passes other symbologies through", () => {
+    expect(isMisread("4006381333932", "ean_13")).toBe(true)
+    expect(isMisread("4006381333931", "ean_13")).toBe(false)
+    expect(isMisread("ABC-123", "code_128")).toBe(false)
+  })
+
+  it("normalizes valid codes and keeps invalid ones as typed", () => {
+    expect(normalizeBarcode(" 4006381333931 ")).toBe("04006381333931")
+    expect(normalizeBarcode("ABC-123")).toBe("ABC-123")
+  })
+
+  it("lists every stored form of a UPC-A code", () => {
+    expect(getBarcodeVariants("036000291452")).toEqual(["036000291452", "00036000291452", "0036000291452"])
+  })
+})
@@ -0,0 +1,165 @@
+export type BarcodeFormat = "EAN-13" | "EAN-8" | "UPC-A" | "UPC-E" | "GTIN-14"
+
+export interface BarcodeValidationResult {
+  // The input with whitespace removed
+  input: string
+  valid: boolean
+  format?: BarcodeFormat
+  // Zero-padded GTIN-14, the form barcodes are stored in
+  gtin14?: string
+  // UPC-A expansion of a UPC-E code
+  expanded?: string
+  // GS1 restricted circulation prefix (20–29): in-store or variable weight/price items
+  isInStore: boolean
+  error?: string
+}
+
+/**
+ * Calculate the GS1 mod-10 check digit for a code without its check digit
+ */
+export function calculateCheckDigit(digits: string): number {
+  let sum = 0
+  // Weights alternate 3, 1, 3, ... starting from the rightmost digit
+  for (let i = 0; i < digits.length; i++) {
+    const digit = Number(digits[digits.length - 1 - i])
+    sum += i % 2 === 0 ? digit * 3 : digit
+  }
+  return (10 - (sum % 10)) % 10
+}
+
+// Check the last digit of an EAN-8, UPC-A, EAN-13 or GTIN-14 code
+export function hasValidCheckDigit(code: string): boolean {
+  if (!/^\d{8,14}$/.test(code)) return false
+  return calculateCheckDigit(code.slice(0, -1)) === Number(code[code.length - 1])
+}
+
+/**
+ * Expand an 8-digit UPC-E code (number system, 6 digits, check digit) to its 12-digit UPC-A form.
+ * Returns null if the code is not a valid UPC-E.
+ */
+export function expandUpcE(code: string): string | null {
+  if (!/^[01]\d{7}$/.test(code)) return null
+
+  const numberSystem = code[0]
+  const d = code.slice(1, 7)
+  const check = code[7]
+  const last = d[5]
+
+  let body: string
+  if (last === "0" || last === "1" || last === "2") {
+    body = `${d[0]}${d[1]}${last}0000${d[2]}${d[3]}${d[4]}`
+  } else if (last === "3") {
+    body = `${d[0]}${d[1]}${d[2]}00000${d[3]}${d[4]}`
+  } else if (last === "4") {
+    body = `${d[0]}${d[1]}${d[2]}${d[3]}00000${d[4]}`
+  } else {
+    body = `${d[0]}${d[1]}${d[2]}${d[3]}${d[4]}0000${last}`
+  }
+
+  const upcA = `${numberSystem}${body}${check}`
+  return hasValidCheckDigit(upcA) ? upcA : null
+}
+
+// Pad a validated EAN-8, UPC-A or EAN-13 code to GTIN-14
+export function toGtin14(code: string): string {
+  return code.padStart(14, "0")
+}
+
+// GS1 prefixes 20–29 are reserved for in-store use. UPC-A number system 2 is the same range in EAN-13 terms.
+function isInStorePrefix(gtin14: string): boolean {
+  const prefix = Number(gtin14.slice(1, 3))
+  return (prefix >= 20 && prefix <= 29) || gtin14.slice(1, 3) === "02"
+}
+
+/**
+ * Validate a scanned or typed barcode. 8-digit codes are read as EAN-8 first, then as UPC-E,
+ * unless the scanner reported the format.
+ */
+export function validateBarcode(value: string, formatHint?: string): BarcodeValidationResult {
+  const input = (value || "").replace(/\s+/g, "")
+  const invalid = (error: string): BarcodeValidationResult => ({ input, valid: false, isInStore: false, error })
+
+  if (!input) return invalid("Barcode is empty")
+  if (!/^\d+$/.test(input)) return invalid("Barcode must contain only digits")
+
+  let format: BarcodeFormat | undefined
+  let expanded: string | undefined
+  const preferUpcE = !!formatHint && /upc[_-]?e/i.test(formatHint)
+
+  switch (input.length) {
+    case 8:
+      if (!preferUpcE && hasValidCheckDigit(input)) {
+        format = "EAN-8"
+      } else {
+        expanded = expandUpcE(input) || undefined
+        if (expanded) format = "UPC-E"
+        else if (hasValidCheckDigit(input)) format = "EAN-8"
+      }
+      break
+    case 12:
+      if (hasValidCheckDigit(input)) format = "UPC-A"
+      break
+    case 13:
+      if (hasValidCheckDigit(input)) format = "EAN-13"
+      break
+    case 14:
+      if (hasValidCheckDigit(input)) format = "GTIN-14"
+      break
+    default:
+      return invalid(`Unsupported barcode length: ${input.length} digits`)
+  }
+
+  if (!format) return invalid("Invalid check digit")
+
+  const gtin14 = toGtin14(expanded || input)
+  return {
+    input,
+    valid: true,
+    format,
+    gtin14,
+    expanded,
+    isInStore: isInStorePrefix(gtin14),
+  }
+}
+
+// EAN and UPC symbols carry a check digit, so a read that fails it is a misread
+export function isRetailSymbology(format?: string): boolean {
+  return !!format && /ean|upc/i.test(format)
+}
+
+/**
+ * Whether a scanner read should be dropped: EAN/UPC reads with a bad check digit.
+ * Other symbologies (Code 128, QR, DataMatrix) are passed through unchanged.
+ */
+export function isMisread(code: string, format?: string): boolean {
+  return isRetailSymbology(format) && !validateBarcode(code, format).valid
+}
+
+export function isValidBarcode(value: string): boolean {
+  return validateBarcode(value).valid
+}
+
+/**
+ * The form a barcode is stored in: GTIN-14 when valid, otherwise the trimmed input
+ */
+export function normalizeBarcode(value: string): string {
+  const result = validateBarcode(value)
+  return result.gtin14 || result.input
+}
+
+/**
+ * Every form a barcode may have been stored in. Products saved before barcodes were
+ * normalized keep the form they were scanned in.
+ */
+export function getBarcodeVariants(value: string): string[] {
+  const result = validateBarcode(value)
+  if (!result.gtin14) return result.input ? [result.input] : []
+
+  const variants = [result.input, result.gtin14, result.gtin14.slice(1)]
+  // UPC-A and EAN-8 codes are zero-padded in their longer forms
+  if (result.gtin14.startsWith("00")) variants.push(result.gtin14.slice(2))
+  if (result.format === "EAN-8") variants.push(result.gtin14.slice(6))
+  if (result.expanded) variants.push(result.expanded)
+
+  return variants.filter((variant, index) => variants.indexOf(variant) === index)
+}
@@ -0,0 +1,83 @@
+import { describe, expect, it } from "vitest"
+import { calculateCheckDigit } from "./validation"
+import {
+  DEFAULT_VARIABLE_MEASURE_RULES,
+  decodeVariableMeasureBarcode,
+  formatVariableMeasure,
+  getVariableMeasureQuantity,
+  getVariableMeasureRuleError,
+  type VariableMeasureRule,
+} from "./variable-measure"
+
+// Append the EAN-13 check digit
+const label = (body: string) => `${body}${calculateCheckDigit(body)}`
+
+describe("decodeVariableMeasureBarcode", () => {
+  it("reads the weight in kilograms and the base product barcode", () => {
+    const reading = decodeVariableMeasureBarcode(label("211234501250"))
+
+    expect(reading).toMatchObject({ plu: "12345", value: 1.25, baseBarcode: label("211234500000") })
+    expect(reading?.rule.kind).toBe("weight")
+  })
+
+  it("reads the price of a price label", () => {
+    const reading = decodeVariableMeasureBarcode(label("221234501999"))
+
+    expect(reading).toMatchObject({ plu: "12345", value: 19.99 })
+    expect(reading?.rule.kind).toBe("price")
+  })
+
+  it("ignores regular, invalid and unconfigured codes", () => {
+    expect(decodeVariableMeasureBarcode("4006381333931")).toBeNull()
+    expect(decodeVariableMeasureBarcode("2112345012509")).toBeNull()
+    expect(decodeVariableMeasureBarcode(label("231234501250"))).toBeNull()
+  })
+
+  it("skips the value check digit and prefers the longest prefix", () => {
+    const rules: VariableMeasureRule[] = [
+      ...DEFAULT_VARIABLE_MEASURE_RULES,
+      {
+        id: "weight-210",
+        label: "Butcher (weight)",
+        prefix: "210",
+        itemCodeDigits: 4,
+        valueDigits: 4,
+        decimals: 3,
+        kind: "weight",
+        valueCheckDigit: true,
+      },
+    ]
+
+    expect(decodeVariableMeasureBarcode(label("210123470750"), rules)).toMatchObject({ plu: "1234", value: 0.75 })
+  })
+})
+
+describe("getVariableMeasureRuleError", () => {
+  it("requires the digits to add up to 12", () => {
+    expect(getVariableMeasureRuleError(DEFAULT_VARIABLE_MEASURE_RULES[0])).toBeNull()
+    expect(getVariableMeasureRuleError({ ...DEFAULT_VARIABLE_MEASURE_RULES[0], valueDigits: 4 })).toMatch(
+      /add up to 12/,
+    )
+    expect(getVariableMeasureRuleError({ ...DEFAULT_VARIABLE_MEASURE_RULES[0], prefix: "31" })).toMatch(/starting with 2/)
+  })
+})
+
+describe("getVariableMeasureQuantity", () => {
+  it("uses the weight as the quantity", () => {
+    const reading = decodeVariableMeasureBarcode(label("211234501250"))
+    expect(reading && getVariableMeasureQuantity(reading)).toBe(1.25)
+  })
+
+  it("converts a price label with the unit price", () => {
+    const reading = decodeVariableMeasureBarcode(label("221234501999"))
+    expect(reading && getVariableMeasureQuantity(reading, "39,98")).toBe(0.5)
+    expect(reading && getVariableMeasureQuantity(reading, null)).toBeNull()
+  })
+
+  it("formats the reading for display", () => {
+    const weight = decodeVariableMeasureBarcode(label("211234501250"))
+    const price = decodeVariableMeasureBarcode(label("221234501999"))
+    expect(weight && formatVariableMeasure(weight)).toBe("1.250 kg")
+    expect(price && formatVariableMeasure(price)).toBe("19.99 DH")
+  })
+})
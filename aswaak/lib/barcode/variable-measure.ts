@@ -0,0 +1,117 @@
+import { calculateCheckDigit, validateBarcode } from "./validation"
+
+export type VariableMeasureKind = "weight" | "price"
+
+/**
+ * Layout of an in-store EAN-13 label: prefix + item code (PLU) + [value check digit] + value + check digit.
+ * The digit counts must add up to 12.
+ */
+export interface VariableMeasureRule {
+  id: string
+  label: string
+  prefix: string
+  itemCodeDigits: number
+  valueDigits: number
+  // Implied decimal places of the value, e.g. 3 for grams printed as kilograms
+  decimals: number
+  kind: VariableMeasureKind
+  // Some scales print a check digit for the value just before it
+  valueCheckDigit: boolean
+}
+
+export interface VariableMeasureReading {
+  barcode: string
+  rule: VariableMeasureRule
+  plu: string
+  // Kilograms for weight labels, currency units for price labels
+  value: number
+  // The label with its value zeroed, which is the barcode the base product is registered under
+  baseBarcode: string
+}
+
+export const DEFAULT_VARIABLE_MEASURE_RULES: VariableMeasureRule[] = [
+  {
+    id: "weight-21",
+    label: "Deli and produce (weight)",
+    prefix: "21",
+    itemCodeDigits: 5,
+    valueDigits: 5,
+    decimals: 3,
+    kind: "weight",
+    valueCheckDigit: false,
+  },
+  {
+    id: "price-22",
+    label: "Deli and produce (price)",
+    prefix: "22",
+    itemCodeDigits: 5,
+    valueDigits: 5,
+    decimals: 2,
+    kind: "price",
+    valueCheckDigit: false,
+  },
+]
+
+// Check that a rule describes a 13-digit label
+export function getVariableMeasureRuleError(rule: VariableMeasureRule): string | null {
+  if (!/^2\d{0,2}$/.test(rule.prefix)) return "Prefix must be 1 to 3 digits starting with 2"
+  const length = rule.prefix.length + rule.itemCodeDigits + rule.valueDigits + (rule.valueCheckDigit ? 1 : 0)
+  if (length !== 12) return `Prefix, item code and value digits must add up to 12 (currently ${length})`
+  if (rule.decimals < 0 || rule.decimals > rule.valueDigits) return "Decimals must be between 0 and the value digits"
+  return null
+}
+
+/**
+ * Decode an in-store EAN-13 label with the first matching rule.
+ * Returns null if the barcode is not a variable measure label.
+ */
+export function decodeVariableMeasureBarcode(
+  barcode: string,
+  rules: VariableMeasureRule[] = DEFAULT_VARIABLE_MEASURE_RULES,
+): VariableMeasureReading | null {
+  const validation = validateBarcode(barcode)
+  if (!validation.valid || validation.format !== "EAN-13" || !validation.isInStore) return null
+
+  const code = validation.input
+  // Longer prefixes are more specific
+  const rule = rules
+    .filter((candidate) => !getVariableMeasureRuleError(candidate) && code.startsWith(candidate.prefix))
+    .sort((a, b) => b.prefix.length - a.prefix.length)[0]
+  if (!rule) return null
+
+  const itemStart = rule.prefix.length
+  const valueStart = itemStart + rule.itemCodeDigits + (rule.valueCheckDigit ? 1 : 0)
+  const plu = code.slice(itemStart, itemStart + rule.itemCodeDigits)
+  const rawValue = code.slice(valueStart, valueStart + rule.valueDigits)
+
+  const baseBody = `${rule.prefix}${plu}`.padEnd(12, "0")
+
+  return {
+    barcode: code,
+    rule,
+    plu,
+    value: Number(rawValue) / Math.pow(10, rule.decimals),
+    baseBarcode: `${baseBody}${calculateCheckDigit(baseBody)}`,
+  }
+}
+
+/**
+ * Quantity the label stands for, in the product's unit (kg for weighed items).
+ * Price labels are converted with the product's unit price; null if that is unknown.
+ */
+export function getVariableMeasureQuantity(
+  reading: VariableMeasureReading,
+  unitPrice?: string | number | null,
+): number | null {
+  if (reading.rule.kind === "weight") return reading.value
+
+  const price = typeof unitPrice === "number" ? unitPrice : Number.parseFloat(String(unitPrice || "").replace(",", "."))
+  if (!price || Number.isNaN(price)) return null
+  return Math.round((reading.value / price) * 1000) / 1000
+}
+
+export function formatVariableMeasure(reading: VariableMeasureReading): string {
+  return reading.rule.kind === "weight"
+    ? `${reading.value.toFixed(3)} kg`
+    : `${reading.value.toFixed(Math.min(reading.rule.decimals, 2))} DH`
+}
@@ -0,0 +1,11 @@
+export {
+  enqueueOperation,
+  getQueuedOperations,
+  isOfflineError,
+  removeQueuedOperation,
+  subscribeToQueue,
+  updateQueuedOperation,
+} from "./queue"
+export type { NewQueuedOperation, QueuedOperation } from "./queue"
+export { resolveConflict, syncOfflineQueue } from "./sync"
+export type { SyncSummary } from "./sync"
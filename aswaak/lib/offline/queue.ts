@@ -0,0 +1,169 @@
+import type { ChangeSource } from "@/types/audit-log"
+import type { LoadedProductValues, Product } from "@/types/product"
+import type { StockMovementReason } from "@/types/stock-movement"
+
+const DB_NAME = "aswaak-offline"
+const DB_VERSION = 1
+const STORE_NAME = "operations"
+
+type QueuedOperationBase = {
+  id: string
+  createdAt: string
+  // "conflict": the product changed on the server since the operation was queued
+  status: "pending" | "conflict" | "failed"
+  attempts: number
+  lastError?: string
+  // Server copy of the product when a conflict was detected
+  serverProduct?: Product | null
+}
+
+export type QueuedOperation =
+  | (QueuedOperationBase & {
+      type: "scan"
+      barcode: string
+    })
+  | (QueuedOperationBase & {
+      type: "save-product"
+      product: Product
+      // updated_at of the product when it was edited, null for new products
+      baseUpdatedAt: string | null
+      // The product as it was loaded for the edit, to tell which fields changed on the server since
+      baseProduct?: Product | null
+      // Values the edit form started from, so only what the user changed is replayed
+      loaded?: LoadedProductValues
+      // Where the edit was made, for the audit log
+      source?: ChangeSource
+    })
+  | (QueuedOperationBase & {
+      type: "update-stock"
+      productId: string
+      productName: string
+      delta: number
+      reason: StockMovementReason
+      reference?: string | null
+    })
+
+// Fields every caller provides; the queue fills in the bookkeeping
+export type NewQueuedOperation =
+  | { type: "scan"; barcode: string }
+  | {
+      type: "save-product"
+      product: Product
+      baseUpdatedAt: string | null
+      baseProduct?: Product | null
+      loaded?: LoadedProductValues
+      source?: ChangeSource
+    }
+  | {
+      type: "update-stock"
+      productId: string
+      productName: string
+      delta: number
+      reason: StockMovementReason
+      reference?: string | null
+    }
+
+const queueListeners = new Set<(operations: QueuedOperation[]) => void>()
+
+/**
+ * Whether the app is offline or the error is a failed network request
+ */
+export function isOfflineError(error?: unknown): boolean {
+  if (typeof navigator !== "undefined" && !navigator.onLine) return true
+  // fetch rejects with a TypeError when the network is unreachable
+  return error instanceof TypeError && /fetch|network|load failed/i.test(error.message)
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    if (typeof indexedDB === "undefined") {
+      reject(new Error("IndexedDB is not available"))
+      return
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION)
+    request.onupgradeneeded = () => {
+      if (!request.result.objectStoreNames.contains(STORE_NAME)) {
+        request.result.createObjectStore(STORE_NAME, { keyPath: "id" })
+      }
+    }
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+// Run a single request against the operations store
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>,
+): Promise<T> {
+  const db = await openDatabase()
+
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const transaction = db.transaction(STORE_NAME, mode)
+      const request = run(transaction.objectStore(STORE_NAME))
+      transaction.oncomplete = () => resolve(request.result)
+      transaction.onerror = () => reject(transaction.error)
+      transaction.onabort = () => reject(transaction.error)
+    })
+  } finally {
+    db.close()
+  }
+}
+
+async function notifyQueueListeners() {
+  if (queueListeners.size === 0) return
+  const operations = await getQueuedOperations()
+  queueListeners.forEach((listener) => listener(operations))
+}
+
+/**
+ * All queued operations, oldest first
+ */
+export async function getQueuedOperations(): Promise<QueuedOperation[]> {
+  try {
+    const operations = await withStore<QueuedOperation[]>("readonly", (store) => store.getAll())
+    return operations.sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+  } catch (error) {
+    console.error("Error reading offline queue:", error)
+    return []
+  }
+}
+
+/**
+ * Queue an operation to replay when the connection returns
+ */
+export async function enqueueOperation(operation: NewQueuedOperation): Promise<QueuedOperation> {
+  const queued = {
+    ...operation,
+    id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    createdAt: new Date().toISOString(),
+    status: "pending",
+    attempts: 0,
+  } as QueuedOperation
+
+  await withStore("readwrite", (store) => store.put(queued))
+  console.log(`Queued offline ${queued.type} operation ${queued.id}`)
+  await notifyQueueListeners()
+  return queued
+}
+
+export async function updateQueuedOperation(operation: QueuedOperation): Promise<void> {
+  await withStore("readwrite", (store) => store.put(operation))
+  await notifyQueueListeners()
+}
+
+export async function removeQueuedOperation(id: string): Promise<void> {
+  await withStore("readwrite", (store) => store.delete(id))
+  await notifyQueueListeners()
+}
+
+export const subscribeToQueue = (callback: (operations: QueuedOperation[]) => void) => {
+  queueListeners.add(callback)
+  getQueuedOperations().then(callback)
+
+  return () => {
+    queueListeners.delete(callback)
+  }
+}
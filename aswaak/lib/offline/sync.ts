@@ -0,0 +1,204 @@
+import { createProduct, saveProduct } from "@/services/product-service"
+import { productRepository } from "@/services/product-repository"
+import { recordScanEvent } from "@/services/scan-history-service"
+import { applyStockMovement } from "@/services/stock-service"
+import type { Product } from "@/types/product"
+import {
+  getQueuedOperations,
+  isOfflineError,
+  removeQueuedOperation,
+  updateQueuedOperation,
+  type QueuedOperation,
+} from "./queue"
+
+export type SyncSummary = {
+  synced: number
+  conflicts: number
+  failed: number
+}
+
+let runningSync: Promise<SyncSummary> | null = null
+
+// Fields a product edit sets. Stock is replayed as a delta and expiry_date follows the stock lots, so stock movements
+// posted since are not a conflict.
+const EDITED_FIELDS: (keyof Product)[] = [
+  "name",
+  "barcode",
+  "price",
+  "purchase_price",
+  "description",
+  "min_stock",
+  "image",
+  "category_id",
+  "quantity",
+  "lot_number",
+  "expiry_notification_days",
+]
+
+function differs(a: Product, b: Product, field: keyof Product) {
+  return (a[field] ?? null) !== (b[field] ?? null)
+}
+
+// The product was deleted on the server, or a field the queued edit changed was also changed there since the
+// operation was queued. updated_at alone is not enough: every stock movement bumps it.
+function hasConflict(
+  current: Product | null,
+  operation: { product: Product; baseProduct?: Product | null; baseUpdatedAt: string | null },
+) {
+  if (!current) return true
+
+  const base = operation.baseProduct
+  if (!base) return !!operation.baseUpdatedAt && current.updated_at !== operation.baseUpdatedAt
+
+  return EDITED_FIELDS.some((field) => differs(operation.product, base, field) && differs(current, base, field))
+}
+
+// The queued edit on top of the server copy: fields the edit left alone keep the server's value
+function withServerFields(current: Product, operation: { product: Product; baseProduct?: Product | null }): Product {
+  const base = operation.baseProduct
+  if (!base) return operation.product
+
+  const product = { ...operation.product }
+  EDITED_FIELDS.forEach((field) => {
+    if (!differs(operation.product, base, field)) Object.assign(product, { [field]: current[field] })
+  })
+  return product
+}
+
+// Replay one operation. Returns the operation to keep in the queue, or null when it is done.
+async function replayOperation(operation: QueuedOperation): Promise<QueuedOperation | null> {
+  switch (operation.type) {
+    case "scan": {
+      const product = await productRepository.findByBarcode(operation.barcode)
+      await recordScanEvent({
+        barcode: operation.barcode,
+        result: product ? "found" : "not_found",
+        product,
+        scannedAt: operation.createdAt,
+      })
+      // The scan is in the scan history now
+      return null
+    }
+
+    case "save-product": {
+      if (!operation.product.id) {
+        // Someone may have registered the barcode while we were offline
+        const existing = operation.product.barcode
+          ? await productRepository.findByBarcode(operation.product.barcode)
+          : null
+        if (existing) return { ...operation, status: "conflict", serverProduct: existing }
+
+        await createProduct(operation.product, operation.source)
+        return null
+      }
+
+      const current = await productRepository.findById(operation.product.id)
+      if (!current || hasConflict(current, operation)) {
+        return { ...operation, status: "conflict", serverProduct: current }
+      }
+
+      await saveProduct(withServerFields(current, operation), operation.source, operation.loaded)
+      return null
+    }
+
+    case "update-stock": {
+      // Stock movements are deltas applied atomically, so they stay correct whatever changed since.
+      // Only a deleted product is a conflict.
+      const current = await productRepository.findById(operation.productId)
+      if (!current) {
+        return { ...operation, status: "conflict", serverProduct: null }
+      }
+
+      await applyStockMovement({
+        productId: operation.productId,
+        delta: operation.delta,
+        reason: operation.reason,
+        reference: operation.reference,
+      })
+      return null
+    }
+  }
+}
+
+async function runSync(): Promise<SyncSummary> {
+  const summary: SyncSummary = { synced: 0, conflicts: 0, failed: 0 }
+  const operations = (await getQueuedOperations()).filter(
+    (operation) => operation.status === "pending" || operation.status === "failed",
+  )
+
+  for (const operation of operations) {
+    try {
+      const remaining = await replayOperation(operation)
+
+      if (!remaining) {
+        await removeQueuedOperation(operation.id)
+        summary.synced++
+      } else {
+        await updateQueuedOperation({ ...remaining, attempts: operation.attempts + 1, lastError: undefined })
+        if (remaining.status === "conflict") summary.conflicts++
+        else summary.synced++
+      }
+    } catch (error) {
+      // Still offline: stop here and keep the remaining operations in order
+      if (isOfflineError(error)) {
+        console.log("Offline sync interrupted, connection lost")
+        break
+      }
+
+      console.error(`Error replaying offline operation ${operation.id}:`, error)
+      await updateQueuedOperation({
+        ...operation,
+        status: "failed",
+        attempts: operation.attempts + 1,
+        lastError: error instanceof Error ? error.message : String(error),
+      })
+      summary.failed++
+    }
+  }
+
+  return summary
+}
+
+/**
+ * Replay queued operations to Supabase, oldest first. Concurrent calls share one run.
+ */
+export function syncOfflineQueue(): Promise<SyncSummary> {
+  if (!runningSync) {
+    runningSync = runSync().finally(() => {
+      runningSync = null
+    })
+  }
+  return runningSync
+}
+
+/**
+ * Resolve a conflicting operation: "apply" replays it on top of the current server copy,
+ * "discard" drops it.
+ */
+export async function resolveConflict(operation: QueuedOperation, resolution: "apply" | "discard"): Promise<void> {
+  if (resolution === "discard") {
+    await removeQueuedOperation(operation.id)
+    return
+  }
+
+  const server = operation.serverProduct
+  let resolved: QueuedOperation
+
+  if (operation.type === "save-product") {
+    resolved = server
+      ? // Overwrite the server copy, whether it was edited or registered by someone else
+        {
+          ...operation,
+          product: { ...operation.product, id: server.id },
+          baseUpdatedAt: server.updated_at || null,
+          baseProduct: server,
+        }
+      : // The product was deleted on the server, create it again
+        { ...operation, product: { ...operation.product, id: undefined }, baseUpdatedAt: null, baseProduct: null }
+  } else {
+    throw new Error("This operation can only be discarded")
+  }
+
+  await updateQueuedOperation({ ...resolved, status: "pending", serverProduct: undefined })
+  await syncOfflineQueue()
+}
@@ -0,0 +1,89 @@
+import { fetchWithTimeout } from "./http"
+import { extractProductInfoFromHTML } from "./html-extractor"
+import type { ProductInfo, ProductSourceProvider } from "./types"
+
+// Function to fetch product info from aswakassalam.com - IMPROVED
+async function fetchFromAswakAssalam(barcode: string, endpoint: string): Promise<ProductInfo | null> {
+  try {
+    console.log(`Attempting to fetch product from Aswak Assalam with barcode: ${barcode}, endpoint: ${endpoint}`)
+
+    // Determine URL based on endpoint
+    let url = ""
+    if (endpoint === "aswak1") {
+      url = `https://aswakassalam.com/ean1/${barcode}`
+    } else if (endpoint === "aswak2") {
+      url = `https://aswakassalam.com/ean2/${barcode}`
+    } else {
+      throw new Error(`Invalid Aswak Assalam endpoint: ${endpoint}`)
+    }
+
+    // Try multiple user agents in case of user agent filtering
+    const userAgents = [
+      "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36",
+      "Mozilla/5.0 (iPhone; CPU iPhone OS 14_6 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/14.0.3 Mobile/15E148 Safari/604.1",
+      "Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/15.0 Safari/605.1.15",
+    ]
+
+    for (const userAgent of userAgents) {
+      try {
+        console.log(`Trying ${url} with user agent: ${userAgent.substring(0, 20)}...`)
+
+        const response = await fetchWithTimeout(
+          url,
+          {
+            headers: {
+              "User-Agent": userAgent,
+              Accept: "text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,*/*;q=0.8",
+              "Accept-Language": "en-US,en;q=0.5",
+              "Cache-Control": "no-cache",
+              Pragma: "no-cache",
+            },
+          },
+          10000, // 10 second timeout
+        )
+
+        if (!response.ok) {
+          console.log(`Aswak Assalam ${url} returned status: ${response.status}`)
+          continue
+        }
+
+        const html = await response.text()
+        console.log(`Received HTML from ${url}, length: ${html.length} characters`)
+
+        const productInfo = extractProductInfoFromHTML(html, barcode, `Aswak Assalam (${endpoint})`, "aswak-assalam")
+        if (productInfo && productInfo.name) {
+          console.log(`Successfully extracted product info from ${url}:`, productInfo)
+          return productInfo
+        } else {
+          console.log(`Failed to extract product info from ${url}`)
+        }
+      } catch (error) {
+        console.error(`Error fetching from ${url} with user agent ${userAgent.substring(0, 20)}:`, error)
+      }
+    }
+
+    console.log(`No product found on Aswak Assalam for barcode: ${barcode}, endpoint: ${endpoint}`)
+    return null
+  } catch (error) {
+    console.error(`Error fetching from Aswak Assalam:`, error)
+    return null
+  }
+}
+
+export const aswakAssalamEan1Source: ProductSourceProvider = {
+  id: "aswak1",
+  label: "Aswak Assalam (EAN1)",
+  url: "https://aswakassalam.com/ean1/{barcode}",
+  priority: 10,
+  enabled: true,
+  lookup: (barcode) => fetchFromAswakAssalam(barcode, "aswak1"),
+}
+
+export const aswakAssalamEan2Source: ProductSourceProvider = {
+  id: "aswak2",
+  label: "Aswak Assalam (EAN2)",
+  url: "https://aswakassalam.com/ean2/{barcode}",
+  priority: 20,
+  enabled: true,
+  lookup: (barcode) => fetchFromAswakAssalam(barcode, "aswak2"),
+}
@@ -0,0 +1,106 @@
+import { mkdtempSync, rmSync } from "node:fs"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+import { createFileStore, createLookupCache, createMemoryLruStore } from "./cache"
+import type { ProductInfo } from "./types"
+
+const product = (name: string) => ({ name, barcode: "6111245590026", source: "test" }) as ProductInfo
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
+
+describe("createMemoryLruStore", () => {
+  const entry = (barcode: string) => ({ barcode, source: "test", data: null, timestamp: 0, expiresAt: Infinity })
+
+  it("evicts the least recently used entry", async () => {
+    const store = createMemoryLruStore(2)
+    await store.set("a", entry("a"))
+    await store.set("b", entry("b"))
+    await store.get("a")
+    await store.set("c", entry("c"))
+
+    expect(await store.get("a")).toBeDefined()
+    expect(await store.get("b")).toBeUndefined()
+    expect(await store.get("c")).toBeDefined()
+  })
+})
+
+describe("createLookupCache", () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ["Date"] })
+    vi.setSystemTime(new Date("2026-10-19T10:00:00Z"))
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it("expires found products after the TTL", async () => {
+    const cache = createLookupCache({ memory: createMemoryLruStore(), ttl: 1000, negativeTtl: 100 })
+    await cache.set("6111245590026", "test", product("Olive oil"))
+
+    vi.advanceTimersByTime(999)
+    expect((await cache.get("6111245590026", "test"))?.data).toMatchObject({ name: "Olive oil" })
+
+    vi.advanceTimersByTime(1)
+    expect(await cache.get("6111245590026", "test")).toBeUndefined()
+  })
+
+  it("expires not-found results after the shorter negative TTL", async () => {
+    const cache = createLookupCache({ memory: createMemoryLruStore(), ttl: 1000, negativeTtl: 100 })
+    await cache.set("6111245590026", "test", null)
+
+    expect(await cache.get("6111245590026", "test")).toMatchObject({ data: null })
+
+    vi.advanceTimersByTime(100)
+    expect(await cache.get("6111245590026", "test")).toBeUndefined()
+  })
+
+  it("backfills the memory tier from the persistent store", async () => {
+    const memory = createMemoryLruStore()
+    const persistent = createMemoryLruStore()
+    const cache = createLookupCache({ memory, persistent })
+    await createLookupCache({ memory: createMemoryLruStore(), persistent }).set("6111245590026", "test", null)
+
+    expect(await cache.get("6111245590026", "test")).toBeDefined()
+    expect(await memory.get("test:6111245590026")).toBeDefined()
+  })
+
+  it("filters and purges entries by source", async () => {
+    const cache = createLookupCache({ memory: createMemoryLruStore() })
+    await cache.set("6111245590026", "open-food-facts", null)
+    await cache.set("6111245590026", "aswak-assalam", null)
+
+    expect(await cache.list({ source: "aswak-assalam" })).toHaveLength(1)
+    expect(await cache.purge({ source: "aswak-assalam" })).toBe(1)
+    expect(await cache.list()).toHaveLength(1)
+  })
+})
+
+describe("createLookupCache with a shared file store", () => {
+  let dir: string
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "lookup-cache-"))
+  })
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  it("does not serve an entry from memory after another instance purged it", async () => {
+    const file = join(dir, "product-lookups.json")
+    const first = createLookupCache({ memory: createMemoryLruStore(), persistent: createFileStore(file, 0) })
+    const second = createLookupCache({ memory: createMemoryLruStore(), persistent: createFileStore(file, 0) })
+
+    await first.set("6111245590026", "test", product("Olive oil"))
+    await wait(20)
+    expect(await first.get("6111245590026", "test")).toBeDefined()
+    expect(await second.get("6111245590026", "test")).toBeDefined()
+
+    expect(await second.purge({ barcode: "6111245590026" })).toBe(1)
+    await wait(20)
+
+    expect(await first.get("6111245590026", "test")).toBeUndefined()
+  })
+})
@@ -0,0 +1,317 @@
+import { promises as fs } from "fs"
+import path from "path"
+import type { ProductInfo } from "./types"
+
+// A cached lookup. `data: null` records that the barcode was not found (negative caching).
+export type LookupCacheEntry = {
+  barcode: string
+  source: string
+  data: ProductInfo | null
+  timestamp: number
+  expiresAt: number
+}
+
+export type LookupCacheFilter = {
+  barcode?: string
+  source?: string
+}
+
+/**
+ * Key/value storage behind the lookup cache
+ */
+export interface LookupCacheStore {
+  get(key: string): Promise<LookupCacheEntry | undefined>
+  set(key: string, entry: LookupCacheEntry): Promise<void>
+  delete(key: string): Promise<void>
+  entries(): Promise<LookupCacheEntry[]>
+}
+
+/**
+ * Cache of product lookups, keyed by barcode and source id
+ */
+export interface LookupCache {
+  get(barcode: string, source: string): Promise<LookupCacheEntry | undefined>
+  set(barcode: string, source: string, data: ProductInfo | null): Promise<void>
+  list(filter?: LookupCacheFilter): Promise<LookupCacheEntry[]>
+  purge(filter?: LookupCacheFilter): Promise<number>
+}
+
+const DEFAULT_TTL = 24 * 60 * 60 * 1000 // 24 hours in milliseconds
+const DEFAULT_NEGATIVE_TTL = 60 * 60 * 1000 // 1 hour in milliseconds
+const DEFAULT_MAX_MEMORY_ENTRIES = 1000
+const DEFAULT_CACHE_FILE = path.join(process.cwd(), ".cache", "product-lookups.json")
+
+function getCacheKey(barcode: string, source: string): string {
+  return `${source}:${barcode}`
+}
+
+function isExpired(entry: LookupCacheEntry, now = Date.now()): boolean {
+  return entry.expiresAt <= now
+}
+
+function matchesFilter(entry: LookupCacheEntry, filter: LookupCacheFilter = {}): boolean {
+  return (!filter.barcode || entry.barcode === filter.barcode) && (!filter.source || entry.source === filter.source)
+}
+
+function readNumberFromEnv(name: string, fallback: number): number {
+  const value = Number.parseInt(process.env[name] || "", 10)
+  return Number.isNaN(value) || value < 0 ? fallback : value
+}
+
+/**
+ * In-memory store that evicts the least recently used entry once `maxEntries` is reached
+ */
+export function createMemoryLruStore(maxEntries = DEFAULT_MAX_MEMORY_ENTRIES): LookupCacheStore {
+  // Map preserves insertion order, so the first key is always the least recently used
+  const entries = new Map<string, LookupCacheEntry>()
+
+  return {
+    async get(key) {
+      const entry = entries.get(key)
+      if (!entry) return undefined
+
+      // Move to the most recently used position
+      entries.delete(key)
+      entries.set(key, entry)
+      return entry
+    },
+
+    async set(key, entry) {
+      entries.delete(key)
+      entries.set(key, entry)
+
+      while (entries.size > maxEntries) {
+        const oldestKey = entries.keys().next().value
+        if (oldestKey === undefined) break
+        entries.delete(oldestKey)
+      }
+    },
+
+    async delete(key) {
+      entries.delete(key)
+    },
+
+    async entries() {
+      return Array.from(entries.values())
+    },
+  }
+}
+
+/**
+ * JSON file store. Several server instances can share the file: it is re-read when another
+ * process has modified it, and writes merge with what is on disk before replacing it.
+ */
+export function createFileStore(filePath = DEFAULT_CACHE_FILE, writeDelay = 500): LookupCacheStore {
+  let data: Record<string, LookupCacheEntry> = {}
+  let loadedMtime = -1
+  const pendingWrites = new Map<string, LookupCacheEntry>()
+  const pendingDeletes = new Set<string>()
+  let writeTimer: ReturnType<typeof setTimeout> | null = null
+
+  const readFromDisk = async (): Promise<Record<string, LookupCacheEntry>> => {
+    try {
+      const contents = await fs.readFile(filePath, "utf8")
+      const parsed = JSON.parse(contents) as Record<string, LookupCacheEntry>
+      const now = Date.now()
+
+      // Drop expired entries while loading
+      return Object.fromEntries(Object.entries(parsed).filter(([, entry]) => !isExpired(entry, now)))
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+        console.error(`Error reading lookup cache file ${filePath}:`, error)
+      }
+      return {}
+    }
+  }
+
+  // Re-read the file if it changed since we last loaded it
+  const refresh = async () => {
+    try {
+      const stats = await fs.stat(filePath)
+      if (stats.mtimeMs === loadedMtime) return
+      loadedMtime = stats.mtimeMs
+    } catch {
+      return
+    }
+
+    data = await readFromDisk()
+    // Local changes that have not been flushed yet win over the file
+    pendingWrites.forEach((entry, key) => {
+      data[key] = entry
+    })
+    pendingDeletes.forEach((key) => {
+      delete data[key]
+    })
+  }
+
+  const flush = async () => {
+    writeTimer = null
+    if (pendingWrites.size === 0 && pendingDeletes.size === 0) return
+
+    try {
+      // Merge with the latest content so writes from other instances are kept
+      const onDisk = await readFromDisk()
+      pendingWrites.forEach((entry, key) => {
+        const existing = onDisk[key]
+        if (!existing || existing.timestamp <= entry.timestamp) {
+          onDisk[key] = entry
+        }
+      })
+      pendingDeletes.forEach((key) => {
+        delete onDisk[key]
+      })
+      pendingWrites.clear()
+      pendingDeletes.clear()
+
+      // Write to a temporary file first so readers never see a partial file
+      await fs.mkdir(path.dirname(filePath), { recursive: true })
+      const tempPath = `${filePath}.${process.pid}.tmp`
+      await fs.writeFile(tempPath, JSON.stringify(onDisk), "utf8")
+      await fs.rename(tempPath, filePath)
+
+      data = onDisk
+      loadedMtime = (await fs.stat(filePath)).mtimeMs
+    } catch (error) {
+      console.error(`Error writing lookup cache file ${filePath}:`, error)
+    }
+  }
+
+  const scheduleWrite = () => {
+    if (writeTimer) return
+    writeTimer = setTimeout(() => {
+      flush()
+    }, writeDelay)
+  }
+
+  return {
+    async get(key) {
+      await refresh()
+      return data[key]
+    },
+
+    async set(key, entry) {
+      data[key] = entry
+      pendingWrites.set(key, entry)
+      pendingDeletes.delete(key)
+      scheduleWrite()
+    },
+
+    async delete(key) {
+      delete data[key]
+      pendingWrites.delete(key)
+      pendingDeletes.add(key)
+      scheduleWrite()
+    },
+
+    async entries() {
+      await refresh()
+      return Object.values(data)
+    },
+  }
+}
+
+/**
+ * Two-tier cache: a fast LRU memory tier in front of a persistent store.
+ * Not-found results are cached too, with a shorter TTL.
+ */
+export function createLookupCache(options: {
+  memory: LookupCacheStore
+  persistent?: LookupCacheStore
+  ttl?: number
+  negativeTtl?: number
+}): LookupCache {
+  const { memory, persistent, ttl = DEFAULT_TTL, negativeTtl = DEFAULT_NEGATIVE_TTL } = options
+  const tiers = persistent ? [memory, persistent] : [memory]
+
+  return {
+    async get(barcode, source) {
+      const key = getCacheKey(barcode, source)
+      const now = Date.now()
+
+      const memoryEntry = await memory.get(key)
+      // The persistent store is shared with other instances, which may have purged or replaced the entry since it
+      // was copied into memory, so it has the last word
+      const entry = persistent ? await persistent.get(key) : memoryEntry
+
+      if (entry && !isExpired(entry, now)) {
+        if (!memoryEntry || memoryEntry.timestamp !== entry.timestamp) {
+          // Backfill the memory tier
+          await memory.set(key, entry)
+        }
+        return entry
+      }
+
+      // Clean up the stale or expired entry
+      if (memoryEntry) await memory.delete(key)
+      if (persistent && entry) await persistent.delete(key)
+
+      return undefined
+    },
+
+    async set(barcode, source, data) {
+      const now = Date.now()
+      const entry: LookupCacheEntry = {
+        barcode,
+        source,
+        data,
+        timestamp: now,
+        expiresAt: now + (data ? ttl : negativeTtl),
+      }
+
+      await Promise.all(tiers.map((tier) => tier.set(getCacheKey(barcode, source), entry)))
+    },
+
+    async list(filter) {
+      const now = Date.now()
+      const byKey = new Map<string, LookupCacheEntry>()
+
+      for (const tier of tiers) {
+        for (const entry of await tier.entries()) {
+          if (!isExpired(entry, now) && matchesFilter(entry, filter)) {
+            byKey.set(getCacheKey(entry.barcode, entry.source), entry)
+          }
+        }
+      }
+
+      return Array.from(byKey.values()).sort((a, b) => b.timestamp - a.timestamp)
+    },
+
+    async purge(filter) {
+      const keys = new Set<string>()
+
+      for (const tier of tiers) {
+        for (const entry of await tier.entries()) {
+          if (matchesFilter(entry, filter)) {
+            keys.add(getCacheKey(entry.barcode, entry.source))
+          }
+        }
+      }
+
+      const keyList = Array.from(keys)
+      await Promise.all(tiers.map((tier) => Promise.all(keyList.map((key) => tier.delete(key)))))
+      return keyList.length
+    },
+  }
+}
+
+let lookupCache: LookupCache | null = null
+
+/**
+ * Get the shared lookup cache, configured from the environment:
+ * PRODUCT_CACHE_STORE ("file" or "memory"), PRODUCT_CACHE_FILE, PRODUCT_CACHE_MAX_ENTRIES,
+ * PRODUCT_CACHE_TTL_MS and PRODUCT_CACHE_NEGATIVE_TTL_MS.
+ */
+export function getLookupCache(): LookupCache {
+  if (!lookupCache) {
+    const storeType = process.env.PRODUCT_CACHE_STORE || "file"
+
+    lookupCache = createLookupCache({
+      memory: createMemoryLruStore(readNumberFromEnv("PRODUCT_CACHE_MAX_ENTRIES", DEFAULT_MAX_MEMORY_ENTRIES)),
+      persistent: storeType === "file" ? createFileStore(process.env.PRODUCT_CACHE_FILE || DEFAULT_CACHE_FILE) : undefined,
+      ttl: readNumberFromEnv("PRODUCT_CACHE_TTL_MS", DEFAULT_TTL),
+      negativeTtl: readNumberFromEnv("PRODUCT_CACHE_NEGATIVE_TTL_MS", DEFAULT_NEGATIVE_TTL),
+    })
+  }
+
+  return lookupCache
+}
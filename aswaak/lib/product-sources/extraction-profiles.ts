@@ -0,0 +1,64 @@
+import profileData from "./extraction-profiles.json"
+
+// Where a field value is read from. Exactly one of selector, meta or jsonLd is set.
+export type FieldRule = {
+  // CSS selector, the first match is used
+  selector?: string
+  // Attribute to read instead of the element text
+  attr?: string
+  // <meta property|name="..."> content, e.g. "og:title"
+  meta?: string
+  // Dot path into the JSON-LD Product object, e.g. "offers.price"
+  jsonLd?: string
+  // Regular expression applied to the value, the whole match is kept
+  pattern?: string
+  // Remove the profile's titleSuffix from the value
+  stripTitleSuffix?: boolean
+}
+
+export type ExtractedField = "name" | "price" | "image" | "brand"
+
+// Rules per field, tried in order until one yields a value
+export type FieldRules = Partial<Record<ExtractedField, FieldRule[]>>
+
+/**
+ * Declarative description of how to read product info from a site's HTML
+ */
+export type ExtractionProfile = {
+  id: string
+  description?: string
+  // Site name appended to page titles, e.g. " - Aswak Assalam"
+  titleSuffix?: string
+  notFound?: {
+    selectors?: string[]
+    text?: string[]
+  }
+  // Extracted names containing any of these are discarded
+  rejectNames?: string[]
+  // Search result pages, recognised when any `detect` selector matches
+  listing?: {
+    detect: string[]
+    sourceSuffix?: string
+    fields: FieldRules
+  }
+  product: {
+    fields: FieldRules
+  }
+}
+
+const profiles = profileData as ExtractionProfile[]
+
+export const DEFAULT_EXTRACTION_PROFILE_ID = "default"
+
+// Get an extraction profile by id, falling back to the default profile
+export function getExtractionProfile(id: string = DEFAULT_EXTRACTION_PROFILE_ID): ExtractionProfile {
+  const profile = profiles.find((p) => p.id === id) || profiles.find((p) => p.id === DEFAULT_EXTRACTION_PROFILE_ID)
+  if (!profile) {
+    throw new Error(`Extraction profile not found: ${id}`)
+  }
+  return profile
+}
+
+export function getExtractionProfiles(): ExtractionProfile[] {
+  return profiles
+}
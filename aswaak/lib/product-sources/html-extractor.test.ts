@@ -0,0 +1,93 @@
+import { readFileSync } from "node:fs"
+import { join } from "node:path"
+import { describe, expect, it } from "vitest"
+import { extractProductInfoFromHTML } from "./html-extractor"
+
+const fixture = (name: string) => readFileSync(join(__dirname, "__fixtures__", name), "utf8")
+
+describe("extractProductInfoFromHTML", () => {
+  describe("aswak-assalam profile", () => {
+    it("reads a product page from its WooCommerce markup", () => {
+      const info = extractProductInfoFromHTML(
+        fixture("aswak-product.html"),
+        "6111245590026",
+        "aswakassalam.com",
+        "aswak-assalam",
+      )
+
+      expect(info).toMatchObject({
+        name: "Huile d'olive extra vierge 1L",
+        price: "89,95",
+        image: "https://aswakassalam.com/wp-content/uploads/huile-olive-1l.jpg",
+        barcode: "6111245590026",
+        source: "aswakassalam.com",
+      })
+    })
+
+    it("reads the first result of a search listing", () => {
+      const info = extractProductInfoFromHTML(
+        fixture("aswak-search.html"),
+        "6111245590019",
+        "aswakassalam.com",
+        "aswak-assalam",
+      )
+
+      expect(info).toMatchObject({
+        name: "Lait UHT demi-écrémé 1L",
+        price: "7,50",
+        image: "https://aswakassalam.com/wp-content/uploads/lait-uht-1l-300x300.jpg",
+        source: "aswakassalam.com (Search Results)",
+      })
+    })
+
+    it("returns null for the not found page", () => {
+      expect(
+        extractProductInfoFromHTML(fixture("aswak-not-found.html"), "6111245590033", "aswakassalam.com", "aswak-assalam"),
+      ).toBeNull()
+    })
+  })
+
+  describe("default profile", () => {
+    it("prefers JSON-LD product data", () => {
+      const info = extractProductInfoFromHTML(fixture("json-ld-product.html"), "3017620422003", "example.com")
+
+      expect(info).toMatchObject({
+        name: "Chocolate spread 400g",
+        price: "34.00",
+        currency: "MAD",
+        image: "https://example.com/images/spread-400g.jpg",
+        brand: "Spreadco",
+        category: "Spreads",
+        gtin: "3017620422003",
+        isInStock: false,
+      })
+    })
+
+    it("matches the page GTIN in any length", () => {
+      const info = extractProductInfoFromHTML(fixture("json-ld-product.html"), "03017620422003", "example.com")
+
+      expect(info).toMatchObject({ name: "Chocolate spread 400g", barcode: "03017620422003" })
+    })
+
+    it("rejects a page whose GTIN is another product's", () => {
+      expect(extractProductInfoFromHTML(fixture("json-ld-product.html"), "6111245590026", "example.com")).toBeNull()
+    })
+
+    it("falls back to OpenGraph product tags", () => {
+      const info = extractProductInfoFromHTML(fixture("open-graph-product.html"), "6111000000017", "example.com")
+
+      expect(info).toMatchObject({
+        name: "Green tea 200g",
+        price: "18.90",
+        currency: "MAD",
+        image: "https://example.com/images/green-tea.jpg",
+        brand: "Teahouse",
+        isInStock: true,
+      })
+    })
+
+    it("returns null when no name can be found", () => {
+      expect(extractProductInfoFromHTML("<html><body><p>Nothing here</p></body></html>", "1", "example.com")).toBeNull()
+    })
+  })
+})
@@ -0,0 +1,166 @@
+import * as cheerio from "cheerio"
+import { normalizeBarcode } from "@/lib/barcode"
+import {
+  getExtractionProfile,
+  type ExtractedField,
+  type ExtractionProfile,
+  type FieldRule,
+  type FieldRules,
+} from "./extraction-profiles"
+import { extractStructuredProductData, findJsonLdProduct, getJsonLdValue } from "./structured-data"
+import type { ProductInfo } from "./types"
+
+const PLACEHOLDER_IMAGE = "/placeholder.svg?height=200&width=200"
+const EXTRACTED_FIELDS: ExtractedField[] = ["name", "price", "image", "brand"]
+
+// The same GTIN whether it was written as EAN-13, UPC-A or GTIN-14
+const isSameGtin = (a: string, b: string) =>
+  normalizeBarcode(a).replace(/^0+/, "") === normalizeBarcode(b).replace(/^0+/, "")
+
+type ExtractionContext = {
+  $: cheerio.CheerioAPI
+  profile: ExtractionProfile
+  jsonLdProduct: Record<string, unknown> | null
+}
+
+function readRule(context: ExtractionContext, rule: FieldRule): string | undefined {
+  const { $, profile, jsonLdProduct } = context
+  let value: string | undefined
+
+  if (rule.selector) {
+    const element = $(rule.selector).first()
+    if (element.length > 0) {
+      value = rule.attr ? element.attr(rule.attr) : element.text()
+    }
+  } else if (rule.meta) {
+    value = $(`meta[property="${rule.meta}"], meta[name="${rule.meta}"]`).first().attr("content")
+  } else if (rule.jsonLd && jsonLdProduct) {
+    value = getJsonLdValue(jsonLdProduct, rule.jsonLd)
+  }
+
+  if (!value) return undefined
+  value = value.replace(/\s+/g, " ").trim()
+
+  if (rule.stripTitleSuffix && profile.titleSuffix) {
+    value = value.replace(profile.titleSuffix, "").trim()
+  }
+
+  if (rule.pattern) {
+    const match = value.match(new RegExp(rule.pattern))
+    value = match ? match[0] : undefined
+  }
+
+  return value || undefined
+}
+
+// Try each field's rules in order and keep the first usable value
+function extractFields(context: ExtractionContext, fields: FieldRules): Partial<Record<ExtractedField, string>> {
+  const rejectNames = context.profile.rejectNames || []
+  const extracted: Partial<Record<ExtractedField, string>> = {}
+
+  for (const field of EXTRACTED_FIELDS) {
+    for (const rule of fields[field] || []) {
+      const value = readRule(context, rule)
+      if (!value) continue
+      if (field === "name" && rejectNames.some((rejected) => value.includes(rejected))) continue
+
+      extracted[field] = value
+      console.log(`Found ${field}: "${value}" using rule: ${JSON.stringify(rule)}`)
+      break
+    }
+  }
+
+  return extracted
+}
+
+function isNotFoundPage($: cheerio.CheerioAPI, html: string, profile: ExtractionProfile): boolean {
+  const notFound = profile.notFound || {}
+  return (
+    (notFound.selectors || []).some((selector) => $(selector).length > 0) ||
+    (notFound.text || []).some((text) => html.includes(text))
+  )
+}
+
+/**
+ * Extract product info from a page using a declarative extraction profile.
+ * JSON-LD and OpenGraph data is read first. Without it, search result listings are tried when the profile
+ * describes them, then the product page rules.
+ */
+export function extractProductInfoFromHTML(
+  html: string,
+  barcode: string,
+  source: string,
+  profileId?: string,
+): ProductInfo | null {
+  try {
+    const profile = getExtractionProfile(profileId)
+    console.log(`Extracting product info from HTML (${source}) with profile ${profile.id}, HTML length: ${html.length}`)
+
+    const $ = cheerio.load(html)
+
+    if (isNotFoundPage($, html, profile)) {
+      console.log(`Found 404 page indicators in HTML from ${source}`)
+      return null
+    }
+
+    const context: ExtractionContext = { $, profile, jsonLdProduct: findJsonLdProduct($) }
+
+    // First pass: JSON-LD and OpenGraph product data, when the page declares it
+    const structured = extractStructuredProductData($)
+    if (structured.name && profile.titleSuffix) {
+      structured.name = structured.name.replace(profile.titleSuffix, "").trim()
+    }
+    const rejectNames = profile.rejectNames || []
+    if (structured.name && rejectNames.some((rejected) => structured.name?.includes(rejected))) {
+      structured.name = undefined
+    }
+    // The page describes another product, e.g. a search that fell back to a related item
+    if (structured.gtin && !isSameGtin(structured.gtin, barcode)) {
+      return null
+    }
+
+    // Check if this is a search results page with products
+    const listing = profile.listing
+    if (!structured.name && listing && listing.detect.some((selector) => $(selector).length > 0)) {
+      console.log("Detected page with product listings")
+
+      const fields = extractFields(context, listing.fields)
+      if (fields.name) {
+        return {
+          name: fields.name,
+          price: fields.price || "",
+          image: fields.image || PLACEHOLDER_IMAGE,
+          barcode,
+          brand: fields.brand,
+          source: `${source}${listing.sourceSuffix || ""}`,
+        }
+      }
+    }
+
+    // Regular product page extraction, filling whatever the structured data did not provide
+    const fields = extractFields(context, profile.product.fields)
+    const name = structured.name || fields.name
+
+    // If we couldn't extract essential info, return null
+    if (!name) {
+      console.log(`Could not extract product name from HTML (${source})`)
+      return null
+    }
+
+    return {
+      name,
+      price: structured.price || fields.price || "",
+      image: structured.image || fields.image || PLACEHOLDER_IMAGE,
+      barcode,
+      brand: structured.brand || fields.brand,
+      category: structured.category,
+      currency: structured.currency,
+      gtin: structured.gtin,
+      isInStock: structured.isInStock,
+      source,
+    }
+  } catch (error) {
+    console.error("Error extracting product info from HTML:", error)
+    return null
+  }
+}
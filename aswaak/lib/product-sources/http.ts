@@ -0,0 +1,54 @@
+// Function to fetch with timeout and better error handling
+export async function fetchWithTimeout(url: string, options: RequestInit = {}, timeout = 10000): Promise<Response> {
+  const controller = new AbortController()
+  const timeoutId = setTimeout(() => controller.abort(), timeout)
+
+  try {
+    console.log(`Fetching ${url}`)
+    const response = await fetch(url, {
+      ...options,
+      signal: controller.signal,
+    })
+    clearTimeout(timeoutId)
+
+    // Log response status
+    console.log(`Response from ${url}: status=${response.status}`)
+
+    return response
+  } catch (error) {
+    clearTimeout(timeoutId)
+    console.error(`Fetch error for ${url}:`, error)
+    throw error
+  }
+}
+
+// Function to decode HTML entities
+export function decodeHtmlEntities(text: string): string {
+  if (!text) return ""
+
+  const entities: Record<string, string> = {
+    "&amp;": "&",
+    "&lt;": "<",
+    "&gt;": ">",
+    "&quot;": '"',
+    "&#039;": "'",
+    "&rsquo;": "'",
+    "&ldquo;": '"',
+    "&rdquo;": '"',
+    "&nbsp;": " ",
+  }
+
+  // Replace named entities
+  let decodedText = text
+  for (const [entity, char] of Object.entries(entities)) {
+    decodedText = decodedText.replace(new RegExp(entity, "g"), char)
+  }
+
+  // Replace numeric entities (decimal)
+  decodedText = decodedText.replace(/&#(\d+);/g, (match, dec) => String.fromCharCode(Number.parseInt(dec, 10)))
+
+  // Replace numeric entities (hex)
+  decodedText = decodedText.replace(/&#x([0-9a-f]+);/gi, (match, hex) => String.fromCharCode(Number.parseInt(hex, 16)))
+
+  return decodedText
+}
@@ -0,0 +1,20 @@
+export type { ProductInfo, ProductSourceOption, ProductSourceProvider } from "./types"
+export {
+  registerProductSource,
+  unregisterProductSource,
+  getProductSource,
+  getProductSources,
+  getEnabledProductSources,
+  getProductSourceOptions,
+} from "./registry"
+export { fetchProductInfoFromSource, fetchProductInfoFromAllSources } from "./lookup"
+export {
+  fetchMergedProductInfo,
+  mergeProductInfo,
+  parseFieldPriority,
+  DEFAULT_FIELD_PRIORITY,
+  MERGEABLE_FIELDS,
+} from "./merge"
+export type { FieldPriority } from "./merge"
+export { getLookupCache, createLookupCache, createMemoryLruStore, createFileStore } from "./cache"
+export type { LookupCache, LookupCacheEntry, LookupCacheFilter, LookupCacheStore } from "./cache"
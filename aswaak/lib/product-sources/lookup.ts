@@ -0,0 +1,70 @@
+import { getLookupCache } from "./cache"
+import { getEnabledProductSources, getProductSource } from "./registry"
+import type { ProductInfo } from "./types"
+
+// Cache key used for lookups that walk every enabled source
+const ALL_SOURCES_CACHE_KEY = "all"
+
+// Function to fetch product info from a specific source
+export async function fetchProductInfoFromSource(barcode: string, source: string): Promise<ProductInfo | null> {
+  const provider = getProductSource(source)
+  if (!provider) {
+    throw new Error(`Unknown source: ${source}`)
+  }
+
+  // Check cache first
+  const cache = getLookupCache()
+  const cached = await cache.get(barcode, source)
+  if (cached) {
+    console.log(
+      `Using cached ${cached.data ? "product info" : "not-found result"} for barcode: ${barcode}, source: ${source}`,
+    )
+    return cached.data
+  }
+
+  console.log(`Starting product lookup for barcode: ${barcode} from source: ${source}`)
+
+  const productInfo = await provider.lookup(barcode)
+
+  if (productInfo) {
+    console.log(`Found product info from ${source} for barcode: ${barcode}`)
+  } else {
+    console.log(`Product not found in ${source} for barcode: ${barcode}`)
+  }
+
+  // Not-found results are cached too, with a shorter TTL
+  await cache.set(barcode, source, productInfo)
+
+  return productInfo
+}
+
+// Fetch product info from all enabled sources in priority order, returning the first hit
+export async function fetchProductInfoFromAllSources(barcode: string): Promise<ProductInfo | null> {
+  // Check cache first
+  const cache = getLookupCache()
+  const cached = await cache.get(barcode, ALL_SOURCES_CACHE_KEY)
+  if (cached) {
+    console.log(`Using cached ${cached.data ? "product info" : "not-found result"} for barcode: ${barcode}`)
+    return cached.data
+  }
+
+  console.log(`Starting product lookup for barcode: ${barcode}`)
+
+  const providers = getEnabledProductSources()
+
+  for (let i = 0; i < providers.length; i++) {
+    const provider = providers[i]
+    console.log(`STEP ${i + 1}: Trying ${provider.label}`)
+    const productInfo = await provider.lookup(barcode)
+    if (productInfo) {
+      console.log(`Found product info from ${provider.label}`)
+      // Cache the result
+      await cache.set(barcode, ALL_SOURCES_CACHE_KEY, productInfo)
+      return productInfo
+    }
+  }
+
+  console.log(`Product not found in any source for barcode: ${barcode}`)
+  await cache.set(barcode, ALL_SOURCES_CACHE_KEY, null)
+  return null
+}
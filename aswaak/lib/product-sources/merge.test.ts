@@ -0,0 +1,86 @@
+import { describe, expect, it } from "vitest"
+import { DEFAULT_FIELD_PRIORITY, mergeProductInfo, parseFieldPriority } from "./merge"
+import type { ProductInfo } from "./types"
+
+const BARCODE = "6111245590026"
+
+const aswak: ProductInfo = {
+  name: "Huile d'olive extra vierge 1L",
+  price: "89,95",
+  currency: "MAD",
+  image: "/placeholder.svg?height=200&width=200",
+  barcode: BARCODE,
+  isInStock: true,
+  source: "aswakassalam.com",
+}
+
+const openFoodFacts: ProductInfo = {
+  name: "Extra virgin olive oil",
+  image: "https://images.openfoodfacts.org/olive-oil.jpg",
+  barcode: BARCODE,
+  quantity: "1 L",
+  brand: "Al Horra",
+  category: "Olive oils",
+  source: "Open Food Facts",
+}
+
+describe("mergeProductInfo", () => {
+  it("takes each field from the preferred source and records where it came from", () => {
+    const merged = mergeProductInfo(BARCODE, { aswak1: aswak, openfoodfacts: openFoodFacts })
+
+    expect(merged).toMatchObject({
+      name: aswak.name,
+      price: "89,95",
+      currency: "MAD",
+      image: openFoodFacts.image,
+      quantity: "1 L",
+      brand: "Al Horra",
+      category: "Olive oils",
+      isInStock: true,
+      barcode: BARCODE,
+      source: "Merged (aswakassalam.com, Open Food Facts)",
+    })
+    expect(merged?.fieldSources).toEqual({
+      name: "aswak1",
+      price: "aswak1",
+      image: "openfoodfacts",
+      quantity: "openfoodfacts",
+      brand: "openfoodfacts",
+    })
+  })
+
+  it("follows a custom priority and falls back to the next source for missing fields", () => {
+    const merged = mergeProductInfo(
+      BARCODE,
+      { aswak1: aswak, openfoodfacts: openFoodFacts },
+      { ...DEFAULT_FIELD_PRIORITY, name: ["openfoodfacts"], image: ["aswak1"] },
+    )
+
+    expect(merged?.name).toBe(openFoodFacts.name)
+    expect(merged?.fieldSources?.name).toBe("openfoodfacts")
+    // Aswak only has a placeholder image
+    expect(merged?.fieldSources?.image).toBe("openfoodfacts")
+  })
+
+  it("ignores sources without a result and needs a name", () => {
+    expect(mergeProductInfo(BARCODE, { aswak1: null, openfoodfacts: null })).toBeNull()
+    expect(mergeProductInfo(BARCODE, { aswak1: { ...aswak, name: " " } })).toBeNull()
+    expect(mergeProductInfo(BARCODE, { aswak1: null, openfoodfacts: openFoodFacts })?.fieldSources?.name).toBe(
+      "openfoodfacts",
+    )
+  })
+})
+
+describe("parseFieldPriority", () => {
+  it("reads a JSON priority and keeps the defaults for other fields", () => {
+    expect(parseFieldPriority('{ "price": ["aswak2", 3], "unknown": ["aswak1"] }')).toEqual({
+      ...DEFAULT_FIELD_PRIORITY,
+      price: ["aswak2"],
+    })
+  })
+
+  it("rejects values that are not an object", () => {
+    expect(parseFieldPriority("not json")).toBeUndefined()
+    expect(parseFieldPriority(["aswak1"])).toBeUndefined()
+  })
+})
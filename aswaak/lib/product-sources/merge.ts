@@ -0,0 +1,151 @@
+import type { ProductFieldSources, ProductSourceField } from "@/types/product"
+import { fetchProductInfoFromSource } from "./lookup"
+import { getEnabledProductSources, getProductSource } from "./registry"
+import type { ProductInfo, ProductSourceProvider } from "./types"
+
+// Ordered list of source ids to take each field from. Sources not listed are tried after, in registry priority order.
+export type FieldPriority = Partial<Record<ProductSourceField, string[]>>
+
+export const MERGEABLE_FIELDS: ProductSourceField[] = ["name", "price", "image", "quantity", "brand"]
+
+// Aswak Assalam has the local names and prices, Open Food Facts has better images and packaging info
+export const DEFAULT_FIELD_PRIORITY: FieldPriority = {
+  name: ["aswak1", "aswak2", "openfoodfacts"],
+  price: ["aswak1", "aswak2"],
+  image: ["openfoodfacts", "aswak1", "aswak2"],
+  quantity: ["openfoodfacts"],
+  brand: ["openfoodfacts"],
+}
+
+const PLACEHOLDER_IMAGE = "/placeholder.svg?height=200&width=200"
+
+// A field value only counts if it carries real data
+function hasValue(field: ProductSourceField, value: string | undefined): value is string {
+  if (!value || !value.trim()) return false
+  if (field === "image" && value.includes("placeholder")) return false
+  return true
+}
+
+// Resolve the order in which sources are consulted for a field
+function getSourceOrder(field: ProductSourceField, sourceIds: string[], priority: FieldPriority): string[] {
+  const preferred = (priority[field] || []).filter((id) => sourceIds.includes(id))
+  const remaining = sourceIds.filter((id) => !preferred.includes(id))
+  return [...preferred, ...remaining]
+}
+
+/**
+ * Combine results from several sources field by field.
+ * `results` must be keyed by source id and ordered by registry priority.
+ */
+export function mergeProductInfo(
+  barcode: string,
+  results: Record<string, ProductInfo | null>,
+  priority: FieldPriority = DEFAULT_FIELD_PRIORITY,
+): ProductInfo | null {
+  const sourceIds = Object.keys(results).filter((id) => results[id])
+  if (sourceIds.length === 0) return null
+
+  const merged: Partial<Record<ProductSourceField, string>> = {}
+  const fieldSources: ProductFieldSources = {}
+
+  for (const field of MERGEABLE_FIELDS) {
+    for (const id of getSourceOrder(field, sourceIds, priority)) {
+      const value = results[id]?.[field]
+      if (hasValue(field, value)) {
+        merged[field] = value
+        fieldSources[field] = id
+        break
+      }
+    }
+  }
+
+  // A merged result without a name is not useful
+  if (!merged.name) return null
+
+  // Currency belongs to whichever source supplied the price
+  const priceSource = fieldSources.price ? results[fieldSources.price] : null
+  // Availability and category are taken from the first source, in registry order, that reports them
+  const firstReported = <K extends "isInStock" | "category">(key: K) => {
+    const id = sourceIds.find((sourceId) => results[sourceId]?.[key] !== undefined)
+    return id ? results[id]?.[key] : undefined
+  }
+
+  const contributingSources = Array.from(new Set(Object.values(fieldSources)))
+    .map((id) => results[id]?.source || id)
+    .join(", ")
+
+  return {
+    name: merged.name,
+    price: merged.price,
+    image: merged.image || PLACEHOLDER_IMAGE,
+    barcode,
+    quantity: merged.quantity,
+    brand: merged.brand,
+    category: firstReported("category"),
+    currency: priceSource?.currency,
+    isInStock: firstReported("isInStock"),
+    source: `Merged (${contributingSources})`,
+    fieldSources,
+  }
+}
+
+/**
+ * Query every enabled source (or the given source ids) in parallel and merge the results.
+ * Each source lookup goes through the per-source cache.
+ */
+export async function fetchMergedProductInfo(
+  barcode: string,
+  options: { sources?: string[]; priority?: FieldPriority } = {},
+): Promise<ProductInfo | null> {
+  const { sources, priority } = options
+  const providers = sources
+    ? sources.map((id) => getProductSource(id)).filter((provider): provider is ProductSourceProvider => !!provider)
+    : getEnabledProductSources()
+  console.log(`Merging product info for barcode: ${barcode} from ${providers.length} sources`)
+
+  const lookups = await Promise.all(
+    providers.map(async (provider) => {
+      try {
+        return await fetchProductInfoFromSource(barcode, provider.id)
+      } catch (error) {
+        console.error(`Error looking up ${barcode} in ${provider.id}:`, error)
+        return null
+      }
+    }),
+  )
+
+  const results: Record<string, ProductInfo | null> = {}
+  providers.forEach((provider, index) => {
+    results[provider.id] = lookups[index]
+  })
+
+  const merged = mergeProductInfo(barcode, results, priority)
+  console.log(`Merged product info for barcode: ${barcode}:`, merged)
+  return merged
+}
+
+/**
+ * Validate a field priority supplied by a client. Unknown fields and non-string entries are dropped.
+ */
+export function parseFieldPriority(value: unknown): FieldPriority | undefined {
+  let parsed = value
+  if (typeof value === "string") {
+    try {
+      parsed = JSON.parse(value)
+    } catch {
+      return undefined
+    }
+  }
+
+  if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) return undefined
+
+  const priority: FieldPriority = {}
+  for (const field of MERGEABLE_FIELDS) {
+    const order = (parsed as Record<string, unknown>)[field]
+    if (Array.isArray(order)) {
+      priority[field] = order.filter((id): id is string => typeof id === "string")
+    }
+  }
+
+  return { ...DEFAULT_FIELD_PRIORITY, ...priority }
+}
@@ -0,0 +1,121 @@
+import { decodeHtmlEntities, fetchWithTimeout } from "./http"
+import type { ProductInfo, ProductSourceProvider } from "./types"
+
+// Function to fetch product info from Open Food Facts API - IMPROVED
+async function fetchFromOpenFoodFactsAPI(barcode: string): Promise<ProductInfo | null> {
+  try {
+    console.log(`Attempting to fetch product from Open Food Facts API with barcode: ${barcode}`)
+
+    // Try multiple user agents
+    const userAgents = [
+      "BarcodeScannerApp/1.0",
+      "Mozilla/5.0 (compatible; ProductInfoBot/1.0)",
+      "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36",
+    ]
+
+    for (const userAgent of userAgents) {
+      try {
+        const response = await fetchWithTimeout(
+          `https://world.openfoodfacts.org/api/v2/product/${barcode}.json`,
+          {
+            headers: {
+              "User-Agent": userAgent,
+              "Cache-Control": "no-cache",
+              Pragma: "no-cache",
+            },
+          },
+          10000, // 10 second timeout
+        )
+
+        if (!response.ok) {
+          console.log(`Open Food Facts API returned status: ${response.status} with user agent: ${userAgent}`)
+          continue
+        }
+
+        const data = await response.json()
+        console.log(`Open Food Facts API response status: ${data.status}`)
+
+        if (data.status !== 1 || !data.product) {
+          console.log("Open Food Facts API: Product not found or invalid response")
+          continue
+        }
+
+        // Extract product information
+        const product = data.product
+        console.log(`Found product in Open Food Facts: ${product.product_name || "Unknown name"}`)
+
+        // Get product name
+        let name = product.product_name || product.generic_name || `Product ${barcode}`
+
+        // Add brand to the name if available and not already part of the name
+        if (product.brands && !name.includes(product.brands)) {
+          name = `${name} - ${decodeHtmlEntities(product.brands)}`
+        }
+
+        // Get the best available image URL
+        let imageUrl = null
+
+        // Try to get the front image first
+        if (product.image_front_url) {
+          imageUrl = product.image_front_url
+          console.log(`Using front image URL: ${imageUrl}`)
+        }
+        // Then try the regular image
+        else if (product.image_url) {
+          imageUrl = product.image_url
+          console.log(`Using regular image URL: ${imageUrl}`)
+        }
+        // Then try selected images
+        else if (product.selected_images?.front?.display?.url) {
+          imageUrl = product.selected_images.front.display.url
+          console.log(`Using selected image URL: ${imageUrl}`)
+        }
+        // Then try images object
+        else if (product.images && Object.keys(product.images).length > 0) {
+          // Get the first image key
+          const firstImageKey = Object.keys(product.images)[0]
+          if (product.images[firstImageKey].url) {
+            imageUrl = product.images[firstImageKey].url
+            console.log(`Using image from images object: ${imageUrl}`)
+          }
+        }
+
+        // If no image was found, use a placeholder
+        if (!imageUrl) {
+          imageUrl = "/placeholder.svg?height=200&width=200"
+          console.log("No image found, using placeholder")
+        }
+
+        // Create a product object with the extracted information
+        const productInfo: ProductInfo = {
+          name,
+          image: imageUrl,
+          barcode,
+          quantity: product.quantity || undefined,
+          brand: product.brands ? decodeHtmlEntities(product.brands) : undefined,
+          source: "Open Food Facts API",
+        }
+
+        console.log("Successfully extracted product info from Open Food Facts API:", productInfo)
+        return productInfo
+      } catch (error) {
+        console.error(`Error fetching from Open Food Facts API with user agent ${userAgent}:`, error)
+      }
+    }
+
+    console.log(`No product found on Open Food Facts API for barcode: ${barcode}`)
+    return null
+  } catch (error) {
+    console.error(`Error fetching from Open Food Facts API:`, error)
+    return null
+  }
+}
+
+export const openFoodFactsSource: ProductSourceProvider = {
+  id: "openfoodfacts",
+  label: "Open Food Facts API",
+  url: "https://world.openfoodfacts.org/api/v2/product/{barcode}.json",
+  priority: 30,
+  enabled: true,
+  lookup: fetchFromOpenFoodFactsAPI,
+}
@@ -0,0 +1,61 @@
+import { aswakAssalamEan1Source, aswakAssalamEan2Source } from "./aswak-assalam"
+import { openFoodFactsSource } from "./open-food-facts"
+import type { ProductSourceOption, ProductSourceProvider } from "./types"
+
+// Registered providers keyed by id
+const providers = new Map<string, ProductSourceProvider>()
+
+/**
+ * Register a product source provider. Registering an id that already exists replaces the previous provider.
+ */
+export function registerProductSource(provider: ProductSourceProvider): void {
+  if (!provider.id) {
+    throw new Error("Product source id is required")
+  }
+
+  providers.set(provider.id, provider)
+}
+
+/**
+ * Remove a product source provider from the registry
+ */
+export function unregisterProductSource(id: string): boolean {
+  return providers.delete(id)
+}
+
+/**
+ * Get a single provider by id
+ */
+export function getProductSource(id: string): ProductSourceProvider | undefined {
+  return providers.get(id)
+}
+
+/**
+ * Get all registered providers sorted by priority (lowest first)
+ */
+export function getProductSources(options: { includeDisabled?: boolean } = {}): ProductSourceProvider[] {
+  const { includeDisabled = true } = options
+
+  return Array.from(providers.values())
+    .filter((provider) => includeDisabled || provider.enabled)
+    .sort((a, b) => a.priority - b.priority)
+}
+
+/**
+ * Get the enabled providers sorted by priority (lowest first)
+ */
+export function getEnabledProductSources(): ProductSourceProvider[] {
+  return getProductSources({ includeDisabled: false })
+}
+
+/**
+ * Get the serializable description of every provider, for building source pickers in the UI
+ */
+export function getProductSourceOptions(): ProductSourceOption[] {
+  return getProductSources().map(({ id, label, url, priority, enabled }) => ({ id, label, url, priority, enabled }))
+}
+
+// Built-in providers
+registerProductSource(aswakAssalamEan1Source)
+registerProductSource(aswakAssalamEan2Source)
+registerProductSource(openFoodFactsSource)
@@ -0,0 +1,147 @@
+import type * as cheerio from "cheerio"
+import type { ProductInfo } from "./types"
+
+// schema.org availability values, compared without the "https://schema.org/" prefix
+const IN_STOCK_AVAILABILITY = ["instock", "limitedavailability", "onlineonly", "instoreonly", "preorder", "presale"]
+const OUT_OF_STOCK_AVAILABILITY = ["outofstock", "soldout", "discontinued", "backorder"]
+
+// Values used by the OpenGraph product:availability tag
+const OG_IN_STOCK = ["in stock", "instock", "available for order", "preorder", "pending"]
+const OG_OUT_OF_STOCK = ["out of stock", "oos", "discontinued"]
+
+export type StructuredProductData = Partial<Omit<ProductInfo, "fieldSources">>
+
+function isProductType(value: unknown): boolean {
+  return value === "Product" || (Array.isArray(value) && value.includes("Product"))
+}
+
+// Search a parsed JSON-LD document (objects, arrays and @graph) for a schema.org Product
+function findProductNode(node: unknown): Record<string, unknown> | null {
+  if (!node || typeof node !== "object") return null
+
+  if (Array.isArray(node)) {
+    for (const item of node) {
+      const found = findProductNode(item)
+      if (found) return found
+    }
+    return null
+  }
+
+  const record = node as Record<string, unknown>
+  if (isProductType(record["@type"])) return record
+  return findProductNode(record["@graph"])
+}
+
+// Find the first JSON-LD Product on the page
+export function findJsonLdProduct($: cheerio.CheerioAPI): Record<string, unknown> | null {
+  const scripts = $('script[type="application/ld+json"]').toArray()
+
+  for (const script of scripts) {
+    try {
+      const product = findProductNode(JSON.parse($(script).text()))
+      if (product) return product
+    } catch {
+      // Invalid JSON-LD blocks are skipped
+    }
+  }
+
+  return null
+}
+
+// Resolve a dot path like "offers.price", taking the first item of any array along the way
+export function getJsonLdValue(product: Record<string, unknown>, path: string): string | undefined {
+  let value: unknown = product
+
+  for (const key of path.split(".")) {
+    if (Array.isArray(value)) value = value[0]
+    if (!value || typeof value !== "object") return undefined
+    value = (value as Record<string, unknown>)[key]
+  }
+
+  if (Array.isArray(value)) value = value[0]
+  // ImageObject, Brand and similar nodes carry their value in "url" or "name"
+  if (value && typeof value === "object") {
+    const node = value as Record<string, unknown>
+    value = typeof node.url === "string" ? node.url : node.name
+  }
+
+  return typeof value === "string" || typeof value === "number" ? String(value).trim() : undefined
+}
+
+function getMetaContent($: cheerio.CheerioAPI, ...names: string[]): string | undefined {
+  for (const name of names) {
+    const content = $(`meta[property="${name}"], meta[name="${name}"]`).first().attr("content")
+    if (content && content.trim()) return content.trim()
+  }
+  return undefined
+}
+
+function parseSchemaAvailability(value: string | undefined): boolean | undefined {
+  if (!value) return undefined
+  const normalized = value.replace(/^https?:\/\/schema\.org\//i, "").toLowerCase()
+  if (IN_STOCK_AVAILABILITY.includes(normalized)) return true
+  if (OUT_OF_STOCK_AVAILABILITY.includes(normalized)) return false
+  return undefined
+}
+
+function parseOpenGraphAvailability(value: string | undefined): boolean | undefined {
+  if (!value) return undefined
+  const normalized = value.toLowerCase()
+  if (OG_IN_STOCK.includes(normalized)) return true
+  if (OG_OUT_OF_STOCK.includes(normalized)) return false
+  return undefined
+}
+
+function extractFromJsonLd(product: Record<string, unknown>): StructuredProductData {
+  return {
+    name: getJsonLdValue(product, "name"),
+    // AggregateOffer only has a price range
+    price: getJsonLdValue(product, "offers.price") || getJsonLdValue(product, "offers.lowPrice"),
+    currency: getJsonLdValue(product, "offers.priceCurrency"),
+    image: getJsonLdValue(product, "image"),
+    brand: getJsonLdValue(product, "brand.name") || getJsonLdValue(product, "brand"),
+    category: getJsonLdValue(product, "category"),
+    gtin:
+      getJsonLdValue(product, "gtin13") ||
+      getJsonLdValue(product, "gtin") ||
+      getJsonLdValue(product, "gtin8") ||
+      getJsonLdValue(product, "gtin12") ||
+      getJsonLdValue(product, "gtin14"),
+    isInStock: parseSchemaAvailability(getJsonLdValue(product, "offers.availability")),
+  }
+}
+
+function extractFromOpenGraph($: cheerio.CheerioAPI): StructuredProductData {
+  return {
+    name: getMetaContent($, "og:title"),
+    price: getMetaContent($, "product:price:amount", "og:price:amount"),
+    currency: getMetaContent($, "product:price:currency", "og:price:currency"),
+    image: getMetaContent($, "og:image", "og:image:secure_url"),
+    brand: getMetaContent($, "product:brand", "og:brand"),
+    category: getMetaContent($, "product:category"),
+    gtin: getMetaContent($, "product:ean", "product:upc", "product:gtin"),
+    isInStock: parseOpenGraphAvailability(getMetaContent($, "product:availability", "og:availability")),
+  }
+}
+
+/**
+ * First-pass extraction from JSON-LD Product data, with OpenGraph product meta tags filling the gaps.
+ * Only fields that were found are set.
+ */
+export function extractStructuredProductData($: cheerio.CheerioAPI): StructuredProductData {
+  const jsonLdProduct = findJsonLdProduct($)
+  const fromJsonLd = jsonLdProduct ? extractFromJsonLd(jsonLdProduct) : {}
+  const fromOpenGraph = extractFromOpenGraph($)
+
+  const data: StructuredProductData = {}
+  const fields = ["name", "price", "currency", "image", "brand", "category", "gtin"] as const
+  fields.forEach((field) => {
+    const value = fromJsonLd[field] || fromOpenGraph[field]
+    if (value) data[field] = value
+  })
+
+  const isInStock = fromJsonLd.isInStock !== undefined ? fromJsonLd.isInStock : fromOpenGraph.isInStock
+  if (isInStock !== undefined) data.isInStock = isInStock
+
+  return data
+}
@@ -0,0 +1,39 @@
+import type { ProductFieldSources } from "@/types/product"
+
+// Product info returned by a product source lookup
+export type ProductInfo = {
+  name: string
+  price?: string
+  image: string
+  barcode: string
+  quantity?: string
+  brand?: string
+  category?: string
+  // ISO 4217 code of the price, when the page declares it
+  currency?: string
+  // GTIN declared by the page, which may be zero-padded differently from the scanned barcode
+  gtin?: string
+  // Undefined when the source does not report availability
+  isInStock?: boolean
+  source?: string
+  // Only set on merged results
+  fieldSources?: ProductFieldSources
+}
+
+/**
+ * A catalog or API that can look up product info by barcode.
+ * Providers are registered in the product source registry and are tried in ascending priority order.
+ */
+export interface ProductSourceProvider {
+  id: string
+  label: string
+  // URL template shown in the UI, with {barcode} as placeholder
+  url: string
+  // Lower numbers are tried first
+  priority: number
+  enabled: boolean
+  lookup: (barcode: string) => Promise<ProductInfo | null>
+}
+
+// Serializable description of a provider, safe to send to the client
+export type ProductSourceOption = Pick<ProductSourceProvider, "id" | "label" | "url" | "priority" | "enabled">
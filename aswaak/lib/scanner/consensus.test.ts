@@ -0,0 +1,80 @@
+import { describe, expect, it } from "vitest"
+import { createScanConsensus, getScanStats } from "./consensus"
+import type { ScanResult } from "./types"
+
+const read = (code: string, timestamp: number, changes: Partial<ScanResult> = {}): ScanResult => ({
+  code,
+  format: "ean_13",
+  confidence: null,
+  box: null,
+  edgeError: null,
+  engine: "zxing",
+  timestamp,
+  ...changes,
+})
+
+describe("createScanConsensus", () => {
+  it("confirms a code after the required matching reads", () => {
+    const consensus = createScanConsensus({ requiredReads: 3, window: 1000 })
+
+    expect(consensus.submit(read("4006381333931", 0))).toMatchObject({ status: "pending", votes: 1 })
+    expect(consensus.submit(read("4006381333931", 100))).toMatchObject({ status: "pending", votes: 2 })
+    expect(consensus.submit(read("4006381333931", 200))).toMatchObject({ status: "confirmed", votes: 3 })
+    // The next read starts a new vote
+    expect(consensus.submit(read("4006381333931", 300))).toMatchObject({ status: "pending", votes: 1 })
+  })
+
+  it("drops votes older than the window", () => {
+    const consensus = createScanConsensus({ requiredReads: 2, window: 500 })
+
+    consensus.submit(read("4006381333931", 0))
+    expect(consensus.submit(read("4006381333931", 600))).toMatchObject({ status: "pending", votes: 1 })
+    expect(consensus.submit(read("4006381333931", 900))).toMatchObject({ status: "confirmed" })
+  })
+
+  it("counts votes per code", () => {
+    const consensus = createScanConsensus({ requiredReads: 2 })
+
+    consensus.submit(read("4006381333931", 0))
+    expect(consensus.submit(read("96385074", 10, { format: "ean_8" }))).toMatchObject({ status: "pending", votes: 1 })
+    expect(consensus.submit(read("4006381333931", 20))).toMatchObject({ status: "confirmed", votes: 2 })
+  })
+
+  it("rejects retail reads with a bad check digit", () => {
+    const consensus = createScanConsensus({ requiredReads: 1 })
+
+    expect(consensus.submit(read("4006381333932", 0))).toMatchObject({ status: "rejected", reason: "misread" })
+    expect(consensus.submit(read("ABC-123", 0, { format: "code_128" }))).toMatchObject({ status: "confirmed" })
+  })
+
+  it("rejects reads with a high edge error", () => {
+    const consensus = createScanConsensus({ requiredReads: 1, maxEdgeError: 0.3 })
+
+    expect(consensus.submit(read("4006381333931", 0, { edgeError: 0.4 }))).toMatchObject({
+      status: "rejected",
+      reason: "edge-error",
+    })
+    expect(consensus.submit(read("4006381333931", 10, { edgeError: 0.2 }))).toMatchObject({ status: "confirmed" })
+  })
+
+  it("accepts a single read when the caller lowers the requirement", () => {
+    const consensus = createScanConsensus({ requiredReads: 3 })
+    expect(consensus.submit(read("4006381333931", 0), 1)).toMatchObject({ status: "confirmed", required: 1 })
+  })
+
+  it("publishes statistics", () => {
+    const consensus = createScanConsensus({ requiredReads: 2 })
+
+    consensus.submit(read("4006381333932", 0))
+    consensus.submit(read("4006381333931", 0, { confidence: 0.8 }))
+    consensus.submit(read("4006381333931", 100, { confidence: 0.6 }))
+
+    expect(getScanStats()).toMatchObject({
+      reads: 3,
+      confirmed: 1,
+      rejectedMisreads: 1,
+      lastConfirmed: { code: "4006381333931", votes: 2, elapsed: 100 },
+    })
+    expect(getScanStats().lastConfirmed?.averageConfidence).toBeCloseTo(0.7)
+  })
+})
@@ -0,0 +1,161 @@
+import { isMisread } from "@/lib/barcode"
+import type { ScanFormat, ScanResult, ScannerEngineId } from "./types"
+
+export type ScanConsensusOptions = {
+  // Matching reads needed before a code is accepted
+  requiredReads: number
+  // Reads older than this many milliseconds no longer count as votes
+  window: number
+  // Reads whose start/end pattern error is above this are rejected (0..1)
+  maxEdgeError: number
+}
+
+export const DEFAULT_SCAN_CONSENSUS: ScanConsensusOptions = {
+  requiredReads: 3,
+  window: 1500,
+  maxEdgeError: 0.3,
+}
+
+export type ScanVote = {
+  status: "confirmed" | "pending" | "rejected"
+  reason?: "misread" | "edge-error"
+  votes: number
+  required: number
+}
+
+export type ScanCandidateStats = {
+  code: string
+  format: ScanFormat
+  votes: number
+  averageConfidence: number | null
+}
+
+export type ScanConsensusStats = {
+  reads: number
+  confirmed: number
+  rejectedMisreads: number
+  rejectedEdgeErrors: number
+  // Codes currently collecting votes
+  candidates: ScanCandidateStats[]
+  lastConfirmed:
+    | (ScanCandidateStats & {
+        engine: ScannerEngineId
+        averageEdgeError: number | null
+        // Time from the first matching read to confirmation
+        elapsed: number
+      })
+    | null
+}
+
+const EMPTY_STATS: ScanConsensusStats = {
+  reads: 0,
+  confirmed: 0,
+  rejectedMisreads: 0,
+  rejectedEdgeErrors: 0,
+  candidates: [],
+  lastConfirmed: null,
+}
+
+let latestStats: ScanConsensusStats = EMPTY_STATS
+const statsListeners = new Set<(stats: ScanConsensusStats) => void>()
+
+function publishScanStats(stats: ScanConsensusStats) {
+  latestStats = stats
+  statsListeners.forEach((listener) => listener(stats))
+}
+
+/**
+ * Statistics of the scanner that ran most recently
+ */
+export function getScanStats(): ScanConsensusStats {
+  return latestStats
+}
+
+export const subscribeToScanStats = (callback: (stats: ScanConsensusStats) => void) => {
+  statsListeners.add(callback)
+  return () => {
+    statsListeners.delete(callback)
+  }
+}
+
+function average(values: (number | null)[]): number | null {
+  const numbers = values.filter((value): value is number => value !== null)
+  return numbers.length > 0 ? numbers.reduce((sum, value) => sum + value, 0) / numbers.length : null
+}
+
+/**
+ * Voting layer in front of a scanner: a code is only accepted after `requiredReads` matching
+ * reads within `window`. EAN/UPC reads with a bad check digit and reads with a high start/end
+ * pattern error never count as votes.
+ */
+export function createScanConsensus(options: Partial<ScanConsensusOptions> = {}) {
+  const { requiredReads, window, maxEdgeError } = { ...DEFAULT_SCAN_CONSENSUS, ...options }
+  let reads: ScanResult[] = []
+  let stats: ScanConsensusStats = { ...EMPTY_STATS }
+
+  const getCandidates = (): ScanCandidateStats[] => {
+    const byCode: Record<string, ScanResult[]> = {}
+    for (const read of reads) {
+      byCode[read.code] = [...(byCode[read.code] || []), read]
+    }
+
+    return Object.keys(byCode).map((code) => ({
+      code,
+      format: byCode[code][0].format,
+      votes: byCode[code].length,
+      averageConfidence: average(byCode[code].map((read) => read.confidence)),
+    }))
+  }
+
+  const update = (changes: Partial<ScanConsensusStats>) => {
+    stats = { ...stats, ...changes, candidates: getCandidates() }
+    publishScanStats(stats)
+  }
+
+  return {
+    // `required` overrides the configured number of reads, e.g. 1 for a manual capture
+    submit(result: ScanResult, required = requiredReads): ScanVote {
+      if (isMisread(result.code, result.format)) {
+        console.log(`Ignoring ${result.format} read with invalid check digit: ${result.code}`)
+        update({ reads: stats.reads + 1, rejectedMisreads: stats.rejectedMisreads + 1 })
+        return { status: "rejected", reason: "misread", votes: 0, required }
+      }
+
+      if (result.edgeError !== null && result.edgeError > maxEdgeError) {
+        console.log(`Ignoring read of ${result.code} with edge error ${result.edgeError.toFixed(2)}`)
+        update({ reads: stats.reads + 1, rejectedEdgeErrors: stats.rejectedEdgeErrors + 1 })
+        return { status: "rejected", reason: "edge-error", votes: 0, required }
+      }
+
+      reads = [...reads.filter((read) => result.timestamp - read.timestamp <= window), result]
+      const matching = reads.filter((read) => read.code === result.code)
+
+      if (matching.length < required) {
+        update({ reads: stats.reads + 1 })
+        return { status: "pending", votes: matching.length, required }
+      }
+
+      // Start a fresh vote for this code, other codes in view keep their votes
+      reads = reads.filter((read) => read.code !== result.code)
+      update({
+        reads: stats.reads + 1,
+        confirmed: stats.confirmed + 1,
+        lastConfirmed: {
+          code: result.code,
+          format: result.format,
+          engine: result.engine,
+          votes: matching.length,
+          averageConfidence: average(matching.map((read) => read.confidence)),
+          averageEdgeError: average(matching.map((read) => read.edgeError)),
+          elapsed: result.timestamp - matching[0].timestamp,
+        },
+      })
+      return { status: "confirmed", votes: matching.length, required }
+    },
+
+    reset() {
+      reads = []
+      update({})
+    },
+  }
+}
@@ -0,0 +1,168 @@
+import { barcodeDetectorAdapter, getNativeFormats } from "./barcode-detector"
+import { DEFAULT_SCAN_FORMATS } from "./formats"
+import { quaggaAdapter } from "./quagga"
+import type {
+  ScanFormat,
+  ScanResult,
+  ScannerCapabilities,
+  ScannerEngine,
+  ScannerEngineAdapter,
+  ScannerEngineId,
+  ScannerPreference,
+} from "./types"
+import { zxingAdapter } from "./zxing"
+
+// Order used by "auto" and when falling back from an unsupported engine
+const SCANNER_ENGINE_ADAPTERS: ScannerEngineAdapter[] = [barcodeDetectorAdapter, zxingAdapter, quaggaAdapter]
+
+const DEFAULT_DUPLICATE_WINDOW = 2000 // 2 seconds in milliseconds
+const DEFAULT_SCAN_INTERVAL = 250
+
+export const SCANNER_ENGINES: { id: ScannerEngineId; label: string }[] = SCANNER_ENGINE_ADAPTERS.map(
+  ({ id, label }) => ({ id, label }),
+)
+
+/**
+ * Detect the camera and which scanner engines can run in this browser
+ */
+export async function detectScannerCapabilities(): Promise<ScannerCapabilities> {
+  const camera = typeof navigator !== "undefined" && !!navigator.mediaDevices?.getUserMedia
+  const support = await Promise.all(SCANNER_ENGINE_ADAPTERS.map((adapter) => adapter.isSupported()))
+
+  return {
+    camera,
+    engines: {
+      "barcode-detector": support[0],
+      zxing: support[1],
+      quagga: support[2],
+    },
+    nativeFormats: await getNativeFormats(),
+  }
+}
+
+/**
+ * Create the preferred scanner engine, falling back to the next supported engine when the
+ * preferred one cannot run here. Unknown preferences (e.g. older saved settings) mean "auto".
+ */
+export async function createScannerEngine(
+  preference: ScannerPreference | string = "auto",
+  formats: ScanFormat[] = DEFAULT_SCAN_FORMATS,
+): Promise<ScannerEngine> {
+  const preferred = SCANNER_ENGINE_ADAPTERS.find((adapter) => adapter.id === preference)
+  const candidates = preferred
+    ? [preferred, ...SCANNER_ENGINE_ADAPTERS.filter((adapter) => adapter !== preferred)]
+    : SCANNER_ENGINE_ADAPTERS
+
+  for (const adapter of candidates) {
+    try {
+      if (!(await adapter.isSupported())) continue
+
+      const engine = await adapter.create(formats)
+      if (preferred && adapter !== preferred) {
+        console.log(`Scanner engine ${preferred.id} is not available, using ${adapter.id}`)
+      }
+      return engine
+    } catch (error) {
+      console.error(`Error creating scanner engine ${adapter.id}:`, error)
+    }
+  }
+
+  throw new Error("No barcode scanner engine is available on this device")
+}
+
+/**
+ * Create every engine supported here, e.g. to decode a still image with all of them
+ */
+export async function createSupportedScannerEngines(
+  formats: ScanFormat[] = DEFAULT_SCAN_FORMATS,
+): Promise<ScannerEngine[]> {
+  const engines: ScannerEngine[] = []
+
+  for (const adapter of SCANNER_ENGINE_ADAPTERS) {
+    try {
+      if (await adapter.isSupported()) engines.push(await adapter.create(formats))
+    } catch (error) {
+      console.error(`Error creating scanner engine ${adapter.id}:`, error)
+    }
+  }
+
+  return engines
+}
+
+/**
+ * Shared result filter for every scanner: drops repeats of the same code within
+ * `duplicateWindow` milliseconds. Returns true when the result should be used.
+ */
+export function createScanFilter(options: { duplicateWindow?: number } = {}) {
+  const { duplicateWindow = DEFAULT_DUPLICATE_WINDOW } = options
+  const lastSeen = new Map<string, number>()
+
+  const accept = (result: ScanResult): boolean => {
+    const previous = lastSeen.get(result.code)
+    lastSeen.set(result.code, result.timestamp)
+    return previous === undefined || result.timestamp - previous > duplicateWindow
+  }
+
+  return {
+    accept,
+    reset() {
+      lastSeen.clear()
+    },
+  }
+}
+
+/**
+ * Draw the current video frame onto the canvas, returning false when no frame is available
+ */
+export function captureVideoFrame(video: HTMLVideoElement, canvas: HTMLCanvasElement): boolean {
+  if (video.paused || video.ended || !video.videoWidth || !video.videoHeight) return false
+
+  const context = canvas.getContext("2d")
+  if (!context) return false
+
+  canvas.width = video.videoWidth
+  canvas.height = video.videoHeight
+  context.drawImage(video, 0, 0, canvas.width, canvas.height)
+  return true
+}
+
+/**
+ * Continuously decode frames from a playing video. Frames are never decoded concurrently,
+ * so a slow engine simply lowers the frame rate. Returns a function that stops the loop.
+ */
+export function startScanLoop(
+  engine: ScannerEngine,
+  video: HTMLVideoElement,
+  canvas: HTMLCanvasElement,
+  handlers: {
+    onResults: (results: ScanResult[]) => void
+    onError?: (error: Error) => void
+  },
+  interval = DEFAULT_SCAN_INTERVAL,
+): () => void {
+  let stopped = false
+  let timer: ReturnType<typeof setTimeout> | null = null
+
+  const tick = async () => {
+    if (stopped) return
+
+    try {
+      if (captureVideoFrame(video, canvas)) {
+        const results = await engine.decode(canvas)
+        // Empty frames are reported too, so overlays can clear boxes that left the view
+        if (!stopped) handlers.onResults(results)
+      }
+    } catch (error) {
+      handlers.onError?.(error as Error)
+    }
+
+    if (!stopped) timer = setTimeout(tick, interval)
+  }
+
+  tick()
+
+  return () => {
+    stopped = true
+    if (timer) clearTimeout(timer)
+  }
+}
@@ -0,0 +1,36 @@
+import type { ScanBoundingBox, ScanFormat } from "./types"
+
+export const DEFAULT_SCAN_FORMATS: ScanFormat[] = [
+  "ean_13",
+  "ean_8",
+  "upc_a",
+  "upc_e",
+  "code_39",
+  "code_128",
+  "qr_code",
+  "data_matrix",
+]
+
+const KNOWN_FORMATS = new Set<string>(DEFAULT_SCAN_FORMATS)
+
+/**
+ * Map a library specific format name ("EAN_13", "ean_13", "upc-a") to a ScanFormat
+ */
+export function toScanFormat(name: string | undefined): ScanFormat {
+  const normalized = (name || "").toLowerCase().replace(/-/g, "_")
+  return KNOWN_FORMATS.has(normalized) ? (normalized as ScanFormat) : "unknown"
+}
+
+/**
+ * Smallest rectangle containing all the points, or null when there are none
+ */
+export function getBoundingBox(points: { x: number; y: number }[]): ScanBoundingBox | null {
+  if (points.length === 0) return null
+
+  const xs = points.map((point) => point.x)
+  const ys = points.map((point) => point.y)
+  const x = Math.min(...xs)
+  const y = Math.min(...ys)
+
+  return { x, y, width: Math.max(...xs) - x, height: Math.max(...ys) - y }
+}
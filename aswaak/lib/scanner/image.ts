@@ -0,0 +1,72 @@
+import { isMisread } from "@/lib/barcode"
+import type { ScanResult, ScannerEngine, ScannerEngineId } from "./types"
+
+// Photos are scaled down to this many pixels on the long side before decoding
+const MAX_IMAGE_SIZE = 2048
+
+export type ImageScanResult = ScanResult & {
+  // Every engine that read this code
+  engines: ScannerEngineId[]
+}
+
+/**
+ * Draw an image file onto a canvas, scaled down when it is larger than MAX_IMAGE_SIZE
+ */
+export async function loadImageToCanvas(file: Blob): Promise<HTMLCanvasElement> {
+  const url = URL.createObjectURL(file)
+
+  try {
+    const image = await new Promise<HTMLImageElement>((resolve, reject) => {
+      const element = new Image()
+      element.onload = () => resolve(element)
+      element.onerror = () => reject(new Error("The file is not a readable image"))
+      element.src = url
+    })
+
+    const scale = Math.min(1, MAX_IMAGE_SIZE / Math.max(image.naturalWidth, image.naturalHeight))
+    const canvas = document.createElement("canvas")
+    canvas.width = Math.round(image.naturalWidth * scale)
+    canvas.height = Math.round(image.naturalHeight * scale)
+
+    const context = canvas.getContext("2d")
+    if (!context) throw new Error("Canvas is not supported")
+    context.drawImage(image, 0, 0, canvas.width, canvas.height)
+
+    return canvas
+  } finally {
+    URL.revokeObjectURL(url)
+  }
+}
+
+/**
+ * Run a still image through every engine and combine what they found. A code read by several
+ * engines is reported once, with the highest confidence and the list of engines.
+ */
+export async function decodeImage(source: HTMLCanvasElement, engines: ScannerEngine[]): Promise<ImageScanResult[]> {
+  const byCode: Record<string, ImageScanResult> = {}
+
+  for (const engine of engines) {
+    let results: ScanResult[] = []
+    try {
+      results = await engine.decode(source)
+    } catch (error) {
+      console.error(`Error decoding image with ${engine.id}:`, error)
+    }
+
+    for (const result of results) {
+      // EAN/UPC reads with a bad check digit are misreads
+      if (isMisread(result.code, result.format)) continue
+
+      const existing = byCode[result.code]
+      if (!existing) {
+        byCode[result.code] = { ...result, engines: [result.engine] }
+      } else {
+        if (!existing.engines.includes(result.engine)) existing.engines.push(result.engine)
+        if ((result.confidence ?? -1) > (existing.confidence ?? -1)) existing.confidence = result.confidence
+        if (!existing.box) existing.box = result.box
+      }
+    }
+  }
+
+  return Object.keys(byCode).map((code) => byCode[code])
+}
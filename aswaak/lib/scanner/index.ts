@@ -0,0 +1,26 @@
+export {
+  SCANNER_ENGINES,
+  captureVideoFrame,
+  createScanFilter,
+  createScannerEngine,
+  createSupportedScannerEngines,
+  detectScannerCapabilities,
+  startScanLoop,
+} from "./engine"
+export { DEFAULT_SCAN_CONSENSUS, createScanConsensus, getScanStats, subscribeToScanStats } from "./consensus"
+export type { ScanCandidateStats, ScanConsensusOptions, ScanConsensusStats, ScanVote } from "./consensus"
+export { decodeImage, loadImageToCanvas } from "./image"
+export type { ImageScanResult } from "./image"
+export { DEFAULT_KEYBOARD_WEDGE, createKeyboardWedgeDetector } from "./keyboard-wedge"
+export type { KeyboardWedgeOptions, KeyboardWedgeSuffix } from "./keyboard-wedge"
+export { DEFAULT_SCAN_FORMATS, getBoundingBox, toScanFormat } from "./formats"
+export type {
+  ScanBoundingBox,
+  ScanFormat,
+  ScanResult,
+  ScannerCapabilities,
+  ScannerEngine,
+  ScannerEngineAdapter,
+  ScannerEngineId,
+  ScannerPreference,
+} from "./types"
@@ -0,0 +1,99 @@
+import { afterEach, describe, expect, it, vi } from "vitest"
+import { createKeyboardWedgeDetector } from "./keyboard-wedge"
+
+const keyDown = (key: string, timeStamp: number) =>
+  ({
+    key,
+    timeStamp,
+    ctrlKey: false,
+    altKey: false,
+    metaKey: false,
+    target: null,
+    preventDefault: vi.fn(),
+  }) as unknown as KeyboardEvent
+
+// Type `text` with `delay` ms between keys, starting at `start`, and return the events
+const type = (detector: ReturnType<typeof createKeyboardWedgeDetector>, text: string, start: number, delay: number) =>
+  text.split("").map((key, index) => {
+    const event = keyDown(key, start + index * delay)
+    detector.handleKeyDown(event)
+    return event
+  })
+
+describe("createKeyboardWedgeDetector", () => {
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it("reads a fast burst ended by Enter", () => {
+    const onScan = vi.fn()
+    const detector = createKeyboardWedgeDetector({}, onScan)
+
+    type(detector, "4006381333931", 1000, 10)
+    const enter = keyDown("Enter", 1130)
+    detector.handleKeyDown(enter)
+
+    expect(onScan).toHaveBeenCalledWith("4006381333931")
+    expect(enter.preventDefault).toHaveBeenCalled()
+  })
+
+  it("ignores keys typed slower than maxKeyDelay", () => {
+    const onScan = vi.fn()
+    const detector = createKeyboardWedgeDetector({ maxKeyDelay: 50 }, onScan)
+
+    type(detector, "4006381333931", 1000, 51)
+    const enter = keyDown("Enter", 1000 + 13 * 51)
+    detector.handleKeyDown(enter)
+
+    expect(onScan).not.toHaveBeenCalled()
+    expect(enter.preventDefault).not.toHaveBeenCalled()
+  })
+
+  it("accepts keys exactly maxKeyDelay apart", () => {
+    const onScan = vi.fn()
+    const detector = createKeyboardWedgeDetector({ maxKeyDelay: 50 }, onScan)
+
+    type(detector, "96385074", 1000, 50)
+    detector.handleKeyDown(keyDown("Enter", 1400))
+
+    expect(onScan).toHaveBeenCalledWith("96385074")
+  })
+
+  it("starts a new code after a pause", () => {
+    const onScan = vi.fn()
+    const detector = createKeyboardWedgeDetector({}, onScan)
+
+    type(detector, "123", 1000, 10)
+    type(detector, "4006381333931", 2000, 10)
+    detector.handleKeyDown(keyDown("Enter", 2130))
+
+    expect(onScan).toHaveBeenCalledTimes(1)
+    expect(onScan).toHaveBeenCalledWith("4006381333931")
+  })
+
+  it("drops codes shorter than minLength and strips the prefix", () => {
+    const onScan = vi.fn()
+    const detector = createKeyboardWedgeDetector({ prefix: "]E0", minLength: 8 }, onScan)
+
+    type(detector, "]E01234", 1000, 10)
+    detector.handleKeyDown(keyDown("Enter", 1070))
+    type(detector, "]E04006381333931", 2000, 10)
+    detector.handleKeyDown(keyDown("Enter", 2160))
+
+    expect(onScan).toHaveBeenCalledTimes(1)
+    expect(onScan).toHaveBeenCalledWith("4006381333931")
+  })
+
+  it("ends a code when the burst stops if the scanner sends no suffix", () => {
+    vi.useFakeTimers()
+    const onScan = vi.fn()
+    const detector = createKeyboardWedgeDetector({ suffix: "none", maxKeyDelay: 50 }, onScan)
+
+    type(detector, "4006381333931", 1000, 10)
+    vi.advanceTimersByTime(99)
+    expect(onScan).not.toHaveBeenCalled()
+
+    vi.advanceTimersByTime(1)
+    expect(onScan).toHaveBeenCalledWith("4006381333931")
+  })
+})
@@ -0,0 +1,95 @@
+export type KeyboardWedgeSuffix = "Enter" | "Tab" | "none"
+
+export type KeyboardWedgeOptions = {
+  // Characters the scanner sends before the code, stripped from the result
+  prefix: string
+  // Key the scanner sends after the code; "none" ends a code when the burst of keys stops
+  suffix: KeyboardWedgeSuffix
+  // Scanners type much faster than people: keys further apart than this start a new code
+  maxKeyDelay: number
+  minLength: number
+}
+
+export const DEFAULT_KEYBOARD_WEDGE: KeyboardWedgeOptions = {
+  prefix: "",
+  suffix: "Enter",
+  maxKeyDelay: 50,
+  minLength: 6,
+}
+
+// Keys typed into form fields belong to the field, not to the wedge listener
+function isEditableTarget(target: EventTarget | null): boolean {
+  if (!target || !(target instanceof HTMLElement)) return false
+  return target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName)
+}
+
+/**
+ * Detect codes typed by a keyboard-wedge (USB/Bluetooth HID) barcode scanner. A code is a burst
+ * of printable keys with at most `maxKeyDelay` ms between them, followed by the suffix key.
+ */
+export function createKeyboardWedgeDetector(options: Partial<KeyboardWedgeOptions>, onScan: (code: string) => void) {
+  const { prefix, suffix, maxKeyDelay, minLength } = { ...DEFAULT_KEYBOARD_WEDGE, ...options }
+  let buffer = ""
+  let lastKeyTime = 0
+  let burstTimer: ReturnType<typeof setTimeout> | null = null
+
+  const reset = () => {
+    buffer = ""
+    if (burstTimer) {
+      clearTimeout(burstTimer)
+      burstTimer = null
+    }
+  }
+
+  // Returns true when the buffer held a code
+  const emit = (): boolean => {
+    const candidate = buffer
+    reset()
+
+    if (prefix && !candidate.startsWith(prefix)) return false
+    const code = candidate.slice(prefix.length)
+    if (code.length < minLength) return false
+
+    console.log(`Keyboard wedge scan: ${code}`)
+    onScan(code)
+    return true
+  }
+
+  const handleKeyDown = (event: KeyboardEvent) => {
+    if (event.ctrlKey || event.altKey || event.metaKey || isEditableTarget(event.target)) {
+      reset()
+      return
+    }
+
+    const now = event.timeStamp || Date.now()
+    const isBurst = buffer.length > 0 && now - lastKeyTime <= maxKeyDelay
+    lastKeyTime = now
+
+    if (suffix !== "none" && event.key === suffix) {
+      // Only a fast burst is a scan; a slow Enter after human typing is left alone
+      if (isBurst && emit()) event.preventDefault()
+      reset()
+      return
+    }
+
+    if (event.key.length !== 1) {
+      // Shift is pressed by scanners for upper case characters
+      if (event.key !== "Shift") reset()
+      return
+    }
+
+    buffer = isBurst ? buffer + event.key : event.key
+
+    if (suffix === "none") {
+      if (burstTimer) clearTimeout(burstTimer)
+      burstTimer = setTimeout(() => {
+        burstTimer = null
+        // A single key is human typing, a scan is always a burst
+        if (buffer.length > 1) emit()
+        else reset()
+      }, maxKeyDelay * 2)
+    }
+  }
+
+  return { handleKeyDown, reset }
+}
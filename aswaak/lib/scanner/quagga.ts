@@ -0,0 +1,94 @@
+import { getBoundingBox, toScanFormat } from "./formats"
+import type { ScanFormat, ScannerEngineAdapter } from "./types"
+
+// Quagga has no 2D readers, so QR and Data Matrix are not available with this engine
+const QUAGGA_READERS: Partial<Record<ScanFormat, string>> = {
+  ean_13: "ean_reader",
+  ean_8: "ean_8_reader",
+  upc_a: "upc_reader",
+  upc_e: "upc_e_reader",
+  code_39: "code_39_reader",
+  code_128: "code_128_reader",
+}
+
+// Frames are downscaled to this many pixels on the long side before decoding
+const QUAGGA_IMAGE_SIZE = 800
+
+export const quaggaAdapter: ScannerEngineAdapter = {
+  id: "quagga",
+  label: "QuaggaJS",
+
+  async isSupported() {
+    return typeof document !== "undefined"
+  },
+
+  async create(formats) {
+    // Dynamically import Quagga so it stays out of the server bundle
+    const Quagga = (await import("quagga")).default
+    const supported = formats.filter((format) => QUAGGA_READERS[format])
+    const readers = supported.map((format) => QUAGGA_READERS[format] as string)
+
+    if (readers.length === 0) {
+      throw new Error("None of the requested formats can be read by Quagga")
+    }
+
+    return {
+      id: "quagga",
+      label: "QuaggaJS",
+      formats: supported,
+
+      decode(source) {
+        const scale = Math.max(source.width, source.height) / QUAGGA_IMAGE_SIZE
+
+        return new Promise((resolve) => {
+          Quagga.decodeSingle(
+            {
+              src: source.toDataURL("image/jpeg"),
+              numOfWorkers: 0,
+              locate: true,
+              inputStream: { size: QUAGGA_IMAGE_SIZE },
+              decoder: { readers, multiple: true },
+            },
+            (result) => {
+              // With decoder.multiple Quagga returns one entry per barcode it located
+              const located = Array.isArray(result) ? result : result ? [result] : []
+              const timestamp = Date.now()
+
+              resolve(
+                located
+                  .filter((entry) => entry && entry.codeResult && entry.codeResult.code)
+                  .map((entry) => {
+                    // Quagga reports a per-character error; turn the average into a 0..1 confidence
+                    const errors = entry.codeResult.decodedCodes
+                      .map((decoded) => decoded.error)
+                      .filter((error): error is number => typeof error === "number")
+                    const confidence =
+                      errors.length > 0
+                        ? Math.max(0, Math.min(1, 1 - errors.reduce((sum, error) => sum + error, 0) / errors.length))
+                        : null
+
+                    // The box is in the downscaled image, map it back to source pixels
+                    const points = (entry.box || []).map(([x, y]) => ({ x: x * scale, y: y * scale }))
+
+                    return {
+                      code: entry.codeResult.code,
+                      format: toScanFormat(entry.codeResult.format),
+                      confidence,
+                      box: getBoundingBox(points),
+                      edgeError: Math.max(entry.codeResult.startInfo.error, entry.codeResult.endInfo.error),
+                      engine: "quagga" as const,
+                      timestamp,
+                    }
+                  }),
+              )
+            },
+          )
+        })
+      },
+
+      dispose() {
+        // decodeSingle does not keep a camera stream open
+      },
+    }
+  },
+}
@@ -0,0 +1,62 @@
+export type ScannerEngineId = "barcode-detector" | "zxing" | "quagga"
+
+// "auto" picks the best engine the device supports
+export type ScannerPreference = "auto" | ScannerEngineId
+
+// Symbology names follow the BarcodeDetector spec; every engine reports in this vocabulary
+export type ScanFormat =
+  | "ean_13"
+  | "ean_8"
+  | "upc_a"
+  | "upc_e"
+  | "code_39"
+  | "code_128"
+  | "qr_code"
+  | "data_matrix"
+  | "unknown"
+
+// Position of the barcode in source pixels
+export type ScanBoundingBox = {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+export type ScanResult = {
+  code: string
+  format: ScanFormat
+  // 0..1, or null when the engine does not report a confidence
+  confidence: number | null
+  box: ScanBoundingBox | null
+  // Worst start/end guard pattern error reported by the decoder, null when unavailable (Quagga only)
+  edgeError: number | null
+  engine: ScannerEngineId
+  timestamp: number
+}
+
+/**
+ * A barcode decoding library behind a common interface
+ */
+export interface ScannerEngine {
+  id: ScannerEngineId
+  label: string
+  formats: ScanFormat[]
+  // Decode every barcode visible in a single frame
+  decode(source: HTMLCanvasElement): Promise<ScanResult[]>
+  dispose(): void
+}
+
+export interface ScannerEngineAdapter {
+  id: ScannerEngineId
+  label: string
+  isSupported(): Promise<boolean>
+  create(formats: ScanFormat[]): Promise<ScannerEngine>
+}
+
+export type ScannerCapabilities = {
+  camera: boolean
+  engines: Record<ScannerEngineId, boolean>
+  // Formats the native BarcodeDetector can read on this device
+  nativeFormats: ScanFormat[]
+}
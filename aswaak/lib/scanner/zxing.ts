@@ -0,0 +1,81 @@
+import { getBoundingBox, toScanFormat } from "./formats"
+import type { ScanFormat, ScannerEngineAdapter } from "./types"
+
+const ZXING_FORMATS: Record<Exclude<ScanFormat, "unknown">, string> = {
+  ean_13: "EAN_13",
+  ean_8: "EAN_8",
+  upc_a: "UPC_A",
+  upc_e: "UPC_E",
+  code_39: "CODE_39",
+  code_128: "CODE_128",
+  qr_code: "QR_CODE",
+  data_matrix: "DATA_MATRIX",
+}
+
+export const zxingAdapter: ScannerEngineAdapter = {
+  id: "zxing",
+  label: "ZXing",
+
+  async isSupported() {
+    return typeof document !== "undefined"
+  },
+
+  async create(formats) {
+    // Dynamically import ZXing so it stays out of the server bundle
+    const ZXing = await import("@zxing/library")
+    const supported = formats.filter((format) => format !== "unknown")
+
+    const hints = new Map()
+    hints.set(
+      ZXing.DecodeHintType.POSSIBLE_FORMATS,
+      supported.map((format) => ZXing.BarcodeFormat[ZXING_FORMATS[format] as keyof typeof ZXing.BarcodeFormat]),
+    )
+
+    // setHints + decodeWithState reuses the readers between frames. MultiFormatReader finds at most
+    // one barcode per frame, so shelf scans are slower with this engine.
+    const reader = new ZXing.MultiFormatReader()
+    reader.setHints(hints)
+
+    return {
+      id: "zxing",
+      label: "ZXing",
+      formats: supported,
+
+      async decode(source) {
+        const luminanceSource = new ZXing.HTMLCanvasElementLuminanceSource(source)
+        const binaryBitmap = new ZXing.BinaryBitmap(new ZXing.HybridBinarizer(luminanceSource))
+
+        try {
+          const result = reader.decodeWithState(binaryBitmap)
+          const points = (result.getResultPoints() || []).map((point) => ({ x: point.getX(), y: point.getY() }))
+
+          return [
+            {
+              code: result.getText(),
+              format: toScanFormat(ZXing.BarcodeFormat[result.getBarcodeFormat()]),
+              confidence: null,
+              box: getBoundingBox(points),
+              edgeError: null,
+              engine: "zxing" as const,
+              timestamp: Date.now(),
+            },
+          ]
+        } catch (error) {
+          // ZXing throws when a frame has no readable barcode
+          if (
+            error instanceof ZXing.NotFoundException ||
+            error instanceof ZXing.ChecksumException ||
+            error instanceof ZXing.FormatException
+          ) {
+            return []
+          }
+          throw error
+        }
+      },
+
+      dispose() {
+        reader.reset()
+      },
+    }
+  },
+}
@@ -0,0 +1,56 @@
+// Caches the app shell so the scanner opens without a connection. Data requests go to Supabase
+// directly and are not cached; offline changes are queued in IndexedDB by the app instead.
+const CACHE_NAME = "aswaak-shell-v1"
+const APP_SHELL = ["/", "/manual", "/search", "/history", "/categories", "/settings", "/manifest.webmanifest"]
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(caches.open(CACHE_NAME).then((cache) => cache.addAll(APP_SHELL)))
+  self.skipWaiting()
+})
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) => Promise.all(keys.filter((key) => key !== CACHE_NAME).map((key) => caches.delete(key))))
+      .then(() => self.clients.claim()),
+  )
+})
+
+const putInCache = (request, response) => {
+  if (response.ok) {
+    const copy = response.clone()
+    caches.open(CACHE_NAME).then((cache) => cache.put(request, copy))
+  }
+  return response
+}
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event
+  const url = new URL(request.url)
+
+  // Only same-origin GETs; API routes always need the network
+  if (request.method !== "GET" || url.origin !== self.location.origin || url.pathname.startsWith("/api/")) return
+
+  // Build assets are content-hashed, so the cached copy never goes stale
+  if (url.pathname.startsWith("/_next/static/")) {
+    event.respondWith(caches.match(request).then((cached) => cached || fetch(request).then((response) => putInCache(request, response))))
+    return
+  }
+
+  // Pages: network first, falling back to the cached page (or the home page) when offline
+  if (request.mode === "navigate") {
+    event.respondWith(
+      fetch(request)
+        .then((response) => putInCache(request, response))
+        .catch(() => caches.match(request, { ignoreSearch: true }).then((cached) => cached || caches.match("/"))),
+    )
+    return
+  }
+
+  event.respondWith(
+    fetch(request)
+      .then((response) => putInCache(request, response))
+      .catch(() => caches.match(request).then((cached) => cached || Response.error())),
+  )
+})
@@ -0,0 +1,69 @@
+import { supabase } from "@/lib/supabase"
+import type { AuditEntityType, AuditLogEntry, ChangeSource } from "@/types/audit-log"
+
+export const CHANGE_SOURCE_LABELS: Record<ChangeSource, string> = {
+  scanner: "Scanner",
+  manual: "Manual edit",
+  batch: "Batch processor",
+  incomplete_products: "Incomplete products",
+  revert: "Revert",
+  system: "System",
+}
+
+export interface AuditLogPage {
+  entries: AuditLogEntry[]
+  total: number
+}
+
+/**
+ * Tag a product or category write with where it came from. The audit trigger reads it from the request
+ * headers; the actor is taken from the session.
+ */
+export function withChangeSource<Q extends { setHeader(name: string, value: string): Q }>(
+  query: Q,
+  source: ChangeSource,
+): Q {
+  return query.setHeader("x-change-source", source)
+}
+
+/**
+ * Changes to a product or category, newest first
+ */
+export async function fetchAuditLog(
+  entityType: AuditEntityType,
+  entityId: string,
+  page = 1,
+  pageSize = 10,
+): Promise<AuditLogPage> {
+  const from = (page - 1) * pageSize
+
+  const { data, error, count } = await supabase
+    .from("audit_log")
+    .select("*", { count: "exact" })
+    .eq("entity_type", entityType)
+    .eq("entity_id", entityId)
+    .order("created_at", { ascending: false })
+    .range(from, from + pageSize - 1)
+
+  if (error) {
+    console.error("Error fetching audit log:", error)
+    throw new Error(`Failed to fetch audit log: ${error.message}`)
+  }
+
+  return { entries: (data || []) as AuditLogEntry[], total: count || 0 }
+}
+
+/**
+ * Put back the old values of one logged update. Fields edited again since are kept;
+ * returns the number of fields restored.
+ */
+export async function revertAuditChange(auditId: string): Promise<number> {
+  const { data, error } = await supabase.rpc("revert_audit_change", { p_audit_id: auditId })
+
+  if (error) {
+    console.error("Error reverting change:", error)
+    throw new Error(`Failed to revert change: ${error.message}`)
+  }
+
+  return data || 0
+}
@@ -1,4 +1,7 @@
 import { supabase, isSupabaseInitialized } from "@/lib/supabase"
+import { getCurrentUserId } from "@/lib/auth"
+import { withChangeSource } from "@/services/audit-service"
+import { productRepository } from "@/services/product-repository"
 import type { Category } from "@/types/product"
 
 // Mock data for when Supabase is not available
@@ -157,7 +160,14 @@ export async function createCategory(name: string): Promise<Category | null> {
   }
 
   try {
-    const { data, error } = await supabase.from("categories").insert({ name: name.trim() }).select().single()
+    const { data, error } = await withChangeSource(
+      supabase
+        .from("categories")
+        .insert({ name: name.trim(), created_by: getCurrentUserId(), updated_by: getCurrentUserId() })
+        .select()
+        .single(),
+      "manual",
+    )
 
     if (error) {
       console.error("Error creating category:", error)
@@ -179,12 +189,15 @@ export async function updateCategory(id: string, name: string): Promise<Category
   }
 
   try {
-    const { data, error } = await supabase
-      .from("categories")
-      .update({ name: name.trim() })
-      .eq("id", id)
-      .select()
-      .single()
+    const { data, error } = await withChangeSource(
+      supabase
+        .from("categories")
+        .update({ name: name.trim(), updated_by: getCurrentUserId(), updated_at: new Date().toISOString() })
+        .eq("id", id)
+        .select()
+        .single(),
+      "manual",
+    )
 
     if (error) {
       console.error("Error updating category:", error)
@@ -207,24 +220,16 @@ export async function deleteCategory(id: string): Promise<boolean> {
 
   try {
     // First check if any products are using this category
-    const { count, error: countError } = await supabase
-      .from("products")
-      .select("*", { count: "exact", head: true })
-      .eq("category_id", id)
-
-    if (countError) {
-      console.error("Error checking products with category:", countError)
-      return false
-    }
+    const count = await productRepository.countByCategory(id)
 
     // If products are using this category, don't delete it
-    if (count && count > 0) {
+    if (count > 0) {
       console.error(`Cannot delete category: ${count} products are using it`)
       return false
     }
 
     // If no products are using it, proceed with deletion
-    const { error } = await supabase.from("categories").delete().eq("id", id)
+    const { error } = await withChangeSource(supabase.from("categories").delete().eq("id", id), "manual")
 
     if (error) {
       console.error("Error deleting category:", error)
@@ -246,17 +251,7 @@ export async function isCategoryInUse(id: string): Promise<boolean> {
   }
 
   try {
-    const { count, error } = await supabase
-      .from("products")
-      .select("*", { count: "exact", head: true })
-      .eq("category_id", id)
-
-    if (error) {
-      console.error("Error checking if category is in use:", error)
-      return false
-    }
-
-    return count !== null && count > 0
+    return (await productRepository.countByCategory(id)) > 0
   } catch (err) {
     console.error("Error in isCategoryInUse:", err)
     return false
@@ -1,5 +1,6 @@
-import { supabase, isSupabaseInitialized, testSupabaseConnection } from "@/lib/supabase"
+import { isSupabaseInitialized, testSupabaseConnection } from "@/lib/supabase"
 import { fetchCategories } from "@/services/category-service"
+import { productRepository } from "@/services/product-repository"
 
 export interface HealthCheckResult {
   name: string
@@ -15,6 +16,9 @@ export interface SystemStatus {
   lastUpdated: string
 }
 
+// Valid EAN-13 that is not assigned to a product, so the API route answers 404
+const API_TEST_BARCODE = "4000000000006"
+
 // Function to check if a URL is reachable
 export async function checkEndpoint(url: string, timeout = 5000): Promise<HealthCheckResult> {
   const startTime = performance.now()
@@ -131,7 +135,7 @@ export async function checkApiRoute(): Promise<HealthCheckResult> {
 
   try {
     // Use a test barcode that should return a 404 - we just want to check if the API route itself works
-    const response = await fetch(`/api/fetch-product?barcode=test-barcode-123`)
+    const response = await fetch(`/api/fetch-product?barcode=${API_TEST_BARCODE}`)
     const responseTime = performance.now() - startTime
 
     // Even a 404 is fine - it means the API route is working
@@ -224,13 +228,13 @@ export async function testBarcode(barcode: string): Promise<{
   try {
     // First check if it exists in the database
     if (isSupabaseInitialized()) {
-      const { data, error } = await supabase.from("products").select("*").eq("barcode", barcode).single()
+      const product = await productRepository.findByBarcode(barcode).catch(() => null)
 
-      if (!error && data) {
+      if (product) {
         return {
           success: true,
           message: "Product found in database",
-          data,
+          data: product,
           source: "database",
         }
       }
@@ -0,0 +1,57 @@
+import { supabase } from "@/lib/supabase"
+import type { ExpiryAlert, ExpiryAlertAction, ExpiryAlertStatus } from "@/types/expiry-alert"
+
+export const DEFAULT_MARKDOWN_PERCENT = 30
+
+/**
+ * Raise alerts for lots (and untracked product stock) inside their expiry notification window:
+ * a markdown at `markdownPercent` off before the expiry date, a write-off after it.
+ * Safe to run repeatedly; returns the number of new alerts.
+ */
+export async function generateExpiryAlerts(markdownPercent = DEFAULT_MARKDOWN_PERCENT): Promise<number> {
+  const { data, error } = await supabase.rpc("generate_expiry_alerts", { p_markdown_percent: markdownPercent })
+
+  if (error) {
+    console.error("Error generating expiry alerts:", error)
+    throw new Error(`Failed to generate expiry alerts: ${error.message}`)
+  }
+
+  return data || 0
+}
+
+export async function fetchExpiryAlerts(status: ExpiryAlertStatus = "open"): Promise<ExpiryAlert[]> {
+  const { data, error } = await supabase
+    .from("expiry_alerts")
+    .select("*, product:products(*), lot:stock_lots(*)")
+    .eq("status", status)
+    .order("expiry_date", { ascending: true })
+
+  if (error) {
+    console.error("Error fetching expiry alerts:", error)
+    throw new Error(`Failed to fetch expiry alerts: ${error.message}`)
+  }
+
+  return (data || []) as ExpiryAlert[]
+}
+
+/**
+ * Mark the product down (to `price`, or the suggested price), write the lot off as expired stock, or dismiss the alert
+ */
+export async function resolveExpiryAlert(
+  alertId: string,
+  action: ExpiryAlertAction,
+  price?: number | null,
+): Promise<ExpiryAlert> {
+  const { data, error } = await supabase.rpc("resolve_expiry_alert", {
+    p_alert_id: alertId,
+    p_action: action,
+    p_price: price ?? null,
+  })
+
+  if (error) {
+    console.error("Error resolving expiry alert:", error)
+    throw new Error(`Failed to resolve expiry alert: ${error.message}`)
+  }
+
+  return data as ExpiryAlert
+}
@@ -0,0 +1,166 @@
+import type { SupabaseClient } from "@supabase/supabase-js"
+import { supabase } from "@/lib/supabase"
+import { getBarcodeVariants } from "@/lib/barcode"
+import { withChangeSource } from "@/services/audit-service"
+import { DEFAULT_EXPIRY_NOTIFICATION_DAYS, getDaysUntilExpiry } from "@/services/stock-lot-service"
+import type { ChangeSource } from "@/types/audit-log"
+import type { Category, Product } from "@/types/product"
+import type { Database } from "@/types/supabase"
+
+export type ProductRow = Database["public"]["Tables"]["products"]["Row"]
+export type ProductInsert = Database["public"]["Tables"]["products"]["Insert"]
+export type ProductUpdate = Database["public"]["Tables"]["products"]["Update"]
+
+type CategoryRow = Database["public"]["Tables"]["categories"]["Row"]
+
+export interface ProductListOptions {
+  categoryId?: string
+  // Only products that were registered without a name
+  missingName?: boolean
+}
+
+/**
+ * All reads and writes of the products table. Writes are tagged with their source for the audit log.
+ */
+export interface ProductRepository {
+  findById(id: string): Promise<Product | null>
+  // Matches every form the barcode may have been stored in
+  findByBarcode(barcode: string): Promise<Product | null>
+  // Exact barcode matches first, then partial name matches
+  search(query: string, limit?: number): Promise<Product[]>
+  // Newest first
+  list(options?: ProductListOptions): Promise<Product[]>
+  countByCategory(categoryId: string): Promise<number>
+  create(product: ProductInsert, source: ChangeSource): Promise<Product>
+  update(id: string, changes: ProductUpdate, source: ChangeSource): Promise<Product>
+}
+
+const PRODUCT_SELECT = "*, category:categories(*)"
+
+type ProductRecord = ProductRow & { category?: CategoryRow | null }
+
+/**
+ * Convert a products row to a Product, with the flags screens show
+ */
+export function toProduct(row: ProductRecord): Product {
+  const notificationDays = row.expiry_notification_days ?? DEFAULT_EXPIRY_NOTIFICATION_DAYS
+
+  return {
+    ...row,
+    category: (row.category ?? null) as Category | null,
+    isLowStock: row.stock <= row.min_stock,
+    isExpiringSoon: !!row.expiry_date && getDaysUntilExpiry(row.expiry_date) <= notificationDays,
+  } as Product
+}
+
+/**
+ * A product repository on the given client. Server code passes its own client; the browser uses `productRepository`.
+ */
+export function createProductRepository(client: SupabaseClient<Database>): ProductRepository {
+  const findById = async (id: string) => {
+    const { data, error } = await client.from("products").select(PRODUCT_SELECT).eq("id", id).maybeSingle()
+
+    if (error) {
+      console.error("Error fetching product:", error)
+      throw new Error(`Failed to fetch product: ${error.message}`)
+    }
+
+    return data ? toProduct(data as ProductRecord) : null
+  }
+
+  const findByBarcode = async (barcode: string) => {
+    const { data, error } = await client
+      .from("products")
+      .select(PRODUCT_SELECT)
+      .in("barcode", getBarcodeVariants(barcode))
+      .limit(1)
+
+    if (error) {
+      console.error("Error fetching product by barcode:", error)
+      throw new Error(`Failed to fetch product: ${error.message}`)
+    }
+
+    return data && data.length > 0 ? toProduct(data[0] as ProductRecord) : null
+  }
+
+  const search = async (query: string, limit = 10) => {
+    const term = query.trim()
+    const [byBarcode, byName] = await Promise.all([
+      client.from("products").select(PRODUCT_SELECT).in("barcode", getBarcodeVariants(term)).limit(1),
+      client.from("products").select(PRODUCT_SELECT).ilike("name", `%${term}%`).order("name").limit(limit),
+    ])
+
+    const error = byBarcode.error || byName.error
+    if (error) {
+      console.error("Error searching products:", error)
+      throw new Error(`Failed to search products: ${error.message}`)
+    }
+
+    const results = ((byBarcode.data || []) as ProductRecord[]).map(toProduct)
+    ;((byName.data || []) as ProductRecord[]).forEach((row) => {
+      if (!results.some((product) => product.id === row.id)) results.push(toProduct(row))
+    })
+    return results
+  }
+
+  const list = async (options: ProductListOptions = {}) => {
+    let query = client.from("products").select(PRODUCT_SELECT)
+    if (options.categoryId) query = query.eq("category_id", options.categoryId)
+    if (options.missingName) query = query.is("name", null)
+
+    const { data, error } = await query.order("created_at", { ascending: false })
+
+    if (error) {
+      console.error("Error fetching products:", error)
+      throw new Error(`Failed to fetch products: ${error.message}`)
+    }
+
+    return ((data || []) as ProductRecord[]).map(toProduct)
+  }
+
+  const countByCategory = async (categoryId: string) => {
+    const { count, error } = await client
+      .from("products")
+      .select("*", { count: "exact", head: true })
+      .eq("category_id", categoryId)
+
+    if (error) {
+      console.error("Error counting products in category:", error)
+      throw new Error(`Failed to count products: ${error.message}`)
+    }
+
+    return count || 0
+  }
+
+  const create = async (product: ProductInsert, source: ChangeSource) => {
+    const { data, error } = await withChangeSource(
+      client.from("products").insert(product).select(PRODUCT_SELECT).single(),
+      source,
+    )
+
+    if (error) {
+      console.error("Error creating product:", error)
+      throw new Error(`Failed to create product: ${error.message}`)
+    }
+
+    return toProduct(data as ProductRecord)
+  }
+
+  const update = async (id: string, changes: ProductUpdate, source: ChangeSource) => {
+    const { data, error } = await withChangeSource(
+      client.from("products").update(changes).eq("id", id).select(PRODUCT_SELECT).single(),
+      source,
+    )
+
+    if (error) {
+      console.error("Error updating product:", error)
+      throw new Error(`Failed to update product: ${error.message}`)
+    }
+
+    return toProduct(data as ProductRecord)
+  }
+
+  return { findById, findByBarcode, search, list, countByCategory, create, update }
+}
+
+export const productRepository = createProductRepository(supabase)
@@ -1,44 +1,27 @@
-import { createClient } from "@supabase/supabase-js"
-import type { Product } from "@/types/product"
-
-// Initialize Supabase client with better error handling
-const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL
-const supabaseKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY
-
-// Check if the required environment variables are set
-if (!supabaseUrl) {
-  console.error("NEXT_PUBLIC_SUPABASE_URL is not set")
-}
-
-if (!supabaseKey) {
-  console.error("NEXT_PUBLIC_SUPABASE_ANON_KEY is not set")
-}
-
-// Create a function to get the Supabase client
-// This allows us to handle the case where the environment variables are not set
-const getSupabaseClient = () => {
-  if (!supabaseUrl || !supabaseKey) {
-    throw new Error("Supabase URL and Key are required. Please check your environment variables.")
-  }
-
-  return createClient(supabaseUrl, supabaseKey)
-}
+import {
+  decodeVariableMeasureBarcode,
+  normalizeBarcode,
+  type VariableMeasureReading,
+  type VariableMeasureRule,
+} from "@/lib/barcode"
+import { isSupabaseInitialized } from "@/lib/supabase"
+import { getCurrentUserId } from "@/lib/auth"
+import { productRepository } from "@/services/product-repository"
+import { setProductExpiry } from "@/services/stock-lot-service"
+import { applyStockMovement, reconcileStockLedger } from "@/services/stock-service"
+import type { ChangeSource } from "@/types/audit-log"
+import type { LoadedProductValues, Product } from "@/types/product"
+import type { Json } from "@/types/supabase"
+
+// Prices are stored as entered
+const toPriceString = (price: string | number | undefined) => (typeof price === "number" ? price.toString() : price || "")
 
 /**
  * Fetch a product by its barcode
  */
 export async function fetchProductByBarcode(barcode: string): Promise<Product | null> {
   try {
-    const supabase = getSupabaseClient()
-
-    const { data, error } = await supabase.from("products").select("*").eq("barcode", barcode).single()
-
-    if (error) {
-      console.error("Error fetching product by barcode:", error)
-      return null
-    }
-
-    return data
+    return await productRepository.findByBarcode(barcode)
   } catch (error) {
     console.error("Error in fetchProductByBarcode:", error)
     return null
@@ -46,75 +29,105 @@ export async function fetchProductByBarcode(barcode: string): Promise<Product |
 }
 
 /**
- * Save a product to the database
+ * Fetch a product by its ID
  */
-export async function saveProduct(product: Product): Promise<Product> {
+export async function fetchProductById(id: string): Promise<Product | null> {
+  try {
+    return await productRepository.findById(id)
+  } catch (error) {
+    console.error("Error in fetchProductById:", error)
+    return null
+  }
+}
+
+/**
+ * Look up a scanned barcode. In-store weight/price labels resolve to the base product registered
+ * under the label's PLU, and the embedded measure is returned alongside it.
+ */
+export async function fetchProductByScannedBarcode(
+  barcode: string,
+  rules?: VariableMeasureRule[],
+): Promise<{ product: Product | null; measure: VariableMeasureReading | null }> {
+  const measure = decodeVariableMeasureBarcode(barcode, rules)
+  if (measure) {
+    console.log(`Variable measure label for PLU ${measure.plu}, looking up base barcode ${measure.baseBarcode}`)
+  }
+
+  const product = await fetchProductByBarcode(measure ? measure.baseBarcode : barcode)
+  return { product, measure }
+}
+
+/**
+ * Save a product to the database. `source` is recorded in the audit log.
+ * `loaded` holds the values the edit form started from. A stock change is posted to the stock ledger as the
+ * difference, and an expiry change is applied to the stock lots. Without it stock and expiry are left alone.
+ */
+export async function saveProduct(
+  product: Product,
+  source: ChangeSource = "manual",
+  loaded?: LoadedProductValues,
+): Promise<Product> {
   try {
     // Check if the product has a valid ID before updating
     if (!product.id) {
       throw new Error("Product ID is required for updating")
     }
 
-    const supabase = getSupabaseClient()
-
-    // Convert price and purchase_price to strings if they are numbers
-    const priceAsString = typeof product.price === "number" ? product.price.toString() : product.price || ""
-
-    const purchasePriceAsString =
-      typeof product.purchase_price === "number" ? product.purchase_price.toString() : product.purchase_price || ""
-
-    const { data, error } = await supabase
-      .from("products")
-      .update({
+    const data = await productRepository.update(
+      product.id,
+      {
         name: product.name,
-        barcode: product.barcode,
+        barcode: product.barcode && normalizeBarcode(product.barcode),
         description: product.description || null,
-        price: priceAsString,
-        purchase_price: purchasePriceAsString,
-        stock: product.stock,
+        price: toPriceString(product.price),
+        purchase_price: toPriceString(product.purchase_price),
         min_stock: product.min_stock,
         image: product.image,
         category_id: product.category_id,
         quantity: product.quantity,
+        lot_number: product.lot_number || null,
         expiry_notification_days: product.expiry_notification_days,
         data_source: product.data_source,
+        data_source_fields: (product.data_source_fields as Json) || null,
+        updated_by: getCurrentUserId() || "system",
         updated_at: new Date().toISOString(),
+      },
+      source,
+    )
+
+    // Stock edits go through the ledger as a delta, so movements posted since the form loaded are kept.
+    // Added stock goes into the lot on the form.
+    const stockDelta =
+      typeof loaded?.stock === "number" && typeof product.stock === "number" ? product.stock - loaded.stock : 0
+    if (stockDelta !== 0) {
+      await applyStockMovement({
+        productId: product.id,
+        delta: stockDelta,
+        reason: "adjustment",
+        reference: "product edit",
+        lotNumber: product.lot_number,
+        expiryDate: product.expiry_date,
       })
-      .eq("id", product.id)
-      .select()
-      .single()
+    }
 
-    if (error) {
-      throw new Error(`Failed to update product: ${error.message}`)
+    // Expiry dates belong to the stock lots and products.expiry_date follows them
+    const expiryChanged = !!loaded && (product.expiry_date || null) !== (loaded.expiry_date || null)
+    if (expiryChanged) {
+      await setProductExpiry(product.id, product.expiry_date || null, product.lot_number)
     }
 
-    return data
+    // Both change the stock and expiry date the update returned
+    return stockDelta !== 0 || expiryChanged ? (await productRepository.findById(product.id)) || data : data
   } catch (error) {
     console.error("Error in saveProduct:", error)
     throw error
   }
 }
 
-// Helper function to check if Supabase is initialized
-const isSupabaseInitialized = () => {
-  return supabaseUrl !== undefined && supabaseKey !== undefined
-}
-
-const checkIfExpiringSoon = (expiryDate: string, expiryNotificationDays: number): boolean => {
-  const expiry = new Date(expiryDate)
-  const now = new Date()
-  const timeDiff = expiry.getTime() - now.getTime()
-  const dayDiff = timeDiff / (1000 * 3600 * 24)
-
-  return dayDiff <= expiryNotificationDays
-}
-
-const supabase = getSupabaseClient()
-
 /**
- * Create a new product in the database
+ * Create a new product in the database. `source` is recorded in the audit log.
  */
-export async function createProduct(product: Product): Promise<Product> {
+export async function createProduct(product: Product, source: ChangeSource = "manual"): Promise<Product> {
   try {
     if (!isSupabaseInitialized()) {
       console.warn("Supabase client not available. Using mock data.")
@@ -123,69 +136,42 @@ export async function createProduct(product: Product): Promise<Product> {
 
     console.log("Creating new product:", product)
 
-    // Prepare the data for Supabase - only include fields that exist in the database schema
-    const insertData = {
-      name: product.name,
-      barcode: product.barcode,
-      description: product.description || null,
-      price: typeof product.price === "number" ? product.price.toString() : product.price || "",
-      stock: product.stock || 0,
-      min_stock: product.min_stock || 0,
-      image: product.image,
-      category_id: product.category_id,
-      purchase_price:
-        typeof product.purchase_price === "number" ? product.purchase_price.toString() : product.purchase_price || "",
-      expiry_date: product.expiry_date,
-      expiry_notification_days: product.expiry_notification_days || 30,
-      data_source: product.data_source,
-      created_by: product.created_by || "system",
-      updated_by: product.updated_by || "system",
-      created_at: new Date().toISOString(),
-      updated_at: new Date().toISOString(),
-    }
-
-    console.log("Inserting product with data:", insertData)
-
-    // Insert the product
-    const { data, error } = await supabase.from("products").insert(insertData).select().single()
-
-    if (error) {
-      console.error("Error creating product:", error)
-      throw new Error(`Failed to create product: ${error.message}`)
-    }
-
-    if (!data) {
-      throw new Error("No data returned after creating product")
-    }
+    const data = await productRepository.create(
+      {
+        name: product.name,
+        barcode: product.barcode && normalizeBarcode(product.barcode),
+        description: product.description || null,
+        price: toPriceString(product.price),
+        stock: product.stock || 0,
+        min_stock: product.min_stock || 0,
+        image: product.image,
+        category_id: product.category_id,
+        purchase_price: toPriceString(product.purchase_price),
+        expiry_date: product.expiry_date,
+        lot_number: product.lot_number || null,
+        expiry_notification_days: product.expiry_notification_days || 30,
+        data_source: product.data_source,
+        data_source_fields: (product.data_source_fields as Json) || null,
+        created_by: getCurrentUserId() || product.created_by || "system",
+        updated_by: getCurrentUserId() || product.updated_by || "system",
+        created_at: new Date().toISOString(),
+        updated_at: new Date().toISOString(),
+      },
+      source,
+    )
 
     console.log("Product created successfully:", data)
 
-    // Fetch the category separately if needed
-    let categoryData = null
-    if (data.category_id) {
-      const { data: categoryResult, error: categoryError } = await supabase
-        .from("categories")
-        .select("id, name")
-        .eq("id", data.category_id)
-        .single()
-
-      if (!categoryError && categoryResult) {
-        categoryData = categoryResult
+    // Record the initial stock in the ledger
+    if (data.id && data.stock) {
+      try {
+        await reconcileStockLedger(data.id, "opening stock")
+      } catch (ledgerError) {
+        console.error("Error recording opening stock:", ledgerError)
       }
     }
 
-    // Transform the data to match our Product interface
-    const createdProduct = {
-      ...data,
-      category: categoryData,
-      isLowStock:
-        typeof data.stock === "number" && typeof data.min_stock === "number" ? data.stock <= data.min_stock : false,
-      isExpiringSoon: data.expiry_date
-        ? checkIfExpiringSoon(data.expiry_date, data.expiry_notification_days || 30)
-        : false,
-    } as Product
-
-    return createdProduct
+    return data
   } catch (error) {
     console.error("Error in createProduct:", error)
     throw error
@@ -197,20 +183,7 @@ export async function createProduct(product: Product): Promise<Product> {
  */
 export async function getProductsMissingInfo(): Promise<Product[]> {
   try {
-    const supabase = getSupabaseClient()
-
-    const { data, error } = await supabase
-      .from("products")
-      .select("*")
-      .is("name", null)
-      .order("created_at", { ascending: false })
-
-    if (error) {
-      console.error("Error fetching products missing info:", error)
-      return []
-    }
-
-    return data || []
+    return await productRepository.list({ missingName: true })
   } catch (error) {
     console.error("Error in getProductsMissingInfo:", error)
     return []
@@ -222,19 +195,9 @@ export async function getProductsMissingInfo(): Promise<Product[]> {
  */
 export async function getAllProducts(): Promise<Product[]> {
   try {
-    const supabase = getSupabaseClient()
-
-    const { data, error } = await supabase.from("products").select("*").order("created_at", { ascending: false })
-
-    if (error) {
-      console.error("Error fetching all products:", error)
-      return []
-    }
-
-    return data || []
+    return await productRepository.list()
   } catch (error) {
     console.error("Error in getAllProducts:", error)
     return []
   }
 }
-
@@ -0,0 +1,134 @@
+import { supabase } from "@/lib/supabase"
+import { getCurrentUserId } from "@/lib/auth"
+import type {
+  CostingMethod,
+  PurchaseOrder,
+  PurchaseOrderStatus,
+  ReceivedItem,
+} from "@/types/purchase-order"
+
+export interface PurchaseOrderInput {
+  supplierId: string
+  reference: string
+  expectedDate?: string | null
+  notes?: string | null
+  // Drafts are reviewed before being sent; defaults to "ordered"
+  status?: Extract<PurchaseOrderStatus, "draft" | "ordered">
+  lines: { productId: string; quantity: number; unitCost: number }[]
+}
+
+export async function fetchPurchaseOrders(): Promise<PurchaseOrder[]> {
+  const { data, error } = await supabase
+    .from("purchase_orders")
+    .select("*, supplier:suppliers(*)")
+    .order("created_at", { ascending: false })
+
+  if (error) {
+    console.error("Error fetching purchase orders:", error)
+    throw new Error(`Failed to fetch purchase orders: ${error.message}`)
+  }
+
+  return (data || []) as PurchaseOrder[]
+}
+
+/**
+ * A purchase order with its supplier and lines (and each line's product)
+ */
+export async function fetchPurchaseOrder(id: string): Promise<PurchaseOrder | null> {
+  const { data, error } = await supabase
+    .from("purchase_orders")
+    .select("*, supplier:suppliers(*), lines:purchase_order_lines(*, product:products(*))")
+    .eq("id", id)
+    .maybeSingle()
+
+  if (error) {
+    console.error("Error fetching purchase order:", error)
+    throw new Error(`Failed to fetch purchase order: ${error.message}`)
+  }
+
+  return data as PurchaseOrder | null
+}
+
+export async function createPurchaseOrder(order: PurchaseOrderInput): Promise<PurchaseOrder> {
+  const { data, error } = await supabase
+    .from("purchase_orders")
+    .insert({
+      supplier_id: order.supplierId,
+      reference: order.reference.trim(),
+      expected_date: order.expectedDate || null,
+      notes: order.notes || null,
+      status: order.status || "ordered",
+      created_by: getCurrentUserId(),
+    })
+    .select()
+    .single()
+
+  if (error) {
+    console.error("Error creating purchase order:", error)
+    throw new Error(`Failed to create purchase order: ${error.message}`)
+  }
+
+  if (order.lines.length > 0) {
+    const { error: linesError } = await supabase.from("purchase_order_lines").insert(
+      order.lines.map((line) => ({
+        purchase_order_id: data.id,
+        product_id: line.productId,
+        quantity: line.quantity,
+        unit_cost: line.unitCost,
+      })),
+    )
+
+    if (linesError) {
+      console.error("Error creating purchase order lines:", linesError)
+      // Don't leave an order without its lines behind
+      await supabase.from("purchase_orders").delete().eq("id", data.id)
+      throw new Error(`Failed to create purchase order lines: ${linesError.message}`)
+    }
+  }
+
+  return data as PurchaseOrder
+}
+
+export async function updatePurchaseOrderStatus(
+  id: string,
+  status: Extract<PurchaseOrderStatus, "draft" | "ordered" | "cancelled">,
+): Promise<void> {
+  const { error } = await supabase
+    .from("purchase_orders")
+    .update({ status, updated_at: new Date().toISOString() })
+    .eq("id", id)
+
+  if (error) {
+    console.error("Error updating purchase order:", error)
+    throw new Error(`Failed to update purchase order: ${error.message}`)
+  }
+}
+
+/**
+ * Post a delivery: adds the received quantities to stock (as lots when a lot number or expiry date is given)
+ * and updates each product's purchase price with the given costing method. Returns the updated order.
+ */
+export async function receivePurchaseOrder(
+  orderId: string,
+  items: ReceivedItem[],
+  costing: CostingMethod,
+): Promise<PurchaseOrder> {
+  const { data, error } = await supabase.rpc("receive_purchase_order", {
+    p_order_id: orderId,
+    p_items: items.map((item) => ({
+      product_id: item.productId,
+      quantity: item.quantity,
+      unit_cost: item.unitCost ?? null,
+      lot_number: item.lotNumber || null,
+      expiry_date: item.expiryDate || null,
+    })),
+    p_costing: costing,
+  })
+
+  if (error) {
+    console.error("Error receiving purchase order:", error)
+    throw new Error(`Failed to receive purchase order: ${error.message}`)
+  }
+
+  return data as PurchaseOrder
+}
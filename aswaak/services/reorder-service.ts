@@ -0,0 +1,100 @@
+import { supabase } from "@/lib/supabase"
+import { getAllProducts } from "@/services/product-service"
+import { fetchProductSuppliers, getSupplierUnitCost, selectProductSupplier } from "@/services/supplier-service"
+import type { Product } from "@/types/product"
+import type { ReorderGroup, ReorderOptions, ReorderSuggestion } from "@/types/reorder"
+
+const parseCost = (value: Product["purchase_price"]) => Number.parseFloat(String(value ?? "").replace(",", ".")) || 0
+
+/**
+ * Units sold or wasted per product over the last `days` days
+ */
+export async function fetchStockConsumption(days: number): Promise<Map<string, number>> {
+  const { data, error } = await supabase.rpc("stock_consumption", { p_days: days })
+
+  if (error) {
+    console.error("Error fetching stock consumption:", error)
+    throw new Error(`Failed to fetch stock consumption: ${error.message}`)
+  }
+
+  const consumption = new Map<string, number>()
+  ;((data || []) as { product_id: string; consumed: number }[]).forEach((row) => consumption.set(row.product_id, Number(row.consumed) || 0))
+  return consumption
+}
+
+/**
+ * Suggest an order for a product, or null when its stock covers the supplier's lead time.
+ *
+ * The reorder point is min_stock plus the consumption expected during the lead time. Below it,
+ * the suggestion tops the stock up to min_stock plus the consumption over the lead time and
+ * `coverDays`, rounded up to whole packs.
+ */
+export function calculateReorderSuggestion(
+  product: Product,
+  supplier: ReorderSuggestion["supplier"],
+  dailyConsumption: number,
+  coverDays: number,
+): ReorderSuggestion | null {
+  const stock = product.stock || 0
+  const minStock = product.min_stock || 0
+  const leadTimeDays = supplier?.lead_time_days || 0
+  const packSize = supplier?.pack_size || 1
+
+  const reorderPoint = minStock + dailyConsumption * leadTimeDays
+  // Products that don't sell and have no minimum are never reordered
+  if (stock > reorderPoint || (minStock === 0 && dailyConsumption === 0)) return null
+
+  const target = minStock + dailyConsumption * (leadTimeDays + coverDays)
+  const packs = Math.max(1, Math.ceil((target - stock) / packSize))
+
+  return {
+    product,
+    supplier,
+    stock,
+    minStock,
+    dailyConsumption,
+    leadTimeDays,
+    packSize,
+    reorderPoint,
+    quantity: packs * packSize,
+    unitCost: supplier ? getSupplierUnitCost(supplier) : parseCost(product.purchase_price),
+  }
+}
+
+/**
+ * Draft reorder list for every product at or below its reorder point, grouped by supplier.
+ * Products without a supplier are grouped last under a null supplier.
+ */
+export async function generateReorderList({ lookbackDays, coverDays }: ReorderOptions): Promise<ReorderGroup[]> {
+  const [products, consumption, entries] = await Promise.all([
+    getAllProducts(),
+    fetchStockConsumption(lookbackDays),
+    fetchProductSuppliers(),
+  ])
+
+  const suggestions: ReorderSuggestion[] = []
+  products.forEach((product) => {
+    if (!product.id) return
+
+    const supplier = selectProductSupplier(entries.filter((entry) => entry.product_id === product.id))
+    const dailyConsumption = (consumption.get(product.id) || 0) / Math.max(lookbackDays, 1)
+    const suggestion = calculateReorderSuggestion(product, supplier, dailyConsumption, coverDays)
+    if (suggestion) suggestions.push(suggestion)
+  })
+
+  const groups = new Map<string, ReorderGroup>()
+  suggestions.forEach((suggestion) => {
+    const key = suggestion.supplier?.supplier_id || ""
+    const group = groups.get(key) || { supplier: suggestion.supplier?.supplier || null, suggestions: [] }
+    group.suggestions.push(suggestion)
+    groups.set(key, group)
+  })
+
+  const result: ReorderGroup[] = []
+  groups.forEach((group) => result.push(group))
+  return result.sort((a, b) => {
+    if (!a.supplier) return 1
+    if (!b.supplier) return -1
+    return a.supplier.name.localeCompare(b.supplier.name)
+  })
+}
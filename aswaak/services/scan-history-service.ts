@@ -0,0 +1,144 @@
+import { supabase, isSupabaseInitialized } from "@/lib/supabase"
+import { getCurrentUserId } from "@/lib/auth"
+import type { Product } from "@/types/product"
+import type { ScanEvent, ScanEventResult } from "@/types/scan-event"
+
+const DEVICE_ID_KEY = "deviceId"
+
+export const SCAN_RESULT_LABELS: Record<ScanEventResult, string> = {
+  found: "Found in database",
+  web: "Fetched from web",
+  not_found: "Not found",
+  saved: "Saved",
+}
+
+export interface ScanHistoryQuery {
+  page: number
+  pageSize: number
+  search?: string
+  result?: ScanEventResult | "all"
+  deviceId?: string
+  // Only events at or after this ISO date
+  since?: string
+  sortField?: "created_at" | "product_name" | "barcode"
+  sortDirection?: "asc" | "desc"
+}
+
+export interface ScanHistoryPage {
+  events: ScanEvent[]
+  total: number
+}
+
+/**
+ * Identifier of this browser, generated on first use
+ */
+export function getDeviceId(): string {
+  let deviceId = localStorage.getItem(DEVICE_ID_KEY)
+  if (!deviceId) {
+    deviceId = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`
+    localStorage.setItem(DEVICE_ID_KEY, deviceId)
+  }
+  return deviceId
+}
+
+/**
+ * Record a scan. Failures are logged and never interrupt scanning.
+ */
+export async function recordScanEvent(event: {
+  barcode: string
+  result: ScanEventResult
+  product?: Product | null
+  // When the scan happened, for scans replayed from the offline queue
+  scannedAt?: string
+}): Promise<void> {
+  if (!isSupabaseInitialized()) return
+
+  try {
+    const { error } = await supabase.from("scan_events").insert({
+      barcode: event.barcode,
+      result: event.result,
+      product_id: event.product?.id || null,
+      product_name: event.product?.name || null,
+      device_id: getDeviceId(),
+      user_agent: navigator.userAgent,
+      user_id: getCurrentUserId(),
+      created_at: event.scannedAt || new Date().toISOString(),
+    })
+
+    if (error) {
+      console.error("Error recording scan event:", error)
+    }
+  } catch (error) {
+    console.error("Error in recordScanEvent:", error)
+  }
+}
+
+/**
+ * One page of scan events, filtered and sorted on the server
+ */
+export async function fetchScanEvents(query: ScanHistoryQuery): Promise<ScanHistoryPage> {
+  const from = (query.page - 1) * query.pageSize
+
+  let request = supabase
+    .from("scan_events")
+    .select("*, product:products(*)", { count: "exact" })
+    .order(query.sortField || "created_at", { ascending: query.sortDirection === "asc" })
+    .range(from, from + query.pageSize - 1)
+
+  const search = query.search?.trim().replace(/[,()]/g, "")
+  if (search) {
+    request = request.or(`barcode.ilike.%${search}%,product_name.ilike.%${search}%`)
+  }
+  if (query.result && query.result !== "all") {
+    request = request.eq("result", query.result)
+  }
+  if (query.deviceId) {
+    request = request.eq("device_id", query.deviceId)
+  }
+  if (query.since) {
+    request = request.gte("created_at", query.since)
+  }
+
+  const { data, error, count } = await request
+
+  if (error) {
+    console.error("Error fetching scan history:", error)
+    throw new Error(`Failed to fetch scan history: ${error.message}`)
+  }
+
+  return { events: (data || []) as ScanEvent[], total: count || 0 }
+}
+
+/**
+ * The most recent scans, for dashboards
+ */
+export async function fetchRecentScanEvents(limit = 5): Promise<ScanEvent[]> {
+  try {
+    const { events } = await fetchScanEvents({ page: 1, pageSize: limit })
+    return events
+  } catch (error) {
+    console.error("Error in fetchRecentScanEvents:", error)
+    return []
+  }
+}
+
+export async function deleteScanEvent(id: string): Promise<void> {
+  const { error } = await supabase.from("scan_events").delete().eq("id", id)
+
+  if (error) {
+    console.error("Error deleting scan event:", error)
+    throw new Error(`Failed to delete scan event: ${error.message}`)
+  }
+}
+
+/**
+ * Delete every scan recorded on a device
+ */
+export async function clearScanEvents(deviceId: string): Promise<void> {
+  const { error } = await supabase.from("scan_events").delete().eq("device_id", deviceId)
+
+  if (error) {
+    console.error("Error clearing scan history:", error)
+    throw new Error(`Failed to clear scan history: ${error.message}`)
+  }
+}
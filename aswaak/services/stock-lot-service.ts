@@ -0,0 +1,85 @@
+import { supabase } from "@/lib/supabase"
+import type { ExpiringStockLot, StockLot } from "@/types/stock-lot"
+
+// Products without their own notification window are flagged this many days before expiry
+export const DEFAULT_EXPIRY_NOTIFICATION_DAYS = 30
+
+/**
+ * Days until a lot expires, negative once it has expired
+ */
+export function getDaysUntilExpiry(expiryDate: string): number {
+  const today = new Date()
+  today.setHours(0, 0, 0, 0)
+  const expiry = new Date(`${expiryDate.slice(0, 10)}T00:00:00`)
+  return Math.round((expiry.getTime() - today.getTime()) / (1000 * 3600 * 24))
+}
+
+export function isLotExpiringSoon(
+  lot: Pick<StockLot, "expiry_date">,
+  notificationDays = DEFAULT_EXPIRY_NOTIFICATION_DAYS,
+): boolean {
+  return !!lot.expiry_date && getDaysUntilExpiry(lot.expiry_date) <= notificationDays
+}
+
+/**
+ * A product's lots that are still in stock, in the order they are consumed (first expiry first out)
+ */
+export async function fetchStockLots(
+  productId: string,
+  notificationDays = DEFAULT_EXPIRY_NOTIFICATION_DAYS,
+): Promise<StockLot[]> {
+  const { data, error } = await supabase
+    .from("stock_lots")
+    .select("*")
+    .eq("product_id", productId)
+    .gt("quantity", 0)
+    .order("expiry_date", { ascending: true, nullsFirst: false })
+    .order("received_at", { ascending: true })
+
+  if (error) {
+    console.error("Error fetching stock lots:", error)
+    throw new Error(`Failed to fetch stock lots: ${error.message}`)
+  }
+
+  return ((data || []) as StockLot[]).map((lot) => ({ ...lot, isExpiringSoon: isLotExpiringSoon(lot, notificationDays) }))
+}
+
+/**
+ * Apply an expiry date entered on a product to its stock on hand: the lot with the given lot number, or every lot
+ * in stock when none has it. Returns the product's expiry date afterwards, the earliest one still in stock.
+ */
+export async function setProductExpiry(
+  productId: string,
+  expiryDate: string | null,
+  lotNumber?: string | null,
+): Promise<string | null> {
+  const { data, error } = await supabase.rpc("set_product_expiry", {
+    p_product_id: productId,
+    p_expiry_date: expiryDate,
+    p_lot_number: lotNumber || null,
+  })
+
+  if (error) {
+    console.error("Error setting product expiry:", error)
+    throw new Error(`Failed to set expiry date: ${error.message}`)
+  }
+
+  return data
+}
+
+/**
+ * Lots in stock that have expired or expire within their product's notification window, soonest first
+ */
+export async function fetchExpiringLots(): Promise<ExpiringStockLot[]> {
+  const { data, error } = await supabase
+    .from("expiring_stock_lots")
+    .select("*, product:products(*)")
+    .order("expiry_date", { ascending: true })
+
+  if (error) {
+    console.error("Error fetching expiring lots:", error)
+    throw new Error(`Failed to fetch expiring lots: ${error.message}`)
+  }
+
+  return ((data || []) as ExpiringStockLot[]).map((lot) => ({ ...lot, isExpiringSoon: true }))
+}
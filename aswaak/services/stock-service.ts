@@ -0,0 +1,132 @@
+import { supabase } from "@/lib/supabase"
+import type { StockLedgerBalance, StockMovement, StockMovementReason } from "@/types/stock-movement"
+
+export const STOCK_MOVEMENT_REASON_LABELS: Record<StockMovementReason, string> = {
+  purchase: "Purchase",
+  sale: "Sale",
+  waste: "Waste",
+  adjustment: "Adjustment",
+  count: "Stock count",
+  expired: "Expired",
+}
+
+export interface StockMovementInput {
+  productId: string
+  delta: number
+  reason: StockMovementReason
+  reference?: string | null
+  note?: string | null
+  // Lot that incoming stock belongs to; outgoing stock is taken from the lots that expire first
+  lotNumber?: string | null
+  expiryDate?: string | null
+}
+
+export interface StockMovementPage {
+  movements: StockMovement[]
+  total: number
+}
+
+/**
+ * Add (positive delta) or remove (negative delta) stock. The change, its ledger entry and the stock lots
+ * are updated atomically on the server, so concurrent adjustments never overwrite each other.
+ */
+export async function applyStockMovement(movement: StockMovementInput): Promise<StockMovement> {
+  const { data, error } = await supabase.rpc("apply_stock_movement", {
+    p_product_id: movement.productId,
+    p_delta: movement.delta,
+    p_reason: movement.reason,
+    p_reference: movement.reference || null,
+    p_note: movement.note || null,
+    p_lot_number: movement.lotNumber || null,
+    p_expiry_date: movement.expiryDate || null,
+  })
+
+  if (error) {
+    console.error("Error applying stock movement:", error)
+    throw new Error(`Failed to apply stock movement: ${error.message}`)
+  }
+
+  return data as StockMovement
+}
+
+/**
+ * Set the stock to an absolute level, posting the difference as a movement.
+ * Returns null when the stock already matched.
+ */
+export async function setStockLevel(
+  productId: string,
+  stock: number,
+  reason: Extract<StockMovementReason, "adjustment" | "count">,
+  reference?: string | null,
+): Promise<StockMovement | null> {
+  const { data, error } = await supabase.rpc("set_stock_level", {
+    p_product_id: productId,
+    p_stock: stock,
+    p_reason: reason,
+    p_reference: reference || null,
+  })
+
+  if (error) {
+    console.error("Error setting stock level:", error)
+    throw new Error(`Failed to set stock level: ${error.message}`)
+  }
+
+  return data as StockMovement | null
+}
+
+/**
+ * Stock movements of a product, newest first
+ */
+export async function fetchStockMovements(productId: string, page = 1, pageSize = 10): Promise<StockMovementPage> {
+  const from = (page - 1) * pageSize
+
+  const { data, error, count } = await supabase
+    .from("stock_movements")
+    .select("*", { count: "exact" })
+    .eq("product_id", productId)
+    .order("created_at", { ascending: false })
+    .range(from, from + pageSize - 1)
+
+  if (error) {
+    console.error("Error fetching stock movements:", error)
+    throw new Error(`Failed to fetch stock movements: ${error.message}`)
+  }
+
+  return { movements: (data || []) as StockMovement[], total: count || 0 }
+}
+
+/**
+ * Compare a product's stock with the balance of its movements
+ */
+export async function fetchStockLedgerBalance(productId: string): Promise<StockLedgerBalance | null> {
+  const { data, error } = await supabase
+    .from("stock_ledger_balances")
+    .select("*")
+    .eq("product_id", productId)
+    .maybeSingle()
+
+  if (error) {
+    console.error("Error fetching stock ledger balance:", error)
+    return null
+  }
+
+  return data
+}
+
+/**
+ * Record stock that changed outside the ledger as an adjustment, without changing the stock itself.
+ * Reconciles every product when no id is given. Returns the number of adjustments posted.
+ */
+export async function reconcileStockLedger(productId?: string, reference?: string): Promise<number> {
+  const { data, error } = await supabase.rpc("reconcile_stock_ledger", {
+    p_product_id: productId || null,
+    p_reference: reference || "reconciliation",
+  })
+
+  if (error) {
+    console.error("Error reconciling stock ledger:", error)
+    throw new Error(`Failed to reconcile stock ledger: ${error.message}`)
+  }
+
+  return data || 0
+}
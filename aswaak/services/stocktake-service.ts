@@ -0,0 +1,150 @@
+import { supabase } from "@/lib/supabase"
+import { getCurrentUserId } from "@/lib/auth"
+import { productRepository } from "@/services/product-repository"
+import type { StocktakeCount, StocktakeSession, StocktakeStatus, StocktakeVariance } from "@/types/stocktake"
+
+export async function fetchStocktakeSessions(): Promise<StocktakeSession[]> {
+  const { data, error } = await supabase
+    .from("stocktake_sessions")
+    .select("*")
+    .order("updated_at", { ascending: false })
+
+  if (error) {
+    console.error("Error fetching stocktake sessions:", error)
+    throw new Error(`Failed to fetch stocktake sessions: ${error.message}`)
+  }
+
+  return (data || []) as StocktakeSession[]
+}
+
+export async function createStocktakeSession(session: {
+  name: string
+  categoryId?: string | null
+  shelf?: string | null
+}): Promise<StocktakeSession> {
+  const { data, error } = await supabase
+    .from("stocktake_sessions")
+    .insert({
+      name: session.name.trim(),
+      category_id: session.categoryId || null,
+      shelf: session.shelf?.trim() || null,
+      created_by: getCurrentUserId(),
+    })
+    .select()
+    .single()
+
+  if (error) {
+    console.error("Error creating stocktake session:", error)
+    throw new Error(`Failed to create stocktake session: ${error.message}`)
+  }
+
+  return data as StocktakeSession
+}
+
+/**
+ * Pause, resume or cancel a session. Approving goes through approveStocktake.
+ */
+export async function updateStocktakeStatus(
+  id: string,
+  status: Exclude<StocktakeStatus, "approved">,
+): Promise<StocktakeSession> {
+  const { data, error } = await supabase
+    .from("stocktake_sessions")
+    .update({ status, updated_at: new Date().toISOString() })
+    .eq("id", id)
+    .select()
+    .single()
+
+  if (error) {
+    console.error("Error updating stocktake session:", error)
+    throw new Error(`Failed to update stocktake session: ${error.message}`)
+  }
+
+  return data as StocktakeSession
+}
+
+export async function fetchStocktakeCounts(sessionId: string): Promise<StocktakeCount[]> {
+  const { data, error } = await supabase
+    .from("stocktake_counts")
+    .select("*, product:products(*)")
+    .eq("session_id", sessionId)
+    .order("updated_at", { ascending: false })
+
+  if (error) {
+    console.error("Error fetching stocktake counts:", error)
+    throw new Error(`Failed to fetch stocktake counts: ${error.message}`)
+  }
+
+  return (data || []) as StocktakeCount[]
+}
+
+/**
+ * Add a quantity to a product's count, or replace the count when replace is set.
+ * Counts from several devices add up on the server.
+ */
+export async function addStocktakeCount(
+  sessionId: string,
+  productId: string,
+  quantity: number,
+  replace = false,
+): Promise<StocktakeCount> {
+  const { data, error } = await supabase.rpc("add_stocktake_count", {
+    p_session_id: sessionId,
+    p_product_id: productId,
+    p_quantity: quantity,
+    p_replace: replace,
+  })
+
+  if (error) {
+    console.error("Error saving stocktake count:", error)
+    throw new Error(`Failed to save count: ${error.message}`)
+  }
+
+  return data as StocktakeCount
+}
+
+/**
+ * Counted products (and uncounted products of the session's category) against their current stock
+ */
+export async function fetchStocktakeVariances(session: StocktakeSession): Promise<StocktakeVariance[]> {
+  const counts = await fetchStocktakeCounts(session.id)
+
+  const variances: StocktakeVariance[] = counts
+    .filter((count) => count.product)
+    .map((count) => {
+      const stock = count.product!.stock || 0
+      return { product: count.product!, counted: count.counted, stock, variance: count.counted - stock }
+    })
+
+  if (session.category_id) {
+    const productsInScope = await productRepository.list({ categoryId: session.category_id })
+
+    const countedIds = new Set(counts.map((count) => count.product_id))
+    productsInScope
+      .filter((product) => product.id && !countedIds.has(product.id))
+      .forEach((product) => {
+        const stock = product.stock || 0
+        variances.push({ product, counted: null, stock, variance: -stock })
+      })
+  }
+
+  return variances
+}
+
+/**
+ * Post the variances as stock count movements and close the session.
+ * Returns the number of products whose stock changed.
+ */
+export async function approveStocktake(sessionId: string, zeroUncounted = false): Promise<number> {
+  const { data, error } = await supabase.rpc("approve_stocktake", {
+    p_session_id: sessionId,
+    p_zero_uncounted: zeroUncounted,
+  })
+
+  if (error) {
+    console.error("Error approving stocktake:", error)
+    throw new Error(`Failed to approve stocktake: ${error.message}`)
+  }
+
+  return data || 0
+}
@@ -0,0 +1,167 @@
+import { supabase } from "@/lib/supabase"
+import type { ProductSupplier, Supplier } from "@/types/purchase-order"
+
+export type SupplierInput = Pick<Supplier, "name"> & Partial<Pick<Supplier, "contact_name" | "phone" | "email" | "notes">>
+
+export async function fetchSuppliers(): Promise<Supplier[]> {
+  const { data, error } = await supabase.from("suppliers").select("*").order("name")
+
+  if (error) {
+    console.error("Error fetching suppliers:", error)
+    throw new Error(`Failed to fetch suppliers: ${error.message}`)
+  }
+
+  return data || []
+}
+
+export async function createSupplier(supplier: SupplierInput): Promise<Supplier> {
+  const { data, error } = await supabase
+    .from("suppliers")
+    .insert({
+      name: supplier.name.trim(),
+      contact_name: supplier.contact_name || null,
+      phone: supplier.phone || null,
+      email: supplier.email || null,
+      notes: supplier.notes || null,
+    })
+    .select()
+    .single()
+
+  if (error) {
+    console.error("Error creating supplier:", error)
+    throw new Error(`Failed to create supplier: ${error.message}`)
+  }
+
+  return data
+}
+
+export async function updateSupplier(id: string, supplier: SupplierInput): Promise<Supplier> {
+  const { data, error } = await supabase
+    .from("suppliers")
+    .update({
+      name: supplier.name.trim(),
+      contact_name: supplier.contact_name || null,
+      phone: supplier.phone || null,
+      email: supplier.email || null,
+      notes: supplier.notes || null,
+      updated_at: new Date().toISOString(),
+    })
+    .eq("id", id)
+    .select()
+    .single()
+
+  if (error) {
+    console.error("Error updating supplier:", error)
+    throw new Error(`Failed to update supplier: ${error.message}`)
+  }
+
+  return data
+}
+
+export async function deleteSupplier(id: string): Promise<void> {
+  const { error } = await supabase.from("suppliers").delete().eq("id", id)
+
+  if (error) {
+    console.error("Error deleting supplier:", error)
+    throw new Error(`Failed to delete supplier: ${error.message}`)
+  }
+}
+
+export type ProductSupplierInput = Pick<ProductSupplier, "product_id" | "supplier_id"> &
+  Partial<Pick<ProductSupplier, "supplier_sku" | "pack_size" | "cost" | "lead_time_days">>
+
+/**
+ * Cost of a single unit from a supplier's catalog entry
+ */
+export function getSupplierUnitCost(entry: Pick<ProductSupplier, "cost" | "pack_size">): number {
+  return entry.pack_size > 0 ? entry.cost / entry.pack_size : entry.cost
+}
+
+/**
+ * The supplier to buy a product from: the preferred one, otherwise the cheapest per unit
+ */
+export function selectProductSupplier<T extends ProductSupplier>(entries: T[]): T | null {
+  const preferred = entries.find((entry) => entry.is_preferred)
+  if (preferred) return preferred
+
+  return entries.reduce<T | null>(
+    (cheapest, entry) =>
+      !cheapest || getSupplierUnitCost(entry) < getSupplierUnitCost(cheapest) ? entry : cheapest,
+    null,
+  )
+}
+
+/**
+ * Catalog entries (with their supplier) for one or more products, or for every product when omitted
+ */
+export async function fetchProductSuppliers(productIds?: string | string[]): Promise<ProductSupplier[]> {
+  let query = supabase.from("product_suppliers").select("*, supplier:suppliers(*)").order("cost")
+
+  if (productIds !== undefined) {
+    const ids = Array.isArray(productIds) ? productIds : [productIds]
+    if (ids.length === 0) return []
+    query = query.in("product_id", ids)
+  }
+
+  const { data, error } = await query
+
+  if (error) {
+    console.error("Error fetching product suppliers:", error)
+    throw new Error(`Failed to fetch product suppliers: ${error.message}`)
+  }
+
+  return (data || []) as ProductSupplier[]
+}
+
+/**
+ * Add a supplier to a product, or update its terms if it already carries the product
+ */
+export async function saveProductSupplier(entry: ProductSupplierInput): Promise<ProductSupplier> {
+  const { data, error } = await supabase
+    .from("product_suppliers")
+    .upsert(
+      {
+        product_id: entry.product_id,
+        supplier_id: entry.supplier_id,
+        supplier_sku: entry.supplier_sku?.trim() || null,
+        pack_size: entry.pack_size || 1,
+        cost: entry.cost || 0,
+        lead_time_days: entry.lead_time_days || 0,
+        updated_at: new Date().toISOString(),
+      },
+      { onConflict: "product_id,supplier_id" },
+    )
+    .select("*, supplier:suppliers(*)")
+    .single()
+
+  if (error) {
+    console.error("Error saving product supplier:", error)
+    throw new Error(`Failed to save product supplier: ${error.message}`)
+  }
+
+  return data as ProductSupplier
+}
+
+export async function deleteProductSupplier(id: string): Promise<void> {
+  const { error } = await supabase.from("product_suppliers").delete().eq("id", id)
+
+  if (error) {
+    console.error("Error deleting product supplier:", error)
+    throw new Error(`Failed to delete product supplier: ${error.message}`)
+  }
+}
+
+/**
+ * Make a supplier the product's preferred one, or clear the preference with null
+ */
+export async function setPreferredSupplier(productId: string, supplierId: string | null): Promise<void> {
+  const { error } = await supabase.rpc("set_preferred_supplier", {
+    p_product_id: productId,
+    p_supplier_id: supplierId,
+  })
+
+  if (error) {
+    console.error("Error setting preferred supplier:", error)
+    throw new Error(`Failed to set preferred supplier: ${error.message}`)
+  }
+}
@@ -0,0 +1,37 @@
+-- Baseline schema: the tables the app was built on before migrations were kept. Safe to run against an
+-- existing project: tables are only created when missing and columns the app writes are added when missing.
+
+create table if not exists public.categories (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  created_at timestamptz not null default now()
+);
+
+alter table public.categories add column if not exists description text;
+
+create table if not exists public.products (
+  id uuid primary key default gen_random_uuid(),
+  name text,
+  barcode text,
+  price text,
+  stock integer not null default 0,
+  min_stock integer not null default 0,
+  image text,
+  category_id uuid references public.categories (id) on delete set null,
+  created_at timestamptz not null default now()
+);
+
+-- Prices are stored as entered (e.g. "12,50")
+alter table public.products add column if not exists purchase_price text;
+alter table public.products add column if not exists description text;
+alter table public.products add column if not exists quantity text;
+alter table public.products add column if not exists expiry_date date;
+alter table public.products add column if not exists expiry_notification_days integer default 30;
+-- Product source the details were fetched from
+alter table public.products add column if not exists data_source text;
+alter table public.products add column if not exists created_by text;
+alter table public.products add column if not exists updated_by text;
+alter table public.products add column if not exists updated_at timestamptz default now();
+
+create index if not exists products_barcode_idx on public.products (barcode);
+create index if not exists products_category_id_idx on public.products (category_id);
@@ -0,0 +1,4 @@
+-- Which source supplied each field when lookup results from several sources were merged,
+-- e.g. { "name": "Open Food Facts", "price": "aswakassalam.com" }
+
+alter table public.products add column if not exists data_source_fields jsonb;
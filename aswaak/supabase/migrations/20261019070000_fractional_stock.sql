@@ -0,0 +1,4 @@
+-- Weighed products are stocked by weight, so a weight label deducts a fractional quantity (e.g. 0.375 kg).
+-- products.stock was an integer and silently rounded those deductions.
+
+alter table public.products alter column stock type numeric using stock::numeric;
@@ -0,0 +1,3 @@
+-- Lot or batch number, prefilled from the GS1 (10) application identifier on case labels
+
+alter table public.products add column if not exists lot_number text;
@@ -0,0 +1,17 @@
+-- Every scan, so the history page can be paged on the server and shared across devices
+
+create table if not exists public.scan_events (
+  id uuid primary key default gen_random_uuid(),
+  barcode text not null,
+  result text not null check (result in ('found', 'web', 'not_found', 'saved')),
+  product_id uuid references public.products (id) on delete set null,
+  -- Name at the time of the scan, kept when the product is deleted later
+  product_name text,
+  device_id text not null,
+  user_agent text,
+  user_id text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists scan_events_created_at_idx on public.scan_events (created_at desc);
+create index if not exists scan_events_device_id_idx on public.scan_events (device_id, created_at desc);
@@ -0,0 +1,122 @@
+-- Stock movement ledger. products.stock is kept as a running balance of the movements and is
+-- only changed through apply_stock_movement / set_stock_level so concurrent changes never clobber each other.
+
+create table if not exists public.stock_movements (
+  id uuid primary key default gen_random_uuid(),
+  product_id uuid not null references public.products (id) on delete cascade,
+  delta numeric not null,
+  reason text not null check (reason in ('purchase', 'sale', 'waste', 'adjustment', 'count')),
+  reference text,
+  note text,
+  -- Product stock right after the movement was applied
+  stock_after numeric not null,
+  user_id uuid default auth.uid(),
+  created_at timestamptz not null default now()
+);
+
+create index if not exists stock_movements_product_id_created_at_idx
+  on public.stock_movements (product_id, created_at desc);
+
+-- Apply a stock change and record it in one transaction
+create or replace function public.apply_stock_movement(
+  p_product_id uuid,
+  p_delta numeric,
+  p_reason text,
+  p_reference text default null,
+  p_note text default null
+)
+returns public.stock_movements
+language plpgsql
+as $$
+declare
+  v_stock numeric;
+  v_movement public.stock_movements;
+begin
+  if p_delta = 0 then
+    raise exception 'Stock movement delta cannot be zero';
+  end if;
+
+  -- The update locks the product row, so concurrent movements are applied one after the other
+  update public.products
+    set stock = coalesce(stock, 0) + p_delta,
+        updated_at = now()
+    where id = p_product_id
+    returning stock into v_stock;
+
+  if not found then
+    raise exception 'Product % not found', p_product_id;
+  end if;
+
+  insert into public.stock_movements (product_id, delta, reason, reference, note, stock_after)
+    values (p_product_id, p_delta, p_reason, p_reference, p_note, v_stock)
+    returning * into v_movement;
+
+  return v_movement;
+end;
+$$;
+
+-- Set the stock to an absolute level (a count or a manual edit) by posting the difference.
+-- Returns null when the stock already matches.
+create or replace function public.set_stock_level(
+  p_product_id uuid,
+  p_stock numeric,
+  p_reason text,
+  p_reference text default null,
+  p_note text default null
+)
+returns public.stock_movements
+language plpgsql
+as $$
+declare
+  v_current numeric;
+begin
+  select coalesce(stock, 0) into v_current
+    from public.products
+    where id = p_product_id
+    for update;
+
+  if not found then
+    raise exception 'Product % not found', p_product_id;
+  end if;
+
+  if p_stock = v_current then
+    return null;
+  end if;
+
+  return public.apply_stock_movement(p_product_id, p_stock - v_current, p_reason, p_reference, p_note);
+end;
+$$;
+
+-- Stock on the product next to the balance of its movements
+create or replace view public.stock_ledger_balances as
+  select
+    p.id as product_id,
+    coalesce(p.stock, 0) as stock,
+    coalesce(sum(m.delta), 0) as ledger_stock,
+    coalesce(p.stock, 0) - coalesce(sum(m.delta), 0) as difference
+  from public.products p
+  left join public.stock_movements m on m.product_id = p.id
+  group by p.id, p.stock;
+
+-- Record stock that changed outside the ledger (opening balances, legacy edits) as adjustments,
+-- without touching products.stock. Reconciles every product when p_product_id is null.
+create or replace function public.reconcile_stock_ledger(
+  p_product_id uuid default null,
+  p_reference text default 'reconciliation'
+)
+returns integer
+language plpgsql
+as $$
+declare
+  v_count integer;
+begin
+  insert into public.stock_movements (product_id, delta, reason, reference, stock_after)
+    select product_id, difference, 'adjustment', p_reference, stock
+    from public.stock_ledger_balances
+    where difference <> 0
+      and (p_product_id is null or product_id = p_product_id);
+
+  get diagnostics v_count = row_count;
+  return v_count;
+end;
+$$;
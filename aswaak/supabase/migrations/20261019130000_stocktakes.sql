@@ -0,0 +1,121 @@
+-- Stocktake (cycle count) sessions. Counts are stored on the server so a session can be paused on
+-- one device and resumed on another; approving posts the variances as 'count' stock movements.
+
+create table if not exists public.stocktake_sessions (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  category_id uuid references public.categories (id) on delete set null,
+  shelf text,
+  status text not null default 'open' check (status in ('open', 'paused', 'approved', 'cancelled')),
+  created_by uuid default auth.uid(),
+  approved_by uuid,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  approved_at timestamptz
+);
+
+create table if not exists public.stocktake_counts (
+  id uuid primary key default gen_random_uuid(),
+  session_id uuid not null references public.stocktake_sessions (id) on delete cascade,
+  product_id uuid not null references public.products (id) on delete cascade,
+  counted numeric not null default 0 check (counted >= 0),
+  counted_by uuid default auth.uid(),
+  updated_at timestamptz not null default now(),
+  unique (session_id, product_id)
+);
+
+-- Add to (or replace) a product's count. Runs on the server so scans from several devices add up.
+create or replace function public.add_stocktake_count(
+  p_session_id uuid,
+  p_product_id uuid,
+  p_quantity numeric,
+  p_replace boolean default false
+)
+returns public.stocktake_counts
+language plpgsql
+as $$
+declare
+  v_status text;
+  v_count public.stocktake_counts;
+begin
+  select status into v_status from public.stocktake_sessions where id = p_session_id;
+
+  if v_status is null then
+    raise exception 'Stocktake session % not found', p_session_id;
+  end if;
+  if v_status <> 'open' then
+    raise exception 'Stocktake session is %', v_status;
+  end if;
+
+  insert into public.stocktake_counts (session_id, product_id, counted)
+    values (p_session_id, p_product_id, greatest(p_quantity, 0))
+    on conflict (session_id, product_id) do update
+      set counted = greatest(
+            case when p_replace then p_quantity else public.stocktake_counts.counted + p_quantity end,
+            0
+          ),
+          counted_by = auth.uid(),
+          updated_at = now()
+    returning * into v_count;
+
+  update public.stocktake_sessions set updated_at = now() where id = p_session_id;
+
+  return v_count;
+end;
+$$;
+
+-- Set every counted product's stock to its count. With p_zero_uncounted, products of the session's
+-- category that were not counted are set to zero. Returns the number of adjustments posted.
+create or replace function public.approve_stocktake(
+  p_session_id uuid,
+  p_zero_uncounted boolean default false
+)
+returns integer
+language plpgsql
+as $$
+declare
+  v_session public.stocktake_sessions;
+  v_reference text;
+  v_adjustments integer := 0;
+  v_row record;
+begin
+  select * into v_session from public.stocktake_sessions where id = p_session_id for update;
+
+  if not found then
+    raise exception 'Stocktake session % not found', p_session_id;
+  end if;
+  if v_session.status not in ('open', 'paused') then
+    raise exception 'Stocktake session is already %', v_session.status;
+  end if;
+
+  v_reference := 'Stocktake: ' || v_session.name;
+
+  for v_row in
+    select product_id, counted from public.stocktake_counts where session_id = p_session_id
+  loop
+    if public.set_stock_level(v_row.product_id, v_row.counted, 'count', v_reference) is not null then
+      v_adjustments := v_adjustments + 1;
+    end if;
+  end loop;
+
+  if p_zero_uncounted and v_session.category_id is not null then
+    for v_row in
+      select p.id from public.products p
+      where p.category_id = v_session.category_id
+        and not exists (
+          select 1 from public.stocktake_counts c where c.session_id = p_session_id and c.product_id = p.id
+        )
+    loop
+      if public.set_stock_level(v_row.id, 0, 'count', v_reference) is not null then
+        v_adjustments := v_adjustments + 1;
+      end if;
+    end loop;
+  end if;
+
+  update public.stocktake_sessions
+    set status = 'approved', approved_by = auth.uid(), approved_at = now(), updated_at = now()
+    where id = p_session_id;
+
+  return v_adjustments;
+end;
+$$;
@@ -0,0 +1,138 @@
+-- Suppliers, purchase orders and goods receiving
+
+create table if not exists public.suppliers (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  contact_name text,
+  phone text,
+  email text,
+  notes text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create table if not exists public.purchase_orders (
+  id uuid primary key default gen_random_uuid(),
+  supplier_id uuid not null references public.suppliers (id) on delete restrict,
+  reference text not null,
+  status text not null default 'draft'
+    check (status in ('draft', 'ordered', 'partially_received', 'received', 'cancelled')),
+  expected_date date,
+  notes text,
+  created_by uuid default auth.uid(),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  received_at timestamptz
+);
+
+create table if not exists public.purchase_order_lines (
+  id uuid primary key default gen_random_uuid(),
+  purchase_order_id uuid not null references public.purchase_orders (id) on delete cascade,
+  product_id uuid not null references public.products (id) on delete restrict,
+  -- 0 for products delivered without being ordered
+  quantity numeric not null default 0 check (quantity >= 0),
+  unit_cost numeric not null default 0 check (unit_cost >= 0),
+  received_quantity numeric not null default 0 check (received_quantity >= 0),
+  created_at timestamptz not null default now(),
+  unique (purchase_order_id, product_id)
+);
+
+-- Price text as entered ("12,50", "12.50 DH") as a number. Null when it isn't a price.
+create or replace function public.parse_price(p_price text)
+returns numeric
+language sql
+immutable
+as $$
+  select case when v_price ~ '^[0-9]+(\.[0-9]+)?$' then v_price::numeric end
+    from (select replace(regexp_replace(coalesce(p_price, ''), '[^0-9.,]', '', 'g'), ',', '.') as v_price) price;
+$$;
+
+-- Post a delivery against a purchase order.
+-- p_items: [{ "product_id": uuid, "quantity": number, "unit_cost": number (optional) }]
+-- Each item adds stock through apply_stock_movement ('purchase') and updates the product's purchase_price,
+-- either to the line's unit cost ('last') or to the weighted average of the stock on hand and the delivery
+-- ('average'). Products that were not ordered are added to the order as unplanned lines.
+create or replace function public.receive_purchase_order(
+  p_order_id uuid,
+  p_items jsonb,
+  p_costing text default 'average'
+)
+returns public.purchase_orders
+language plpgsql
+as $$
+declare
+  v_order public.purchase_orders;
+  v_item jsonb;
+  v_line public.purchase_order_lines;
+  v_product_id uuid;
+  v_quantity numeric;
+  v_stock numeric;
+  v_cost numeric;
+  v_new_cost numeric;
+  v_outstanding integer;
+begin
+  if p_costing not in ('last', 'average') then
+    raise exception 'Unknown costing method %', p_costing;
+  end if;
+
+  select * into v_order from public.purchase_orders where id = p_order_id for update;
+
+  if not found then
+    raise exception 'Purchase order % not found', p_order_id;
+  end if;
+  if v_order.status in ('received', 'cancelled') then
+    raise exception 'Purchase order is already %', v_order.status;
+  end if;
+
+  for v_item in select * from jsonb_array_elements(p_items)
+  loop
+    v_product_id := (v_item ->> 'product_id')::uuid;
+    v_quantity := (v_item ->> 'quantity')::numeric;
+    continue when v_quantity is null or v_quantity <= 0;
+
+    select * into v_line
+      from public.purchase_order_lines
+      where purchase_order_id = p_order_id and product_id = v_product_id;
+
+    if not found then
+      insert into public.purchase_order_lines (purchase_order_id, product_id, quantity, unit_cost)
+        values (p_order_id, v_product_id, 0, coalesce((v_item ->> 'unit_cost')::numeric, 0))
+        returning * into v_line;
+    end if;
+
+    -- Stock and cost before the delivery, for the weighted average
+    select greatest(coalesce(stock, 0), 0), public.parse_price(purchase_price::text)
+      into v_stock, v_cost
+      from public.products
+      where id = v_product_id
+      for update;
+
+    if p_costing = 'last' or v_cost is null or v_stock + v_quantity = 0 then
+      v_new_cost := v_line.unit_cost;
+    else
+      v_new_cost := (v_stock * v_cost + v_quantity * v_line.unit_cost) / (v_stock + v_quantity);
+    end if;
+
+    perform public.apply_stock_movement(v_product_id, v_quantity, 'purchase', 'PO ' || v_order.reference);
+
+    update public.products set purchase_price = round(v_new_cost, 2) where id = v_product_id;
+
+    update public.purchase_order_lines
+      set received_quantity = received_quantity + v_quantity
+      where id = v_line.id;
+  end loop;
+
+  select count(*) into v_outstanding
+    from public.purchase_order_lines
+    where purchase_order_id = p_order_id and received_quantity < quantity;
+
+  update public.purchase_orders
+    set status = case when v_outstanding = 0 then 'received' else 'partially_received' end,
+        received_at = now(),
+        updated_at = now()
+    where id = p_order_id
+    returning * into v_order;
+
+  return v_order;
+end;
+$$;
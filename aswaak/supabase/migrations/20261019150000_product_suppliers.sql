@@ -0,0 +1,43 @@
+-- Supplier catalog: which suppliers carry a product, and on what terms
+
+create table if not exists public.product_suppliers (
+  id uuid primary key default gen_random_uuid(),
+  product_id uuid not null references public.products (id) on delete cascade,
+  supplier_id uuid not null references public.suppliers (id) on delete cascade,
+  supplier_sku text,
+  -- Units per pack; cost is the price of one pack
+  pack_size numeric not null default 1 check (pack_size > 0),
+  cost numeric not null default 0 check (cost >= 0),
+  lead_time_days integer not null default 0 check (lead_time_days >= 0),
+  is_preferred boolean not null default false,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  unique (product_id, supplier_id)
+);
+
+-- At most one preferred supplier per product
+create unique index if not exists product_suppliers_preferred_idx
+  on public.product_suppliers (product_id)
+  where is_preferred;
+
+-- Make a supplier the product's preferred one (or clear the preference with a null supplier)
+create or replace function public.set_preferred_supplier(p_product_id uuid, p_supplier_id uuid)
+returns void
+language plpgsql
+as $$
+begin
+  update public.product_suppliers
+    set is_preferred = false, updated_at = now()
+    where product_id = p_product_id and is_preferred and supplier_id is distinct from p_supplier_id;
+
+  if p_supplier_id is not null then
+    update public.product_suppliers
+      set is_preferred = true, updated_at = now()
+      where product_id = p_product_id and supplier_id = p_supplier_id;
+
+    if not found then
+      raise exception 'Supplier % does not carry product %', p_supplier_id, p_product_id;
+    end if;
+  end if;
+end;
+$$;
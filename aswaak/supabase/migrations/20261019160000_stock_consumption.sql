@@ -0,0 +1,14 @@
+-- Units sold or wasted per product over the last p_days days, for reorder suggestions
+
+create or replace function public.stock_consumption(p_days integer default 30)
+returns table (product_id uuid, consumed numeric)
+language sql
+stable
+as $$
+  select m.product_id, sum(-m.delta) as consumed
+    from public.stock_movements m
+    where m.reason in ('sale', 'waste')
+      and m.delta < 0
+      and m.created_at >= now() - make_interval(days => p_days)
+    group by m.product_id;
+$$;
@@ -0,0 +1,307 @@
+-- Stock lots: each delivery is a lot with its own expiry date. Stock added through the ledger creates
+-- (or tops up) a lot, stock removed is taken from the lots that expire first (FEFO).
+
+create table if not exists public.stock_lots (
+  id uuid primary key default gen_random_uuid(),
+  product_id uuid not null references public.products (id) on delete cascade,
+  lot_number text,
+  expiry_date date,
+  quantity numeric not null default 0 check (quantity >= 0),
+  received_at timestamptz not null default now(),
+  created_at timestamptz not null default now()
+);
+
+create index if not exists stock_lots_product_id_expiry_idx
+  on public.stock_lots (product_id, expiry_date);
+
+-- Stock on hand without lots (from before lots, or a new product's opening stock) becomes an opening lot with
+-- the product's own expiry date and lot number
+create or replace function public.open_stock_lot(p_product_id uuid)
+returns void
+language sql
+as $$
+  insert into public.stock_lots (product_id, lot_number, expiry_date, quantity)
+    select p.id, p.lot_number, p.expiry_date, p.stock
+    from public.products p
+    where p.id = p_product_id
+      and coalesce(p.stock, 0) > 0
+      and not exists (select 1 from public.stock_lots l where l.product_id = p.id);
+$$;
+
+select public.open_stock_lot(id) from public.products;
+
+-- The lots are the source of truth for expiry dates. products.expiry_date follows the earliest expiry still in
+-- stock, for screens that show a single date, and is only written when that date changes.
+create or replace function public.sync_product_expiry(p_product_id uuid)
+returns void
+language sql
+as $$
+  update public.products p
+    set expiry_date = l.expiry_date
+    from (
+      select min(expiry_date) as expiry_date
+        from public.stock_lots
+        where product_id = p_product_id and quantity > 0
+    ) l
+    where p.id = p_product_id
+      and p.expiry_date is distinct from l.expiry_date
+      and exists (select 1 from public.stock_lots where product_id = p_product_id);
+$$;
+
+-- An expiry date entered on a product (a manual edit or a GS1 label) applies to its stock on hand: the lot with
+-- the given lot number, or every lot in stock when none has it. A product with nothing in stock keeps the date
+-- itself. Returns the product's expiry date afterwards.
+create or replace function public.set_product_expiry(
+  p_product_id uuid,
+  p_expiry_date date,
+  p_lot_number text default null
+)
+returns date
+language plpgsql
+as $$
+declare
+  v_expiry date;
+begin
+  perform public.open_stock_lot(p_product_id);
+
+  if not exists (select 1 from public.stock_lots where product_id = p_product_id and quantity > 0) then
+    update public.products set expiry_date = p_expiry_date where id = p_product_id;
+  else
+    update public.stock_lots
+      set expiry_date = p_expiry_date
+      where product_id = p_product_id
+        and quantity > 0
+        and lot_number = nullif(trim(p_lot_number), '');
+
+    if not found then
+      update public.stock_lots
+        set expiry_date = p_expiry_date
+        where product_id = p_product_id and quantity > 0;
+    end if;
+
+    perform public.sync_product_expiry(p_product_id);
+  end if;
+
+  select expiry_date into v_expiry from public.products where id = p_product_id;
+  return v_expiry;
+end;
+$$;
+
+-- Add stock to a lot, merging it into an existing lot with the same number and expiry
+create or replace function public.add_to_stock_lot(
+  p_product_id uuid,
+  p_quantity numeric,
+  p_lot_number text default null,
+  p_expiry_date date default null
+)
+returns public.stock_lots
+language plpgsql
+as $$
+declare
+  v_lot public.stock_lots;
+begin
+  update public.stock_lots
+    set quantity = quantity + p_quantity
+    where id = (
+      select id from public.stock_lots
+        where product_id = p_product_id
+          and lot_number is not distinct from nullif(trim(p_lot_number), '')
+          and expiry_date is not distinct from p_expiry_date
+        order by received_at desc
+        limit 1
+    )
+    returning * into v_lot;
+
+  if not found then
+    insert into public.stock_lots (product_id, lot_number, expiry_date, quantity)
+      values (p_product_id, nullif(trim(p_lot_number), ''), p_expiry_date, p_quantity)
+      returning * into v_lot;
+  end if;
+
+  return v_lot;
+end;
+$$;
+
+-- Take stock from the lots that expire first (lots without a date last, then oldest first).
+-- Stock beyond what the lots hold is untracked and simply leaves no lot behind.
+create or replace function public.consume_stock_lots(p_product_id uuid, p_quantity numeric)
+returns void
+language plpgsql
+as $$
+declare
+  v_lot public.stock_lots;
+  v_remaining numeric := p_quantity;
+  v_taken numeric;
+begin
+  for v_lot in
+    select * from public.stock_lots
+      where product_id = p_product_id and quantity > 0
+      order by expiry_date asc nulls last, received_at asc
+      for update
+  loop
+    exit when v_remaining <= 0;
+    v_taken := least(v_lot.quantity, v_remaining);
+
+    update public.stock_lots set quantity = quantity - v_taken where id = v_lot.id;
+    v_remaining := v_remaining - v_taken;
+  end loop;
+end;
+$$;
+
+-- apply_stock_movement now keeps the lots in step with the stock
+drop function if exists public.apply_stock_movement(uuid, numeric, text, text, text);
+
+create or replace function public.apply_stock_movement(
+  p_product_id uuid,
+  p_delta numeric,
+  p_reason text,
+  p_reference text default null,
+  p_note text default null,
+  p_lot_number text default null,
+  p_expiry_date date default null
+)
+returns public.stock_movements
+language plpgsql
+as $$
+declare
+  v_stock numeric;
+  v_movement public.stock_movements;
+begin
+  if p_delta = 0 then
+    raise exception 'Stock movement delta cannot be zero';
+  end if;
+
+  perform public.open_stock_lot(p_product_id);
+
+  -- The update locks the product row, so concurrent movements are applied one after the other
+  update public.products
+    set stock = coalesce(stock, 0) + p_delta,
+        updated_at = now()
+    where id = p_product_id
+    returning stock into v_stock;
+
+  if not found then
+    raise exception 'Product % not found', p_product_id;
+  end if;
+
+  if p_delta > 0 then
+    perform public.add_to_stock_lot(p_product_id, p_delta, p_lot_number, p_expiry_date);
+  else
+    perform public.consume_stock_lots(p_product_id, -p_delta);
+  end if;
+  perform public.sync_product_expiry(p_product_id);
+
+  insert into public.stock_movements (product_id, delta, reason, reference, note, stock_after)
+    values (p_product_id, p_delta, p_reason, p_reference, p_note, v_stock)
+    returning * into v_movement;
+
+  return v_movement;
+end;
+$$;
+
+-- receive_purchase_order now takes an optional lot number and expiry date per item:
+-- [{ "product_id": uuid, "quantity": number, "unit_cost": number, "lot_number": text, "expiry_date": date }]
+create or replace function public.receive_purchase_order(
+  p_order_id uuid,
+  p_items jsonb,
+  p_costing text default 'average'
+)
+returns public.purchase_orders
+language plpgsql
+as $$
+declare
+  v_order public.purchase_orders;
+  v_item jsonb;
+  v_line public.purchase_order_lines;
+  v_product_id uuid;
+  v_quantity numeric;
+  v_stock numeric;
+  v_cost numeric;
+  v_new_cost numeric;
+  v_outstanding integer;
+begin
+  if p_costing not in ('last', 'average') then
+    raise exception 'Unknown costing method %', p_costing;
+  end if;
+
+  select * into v_order from public.purchase_orders where id = p_order_id for update;
+
+  if not found then
+    raise exception 'Purchase order % not found', p_order_id;
+  end if;
+  if v_order.status in ('received', 'cancelled') then
+    raise exception 'Purchase order is already %', v_order.status;
+  end if;
+
+  for v_item in select * from jsonb_array_elements(p_items)
+  loop
+    v_product_id := (v_item ->> 'product_id')::uuid;
+    v_quantity := (v_item ->> 'quantity')::numeric;
+    continue when v_quantity is null or v_quantity <= 0;
+
+    select * into v_line
+      from public.purchase_order_lines
+      where purchase_order_id = p_order_id and product_id = v_product_id;
+
+    if not found then
+      insert into public.purchase_order_lines (purchase_order_id, product_id, quantity, unit_cost)
+        values (p_order_id, v_product_id, 0, coalesce((v_item ->> 'unit_cost')::numeric, 0))
+        returning * into v_line;
+    end if;
+
+    -- Stock and cost before the delivery, for the weighted average
+    select greatest(coalesce(stock, 0), 0), public.parse_price(purchase_price::text)
+      into v_stock, v_cost
+      from public.products
+      where id = v_product_id
+      for update;
+
+    if p_costing = 'last' or v_cost is null or v_stock + v_quantity = 0 then
+      v_new_cost := v_line.unit_cost;
+    else
+      v_new_cost := (v_stock * v_cost + v_quantity * v_line.unit_cost) / (v_stock + v_quantity);
+    end if;
+
+    perform public.apply_stock_movement(
+      v_product_id,
+      v_quantity,
+      'purchase',
+      'PO ' || v_order.reference,
+      null,
+      v_item ->> 'lot_number',
+      nullif(v_item ->> 'expiry_date', '')::date
+    );
+
+    update public.products set purchase_price = round(v_new_cost, 2) where id = v_product_id;
+
+    update public.purchase_order_lines
+      set received_quantity = received_quantity + v_quantity
+      where id = v_line.id;
+  end loop;
+
+  select count(*) into v_outstanding
+    from public.purchase_order_lines
+    where purchase_order_id = p_order_id and received_quantity < quantity;
+
+  update public.purchase_orders
+    set status = case when v_outstanding = 0 then 'received' else 'partially_received' end,
+        received_at = now(),
+        updated_at = now()
+    where id = p_order_id
+    returning * into v_order;
+
+  return v_order;
+end;
+$$;
+
+-- Lots in stock that are past or within their product's expiry notification window (30 days by default)
+create or replace view public.expiring_stock_lots as
+  select
+    l.*,
+    coalesce(p.expiry_notification_days, 30) as notification_days,
+    l.expiry_date - current_date as days_left
+  from public.stock_lots l
+  join public.products p on p.id = l.product_id
+  where l.quantity > 0
+    and l.expiry_date is not null
+    and l.expiry_date <= current_date + coalesce(p.expiry_notification_days, 30);
@@ -0,0 +1,162 @@
+-- Expiry alerts: lots (or untracked product stock) entering their expiry notification window get an alert
+-- suggesting a markdown, or a write-off once expired. Resolving an alert posts the price change or the
+-- write-off movement.
+
+alter table public.stock_movements drop constraint if exists stock_movements_reason_check;
+alter table public.stock_movements
+  add constraint stock_movements_reason_check
+  check (reason in ('purchase', 'sale', 'waste', 'adjustment', 'count', 'expired'));
+
+create table if not exists public.expiry_alerts (
+  id uuid primary key default gen_random_uuid(),
+  product_id uuid not null references public.products (id) on delete cascade,
+  -- Null for products whose stock isn't tracked in lots
+  lot_id uuid references public.stock_lots (id) on delete cascade,
+  expiry_date date not null,
+  quantity numeric not null,
+  suggestion text not null check (suggestion in ('markdown', 'write_off')),
+  suggested_price numeric,
+  status text not null default 'open'
+    check (status in ('open', 'marked_down', 'written_off', 'dismissed')),
+  created_at timestamptz not null default now(),
+  resolved_at timestamptz,
+  resolved_by uuid
+);
+
+-- One alert per lot (or product expiry date) and suggestion, however often the job runs
+create unique index if not exists expiry_alerts_unique_idx
+  on public.expiry_alerts (
+    product_id,
+    coalesce(lot_id, '00000000-0000-0000-0000-000000000000'::uuid),
+    expiry_date,
+    suggestion
+  );
+
+-- Create alerts for everything inside its notification window. Lots that haven't expired yet get a markdown
+-- suggestion at p_markdown_percent off, expired ones a write-off. Returns the number of new alerts.
+create or replace function public.generate_expiry_alerts(p_markdown_percent numeric default 30)
+returns integer
+language plpgsql
+as $$
+declare
+  v_count integer;
+begin
+  with candidates as (
+    select l.product_id, l.id as lot_id, l.expiry_date, l.quantity, l.days_left
+      from public.expiring_stock_lots l
+    union all
+    -- Products with a single expiry date and no lots
+    select p.id, null, p.expiry_date, p.stock, p.expiry_date - current_date
+      from public.products p
+      where coalesce(p.stock, 0) > 0
+        and p.expiry_date is not null
+        and p.expiry_date <= current_date + coalesce(p.expiry_notification_days, 30)
+        and not exists (select 1 from public.stock_lots l where l.product_id = p.id)
+  )
+  insert into public.expiry_alerts (product_id, lot_id, expiry_date, quantity, suggestion, suggested_price)
+    select
+      c.product_id,
+      c.lot_id,
+      c.expiry_date,
+      c.quantity,
+      case when c.days_left < 0 then 'write_off' else 'markdown' end,
+      case
+        when c.days_left < 0 then null
+        else round(public.parse_price(p.price) * (1 - p_markdown_percent / 100), 2)
+      end
+    from candidates c
+    join public.products p on p.id = c.product_id
+    on conflict do nothing;
+
+  get diagnostics v_count = row_count;
+
+  -- A markdown that was never actioned is superseded once the write-off alert exists
+  update public.expiry_alerts a
+    set status = 'dismissed', resolved_at = now()
+    where a.status = 'open'
+      and a.suggestion = 'markdown'
+      and exists (
+        select 1 from public.expiry_alerts w
+          where w.suggestion = 'write_off'
+            and w.product_id = a.product_id
+            and w.lot_id is not distinct from a.lot_id
+            and w.expiry_date = a.expiry_date
+      );
+
+  return v_count;
+end;
+$$;
+
+-- Action an alert: 'markdown' sets the product price (p_price, or the suggested price), 'write_off' removes
+-- the lot's remaining quantity as an 'expired' movement, 'dismiss' just closes the alert.
+create or replace function public.resolve_expiry_alert(
+  p_alert_id uuid,
+  p_action text,
+  p_price numeric default null
+)
+returns public.expiry_alerts
+language plpgsql
+as $$
+declare
+  v_alert public.expiry_alerts;
+  v_quantity numeric;
+  v_price numeric;
+begin
+  -- Runs as the caller, so without this row level security would silently skip a cashier's price change
+  if not public.has_role('stock_clerk', 'manager') then
+    raise exception 'Your role cannot resolve expiry alerts' using errcode = '42501';
+  end if;
+
+  select * into v_alert from public.expiry_alerts where id = p_alert_id for update;
+
+  if not found then
+    raise exception 'Expiry alert % not found', p_alert_id;
+  end if;
+  if v_alert.status <> 'open' then
+    raise exception 'Expiry alert is already %', v_alert.status;
+  end if;
+
+  if p_action = 'markdown' then
+    v_price := coalesce(p_price, v_alert.suggested_price);
+    if v_price is null or v_price < 0 then
+      raise exception 'A markdown needs a price';
+    end if;
+
+    update public.products set price = round(v_price, 2)::text, updated_at = now() where id = v_alert.product_id;
+  elsif p_action = 'write_off' then
+    -- Only what is still in stock: part of the lot may have been sold since the alert was raised
+    if v_alert.lot_id is not null then
+      select quantity into v_quantity from public.stock_lots where id = v_alert.lot_id;
+    else
+      v_quantity := v_alert.quantity;
+    end if;
+    select least(coalesce(v_quantity, 0), greatest(coalesce(stock, 0), 0)) into v_quantity
+      from public.products
+      where id = v_alert.product_id;
+
+    if v_quantity > 0 then
+      perform public.apply_stock_movement(
+        v_alert.product_id,
+        -v_quantity,
+        'expired',
+        'Expiry ' || to_char(v_alert.expiry_date, 'YYYY-MM-DD')
+      );
+    end if;
+  elsif p_action <> 'dismiss' then
+    raise exception 'Unknown expiry alert action %', p_action;
+  end if;
+
+  update public.expiry_alerts
+    set status = case p_action
+          when 'markdown' then 'marked_down'
+          when 'write_off' then 'written_off'
+          else 'dismissed'
+        end,
+        resolved_at = now(),
+        resolved_by = auth.uid()
+    where id = p_alert_id
+    returning * into v_alert;
+
+  return v_alert;
+end;
+$$;
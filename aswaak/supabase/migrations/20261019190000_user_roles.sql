@@ -0,0 +1,219 @@
+-- User roles and per-user attribution
+
+create table if not exists public.user_profiles (
+  id uuid primary key references auth.users (id) on delete cascade,
+  email text,
+  display_name text,
+  role text not null default 'cashier' check (role in ('cashier', 'stock_clerk', 'manager')),
+  created_at timestamptz not null default now()
+);
+
+-- Every new auth user gets a profile. The first user becomes the manager so someone can assign roles.
+create or replace function public.handle_new_user()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  insert into public.user_profiles (id, email, display_name, role)
+    values (
+      new.id,
+      new.email,
+      coalesce(new.raw_user_meta_data ->> 'name', new.email),
+      case when exists (select 1 from public.user_profiles) then 'cashier' else 'manager' end
+    )
+    on conflict (id) do nothing;
+  return new;
+end;
+$$;
+
+drop trigger if exists on_auth_user_created on auth.users;
+create trigger on_auth_user_created
+  after insert on auth.users
+  for each row execute function public.handle_new_user();
+
+-- Profiles for users that signed up before this migration
+insert into public.user_profiles (id, email, display_name)
+  select id, email, email from auth.users
+  on conflict (id) do nothing;
+
+update public.user_profiles
+  set role = 'manager'
+  where id = (select id from public.user_profiles order by created_at limit 1)
+    and not exists (select 1 from public.user_profiles where role = 'manager');
+
+create or replace function public.current_user_role()
+returns text
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select role from public.user_profiles where id = auth.uid();
+$$;
+
+alter table public.user_profiles enable row level security;
+
+drop policy if exists "Users read their own profile" on public.user_profiles;
+create policy "Users read their own profile" on public.user_profiles
+  for select using (id = auth.uid() or public.current_user_role() = 'manager');
+
+drop policy if exists "Managers update profiles" on public.user_profiles;
+create policy "Managers update profiles" on public.user_profiles
+  for update using (public.current_user_role() = 'manager');
+
+-- created_by / updated_by follow the signed-in user. Values sent by the client are kept when there is
+-- no Supabase session (the local auth stand-in, server jobs).
+alter table public.categories add column if not exists created_by text;
+alter table public.categories add column if not exists updated_by text;
+alter table public.categories add column if not exists updated_at timestamptz;
+
+create or replace function public.set_audit_columns()
+returns trigger
+language plpgsql
+as $$
+begin
+  if tg_op = 'INSERT' then
+    new.created_by := coalesce(auth.uid()::text, new.created_by);
+  else
+    new.created_by := old.created_by;
+  end if;
+  new.updated_by := coalesce(auth.uid()::text, new.updated_by);
+  new.updated_at := now();
+  return new;
+end;
+$$;
+
+drop trigger if exists products_set_audit_columns on public.products;
+create trigger products_set_audit_columns
+  before insert or update on public.products
+  for each row execute function public.set_audit_columns();
+
+drop trigger if exists categories_set_audit_columns on public.categories;
+create trigger categories_set_audit_columns
+  before insert or update on public.categories
+  for each row execute function public.set_audit_columns();
+
+-- Role checks. The route guards only hide screens, so the database decides who may change what:
+-- cashiers sell, stock clerks also edit products, receive deliveries and adjust stock, managers also
+-- manage categories.
+
+-- Whether the caller acts as one of p_roles. API requests (the anon and authenticated roles) need a signed-in
+-- user with one of the roles; the service role and direct database sessions are trusted.
+create or replace function public.has_role(variadic p_roles text[])
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce(auth.role(), '') not in ('anon', 'authenticated')
+    or coalesce(public.current_user_role() = any (p_roles), false);
+$$;
+
+alter table public.products enable row level security;
+
+drop policy if exists "Signed-in users read products" on public.products;
+create policy "Signed-in users read products" on public.products
+  for select using (public.has_role('cashier', 'stock_clerk', 'manager'));
+
+drop policy if exists "Stock clerks and managers write products" on public.products;
+create policy "Stock clerks and managers write products" on public.products
+  for all using (public.has_role('stock_clerk', 'manager')) with check (public.has_role('stock_clerk', 'manager'));
+
+alter table public.categories enable row level security;
+
+drop policy if exists "Signed-in users read categories" on public.categories;
+create policy "Signed-in users read categories" on public.categories
+  for select using (public.has_role('cashier', 'stock_clerk', 'manager'));
+
+drop policy if exists "Managers write categories" on public.categories;
+create policy "Managers write categories" on public.categories
+  for all using (public.has_role('manager')) with check (public.has_role('manager'));
+
+-- Suppliers, purchase orders, stocktakes and expiry alerts: readable by everyone signed in, written by stock
+-- clerks and managers
+do $$
+declare
+  v_table text;
+begin
+  foreach v_table in array array[
+    'suppliers',
+    'product_suppliers',
+    'purchase_orders',
+    'purchase_order_lines',
+    'stocktake_sessions',
+    'stocktake_counts',
+    'expiry_alerts'
+  ]
+  loop
+    execute format('alter table public.%I enable row level security', v_table);
+    execute format('drop policy if exists "Signed-in users read %s" on public.%I', v_table, v_table);
+    execute format(
+      'create policy "Signed-in users read %s" on public.%I for select using (public.has_role(%L, %L, %L))',
+      v_table, v_table, 'cashier', 'stock_clerk', 'manager'
+    );
+    execute format('drop policy if exists "Stock clerks and managers write %s" on public.%I', v_table, v_table);
+    execute format(
+      'create policy "Stock clerks and managers write %s" on public.%I for all using (public.has_role(%L, %L)) with check (public.has_role(%L, %L))',
+      v_table, v_table, 'stock_clerk', 'manager', 'stock_clerk', 'manager'
+    );
+  end loop;
+end;
+$$;
+
+-- Every role scans, and clears its device's scan history
+alter table public.scan_events enable row level security;
+
+drop policy if exists "Signed-in users write scan_events" on public.scan_events;
+create policy "Signed-in users write scan_events" on public.scan_events
+  for all using (public.has_role('cashier', 'stock_clerk', 'manager'))
+  with check (public.has_role('cashier', 'stock_clerk', 'manager'));
+
+-- The stock ledger is read by everyone signed in and only written through the stock functions, which run as
+-- their owner so a cashier's sale can update products.stock and the lots
+alter table public.stock_movements enable row level security;
+
+drop policy if exists "Signed-in users read stock_movements" on public.stock_movements;
+create policy "Signed-in users read stock_movements" on public.stock_movements
+  for select using (public.has_role('cashier', 'stock_clerk', 'manager'));
+
+-- Stock clerks and managers also correct lot expiry dates (set_product_expiry)
+alter table public.stock_lots enable row level security;
+
+drop policy if exists "Signed-in users read stock_lots" on public.stock_lots;
+create policy "Signed-in users read stock_lots" on public.stock_lots
+  for select using (public.has_role('cashier', 'stock_clerk', 'manager'));
+
+drop policy if exists "Stock clerks and managers write stock_lots" on public.stock_lots;
+create policy "Stock clerks and managers write stock_lots" on public.stock_lots
+  for all using (public.has_role('stock_clerk', 'manager')) with check (public.has_role('stock_clerk', 'manager'));
+
+alter function public.apply_stock_movement(uuid, numeric, text, text, text, text, date)
+  security definer set search_path = public;
+alter function public.reconcile_stock_ledger(uuid, text)
+  security definer set search_path = public;
+
+-- The scheduled expiry check (/api/expiry-alerts) calls this with the anon key, which can't read products or lots
+-- under the policies above
+alter function public.generate_expiry_alerts(numeric)
+  security definer set search_path = public;
+
+-- Every stock change is a stock movement. Cashiers may only post sales.
+create or replace function public.check_stock_movement_role()
+returns trigger
+language plpgsql
+as $$
+begin
+  if not public.has_role('stock_clerk', 'manager') and not (new.reason = 'sale' and public.has_role('cashier')) then
+    raise exception 'Your role cannot post % stock movements', new.reason using errcode = '42501';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists stock_movements_check_role on public.stock_movements;
+create trigger stock_movements_check_role
+  before insert on public.stock_movements
+  for each row execute function public.check_stock_movement_role();
@@ -0,0 +1,153 @@
+-- Field-level audit log of product and category changes, with single-change revert
+
+create table if not exists public.audit_log (
+  id uuid primary key default gen_random_uuid(),
+  entity_type text not null check (entity_type in ('product', 'category')),
+  entity_id text not null,
+  action text not null check (action in ('insert', 'update', 'delete')),
+  -- { field: { "old": value, "new": value } } for every changed field
+  changes jsonb not null,
+  actor_id text,
+  source text not null default 'system'
+    check (source in ('scanner', 'manual', 'batch', 'incomplete_products', 'revert', 'system')),
+  -- Entry this change reverted
+  revert_of uuid references public.audit_log (id) on delete set null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists audit_log_entity_idx on public.audit_log (entity_type, entity_id, created_at desc);
+create unique index if not exists audit_log_revert_of_idx on public.audit_log (revert_of) where revert_of is not null;
+
+-- The log is written by triggers only
+revoke insert, update, delete on public.audit_log from anon, authenticated;
+
+-- Where a change came from. Clients send an x-change-source header with their writes; functions running in the
+-- database set app.change_source for the transaction instead. The actor is always the signed-in user.
+create or replace function public.change_context(p_key text)
+returns text
+language sql
+stable
+as $$
+  select coalesce(
+    nullif(current_setting('app.change_' || p_key, true), ''),
+    nullif(current_setting('request.headers', true), '')::json ->> ('x-change-' || p_key)
+  );
+$$;
+
+create or replace function public.log_audit_change()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_old jsonb := case when tg_op = 'INSERT' then '{}'::jsonb else to_jsonb(old) end;
+  v_new jsonb := case when tg_op = 'DELETE' then '{}'::jsonb else to_jsonb(new) end;
+  v_changes jsonb;
+  v_source text := coalesce(public.change_context('source'), 'system');
+begin
+  -- Bookkeeping columns, stock which the stock ledger already records, and expiry_date which follows the lots
+  select jsonb_object_agg(key, jsonb_build_object('old', v_old -> key, 'new', v_new -> key))
+    into v_changes
+    from (select jsonb_object_keys(v_old || v_new) as key) keys
+    where key not in ('id', 'stock', 'expiry_date', 'created_at', 'created_by', 'updated_at', 'updated_by')
+      and (v_old -> key) is distinct from (v_new -> key);
+
+  if v_changes is null then
+    return null;
+  end if;
+
+  if v_source not in ('scanner', 'manual', 'batch', 'incomplete_products', 'revert', 'system') then
+    v_source := 'system';
+  end if;
+
+  insert into public.audit_log (entity_type, entity_id, action, changes, actor_id, source, revert_of)
+    values (
+      tg_argv[0],
+      coalesce(v_new ->> 'id', v_old ->> 'id'),
+      lower(tg_op),
+      v_changes,
+      auth.uid()::text,
+      v_source,
+      nullif(current_setting('app.change_revert_of', true), '')::uuid
+    );
+
+  return null;
+end;
+$$;
+
+drop trigger if exists products_audit_log on public.products;
+create trigger products_audit_log
+  after insert or update or delete on public.products
+  for each row execute function public.log_audit_change('product');
+
+drop trigger if exists categories_audit_log on public.categories;
+create trigger categories_audit_log
+  after insert or update or delete on public.categories
+  for each row execute function public.log_audit_change('category');
+
+-- Put back the old values of one logged update. Fields edited again since are left alone;
+-- returns the number of fields restored.
+create or replace function public.revert_audit_change(p_audit_id uuid)
+returns integer
+language plpgsql
+as $$
+declare
+  v_entry public.audit_log;
+  v_table text;
+  v_current jsonb;
+  v_patch jsonb;
+  v_columns text;
+begin
+  if not public.has_role('stock_clerk', 'manager') then
+    raise exception 'Your role cannot revert changes' using errcode = '42501';
+  end if;
+
+  select * into v_entry from public.audit_log where id = p_audit_id;
+
+  if not found then
+    raise exception 'Audit entry % not found', p_audit_id;
+  end if;
+
+  if v_entry.action <> 'update' then
+    raise exception 'Only field changes can be reverted';
+  end if;
+
+  if exists (select 1 from public.audit_log where revert_of = p_audit_id) then
+    raise exception 'This change was already reverted';
+  end if;
+
+  v_table := case v_entry.entity_type when 'product' then 'products' else 'categories' end;
+
+  execute format('select to_jsonb(t) from public.%I t where t.id::text = $1 for update', v_table)
+    into v_current
+    using v_entry.entity_id;
+
+  if v_current is null then
+    raise exception 'The % no longer exists', v_entry.entity_type;
+  end if;
+
+  select jsonb_object_agg(key, value -> 'old'), string_agg(format('%I = r.%I', key, key), ', ')
+    into v_patch, v_columns
+    from jsonb_each(v_entry.changes)
+    where (v_current -> key) is not distinct from (value -> 'new')
+      and v_current ? key;
+
+  if v_patch is null then
+    raise exception 'Every field of this change was edited again since';
+  end if;
+
+  perform set_config('app.change_source', 'revert', true);
+  perform set_config('app.change_revert_of', p_audit_id::text, true);
+
+  execute format(
+    'update public.%I t set %s from jsonb_populate_record(null::public.%I, $1) r where t.id::text = $2',
+    v_table, v_columns, v_table
+  ) using v_current || v_patch, v_entry.entity_id;
+
+  perform set_config('app.change_source', '', true);
+  perform set_config('app.change_revert_of', '', true);
+
+  return (select count(*) from jsonb_object_keys(v_patch));
+end;
+$$;
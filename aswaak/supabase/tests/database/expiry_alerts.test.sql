@@ -0,0 +1,27 @@
+-- Run with `supabase test db`
+begin;
+select plan(2);
+
+insert into public.products (id, name, price, stock, expiry_date, expiry_notification_days)
+  values ('00000000-0000-0000-0000-0000000000b3', 'Expiring test product', '20', 4, current_date + 2, 7);
+
+-- The scheduled route calls generate_expiry_alerts with the anon key
+set local role anon;
+select set_config('request.jwt.claims', '{ "role": "anon" }', true);
+
+select ok(
+  public.generate_expiry_alerts(30) >= 1,
+  'the scheduled check creates alerts with row level security enabled'
+);
+
+reset role;
+select set_config('request.jwt.claims', '', true);
+
+select is(
+  (select suggested_price from public.expiry_alerts where product_id = '00000000-0000-0000-0000-0000000000b3'),
+  14.00,
+  'suggests a markdown for the expiring product'
+);
+
+select * from finish();
+rollback;
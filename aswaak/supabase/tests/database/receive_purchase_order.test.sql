@@ -0,0 +1,35 @@
+-- Run with `supabase test db`
+begin;
+select plan(7);
+
+select is(public.parse_price('12,50'), 12.50, 'reads a comma decimal price');
+select is(public.parse_price(' 12.5 '), 12.5, 'reads a dot decimal price');
+select is(public.parse_price(''), null::numeric, 'an empty price is null');
+select is(public.parse_price('12,50 DH'), 12.50, 'ignores the currency');
+select is(public.parse_price('1.234,50'), null::numeric, 'a price that is not a number is null instead of an error');
+
+insert into public.suppliers (id, name) values ('00000000-0000-0000-0000-0000000000a1', 'Test supplier');
+insert into public.products (id, name, price, stock, purchase_price)
+  values ('00000000-0000-0000-0000-0000000000b1', 'Test product', '15,00', 10, '12,50');
+insert into public.purchase_orders (id, supplier_id, reference, status)
+  values ('00000000-0000-0000-0000-0000000000c1', '00000000-0000-0000-0000-0000000000a1', 'PO-TEST', 'ordered');
+insert into public.purchase_order_lines (purchase_order_id, product_id, quantity, unit_cost)
+  values ('00000000-0000-0000-0000-0000000000c1', '00000000-0000-0000-0000-0000000000b1', 10, 14.50);
+
+select lives_ok(
+  $$ select public.receive_purchase_order(
+       '00000000-0000-0000-0000-0000000000c1',
+       '[{ "product_id": "00000000-0000-0000-0000-0000000000b1", "quantity": 10 }]'
+     ) $$,
+  'receives against a product whose purchase price has a comma decimal'
+);
+
+-- (10 * 12.50 + 10 * 14.50) / 20
+select is(
+  (select purchase_price from public.products where id = '00000000-0000-0000-0000-0000000000b1'),
+  '13.50',
+  'averages the comma decimal price with the delivery cost'
+);
+
+select * from finish();
+rollback;
@@ -0,0 +1,84 @@
+-- Run with `supabase test db`
+begin;
+select plan(8);
+
+insert into auth.users (id, email) values
+  ('00000000-0000-0000-0000-0000000000d1', 'cashier@test'),
+  ('00000000-0000-0000-0000-0000000000d2', 'clerk@test');
+update public.user_profiles set role = 'cashier' where id = '00000000-0000-0000-0000-0000000000d1';
+update public.user_profiles set role = 'stock_clerk' where id = '00000000-0000-0000-0000-0000000000d2';
+insert into public.products (id, name, price, stock)
+  values ('00000000-0000-0000-0000-0000000000b2', 'Role test product', '10', 5);
+insert into public.expiry_alerts (id, product_id, expiry_date, quantity, suggestion, suggested_price)
+  values ('00000000-0000-0000-0000-0000000000e1', '00000000-0000-0000-0000-0000000000b2', current_date, 5, 'markdown', 7);
+update public.products set description = 'Audited change' where id = '00000000-0000-0000-0000-0000000000b2';
+
+set local role authenticated;
+select set_config(
+  'request.jwt.claims',
+  '{ "sub": "00000000-0000-0000-0000-0000000000d1", "role": "authenticated" }',
+  true
+);
+
+select lives_ok(
+  $$ select public.apply_stock_movement('00000000-0000-0000-0000-0000000000b2', -1, 'sale') $$,
+  'a cashier can post a sale'
+);
+select throws_ok(
+  $$ select public.apply_stock_movement('00000000-0000-0000-0000-0000000000b2', 10, 'purchase') $$,
+  '42501',
+  null,
+  'a cashier cannot post a purchase'
+);
+select throws_ok(
+  $$ select public.set_stock_level('00000000-0000-0000-0000-0000000000b2', 50, 'adjustment') $$,
+  '42501',
+  null,
+  'a cashier cannot set the stock level'
+);
+
+update public.products set price = '1' where id = '00000000-0000-0000-0000-0000000000b2';
+select is(
+  (select price from public.products where id = '00000000-0000-0000-0000-0000000000b2'),
+  '10',
+  'a cashier cannot edit a product'
+);
+
+select throws_ok(
+  $$ select public.resolve_expiry_alert('00000000-0000-0000-0000-0000000000e1', 'markdown') $$,
+  '42501',
+  null,
+  'a cashier cannot mark a product down'
+);
+select throws_ok(
+  $$ select public.revert_audit_change(
+       (select id from public.audit_log
+          where entity_id = '00000000-0000-0000-0000-0000000000b2' and changes ? 'description')
+     ) $$,
+  '42501',
+  null,
+  'a cashier cannot revert a change'
+);
+
+select set_config(
+  'request.jwt.claims',
+  '{ "sub": "00000000-0000-0000-0000-0000000000d2", "role": "authenticated" }',
+  true
+);
+
+select lives_ok(
+  $$ select public.set_stock_level('00000000-0000-0000-0000-0000000000b2', 50, 'adjustment') $$,
+  'a stock clerk can set the stock level'
+);
+
+-- A client-sent actor header is ignored
+select set_config('request.headers', '{ "x-change-actor": "someone-else" }', true);
+update public.products set name = 'Renamed role test product' where id = '00000000-0000-0000-0000-0000000000b2';
+select is(
+  (select actor_id from public.audit_log where entity_id = '00000000-0000-0000-0000-0000000000b2' and changes ? 'name'),
+  '00000000-0000-0000-0000-0000000000d2',
+  'the audit log records the signed-in user'
+);
+
+select * from finish();
+rollback;
@@ -0,0 +1,25 @@
+export type AuditEntityType = "product" | "category"
+
+export type AuditAction = "insert" | "update" | "delete"
+
+// Where a change was made
+export type ChangeSource = "scanner" | "manual" | "batch" | "incomplete_products" | "revert" | "system"
+
+export interface FieldChange {
+  old: unknown
+  new: unknown
+}
+
+export interface AuditLogEntry {
+  id: string
+  entity_type: AuditEntityType
+  entity_id: string
+  action: AuditAction
+  // Changed fields only
+  changes: Record<string, FieldChange>
+  actor_id: string | null
+  source: ChangeSource
+  // Entry this change reverted
+  revert_of: string | null
+  created_at: string
+}
@@ -0,0 +1,27 @@
+import type { Product } from "@/types/product"
+import type { StockLot } from "@/types/stock-lot"
+
+export type ExpiryAlertSuggestion = "markdown" | "write_off"
+
+export type ExpiryAlertStatus = "open" | "marked_down" | "written_off" | "dismissed"
+
+export type ExpiryAlertAction = "markdown" | "write_off" | "dismiss"
+
+export interface ExpiryAlert {
+  id: string
+  product_id: string
+  // Null for products whose stock isn't tracked in lots
+  lot_id: string | null
+  expiry_date: string
+  // Quantity in stock when the alert was raised
+  quantity: number
+  suggestion: ExpiryAlertSuggestion
+  // Markdown price, null for write-offs
+  suggested_price: number | null
+  status: ExpiryAlertStatus
+  created_at: string
+  resolved_at: string | null
+  resolved_by: string | null
+  product?: Product | null
+  lot?: StockLot | null
+}
@@ -20,6 +20,7 @@ export interface Product {
   category?: Category | null
   quantity?: string | null
   expiry_date?: string
+  lot_number?: string | null
   expiry_notification_days?: number
   created_at?: string
   updated_at?: string
@@ -29,13 +30,29 @@ export interface Product {
   isExpiringSoon?: boolean
   categories?: Category | null // For backward compatibility
   data_source?: string // Added this property
+  data_source_fields?: ProductFieldSources | null // Which source supplied each field when results were merged
 }
 
+// Values a product form was loaded with, so a save only posts the stock and expiry changes the user made
+export type LoadedProductValues = Pick<Product, "stock" | "expiry_date">
+
+// Fields that can be merged across product sources
+export type ProductSourceField = "name" | "price" | "image" | "quantity" | "brand"
+
+// Maps each merged field to the id of the source that supplied it
+export type ProductFieldSources = Partial<Record<ProductSourceField, string>>
+
 export interface ProductFetchResult {
   name?: string
   price?: string
   image?: string
   barcode?: string
   quantity?: string
+  brand?: string
+  category?: string
+  currency?: string
+  isInStock?: boolean
+  source?: string
+  fieldSources?: ProductFieldSources
 }
 
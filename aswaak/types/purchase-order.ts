@@ -0,0 +1,70 @@
+import type { Product } from "@/types/product"
+
+// How receiving updates a product's purchase_price
+export type CostingMethod = "last" | "average"
+
+export type PurchaseOrderStatus = "draft" | "ordered" | "partially_received" | "received" | "cancelled"
+
+export interface Supplier {
+  id: string
+  name: string
+  contact_name: string | null
+  phone: string | null
+  email: string | null
+  notes: string | null
+  created_at: string
+  updated_at: string
+}
+
+export interface PurchaseOrderLine {
+  id: string
+  purchase_order_id: string
+  product_id: string
+  // 0 for products that were delivered without being ordered
+  quantity: number
+  unit_cost: number
+  received_quantity: number
+  created_at: string
+  product?: Product | null
+}
+
+export interface PurchaseOrder {
+  id: string
+  supplier_id: string
+  reference: string
+  status: PurchaseOrderStatus
+  expected_date: string | null
+  notes: string | null
+  created_by: string | null
+  created_at: string
+  updated_at: string
+  received_at: string | null
+  supplier?: Supplier | null
+  lines?: PurchaseOrderLine[]
+}
+
+// A quantity received against a purchase order during one delivery
+export interface ReceivedItem {
+  productId: string
+  quantity: number
+  // Cost for products that were not on the order
+  unitCost?: number
+  lotNumber?: string
+  expiryDate?: string
+}
+
+// A supplier's catalog entry for a product
+export interface ProductSupplier {
+  id: string
+  product_id: string
+  supplier_id: string
+  supplier_sku: string | null
+  // Units per pack; cost is the price of one pack
+  pack_size: number
+  cost: number
+  lead_time_days: number
+  is_preferred: boolean
+  created_at: string
+  updated_at: string
+  supplier?: Supplier | null
+}
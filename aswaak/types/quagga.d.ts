@@ -1,9 +1,13 @@
 declare module "quagga" {
     interface QuaggaInitConfig {
-      inputStream: {
+      // Image path or data URL, used by decodeSingle
+      src?: string
+      inputStream?: {
         name?: string
-        type: string
-        target: HTMLElement | string
+        type?: string
+        target?: HTMLElement | string
+        // Long side in pixels that decodeSingle scales the image to
+        size?: number
         constraints?: {
           width?: number | { min: number; max?: number }
           height?: number | { min: number; max?: number }
@@ -47,6 +51,7 @@ declare module "quagga" {
           end: number
         }
         decodedCodes: {
+          error?: number
           code: number
           start: number
           end: number
@@ -65,8 +70,9 @@ declare module "quagga" {
       }[]
       angle: number
       pattern: number[]
-      box: [{ x: number; y: number }, { x: number; y: number }, { x: number; y: number }, { x: number; y: number }]
-      boxes: [{ x: number; y: number }, { x: number; y: number }, { x: number; y: number }, { x: number; y: number }][]
+      // Corner points as [x, y] pairs
+      box: number[][]
+      boxes: number[][][]
     }
   
     interface QuaggaStatic {
@@ -77,7 +83,11 @@ declare module "quagga" {
       offDetected(callback: (result: QuaggaResult) => void): void
       onProcessed(callback: (result: QuaggaResult) => void): void
       offProcessed(callback: (result: QuaggaResult) => void): void
-      decodeSingle(config: QuaggaInitConfig, callback: (result: QuaggaResult) => void): void
+      // With decoder.multiple the callback receives one result per barcode found
+      decodeSingle(
+        config: QuaggaInitConfig,
+        callback: (result: QuaggaResult | QuaggaResult[] | undefined) => void,
+      ): void
       registerResultCollector(callback: (result: QuaggaResult) => void): void
       setReaders(readers: string[]): void
     }
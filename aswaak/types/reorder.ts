@@ -0,0 +1,28 @@
+import type { Product } from "@/types/product"
+import type { ProductSupplier, Supplier } from "@/types/purchase-order"
+
+export interface ReorderSuggestion {
+  product: Product
+  // The preferred or cheapest supplier, null when the product has none
+  supplier: ProductSupplier | null
+  stock: number
+  minStock: number
+  dailyConsumption: number
+  leadTimeDays: number
+  packSize: number
+  // Stock at which the product should be reordered
+  reorderPoint: number
+  // Suggested quantity, rounded up to whole packs
+  quantity: number
+  unitCost: number
+}
+
+export interface ReorderGroup {
+  supplier: Supplier | null
+  suggestions: ReorderSuggestion[]
+}
+
+export interface ReorderOptions {
+  lookbackDays: number
+  coverDays: number
+}
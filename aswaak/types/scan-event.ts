@@ -0,0 +1,18 @@
+import type { Product } from "@/types/product"
+
+// How a scan was resolved
+export type ScanEventResult = "found" | "web" | "not_found" | "saved"
+
+export interface ScanEvent {
+  id: string
+  barcode: string
+  result: ScanEventResult
+  product_id: string | null
+  // Name at the time of the scan, kept when the product is deleted later
+  product_name: string | null
+  device_id: string
+  user_agent: string | null
+  user_id: string | null
+  created_at: string
+  product?: Product | null
+}
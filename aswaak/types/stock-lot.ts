@@ -0,0 +1,22 @@
+import type { Product } from "@/types/product"
+
+// A batch of a product's stock with its own expiry date
+export interface StockLot {
+  id: string
+  product_id: string
+  lot_number: string | null
+  expiry_date: string | null
+  quantity: number
+  received_at: string
+  created_at: string
+  // Computed against the product's expiry notification window
+  isExpiringSoon?: boolean
+  product?: Product | null
+}
+
+export interface ExpiringStockLot extends StockLot {
+  expiry_date: string
+  notification_days: number
+  // Negative once the lot has expired
+  days_left: number
+}
@@ -0,0 +1,24 @@
+// Why the stock changed
+export type StockMovementReason = "purchase" | "sale" | "waste" | "adjustment" | "count" | "expired"
+
+export interface StockMovement {
+  id: string
+  product_id: string
+  // Positive for stock coming in, negative for stock going out
+  delta: number
+  reason: StockMovementReason
+  // Receipt, invoice or session the movement belongs to
+  reference: string | null
+  note: string | null
+  stock_after: number
+  user_id: string | null
+  created_at: string
+}
+
+export interface StockLedgerBalance {
+  product_id: string
+  stock: number
+  ledger_stock: number
+  // Stock that changed outside the ledger
+  difference: number
+}
@@ -0,0 +1,36 @@
+import type { Product } from "@/types/product"
+
+export type StocktakeStatus = "open" | "paused" | "approved" | "cancelled"
+
+export interface StocktakeSession {
+  id: string
+  name: string
+  // Scope of the count: a category, a shelf label, or both
+  category_id: string | null
+  shelf: string | null
+  status: StocktakeStatus
+  created_by: string | null
+  approved_by: string | null
+  created_at: string
+  updated_at: string
+  approved_at: string | null
+}
+
+export interface StocktakeCount {
+  id: string
+  session_id: string
+  product_id: string
+  counted: number
+  counted_by: string | null
+  updated_at: string
+  product?: Product | null
+}
+
+// A product's count compared with its current stock
+export interface StocktakeVariance {
+  product: Product
+  // null when the product is in scope but was not counted
+  counted: number | null
+  stock: number
+  variance: number
+}
@@ -7,62 +7,98 @@ export interface Database {
         Row: {
           id: string
           name: string
+          description: string | null
           created_at: string
+          created_by: string | null
+          updated_by: string | null
+          updated_at: string | null
         }
         Insert: {
           id?: string
           name: string
+          description?: string | null
           created_at?: string
+          created_by?: string | null
+          updated_by?: string | null
+          updated_at?: string | null
         }
         Update: {
           id?: string
           name?: string
+          description?: string | null
           created_at?: string
+          created_by?: string | null
+          updated_by?: string | null
+          updated_at?: string | null
         }
         Relationships: []
       }
       products: {
         Row: {
           id: string
-          name: string
-          price: string
+          name: string | null
           barcode: string | null
+          description: string | null
+          price: string | null
+          purchase_price: string | null
           stock: number
           min_stock: number
           image: string | null
           category_id: string | null
-          created_at: string
-          purchase_price: number | null
+          quantity: string | null
           expiry_date: string | null
+          lot_number: string | null
           expiry_notification_days: number | null
+          data_source: string | null
+          data_source_fields: Json | null
+          created_by: string | null
+          updated_by: string | null
+          created_at: string
+          updated_at: string | null
         }
         Insert: {
           id?: string
-          name: string
-          price: string
+          name?: string | null
           barcode?: string | null
+          description?: string | null
+          price?: string | null
+          purchase_price?: string | null
           stock?: number
           min_stock?: number
           image?: string | null
           category_id?: string | null
-          created_at?: string
-          purchase_price?: number | null
+          quantity?: string | null
           expiry_date?: string | null
+          lot_number?: string | null
           expiry_notification_days?: number | null
+          data_source?: string | null
+          data_source_fields?: Json | null
+          created_by?: string | null
+          updated_by?: string | null
+          created_at?: string
+          updated_at?: string | null
         }
         Update: {
           id?: string
-          name?: string
-          price?: string
+          name?: string | null
           barcode?: string | null
+          description?: string | null
+          price?: string | null
+          purchase_price?: string | null
           stock?: number
           min_stock?: number
           image?: string | null
           category_id?: string | null
-          created_at?: string
-          purchase_price?: number | null
+          quantity?: string | null
           expiry_date?: string | null
+          lot_number?: string | null
           expiry_notification_days?: number | null
+          data_source?: string | null
+          data_source_fields?: Json | null
+          created_by?: string | null
+          updated_by?: string | null
+          created_at?: string
+          updated_at?: string | null
         }
         Relationships: [
           {
@@ -73,9 +109,650 @@ export interface Database {
           },
         ]
       }
+      scan_events: {
+        Row: {
+          id: string
+          barcode: string
+          result: string
+          product_id: string | null
+          product_name: string | null
+          device_id: string
+          user_agent: string | null
+          user_id: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          barcode: string
+          result: string
+          product_id?: string | null
+          product_name?: string | null
+          device_id: string
+          user_agent?: string | null
+          user_id?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          barcode?: string
+          result?: string
+          product_id?: string | null
+          product_name?: string | null
+          device_id?: string
+          user_agent?: string | null
+          user_id?: string | null
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "scan_events_product_id_fkey"
+            columns: ["product_id"]
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      stock_movements: {
+        Row: {
+          id: string
+          product_id: string
+          delta: number
+          reason: string
+          reference: string | null
+          note: string | null
+          stock_after: number
+          user_id: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          product_id: string
+          delta: number
+          reason: string
+          reference?: string | null
+          note?: string | null
+          stock_after: number
+          user_id?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          product_id?: string
+          delta?: number
+          reason?: string
+          reference?: string | null
+          note?: string | null
+          stock_after?: number
+          user_id?: string | null
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "stock_movements_product_id_fkey"
+            columns: ["product_id"]
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      stocktake_sessions: {
+        Row: {
+          id: string
+          name: string
+          category_id: string | null
+          shelf: string | null
+          status: string
+          created_by: string | null
+          approved_by: string | null
+          created_at: string
+          updated_at: string
+          approved_at: string | null
+        }
+        Insert: {
+          id?: string
+          name: string
+          category_id?: string | null
+          shelf?: string | null
+          status?: string
+          created_by?: string | null
+          approved_by?: string | null
+          created_at?: string
+          updated_at?: string
+          approved_at?: string | null
+        }
+        Update: {
+          id?: string
+          name?: string
+          category_id?: string | null
+          shelf?: string | null
+          status?: string
+          created_by?: string | null
+          approved_by?: string | null
+          created_at?: string
+          updated_at?: string
+          approved_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "stocktake_sessions_category_id_fkey"
+            columns: ["category_id"]
+            referencedRelation: "categories"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      stocktake_counts: {
+        Row: {
+          id: string
+          session_id: string
+          product_id: string
+          counted: number
+          counted_by: string | null
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          session_id: string
+          product_id: string
+          counted?: number
+          counted_by?: string | null
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          session_id?: string
+          product_id?: string
+          counted?: number
+          counted_by?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "stocktake_counts_session_id_fkey"
+            columns: ["session_id"]
+            referencedRelation: "stocktake_sessions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stocktake_counts_product_id_fkey"
+            columns: ["product_id"]
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      suppliers: {
+        Row: {
+          id: string
+          name: string
+          contact_name: string | null
+          phone: string | null
+          email: string | null
+          notes: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          name: string
+          contact_name?: string | null
+          phone?: string | null
+          email?: string | null
+          notes?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          name?: string
+          contact_name?: string | null
+          phone?: string | null
+          email?: string | null
+          notes?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      purchase_orders: {
+        Row: {
+          id: string
+          supplier_id: string
+          reference: string
+          status: string
+          expected_date: string | null
+          notes: string | null
+          created_by: string | null
+          created_at: string
+          updated_at: string
+          received_at: string | null
+        }
+        Insert: {
+          id?: string
+          supplier_id: string
+          reference: string
+          status?: string
+          expected_date?: string | null
+          notes?: string | null
+          created_by?: string | null
+          created_at?: string
+          updated_at?: string
+          received_at?: string | null
+        }
+        Update: {
+          id?: string
+          supplier_id?: string
+          reference?: string
+          status?: string
+          expected_date?: string | null
+          notes?: string | null
+          created_by?: string | null
+          created_at?: string
+          updated_at?: string
+          received_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "purchase_orders_supplier_id_fkey"
+            columns: ["supplier_id"]
+            referencedRelation: "suppliers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      purchase_order_lines: {
+        Row: {
+          id: string
+          purchase_order_id: string
+          product_id: string
+          quantity: number
+          unit_cost: number
+          received_quantity: number
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          purchase_order_id: string
+          product_id: string
+          quantity?: number
+          unit_cost?: number
+          received_quantity?: number
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          purchase_order_id?: string
+          product_id?: string
+          quantity?: number
+          unit_cost?: number
+          received_quantity?: number
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "purchase_order_lines_purchase_order_id_fkey"
+            columns: ["purchase_order_id"]
+            referencedRelation: "purchase_orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "purchase_order_lines_product_id_fkey"
+            columns: ["product_id"]
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      product_suppliers: {
+        Row: {
+          id: string
+          product_id: string
+          supplier_id: string
+          supplier_sku: string | null
+          pack_size: number
+          cost: number
+          lead_time_days: number
+          is_preferred: boolean
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          product_id: string
+          supplier_id: string
+          supplier_sku?: string | null
+          pack_size?: number
+          cost?: number
+          lead_time_days?: number
+          is_preferred?: boolean
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          product_id?: string
+          supplier_id?: string
+          supplier_sku?: string | null
+          pack_size?: number
+          cost?: number
+          lead_time_days?: number
+          is_preferred?: boolean
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "product_suppliers_product_id_fkey"
+            columns: ["product_id"]
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "product_suppliers_supplier_id_fkey"
+            columns: ["supplier_id"]
+            referencedRelation: "suppliers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      stock_lots: {
+        Row: {
+          id: string
+          product_id: string
+          lot_number: string | null
+          expiry_date: string | null
+          quantity: number
+          received_at: string
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          product_id: string
+          lot_number?: string | null
+          expiry_date?: string | null
+          quantity?: number
+          received_at?: string
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          product_id?: string
+          lot_number?: string | null
+          expiry_date?: string | null
+          quantity?: number
+          received_at?: string
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "stock_lots_product_id_fkey"
+            columns: ["product_id"]
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      expiry_alerts: {
+        Row: {
+          id: string
+          product_id: string
+          lot_id: string | null
+          expiry_date: string
+          quantity: number
+          suggestion: string
+          suggested_price: number | null
+          status: string
+          created_at: string
+          resolved_at: string | null
+          resolved_by: string | null
+        }
+        Insert: {
+          id?: string
+          product_id: string
+          lot_id?: string | null
+          expiry_date: string
+          quantity: number
+          suggestion: string
+          suggested_price?: number | null
+          status?: string
+          created_at?: string
+          resolved_at?: string | null
+          resolved_by?: string | null
+        }
+        Update: {
+          id?: string
+          product_id?: string
+          lot_id?: string | null
+          expiry_date?: string
+          quantity?: number
+          suggestion?: string
+          suggested_price?: number | null
+          status?: string
+          created_at?: string
+          resolved_at?: string | null
+          resolved_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "expiry_alerts_product_id_fkey"
+            columns: ["product_id"]
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "expiry_alerts_lot_id_fkey"
+            columns: ["lot_id"]
+            referencedRelation: "stock_lots"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      user_profiles: {
+        Row: {
+          id: string
+          email: string | null
+          display_name: string | null
+          role: string
+          created_at: string
+        }
+        Insert: {
+          id: string
+          email?: string | null
+          display_name?: string | null
+          role?: string
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          email?: string | null
+          display_name?: string | null
+          role?: string
+          created_at?: string
+        }
+        Relationships: []
+      }
+      audit_log: {
+        Row: {
+          id: string
+          entity_type: string
+          entity_id: string
+          action: string
+          changes: Json
+          actor_id: string | null
+          source: string
+          revert_of: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          entity_type: string
+          entity_id: string
+          action: string
+          changes: Json
+          actor_id?: string | null
+          source?: string
+          revert_of?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          entity_type?: string
+          entity_id?: string
+          action?: string
+          changes?: Json
+          actor_id?: string | null
+          source?: string
+          revert_of?: string | null
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "audit_log_revert_of_fkey"
+            columns: ["revert_of"]
+            referencedRelation: "audit_log"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+    }
+    Views: {
+      stock_ledger_balances: {
+        Row: {
+          product_id: string
+          stock: number
+          ledger_stock: number
+          difference: number
+        }
+        Relationships: []
+      }
+      expiring_stock_lots: {
+        Row: {
+          id: string
+          product_id: string
+          lot_number: string | null
+          expiry_date: string
+          quantity: number
+          received_at: string
+          created_at: string
+          notification_days: number
+          days_left: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "stock_lots_product_id_fkey"
+            columns: ["product_id"]
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+    }
+    Functions: {
+      apply_stock_movement: {
+        Args: {
+          p_product_id: string
+          p_delta: number
+          p_reason: string
+          p_reference?: string | null
+          p_note?: string | null
+          p_lot_number?: string | null
+          p_expiry_date?: string | null
+        }
+        Returns: Database["public"]["Tables"]["stock_movements"]["Row"]
+      }
+      set_product_expiry: {
+        Args: {
+          p_product_id: string
+          p_expiry_date: string | null
+          p_lot_number?: string | null
+        }
+        Returns: string | null
+      }
+      set_stock_level: {
+        Args: {
+          p_product_id: string
+          p_stock: number
+          p_reason: string
+          p_reference?: string | null
+          p_note?: string | null
+        }
+        Returns: Database["public"]["Tables"]["stock_movements"]["Row"] | null
+      }
+      add_stocktake_count: {
+        Args: {
+          p_session_id: string
+          p_product_id: string
+          p_quantity: number
+          p_replace?: boolean
+        }
+        Returns: Database["public"]["Tables"]["stocktake_counts"]["Row"]
+      }
+      approve_stocktake: {
+        Args: {
+          p_session_id: string
+          p_zero_uncounted?: boolean
+        }
+        Returns: number
+      }
+      reconcile_stock_ledger: {
+        Args: {
+          p_product_id?: string | null
+          p_reference?: string
+        }
+        Returns: number
+      }
+      receive_purchase_order: {
+        Args: {
+          p_order_id: string
+          p_items: Json
+          p_costing?: string
+        }
+        Returns: Database["public"]["Tables"]["purchase_orders"]["Row"]
+      }
+      set_preferred_supplier: {
+        Args: {
+          p_product_id: string
+          p_supplier_id: string | null
+        }
+        Returns: undefined
+      }
+      stock_consumption: {
+        Args: {
+          p_days?: number
+        }
+        Returns: { product_id: string; consumed: number }[]
+      }
+      generate_expiry_alerts: {
+        Args: {
+          p_markdown_percent?: number
+        }
+        Returns: number
+      }
+      resolve_expiry_alert: {
+        Args: {
+          p_alert_id: string
+          p_action: string
+          p_price?: number | null
+        }
+        Returns: Database["public"]["Tables"]["expiry_alerts"]["Row"]
+      }
+      current_user_role: {
+        Args: Record<PropertyKey, never>
+        Returns: string | null
+      }
+      has_role: {
+        Args: {
+          p_roles: string[]
+        }
+        Returns: boolean
+      }
+      revert_audit_change: {
+        Args: {
+          p_audit_id: string
+        }
+        Returns: number
+      }
     }
-    Views: {}
-    Functions: {}
     Enums: {}
     CompositeTypes: {}
   }